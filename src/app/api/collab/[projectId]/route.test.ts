@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const session = vi.hoisted(() => ({ userId: null as string | null }));
+
+vi.mock('@/auth', () => ({
+  auth: async () => (session.userId ? { user: { id: session.userId } } : null),
+}));
+
+// The API as the route sees it: project 1 is ada's, bob is a viewer
+function stubApi() {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    if (url.endsWith('/api/projects/1')) return Response.json({ Id: 1, UserId: 'ada' });
+    if (url.endsWith('/api/project-members?projectId=1')) {
+      return Response.json([{ Id: 1, ProjectId: 1, UserId: 'bob', Role: 'viewer', Status: 'accepted' }]);
+    }
+    return new Response(null, { status: 404 });
+  }));
+}
+
+async function load() {
+  vi.resetModules();
+  delete (globalThis as { collabRooms?: unknown }).collabRooms;
+  return import('./route');
+}
+
+const params = { params: Promise.resolve({ projectId: '1' }) };
+
+const subscribe = (route: Awaited<ReturnType<typeof load>>, sessionId: string) =>
+  route.GET(new NextRequest(`http://app/api/collab/1?sessionId=${sessionId}`), params);
+
+const post = (route: Awaited<ReturnType<typeof load>>, body: unknown) =>
+  route.POST(new NextRequest('http://app/api/collab/1', { method: 'POST', body: JSON.stringify(body) }), params);
+
+const change = (sessionId: string) => ({ type: 'change', sessionId, entity: 'node', action: 'delete', id: 3, snapshot: null });
+
+async function readEvents(response: Response, count: number): Promise<unknown[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (text.split('\n\n').filter(Boolean).length < count) {
+    text += decoder.decode((await reader.read()).value);
+  }
+  reader.cancel();
+  return text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.replace(/^data: /, '')));
+}
+
+describe('collab route', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_COLLAB_RELAY', 'memory');
+    stubApi();
+    session.userId = null;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses to subscribe or publish without a session', async () => {
+    const route = await load();
+
+    expect((await subscribe(route, 's1')).status).toBe(401);
+    expect((await post(route, change('s1'))).status).toBe(401);
+  });
+
+  it('refuses users who are not members of the project', async () => {
+    const route = await load();
+    session.userId = 'mallory';
+
+    expect((await subscribe(route, 's1')).status).toBe(403);
+    expect((await post(route, change('s1'))).status).toBe(403);
+  });
+
+  it('streams what one member publishes to the others', async () => {
+    const route = await load();
+    session.userId = 'bob';
+    const stream = await subscribe(route, 's2');
+    expect(stream.status).toBe(200);
+
+    session.userId = 'ada';
+    await subscribe(route, 's1');
+    expect((await post(route, change('s1'))).status).toBe(204);
+
+    expect(await readEvents(stream, 2)).toEqual([{ type: 'welcome', peers: [] }, change('s1')]);
+  });
+
+  it('does not let a viewer publish changes, or anyone publish as another session', async () => {
+    const route = await load();
+    session.userId = 'bob';
+    await subscribe(route, 's2');
+
+    expect((await post(route, change('s2'))).status).toBe(403);
+
+    session.userId = 'ada';
+    expect((await subscribe(route, 's2')).status).toBe(409);
+    expect((await post(route, change('s2'))).status).toBe(403);
+  });
+
+  it('stays off where the in-process relay cannot work', async () => {
+    vi.stubEnv('NEXT_PUBLIC_COLLAB_RELAY', '');
+    const route = await load();
+    session.userId = 'ada';
+
+    expect((await subscribe(route, 's1')).status).toBe(503);
+  });
+});
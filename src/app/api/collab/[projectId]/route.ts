@@ -0,0 +1,150 @@
+// app/api/collab/[projectId]/route.ts
+
+import { NextResponse, NextRequest } from 'next/server';
+import { auth } from '@/auth';
+import { joinRoom, publish } from '@/lib/collabRelay';
+import { IN_PROCESS_RELAY } from '@/lib/collabChannel';
+import { getProjectRole, canEdit } from '@/lib/projectRoles';
+import type { CollabMessage, Project, ProjectMember, ProjectRole } from '@/types/knowledge';
+
+// Relays live edits between the tabs that have a project open: events stream
+// down over Server-Sent Events, and each tab POSTs what it changes. Only
+// signed-in members get in; see IN_PROCESS_RELAY in collabChannel.ts for where it runs.
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+// The API answers in PascalCase
+function toCamel(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toCamel);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key.charAt(0).toLowerCase() + key.slice(1), toCamel(v)]));
+  }
+  return value;
+}
+
+// The user's role in the project, as the API has the project and its members
+async function roleInProject(projectId: number, userId: string): Promise<ProjectRole | null> {
+  const apiUrl = process.env.NEXT_PRIVATE_API_URL?.trim() || process.env.NEXT_PUBLIC_API_URL?.trim() || 'https://localhost:7007';
+  const [project, members] = await Promise.all([
+    fetch(`${apiUrl}/api/projects/${projectId}`, { cache: 'no-store' }),
+    fetch(`${apiUrl}/api/project-members?projectId=${projectId}`, { cache: 'no-store' }),
+  ]);
+  if (!project.ok || !members.ok) return null;
+  return getProjectRole(
+    toCamel(await project.json()) as Project,
+    userId,
+    toCamel(await members.json()) as ProjectMember[]
+  );
+}
+
+async function signedInUserId(): Promise<string | null> {
+  const session = await auth();
+  return session?.user?.id ?? null;
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  if (!IN_PROCESS_RELAY) {
+    return NextResponse.json({ message: 'Live collaboration is not available here' }, { status: 503 });
+  }
+  const { projectId } = await context.params;
+  const sessionId = req.nextUrl.searchParams.get('sessionId');
+  if (!sessionId) {
+    return NextResponse.json({ message: 'sessionId is required' }, { status: 400 });
+  }
+  const userId = await signedInUserId();
+  if (!userId) {
+    return NextResponse.json({ message: 'Sign in to join this project' }, { status: 401 });
+  }
+  const role = await roleInProject(Number(projectId), userId).catch(() => null);
+  if (!role) {
+    return NextResponse.json({ message: 'You are not a member of this project' }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+  let joined = false;
+
+  // start runs as the stream is made, so `joined` is known right after
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const member = { userId, canEdit: canEdit(role) };
+      const leave = joinRoom(Number(projectId), sessionId, member, message => write(`data: ${JSON.stringify(message)}\n\n`));
+      if (!leave) {
+        controller.close();
+        return;
+      }
+      joined = true;
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        leave();
+      };
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  if (!joined) {
+    return NextResponse.json({ message: 'This session belongs to someone else' }, { status: 409 });
+  }
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const userId = await signedInUserId();
+  if (!userId) {
+    return NextResponse.json({ message: 'Sign in to join this project' }, { status: 401 });
+  }
+  const { projectId } = await context.params;
+  const message = await req.json().catch(() => null) as CollabMessage | null;
+
+  const sessionId = !message ? null
+    : message.type === 'presence' ? message.presence?.sessionId
+      : message.type === 'change' || message.type === 'move' || message.type === 'leave' ? message.sessionId
+        : null;
+
+  if (!message || !sessionId) {
+    return NextResponse.json({ message: 'Invalid message' }, { status: 400 });
+  }
+
+  // Membership was checked when the session joined
+  if (!publish(Number(projectId), message, sessionId, userId)) {
+    return NextResponse.json({ message: 'This session has not joined the project, or may not edit it' }, { status: 403 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,75 @@
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// The API as the route sees it: link abc guards project 1 with the password hunter2
+function stubApi() {
+  const passwordHash = createHash('sha256').update('abc:hunter2').digest('hex');
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    if (url.endsWith('/api/share-links/token/abc')) {
+      return Response.json({ Id: 1, ProjectId: 1, Token: 'abc', PasswordHash: passwordHash, ExpiresAt: null, RevokedAt: null });
+    }
+    if (url.endsWith('/api/projects/1/snapshot')) return Response.json({ Revision: 1 });
+    return new Response(null, { status: 204 });
+  }));
+}
+
+async function load() {
+  vi.resetModules();
+  delete (globalThis as { shareAttempts?: unknown }).shareAttempts;
+  return import('./route');
+}
+
+const params = { params: Promise.resolve({ token: 'abc' }) };
+
+const open = (route: Awaited<ReturnType<typeof load>>, password: string, address = '10.0.0.1') =>
+  route.POST(new NextRequest('http://app/api/share/abc', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': address },
+    body: JSON.stringify({ password }),
+  }), params);
+
+describe('share route', () => {
+  beforeEach(() => {
+    stubApi();
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('opens the project with the right password', async () => {
+    const route = await load();
+
+    const response = await open(route, 'hunter2');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ snapshot: { revision: 1 } });
+  });
+
+  it('makes a visitor wait after five wrong passwords, longer after each further miss', async () => {
+    const route = await load();
+    for (let i = 0; i < 5; i++) expect((await open(route, 'guess')).status).toBe(401);
+
+    const locked = await open(route, 'hunter2');
+    expect(locked.status).toBe(429);
+    expect(locked.headers.get('Retry-After')).toBe('30');
+    expect(await locked.json()).toEqual({ reason: 'too-many-attempts' });
+    expect((await open(route, 'hunter2', '10.0.0.2')).status).toBe(200);
+
+    vi.advanceTimersByTime(30_000);
+    expect((await open(route, 'guess')).status).toBe(401);
+    expect((await open(route, 'hunter2')).headers.get('Retry-After')).toBe('60');
+  });
+
+  it('starts counting afresh once the right password is given', async () => {
+    const route = await load();
+    for (let i = 0; i < 4; i++) await open(route, 'guess');
+
+    expect((await open(route, 'hunter2')).status).toBe(200);
+    for (let i = 0; i < 4; i++) await open(route, 'guess');
+    expect((await open(route, 'hunter2')).status).toBe(200);
+  });
+});
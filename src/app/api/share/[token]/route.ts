@@ -0,0 +1,90 @@
+// app/api/share/[token]/route.ts
+
+import { NextResponse, NextRequest } from 'next/server';
+import { checkShareAccess, type StoredShareLink } from '@/lib/shareLinks';
+import { clearAttempts, getLockout, recordFailedAttempt } from '@/lib/shareAttempts';
+
+// Opens a share link: checks it on the server, so the password hash never
+// reaches the visitor, and answers with the project itself. Visitors never
+// need its id, so nothing opens it without the link. With `since` it answers
+// with the changes after that revision instead, checking the link again.
+// Wrong passwords are throttled per link and visitor, see shareAttempts.ts.
+
+export const dynamic = 'force-dynamic';
+
+// The API answers in PascalCase
+function toCamel(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toCamel);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key.charAt(0).toLowerCase() + key.slice(1), toCamel(v)]));
+  }
+  return value;
+}
+
+// The visitor's address as the proxy in front of us saw it
+function clientAddress(req: NextRequest): string {
+  return req.headers.get('cf-connecting-ip')
+    || req.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || req.headers.get('x-real-ip')
+    || 'unknown';
+}
+
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await context.params;
+    const { password, since } = await req.json().catch(() => ({})) as { password?: string; since?: number };
+    const apiUrl = process.env.NEXT_PRIVATE_API_URL?.trim() || process.env.NEXT_PUBLIC_API_URL?.trim() || 'https://localhost:7007';
+
+    const response = await fetch(`${apiUrl}/api/share-links/token/${encodeURIComponent(token)}`, { cache: 'no-store' });
+    if (response.status === 404) {
+      return NextResponse.json({ reason: 'not-found' }, { status: 404 });
+    }
+    if (!response.ok) {
+      return NextResponse.json({ message: 'Failed to open share link' }, { status: response.status });
+    }
+
+    const link = toCamel(await response.json()) as StoredShareLink;
+    const attemptKey = `${token}:${clientAddress(req)}`;
+    const lockout = password ? getLockout(attemptKey) : 0;
+    if (lockout > 0) {
+      return NextResponse.json(
+        { reason: 'too-many-attempts' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(lockout / 1000)) } }
+      );
+    }
+
+    const denial = await checkShareAccess(link, password);
+    if (denial === 'wrong-password') recordFailedAttempt(attemptKey);
+    else if (!denial && password) clearAttempts(attemptKey);
+    if (denial) {
+      const status = denial === 'password' || denial === 'wrong-password' ? 401 : 410;
+      return NextResponse.json({ reason: denial }, { status });
+    }
+
+    const refreshing = Number.isInteger(since);
+    const content = await fetch(
+      refreshing
+        ? `${apiUrl}/api/projects/${link.projectId}/changes?since=${since}`
+        : `${apiUrl}/api/projects/${link.projectId}/snapshot`,
+      { cache: 'no-store' }
+    );
+    if (!content.ok) {
+      return NextResponse.json({ message: 'Failed to open share link' }, { status: content.status });
+    }
+    const data = toCamel(await content.json());
+    if (refreshing) return NextResponse.json({ changeSet: data });
+
+    // Counted by the API, so views at the same time all count
+    await fetch(`${apiUrl}/api/share-links/${link.id}/views`, { method: 'POST' }).catch(() => { });
+
+    return NextResponse.json({ snapshot: data });
+  } catch {
+    return NextResponse.json(
+      { message: 'Failed to open share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,23 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useMemo, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Github } from 'lucide-react';
 
 import { useGraphStore } from '@/store/useGraphStore';
 import { useAuthStore } from '@/store/useAuthStore';
+import { useProgressStore } from '@/store/useProgressStore';
+import { useMembersStore } from '@/store/useMembersStore';
 import { useToast } from '@/context/ToastContext';
 import { Project } from '@/types/knowledge';
 import { api } from '@/lib/api';
 import { getFriendlyErrorMessage } from '@/utils/errorUtils';
+import { importNxusProject } from '@/lib/projectCopy';
+import type { NxusImport } from '@/lib/projectExport';
 
 import { LoadingScreen, LoadingOverlay } from '@/components/ui';
 import { Navbar, AuthNav } from '@/components/layout';
-import { ProjectGrid, ProjectsToolbar, CreateProjectModal, EditProjectModal } from '@/components/projects';
+import { ProjectGrid, ProjectsToolbar, CreateProjectModal, EditProjectModal, ImportProjectModal, InvitationsList } from '@/components/projects';
 import { WelcomeHero } from '@/components/home/WelcomeHero';
 import { AuthModal } from '@/components/auth/AuthModal';
 
@@ -57,13 +61,19 @@ export default function HomePage() {
 
   const { showToast, showConfirmation } = useToast();
 
-  const { user, isAuthenticated, hasHydrated } = useAuthStore();
+  const { user, isAuthenticated, hasHydrated, startLocalSession } = useAuthStore();
 
   const [searchQuery, setSearchQuery] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isStartingLocal, setIsStartingLocal] = useState(false);
+  const loadUserProgress = useProgressStore((s) => s.loadUserProgress);
+  const memberships = useMembersStore((s) => s.memberships);
+  const loadMemberships = useMembersStore((s) => s.loadMemberships);
+  const invitations = useMemo(() => memberships.filter(m => m.status === 'pending'), [memberships]);
 
   useEffect(() => {
     if (user?.id) {
@@ -77,8 +87,17 @@ export default function HomePage() {
 
       setLoading(true);
       try {
-        const fetchedProjects = await api.projects.getByUser(user.id);
-        setProjects(fetchedProjects);
+        const [fetchedProjects, userMemberships] = await Promise.all([
+          api.projects.getByUser(user.id),
+          loadMemberships(user.id),
+        ]);
+        // Projects shared with the user, once they accepted the invitation
+        const sharedIds = userMemberships
+          .filter(m => m.status === 'accepted' && !fetchedProjects.some(p => p.id === m.projectId))
+          .map(m => m.projectId);
+        const sharedProjects = await Promise.all(sharedIds.map(id => api.projects.getById(id).catch(() => null)));
+        setProjects([...fetchedProjects, ...sharedProjects.filter((p): p is Project => !!p)]);
+        loadUserProgress(user.id);
       } catch (err) {
         setProjects([]);
       } finally {
@@ -89,7 +108,7 @@ export default function HomePage() {
     if (isAuthenticated && user) {
       loadProjects();
     }
-  }, [user, isAuthenticated, setProjects, setLoading]);
+  }, [user, isAuthenticated, setProjects, setLoading, loadUserProgress, loadMemberships]);
 
   const filteredProjects = projects
     .filter((p) =>
@@ -120,6 +139,25 @@ export default function HomePage() {
     }
   };
 
+  const handleImportProject = async (nxus: NxusImport) => {
+    if (!user?.id) return false;
+
+    setLoading(true);
+    try {
+      const imported = await importNxusProject(nxus, user.id, projects);
+      addProject(imported);
+      setIsImportOpen(false);
+      showToast(`Imported "${imported.name}"`);
+      return true;
+    } catch (err) {
+      console.error('Failed to import project:', err);
+      showToast(getFriendlyErrorMessage(err), 'error');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleOpenProject = (project: Project) => {
     setCurrentProject(project);
     router.push('/project/editor');
@@ -171,6 +209,17 @@ export default function HomePage() {
     setShowAuthModal(true);
   };
 
+  const handleTryLocal = async () => {
+    setIsStartingLocal(true);
+    try {
+      await startLocalSession();
+    } catch (err) {
+      showToast(getFriendlyErrorMessage(err), 'error');
+    } finally {
+      setIsStartingLocal(false);
+    }
+  };
+
   if (!hasHydrated) {
     return <LoadingScreen />;
   }
@@ -197,6 +246,8 @@ export default function HomePage() {
           <WelcomeHero
             onSignup={() => openAuth('signup')}
             onLogin={() => openAuth('login')}
+            onTryLocal={handleTryLocal}
+            isStartingLocal={isStartingLocal}
           />
         ) : (
           <>
@@ -204,12 +255,18 @@ export default function HomePage() {
               <h2 className="text-2xl font-bold text-white">Projects</h2>
             </div>
 
+            <InvitationsList
+              invitations={invitations}
+              onAccepted={(project) => addProject(project)}
+            />
+
             <ProjectsToolbar
               searchQuery={searchQuery}
               onSearchChange={setSearchQuery}
               viewMode={viewMode}
               onViewModeChange={setViewMode}
               onCreateProject={() => toggleCreateProject(true)}
+              onImportProject={() => setIsImportOpen(true)}
             />
 
             {isLoading ? (
@@ -234,6 +291,13 @@ export default function HomePage() {
         loading={isLoading}
       />
 
+      <ImportProjectModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImport={handleImportProject}
+        loading={isLoading}
+      />
+
       {editingProject && (
         <EditProjectModal
           isOpen={true}
@@ -7,6 +7,10 @@ import { Plus, Search } from 'lucide-react';
 import { useGraphStore, filterNodes } from '@/store/useGraphStore';
 import { useAuthStore } from '@/store/useAuthStore';
 import { api } from '@/lib/api';
+import { getProjectRole } from '@/lib/projectRoles';
+import { useMembersStore } from '@/store/useMembersStore';
+import { useProjectRole } from '@/hooks/useProjectRole';
+import { useSnapshotRefresh } from '@/hooks/useSnapshotRefresh';
 
 import { LoadingScreen, LoadingOverlay } from '@/components/ui';
 import { SearchInput } from '@/components/ui/Input';
@@ -15,8 +19,11 @@ import { ProjectNavbar } from '@/components/layout';
 import { GraphCanvas, GraphCanvasHandle } from '@/components/graph/GraphCanvas';
 import { GraphControls } from '@/components/graph/GraphControls';
 import { NodeEditor } from '@/components/editor/NodeEditor';
+import { NodePreviewPane } from '@/components/editor/NodePreviewPane';
 import { CommandPalette } from '@/components/ui/CommandPalette';
 import { exportProjectAsNxus } from '@/lib/projectExport';
+import { exportProjectAs, type ProjectExportFormat } from '@/lib/graphFormats';
+import { getRelationshipVocabulary } from '@/lib/relationshipTypes';
 import { ClassroomIntegration } from '@/components/classroom/ClassroomIntegration';
 
 export default function ProjectPage({ params }: { params: Promise<{ id: string }> }) {
@@ -37,6 +44,7 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
     setNodes,
     links,
     setLinks,
+    applyProjectSnapshot,
     searchQuery,
     setSearchQuery,
     graphSettings,
@@ -46,9 +54,12 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
     setLoading,
     shapes,
     groups,
+    relationshipTypes,
     toggleCommandPalette,
   } = useGraphStore();
 
+  const { isReadOnly } = useProjectRole(currentProject?.id === id ? currentProject : null);
+
   useEffect(() => {
     setIsMounted(true);
   }, []);
@@ -70,24 +81,18 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
       setError(null);
 
       try {
-        const project = await api.projects.getById(id);
+        const [snapshot, members] = await Promise.all([
+          api.projects.getSnapshot(id),
+          useMembersStore.getState().loadMembers(id),
+        ]);
 
-        // Ownership Check
-        if (project.userId !== user?.id) {
+        // Owner or accepted member
+        if (!getProjectRole(snapshot.project, user?.id, members)) {
           throw new Error("Unauthorized");
         }
 
-        setCurrentProject(project);
-
-        const projectNodes = await api.nodes.getByProject(id);
-        setNodes(projectNodes);
-
-        const allLinks = await api.links.getAll();
-        const nodeIds = new Set(projectNodes.map(n => n.id));
-        const projectLinks = allLinks.filter(
-          l => nodeIds.has(l.sourceId) || nodeIds.has(l.targetId)
-        );
-        setLinks(projectLinks);
+        setCurrentProject(snapshot.project);
+        applyProjectSnapshot(snapshot);
       } catch (err: any) {
         if (err.message === "Unauthorized") {
           router.push('/');
@@ -117,7 +122,10 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
     return () => {
       dataLoadedRef.current = false;
     };
-  }, [id, hasHydrated, isAuthenticated, setCurrentProject, setNodes, setLinks, setLoading]);
+  }, [id, hasHydrated, isAuthenticated, setCurrentProject, setNodes, setLinks, applyProjectSnapshot, setLoading]);
+
+  const refreshProjectSnapshot = useGraphStore(state => state.refreshProjectSnapshot);
+  useSnapshotRefresh(refreshProjectSnapshot);
 
   const handleCreateNode = async () => {
     if (!currentProject) return;
@@ -197,7 +205,7 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
           customColor: randomColor,
           x: randomX,
           y: randomY,
-        }).catch(
+        }).then(saved => useGraphStore.getState().keepSavedVersion(saved)).catch(
           // err => console.error('Failed to persist initial node properties:', err)
         );
       }
@@ -225,12 +233,23 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
     if (!currentProject) return;
 
     try {
-      await exportProjectAsNxus(currentProject, nodes, links, shapes, groups);
+      await exportProjectAsNxus(currentProject, nodes, links, shapes, groups, relationshipTypes.filter(t => t.projectId === currentProject.id));
     } catch (err) {
       // console.error('Failed to export project:', err);
     }
   };
 
+  const handleExportData = (format: ProjectExportFormat) => {
+    const projectTypes = relationshipTypes.filter(t => t.projectId === currentProject.id);
+    exportProjectAs(format, {
+      project: currentProject,
+      nodes,
+      links,
+      groups,
+      relationshipTypes: getRelationshipVocabulary(projectTypes, currentProject.id),
+    });
+  };
+
   return (
     <div className="flex h-screen flex-col overflow-hidden bg-zinc-950">
       <ProjectNavbar
@@ -238,8 +257,9 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
         projectColor={currentProject?.color}
         nodeCount={filteredNodes.length}
         onExportPNG={handleExportPNG}
-        onAddNode={handleCreateNode}
-        onAddNodeFromClassroom={() => setIsClassroomModalOpen(true)}
+        onExportData={handleExportData}
+        onAddNode={isReadOnly ? undefined : handleCreateNode}
+        onAddNodeFromClassroom={isReadOnly ? undefined : () => setIsClassroomModalOpen(true)}
         isAddingNode={isLoading}
       />
 
@@ -262,7 +282,7 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
         )}
       </div>
 
-      <NodeEditor />
+      {isReadOnly ? <NodePreviewPane /> : <NodeEditor />}
       <CommandPalette />
       <ClassroomIntegration
         isOpen={isClassroomModalOpen}
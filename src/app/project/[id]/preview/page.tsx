@@ -3,18 +3,36 @@
 import { use, useEffect, useState, useRef, useMemo, useCallback } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
-import { ArrowLeft } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Lock, Loader2 } from 'lucide-react';
 
-import { api, ApiDrawing } from '@/lib/api';
+import { api } from '@/lib/api';
 import { NODE_COLORS } from '@/lib/constants';
 import { LoadingScreen } from '@/components/ui';
-import { Node, Link as LinkType, DrawnShape, Group } from '@/types/knowledge';
+import { Node, Link as LinkType, DrawnShape, Group, RelationshipType, ProjectRole, Project, ProjectSnapshot, ProjectChangeSet } from '@/types/knowledge';
+import { getRelationshipVocabulary, findRelationshipType, getLinkLineDash } from '@/lib/relationshipTypes';
 import { NodePreviewPaneContent } from '@/components/editor/NodePreviewPane';
 import { drawShapeOnContext } from '@/components/graph/drawingUtils';
 import { PreviewNavbar } from '@/components/layout/PreviewNavbar';
 import { useGraphExport } from '@/hooks/useGraphExport';
 import { GroupsTabs } from '@/components/graph/GroupsTabs';
 import { SelectionPane } from '@/components/graph/SelectionPane';
+import { PathFinderPanel } from '@/components/graph/PathFinderPanel';
+import { StudyOrderPanel } from '@/components/graph/StudyOrderPanel';
+import { FlashcardReviewPanel } from '@/components/graph/FlashcardReviewPanel';
+import { usePathFinder } from '@/hooks/usePathFinder';
+import { drawProgressRing, drawDueBadge } from '@/components/graph/nodeBadges';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useProgressStore, getNodeStatus, summarizeProgress, ProgressSummary } from '@/store/useProgressStore';
+import { useFlashcardStore, getDueCards } from '@/store/useFlashcardStore';
+import { useMembersStore } from '@/store/useMembersStore';
+import { getProjectRole, canComment } from '@/lib/projectRoles';
+import { openShareLink, getSharedChanges, SHARE_DENIAL_MESSAGES } from '@/lib/shareLinks';
+import { forkProject, CopyUnavailableError } from '@/lib/projectCopy';
+import { toShape, sortGroups, mergeProjectChanges, type SnapshotGraph } from '@/lib/projectSnapshot';
+import { useSnapshotRefresh } from '@/hooks/useSnapshotRefresh';
+import { useGraphStore } from '@/store/useGraphStore';
+import { useToast } from '@/context/ToastContext';
 
 const ForceGraph2D = dynamic(() => import('react-force-graph-2d'), { ssr: false }) as any;
 
@@ -27,18 +45,60 @@ function adjustBrightness(hex: string, percent: number): string {
     return `#${((1 << 24) | (R << 16) | (G << 8) | B).toString(16).slice(1)}`;
 }
 
-export default function PreviewPage({ params }: { params: Promise<{ id: string }> }) {
+// Nodes saved without a color get a stable one from the palette
+function withNodeColors(nodes: Node[]): Node[] {
+    const hashString = (numId: number) => {
+        const str = String(numId);
+        let hash = 0;
+        for (let i = 0; i < str.length; i++) {
+            const char = str.charCodeAt(i);
+            hash = ((hash << 5) - hash) + char;
+            hash = hash & hash;
+        }
+        return Math.abs(hash);
+    };
+    const isValid = (c: unknown) => typeof c === 'string' && !!c.trim() && c !== 'null' && c !== 'undefined';
+
+    return nodes.map((n) => {
+        if (isValid(n.customColor)) return n;
+        // Check for legacy color property safely
+        const legacyColor = (n as Node & { color?: unknown }).color;
+        return {
+            ...n,
+            customColor: isValid(legacyColor) ? legacyColor as string : NODE_COLORS[hashString(n.id) % NODE_COLORS.length],
+        };
+    });
+}
+
+type PreviewAccess = 'checking' | 'password' | 'granted' | 'denied';
+
+export default function PreviewPage({ params, searchParams }: {
+    params: Promise<{ id: string }>;
+    searchParams: Promise<{ token?: string }>;
+}) {
     const { id: idParam } = use(params);
+    const { token } = use(searchParams);
     const id = Number(idParam);
+    const [access, setAccess] = useState<PreviewAccess>('checking');
+    const [password, setPassword] = useState('');
+    const [passwordError, setPasswordError] = useState<string | null>(null);
+    const [isCheckingPassword, setIsCheckingPassword] = useState(false);
     const [isMounted, setIsMounted] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [projectName, setProjectName] = useState('');
     const [projectDescription, setProjectDescription] = useState('');
+    const [project, setProject] = useState<Project | null>(null);
+    const [isDuplicating, setIsDuplicating] = useState(false);
+    const router = useRouter();
+    const { showToast } = useToast();
+    // Members signed in through a share link still comment under their own role
+    const [role, setRole] = useState<ProjectRole | null>(null);
     const [wallpaper, setWallpaper] = useState<string>('');
     const [searchQuery, setSearchQuery] = useState('');
     const [nodes, setNodes] = useState<Node[]>([]);
     const [links, setLinks] = useState<LinkType[]>([]);
+    const [relationshipTypes, setRelationshipTypes] = useState<RelationshipType[]>([]);
     const [shapes, setShapes] = useState<DrawnShape[]>([]);
     const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
     const containerRef = useRef<HTMLDivElement>(null);
@@ -50,6 +110,12 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
     const [showSelectionPane, setShowSelectionPane] = useState(false);
     const [isOutsideContent, setIsOutsideContent] = useState(false);
     const [graphTransform, setGraphTransform] = useState({ x: 0, y: 0, k: 1 });
+    // Revision of the loaded snapshot, and the graph as of the last render, for catching up
+    const revisionRef = useRef<number | null>(null);
+    const latestGraphRef = useRef<SnapshotGraph>({ nodes: [], links: [], drawings: [], groups: [] });
+    // Through a share link the project comes from the link, never by its id
+    const sharedSnapshotRef = useRef<ProjectSnapshot | null>(null);
+    const linkPasswordRef = useRef<string | undefined>(undefined);
 
     const { exportToPNG, exportToJPG } = useGraphExport(
         containerRef,
@@ -60,6 +126,23 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         projectName
     );
 
+    const pathFinder = usePathFinder(links);
+    const { highlightedNodeIds, highlightedLinkIds } = pathFinder;
+    const userId = useAuthStore((s) => s.user?.id ?? null);
+    const authHydrated = useAuthStore((s) => s.hasHydrated);
+    const progressEntries = useProgressStore((s) => s.entries);
+    const loadProjectProgress = useProgressStore((s) => s.loadProjectProgress);
+    const setProgressNodeCount = useProgressStore((s) => s.setNodeCount);
+    const flashcards = useFlashcardStore((s) => s.cards);
+    const cardSchedules = useFlashcardStore((s) => s.schedules);
+    const loadProjectCards = useFlashcardStore((s) => s.loadProjectCards);
+    const dueNodeIds = useMemo(
+        () => new Set(getDueCards(flashcards, cardSchedules, userId).map(c => c.nodeId)),
+        [flashcards, cardSchedules, userId]
+    );
+    const [showStudyOrder, setShowStudyOrder] = useState(false);
+    const [showReview, setShowReview] = useState(false);
+
     useEffect(() => {
         setIsMounted(true);
 
@@ -75,76 +158,93 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         return () => window.removeEventListener('resize', updateDimensions);
     }, []);
 
+    // A share link opens the project for anyone; without one only its owner and members get in
+    const checkAccess = useCallback(async (linkPassword?: string) => {
+        if (token) {
+            try {
+                const result = await openShareLink(token, linkPassword);
+                if ('snapshot' in result) {
+                    if (result.snapshot.project.id === id) {
+                        sharedSnapshotRef.current = result.snapshot;
+                        linkPasswordRef.current = linkPassword;
+                        setAccess('granted');
+                        return;
+                    }
+                    setError(SHARE_DENIAL_MESSAGES['not-found']);
+                } else if (result.reason === 'password' || result.reason === 'wrong-password' || result.reason === 'too-many-attempts') {
+                    setPasswordError(result.reason === 'password' ? null : SHARE_DENIAL_MESSAGES[result.reason]);
+                    setAccess('password');
+                    return;
+                } else {
+                    setError(SHARE_DENIAL_MESSAGES[result.reason]);
+                }
+            } catch {
+                setError('Could not open this share link. Try again later.');
+            }
+            setAccess('denied');
+            return;
+        }
+
+        if (userId) {
+            try {
+                const [project, members] = await Promise.all([
+                    api.projects.getById(id),
+                    useMembersStore.getState().loadMembers(id),
+                ]);
+                if (getProjectRole(project, userId, members)) {
+                    setAccess('granted');
+                    return;
+                }
+            } catch {
+                // Treated as no access
+            }
+        }
+        setError('This project is private. Ask its owner for a share link.');
+        setAccess('denied');
+    }, [token, id, userId]);
+
+    useEffect(() => {
+        if (authHydrated) checkAccess();
+    }, [authHydrated, checkAccess]);
+
+    const handleSubmitPassword = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!password) return;
+        setIsCheckingPassword(true);
+        try {
+            await checkAccess(password);
+        } finally {
+            setIsCheckingPassword(false);
+        }
+    };
+
     useEffect(() => {
+        if (access !== 'granted') return;
+
         const loadProjectData = async () => {
             setIsLoading(true);
             setError(null);
 
             try {
-                const project = await api.projects.getById(id);
+                // Project, groups, nodes, links and drawings in one request
+                const snapshot = token ? sharedSnapshotRef.current : await api.projects.getSnapshot(id);
+                if (!snapshot) throw new Error('The share link did not answer with the project');
+                const { project } = snapshot;
+                setProject(project);
                 setProjectName(project.name);
                 setProjectDescription(project.description || '');
                 setWallpaper(project.wallpaper || '');
+                if (userId) {
+                    const members = await useMembersStore.getState().loadMembers(id);
+                    setRole(getProjectRole(project, userId, members));
+                }
 
-                let projectNodes = await api.nodes.getByProject(id);
-
-                const hashString = (numId: number) => {
-                    const str = String(numId);
-                    let hash = 0;
-                    for (let i = 0; i < str.length; i++) {
-                        const char = str.charCodeAt(i);
-                        hash = ((hash << 5) - hash) + char;
-                        hash = hash & hash;
-                    }
-                    return Math.abs(hash);
-                };
-
-                projectNodes = projectNodes.map((n) => {
-                    const pickPalette = () => NODE_COLORS[hashString(n.id) % NODE_COLORS.length];
-                    const isValid = (c: any) => typeof c === 'string' && c.trim() && c !== 'null' && c !== 'undefined';
-
-                    let customColor = n.customColor;
-                    if (!isValid(customColor)) {
-                        // Check for legacy color property safely
-                        const legacyColor = (n as any).color;
-                        if (isValid(legacyColor)) {
-                            customColor = legacyColor;
-                        } else {
-                            customColor = pickPalette();
-                        }
-                    }
-                    return {
-                        ...n,
-                        customColor,
-                    };
-                });
-                setNodes(projectNodes);
-
-                const allLinks = await api.links.getAll();
-                const nodeIds = new Set(projectNodes.map(n => n.id));
-                const projectLinks = allLinks.filter(
-                    l => nodeIds.has(l.sourceId) || nodeIds.has(l.targetId)
-                );
-                setLinks(projectLinks);
-
-                const drawings = await api.drawings.getByProject(id);
-                const loadedShapes: DrawnShape[] = drawings.map((d: ApiDrawing) => ({
-                    id: d.id,
-                    projectId: d.projectId,
-                    type: d.type as DrawnShape['type'],
-                    points: d.points,
-                    color: d.color,
-                    width: d.width,
-                    style: d.style as DrawnShape['style'],
-                    text: d.text === null ? undefined : d.text,
-                    fontSize: d.fontSize === null ? undefined : d.fontSize,
-                    fontFamily: d.fontFamily === null ? undefined : d.fontFamily,
-                    groupId: d.groupId,
-                }));
-                setShapes(loadedShapes);
-
-                const projectGroups = await api.groups.getByProject(id);
-                const sortedGroups = projectGroups.sort((a: Group, b: Group) => (a.order ?? 0) - (b.order ?? 0));
+                revisionRef.current = snapshot.revision;
+                setNodes(withNodeColors(snapshot.nodes));
+                setLinks(snapshot.links);
+                setRelationshipTypes(snapshot.relationshipTypes);
+                setShapes(snapshot.drawings.map(toShape));
+                const sortedGroups = sortGroups(snapshot.groups);
                 setGroups(sortedGroups);
                 if (sortedGroups.length > 0) {
                     setActiveGroupId(sortedGroups[0].id);
@@ -157,7 +257,75 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         };
 
         loadProjectData();
-    }, [id]);
+    }, [id, access, userId, token]);
+
+    // Through a share link, catching up checks the link again, so revoking or expiring it stops updates
+    const fetchChanges = useCallback(async (since: number): Promise<ProjectChangeSet | null> => {
+        if (!token) return api.projects.getChanges(id, since);
+        const result = await getSharedChanges(token, since, linkPasswordRef.current);
+        if ('changeSet' in result) return result.changeSet;
+        setError(SHARE_DENIAL_MESSAGES[result.reason]);
+        setAccess('denied');
+        return null;
+    }, [id, token]);
+
+    const fetchSnapshot = useCallback(async (): Promise<ProjectSnapshot | null> => {
+        if (!token) return api.projects.getSnapshot(id);
+        const result = await openShareLink(token, linkPasswordRef.current);
+        if ('snapshot' in result) return result.snapshot;
+        setError(SHARE_DENIAL_MESSAGES[result.reason]);
+        setAccess('denied');
+        return null;
+    }, [id, token]);
+
+    // Pull in what others changed since the snapshot was taken
+    const refreshGraph = useCallback(async () => {
+        if (revisionRef.current === null) return;
+        const changeSet = await fetchChanges(revisionRef.current);
+        if (!changeSet) return;
+        if (changeSet.reset) {
+            const snapshot = await fetchSnapshot();
+            if (!snapshot) return;
+            revisionRef.current = snapshot.revision;
+            setNodes(withNodeColors(snapshot.nodes));
+            setLinks(snapshot.links);
+            setRelationshipTypes(snapshot.relationshipTypes);
+            setShapes(snapshot.drawings.map(toShape));
+            setGroups(sortGroups(snapshot.groups));
+            return;
+        }
+        revisionRef.current = changeSet.revision;
+        if (changeSet.changes.length === 0) return;
+        const merged = mergeProjectChanges(latestGraphRef.current, changeSet.changes);
+        setNodes(withNodeColors(merged.nodes));
+        setLinks(merged.links);
+        setShapes(merged.drawings);
+        setGroups(merged.groups);
+    }, [fetchChanges, fetchSnapshot]);
+
+    useSnapshotRefresh(access === 'granted' ? refreshGraph : null);
+
+    useEffect(() => {
+        latestGraphRef.current = { nodes, links, drawings: shapes, groups };
+    }, [nodes, links, shapes, groups]);
+
+    useEffect(() => {
+        if (access !== 'granted') return;
+        loadProjectProgress(id, userId);
+        loadProjectCards(id, userId);
+    }, [id, userId, access, loadProjectProgress, loadProjectCards]);
+
+    useEffect(() => {
+        if (nodes.length > 0) setProgressNodeCount(id, nodes.length);
+    }, [id, nodes.length, setProgressNodeCount]);
+
+    const groupProgress = useMemo(() => {
+        const summaries: Record<number, ProgressSummary> = {};
+        groups.forEach(g => {
+            summaries[g.id] = summarizeProgress(progressEntries, userId, nodes.filter(n => n.groupId === g.id).map(n => n.id));
+        });
+        return summaries;
+    }, [groups, nodes, progressEntries, userId]);
 
     const handleWallpaperChange = async (newWallpaper: string) => {
         setWallpaper(newWallpaper);
@@ -167,6 +335,27 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         }
     };
 
+    const handleDuplicate = async () => {
+        if (!project) return;
+        if (!userId) {
+            showToast('Sign in to duplicate this project to your account', 'info');
+            return;
+        }
+        setIsDuplicating(true);
+        try {
+            const fork = await forkProject(project, { nodes, links, shapes, groups, relationshipTypes }, userId);
+            const { addProject, setCurrentProject } = useGraphStore.getState();
+            addProject(fork);
+            setCurrentProject(fork);
+            showToast(`"${fork.name}" was added to your projects`, 'info');
+            router.push('/project/editor');
+        } catch (err) {
+            showToast(err instanceof CopyUnavailableError ? err.message : 'Failed to duplicate the project', 'error');
+        } finally {
+            setIsDuplicating(false);
+        }
+    };
+
     const filteredNodes = useMemo(() => {
         if (activeGroupId === null) return nodes;
         return nodes.filter(n => n.groupId === activeGroupId);
@@ -214,6 +403,11 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         }, 0);
     }, []);
 
+    const relationshipVocabulary = useMemo(
+        () => getRelationshipVocabulary(relationshipTypes, id),
+        [relationshipTypes, id]
+    );
+
     const graphData = useMemo(() => {
         const nodeIds = new Set(filteredNodes.map(n => n.id));
         const filteredLinks = links.filter(l => nodeIds.has(l.sourceId) && nodeIds.has(l.targetId));
@@ -229,10 +423,13 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
                 fy: n.y,
             })),
             links: filteredLinks.map(l => ({
+                id: l.id,
                 source: l.sourceId,
                 target: l.targetId,
                 color: l.color,
                 description: l.description,
+                relationshipType: l.relationshipType,
+                isBidirectional: l.isBidirectional,
             })),
         };
     }, [filteredNodes, links]);
@@ -247,14 +444,25 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         ctx.font = `600 ${fontSize}px Inter, system-ui, sans-serif`;
 
         const isMatch = !searchQuery || label.toLowerCase().includes(searchQuery.toLowerCase());
+        const isOnPath = !!highlightedNodeIds?.has(Number(node.id));
         const opacity = isMatch ? 1 : 0.1;
-        ctx.globalAlpha = opacity;
+        ctx.globalAlpha = highlightedNodeIds && !isOnPath ? Math.min(opacity, 0.2) : opacity;
 
         const baseColor = node.customColor || '#8B5CF6';
         const nodeRadius = 6;
         const x = node.x || 0;
         const y = node.y || 0;
 
+        if (isOnPath) {
+            ctx.beginPath();
+            ctx.arc(x, y, nodeRadius + 4, 0, 2 * Math.PI);
+            ctx.strokeStyle = '#38BDF8';
+            ctx.lineWidth = 2 / globalScale;
+            ctx.stroke();
+        }
+
+        drawProgressRing(ctx, x, y, nodeRadius, getNodeStatus(progressEntries, userId, Number(node.id)), globalScale);
+
         const gradient = ctx.createRadialGradient(
             x - nodeRadius / 3,
             y - nodeRadius / 3,
@@ -279,11 +487,21 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         ctx.fill();
         ctx.shadowBlur = 0;
 
+        if (dueNodeIds.has(Number(node.id))) {
+            drawDueBadge(ctx, x, y, nodeRadius, globalScale);
+        }
+
         ctx.textAlign = 'center';
         ctx.textBaseline = 'top';
         ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
         ctx.fillText(label, x, y + nodeRadius + 3);
-    }, [searchQuery]);
+    }, [searchQuery, highlightedNodeIds, progressEntries, userId, dueNodeIds]);
+
+    const pathLinkColor = useCallback((link: { id?: number; color?: string }) => {
+        const color = link.color || '#355ea1';
+        if (!highlightedLinkIds) return color + '80';
+        return highlightedLinkIds.has(Number(link.id)) ? color : '#52525b40';
+    }, [highlightedLinkIds]);
 
     const onRenderFramePost = useCallback((ctx: CanvasRenderingContext2D, globalScale: number) => {
         filteredShapes.forEach(shape => {
@@ -309,7 +527,46 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
         }
     }, [nodes]);
 
-    if (!isMounted || isLoading) {
+    const handleLocateNode = useCallback((node: Node) => {
+        if (node.groupId !== activeGroupId) setActiveGroupId(node.groupId);
+        if (graphRef.current) {
+            graphRef.current.centerAt(node.x ?? 0, node.y ?? 0, 500);
+            graphRef.current.zoom(1.5, 500);
+        }
+    }, [activeGroupId]);
+
+    if (access === 'password') {
+        return (
+            <div className="flex h-screen flex-col items-center justify-center bg-zinc-950 px-4 text-white">
+                <form onSubmit={handleSubmitPassword} className="w-full max-w-sm space-y-4 rounded-xl border border-zinc-800 bg-zinc-900 p-6">
+                    <div className="flex items-center gap-2">
+                        <Lock className="h-4 w-4 text-[#355ea1]" />
+                        <h1 className="text-lg font-semibold">Password required</h1>
+                    </div>
+                    <p className="text-sm text-zinc-400">{SHARE_DENIAL_MESSAGES.password} Enter it to continue.</p>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        autoFocus
+                        className="w-full rounded-lg bg-zinc-800 px-4 py-2.5 text-sm text-white placeholder-zinc-500 outline-none ring-1 ring-zinc-700 focus:ring-[#355ea1]"
+                        placeholder="Password"
+                    />
+                    {passwordError && <p className="text-xs text-red-400">{passwordError}</p>}
+                    <button
+                        type="submit"
+                        disabled={!password || isCheckingPassword}
+                        className="flex w-full items-center justify-center gap-2 rounded-lg bg-[#355ea1] px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-[#265fbd] disabled:opacity-50"
+                    >
+                        {isCheckingPassword && <Loader2 className="h-4 w-4 animate-spin" />}
+                        Open project
+                    </button>
+                </form>
+            </div>
+        );
+    }
+
+    if (!isMounted || (isLoading && access !== 'denied')) {
         return <LoadingScreen />;
     }
 
@@ -348,6 +605,8 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
                 onExportJPG={exportToJPG}
                 currentWallpaper={wallpaper}
                 onWallpaperChange={handleWallpaperChange}
+                onDuplicate={project ? handleDuplicate : undefined}
+                isDuplicating={isDuplicating}
             />
 
             <div
@@ -369,10 +628,14 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
                         ctx.arc(node.x, node.y, 15, 0, 2 * Math.PI, false);
                         ctx.fill();
                     }}
-                    linkColor={(link: any) => (link.color || '#355ea1') + '80'}
-                    linkWidth={1}
+                    nodeRelSize={8}
+                    linkColor={pathLinkColor}
+                    linkWidth={(link: { id?: number }) => highlightedLinkIds?.has(Number(link.id)) ? 3 : 1}
+                    linkLineDash={(link: { relationshipType?: string | null }) => getLinkLineDash(relationshipVocabulary, link)}
+                    linkLabel={(link: { description?: string | null; relationshipType?: string | null }) => link.description || findRelationshipType(relationshipVocabulary, link.relationshipType)?.label || ''}
                     linkCurvature={0.1}
-                    linkDirectionalArrowLength={6}
+                    linkDirectionalArrowLength={(link: { isBidirectional?: boolean }) => link.isBidirectional ? 0 : 6}
+                    linkDirectionalArrowColor={(link: { id?: number; color?: string }) => highlightedLinkIds && !highlightedLinkIds.has(Number(link.id)) ? '#52525b40' : link.color || '#355ea1'}
                     linkDirectionalArrowRelPos={1}
                     onRenderFramePost={onRenderFramePost}
                     enableNodeDrag={false}
@@ -381,7 +644,13 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
                     cooldownTicks={0}
                     d3AlphaDecay={1}
                     onNodeHover={handleNodeHover}
-                    onNodeClick={handleNodeClick}
+                    onNodeClick={(node: { id?: number }) => {
+                        if (pathFinder.isActive) {
+                            pathFinder.pickNode(Number(node.id));
+                            return;
+                        }
+                        handleNodeClick(node);
+                    }}
                     onBackgroundClick={() => setActiveNode(null)}
                     onZoom={handleZoom}
                 />
@@ -392,10 +661,50 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
                         nodes={nodes}
                         links={links}
                         onClose={() => setActiveNode(null)}
+                        onNavigate={setActiveNode}
+                        canPostComments={!!userId && canComment(role)}
                     />
                 )}
             </div>
 
+            <div className="absolute left-4 top-[4.5rem] z-30 flex items-start gap-2">
+                <PathFinderPanel
+                    pathFinder={pathFinder}
+                    nodes={nodes}
+                    onLocateNode={handleLocateNode}
+                    onToggle={(active) => {
+                        if (!active) return;
+                        setShowStudyOrder(false);
+                        setShowReview(false);
+                    }}
+                />
+                <StudyOrderPanel
+                    isOpen={showStudyOrder}
+                    onToggle={() => {
+                        setShowStudyOrder(!showStudyOrder);
+                        setShowReview(false);
+                        pathFinder.setActive(false);
+                    }}
+                    nodes={nodes}
+                    links={links}
+                    groups={groups}
+                    activeGroupId={activeGroupId}
+                    projectName={projectName}
+                    onLocateNode={handleLocateNode}
+                />
+                <FlashcardReviewPanel
+                    isOpen={showReview}
+                    onToggle={() => {
+                        setShowReview(!showReview);
+                        setShowStudyOrder(false);
+                        pathFinder.setActive(false);
+                    }}
+                    nodes={nodes}
+                    projectId={id}
+                    onLocateNode={handleLocateNode}
+                />
+            </div>
+
             {groups.length > 0 && (
                 <GroupsTabs
                     groups={groups}
@@ -406,6 +715,7 @@ export default function PreviewPage({ params }: { params: Promise<{ id: string }
                     onDeleteGroup={() => { }}
                     onReorderGroups={() => { }}
                     isPreviewMode={true}
+                    progress={groupProgress}
                 />
             )}
 
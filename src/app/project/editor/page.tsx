@@ -7,7 +7,11 @@ import { Plus } from 'lucide-react';
 import { useGraphStore, filterNodes } from '@/store/useGraphStore';
 import { useAuthStore } from '@/store/useAuthStore';
 import { api } from '@/lib/api';
+import { useProjectRole } from '@/hooks/useProjectRole';
+import { useSnapshotRefresh } from '@/hooks/useSnapshotRefresh';
 import { decodeWallpaper } from '@/lib/imageUtils';
+import { exportProjectAs, type ProjectExportFormat } from '@/lib/graphFormats';
+import { getRelationshipVocabulary } from '@/lib/relationshipTypes';
 
 import { LoadingScreen, LoadingOverlay } from '@/components/ui';
 import { SearchInput } from '@/components/ui/Input';
@@ -37,6 +41,21 @@ export default function EditorPage() {
         graphCanvasRef.current?.exportToJPG();
     };
 
+    const handleExportData = (format: ProjectExportFormat) => {
+        // Read at click time; this page doesn't subscribe to links or groups
+        const graph = useGraphStore.getState();
+        const project = graph.currentProject;
+        if (!project) return;
+        const projectTypes = graph.relationshipTypes.filter(t => t.projectId === project.id);
+        exportProjectAs(format, {
+            project,
+            nodes: graph.nodes,
+            links: graph.links,
+            groups: graph.groups,
+            relationshipTypes: getRelationshipVocabulary(projectTypes, project.id),
+        });
+    };
+
     const { user, isAuthenticated, hasHydrated: authHydrated } = useAuthStore();
 
     const {
@@ -45,6 +64,7 @@ export default function EditorPage() {
         nodes,
         setNodes,
         setLinks,
+        applyProjectSnapshot,
         searchQuery,
         setSearchQuery,
         graphSettings,
@@ -57,6 +77,8 @@ export default function EditorPage() {
 
     const hasHydrated = authHydrated && graphHydrated;
     const projectId = currentProject?.id;
+    // Viewers and commenters are held in preview mode
+    const { role, isResolved: isRoleResolved } = useProjectRole(currentProject);
 
     useEffect(() => {
         setIsMounted(true);
@@ -74,6 +96,12 @@ export default function EditorPage() {
         }
     }, [hasHydrated, isAuthenticated, currentProject, router]);
 
+    useEffect(() => {
+        if (isRoleResolved && !role) {
+            router.push('/');
+        }
+    }, [isRoleResolved, role, router]);
+
     const dataLoadedRef = useRef(false);
 
     useEffect(() => {
@@ -93,45 +121,15 @@ export default function EditorPage() {
             setError(null);
 
             try {
-                const apiProject = await api.projects.getById(projectId);
+                // Project, groups, nodes, links and drawings in one request
+                const snapshot = await api.projects.getSnapshot(projectId);
                 const mergedProject = {
                     ...currentProject,
-                    ...apiProject,
-                    wallpaper: decodeWallpaper(apiProject.wallpaper) || currentProject?.wallpaper,
+                    ...snapshot.project,
+                    wallpaper: decodeWallpaper(snapshot.project.wallpaper) || currentProject?.wallpaper,
                 };
                 setCurrentProject(mergedProject);
-                setLoadingProgress(35);
-
-                const GROUP_COLORS = ['#8B5CF6', '#355ea1', '#10B981', '#F59E0B', '#EF4444', '#EC4899', '#06B6D4', '#84CC16'];
-
-                const hashString = (numId: number) => {
-                    const str = String(numId);
-                    let hash = 0;
-                    for (let i = 0; i < str.length; i++) {
-                        const char = str.charCodeAt(i);
-                        hash = ((hash << 5) - hash) + char;
-                        hash = hash & hash;
-                    }
-                    return Math.abs(hash);
-                };
-
-                let projectNodes = await api.nodes.getByProject(projectId);
-                projectNodes = projectNodes.map((n) => {
-                    const isValid = (c: any) => typeof c === 'string' && c.trim() && c !== 'null' && c !== 'undefined';
-                    if (!isValid(n.customColor)) {
-                        return { ...n, customColor: GROUP_COLORS[hashString(n.id) % GROUP_COLORS.length] };
-                    }
-                    return n;
-                });
-                setNodes(projectNodes);
-                setLoadingProgress(75);
-
-                const allLinks = await api.links.getAll();
-                const nodeIds = new Set(projectNodes.map(n => n.id));
-                const projectLinks = allLinks.filter(
-                    l => nodeIds.has(l.sourceId) || nodeIds.has(l.targetId)
-                );
-                setLinks(projectLinks);
+                applyProjectSnapshot(snapshot);
                 setLoadingProgress(100);
             } catch (err: any) {
                 console.warn('Failed to load project data:', err.message);
@@ -150,7 +148,10 @@ export default function EditorPage() {
         return () => {
             dataLoadedRef.current = false;
         };
-    }, [projectId, hasHydrated, isAuthenticated, setCurrentProject, setNodes, setLinks, setLoading]);
+    }, [projectId, hasHydrated, isAuthenticated, setCurrentProject, setNodes, setLinks, applyProjectSnapshot, setLoading]);
+
+    const refreshProjectSnapshot = useGraphStore(state => state.refreshProjectSnapshot);
+    useSnapshotRefresh(refreshProjectSnapshot);
 
     const activeGroupId = useGraphStore(state => state.activeGroupId);
 
@@ -239,7 +240,7 @@ export default function EditorPage() {
                     customColor: randomColor,
                     x: randomX,
                     y: randomY,
-                }).catch(() => { });
+                }).then(saved => useGraphStore.getState().keepSavedVersion(saved)).catch(() => { });
             }
 
             addNode(newNode);
@@ -272,6 +273,7 @@ export default function EditorPage() {
                     nodeCount={filteredNodes.length}
                     onExportPNG={handleExportPNG}
                     onExportJPG={handleExportJPG}
+                    onExportData={handleExportData}
                     onAddNode={!isPreviewMode ? handleCreateNode : undefined}
                     onAddNodeFromClassroom={!isPreviewMode ? () => setIsClassroomModalOpen(true) : undefined}
                     isAddingNode={isLoading}
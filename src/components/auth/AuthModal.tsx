@@ -4,7 +4,8 @@ import { useState, useEffect } from 'react';
 import { X, Mail, Lock, User, Loader2, Eye, EyeOff } from 'lucide-react';
 import { useAuthStore } from '@/store/useAuthStore';
 import { getFriendlyErrorMessage } from '@/utils/errorUtils';
-import { api } from '@/lib/api';
+import { api, ApiError } from '@/lib/api';
+import { getBackendMode } from '@/lib/backendAdapter';
 import { signIn } from 'next-auth/react';
 import Image from 'next/image';
 import NexusLogo from '@/assets/Logo/Logo with no circle.svg';
@@ -26,8 +27,12 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
   // Removed isGoogleLoading state as signIn handles it internally partially, but we can track if needed.
   // Actually signIn is async so we can use local loading state.
   const [error, setError] = useState<string | null>(null);
+  // Messages the API gave for single fields, shown under their inputs
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
 
   const login = useAuthStore((s) => s.login);
+  // next-auth can't sign in against the in-browser backend, so the store is set directly
+  const isLocal = getBackendMode() === 'local';
 
   useEffect(() => {
     if (isOpen) {
@@ -102,6 +107,7 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
 
     if (!validateEmail(email)) {
       setError('Please enter a valid email address');
@@ -116,7 +122,14 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
     setIsSubmitting(true);
 
     try {
-      if (mode === 'signup') {
+      if (isLocal) {
+        const profile = mode === 'signup'
+          ? await api.auth.register({ email, password, displayName: displayName || undefined, provider: 'email' })
+          : await api.auth.login({ email, password });
+        login(profile);
+        onClose();
+        resetForm();
+      } else if (mode === 'signup') {
         // For signup, we still register manually first to create the account in backend
         const profile = await api.auth.register({
           email,
@@ -157,11 +170,14 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
       }
 
       const friendlyMsg = getFriendlyErrorMessage(err);
+      const status = err instanceof ApiError ? err.status : null;
 
       // Contextual overrides for AuthModal specifically
-      if (friendlyMsg.includes('404') && mode === 'login') {
+      if (err instanceof ApiError && Object.keys(err.fieldErrors).length > 0) {
+        setFieldErrors(err.fieldErrors);
+      } else if (status === 404 && mode === 'login') {
         setError('We couldn\'t find an account with that email. Please sign up.');
-      } else if (friendlyMsg.includes('404') && mode === 'signup') {
+      } else if (status === 404 && mode === 'signup') {
         // If registering returns 404, it's weird (endpoint missing), but generic message is okay or specific hint.
         setError('Registration service unavailable (404). Please try again later.');
       } else {
@@ -177,13 +193,19 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
     setPassword('');
     setDisplayName('');
     setError(null);
+    setFieldErrors({});
   };
 
   const switchMode = () => {
     setMode(mode === 'login' ? 'signup' : 'login');
     setError(null);
+    setFieldErrors({});
   };
 
+  const renderFieldError = (field: string) => fieldErrors[field]?.length ? (
+    <p className="mt-2 text-xs text-red-400">{fieldErrors[field][0]}</p>
+  ) : null;
+
   if (!isOpen) return null;
 
   return (
@@ -235,6 +257,7 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
                   className="w-full rounded-lg bg-zinc-800 py-3 pl-11 pr-4 text-sm text-white placeholder-zinc-500 outline-none ring-1 ring-zinc-700 transition-all  -[#265fbd]"
                 />
               </div>
+              {renderFieldError('displayName')}
             </div>
           )}
 
@@ -251,6 +274,7 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
                 required
               />
             </div>
+            {renderFieldError('email')}
           </div>
 
           <div>
@@ -273,7 +297,8 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
                 {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
               </button>
             </div>
-            {mode === 'signup' && (
+            {renderFieldError('password')}
+            {mode === 'signup' && !fieldErrors.password && (
               <p className="mt-2 text-xs text-zinc-500">
                 At least 6 characters with letters and numbers
               </p>
@@ -296,44 +321,48 @@ export function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalP
           </button>
         </form>
 
-        <div className="mt-4 flex items-center gap-4">
-          <div className="h-px flex-1 bg-zinc-800" />
-          <span className="text-xs text-zinc-500">OR</span>
-          <div className="h-px flex-1 bg-zinc-800" />
-        </div>
+        {!isLocal && (
+          <>
+            <div className="mt-4 flex items-center gap-4">
+              <div className="h-px flex-1 bg-zinc-800" />
+              <span className="text-xs text-zinc-500">OR</span>
+              <div className="h-px flex-1 bg-zinc-800" />
+            </div>
 
-        <button
-          type="button"
-          onClick={() => {
-            if (isGoogleLoading) {
-              setIsGoogleLoading(false);
-            } else {
-              handleGoogleLogin();
-            }
-          }}
-          disabled={isSubmitting}
-          className="mt-4 flex w-full items-center justify-center gap-2 rounded-lg border border-zinc-700 bg-zinc-800 py-3 text-sm font-semibold text-white transition-colors hover:bg-zinc-700/80 disabled:cursor-not-allowed disabled:opacity-50"
-        >
-          <svg className="h-5 w-5" viewBox="0 0 24 24">
-            <path
-              d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-              fill="#4285F4"
-            />
-            <path
-              d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-              fill="#34A853"
-            />
-            <path
-              d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-              fill="#FBBC05"
-            />
-            <path
-              d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-              fill="#EA4335"
-            />
-          </svg>
-          {isGoogleLoading ? 'Connecting... (Click to Cancel)' : 'Continue with Google'}
-        </button>
+            <button
+              type="button"
+              onClick={() => {
+                if (isGoogleLoading) {
+                  setIsGoogleLoading(false);
+                } else {
+                  handleGoogleLogin();
+                }
+              }}
+              disabled={isSubmitting}
+              className="mt-4 flex w-full items-center justify-center gap-2 rounded-lg border border-zinc-700 bg-zinc-800 py-3 text-sm font-semibold text-white transition-colors hover:bg-zinc-700/80 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <svg className="h-5 w-5" viewBox="0 0 24 24">
+                <path
+                  d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                  fill="#4285F4"
+                />
+                <path
+                  d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                  fill="#34A853"
+                />
+                <path
+                  d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                  fill="#FBBC05"
+                />
+                <path
+                  d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                  fill="#EA4335"
+                />
+              </svg>
+              {isGoogleLoading ? 'Connecting... (Click to Cancel)' : 'Continue with Google'}
+            </button>
+          </>
+        )}
 
         <div className="mt-6 text-center">
           <p className="text-sm text-zinc-400">
@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react';
 import { useAuthStore } from '@/store/useAuthStore';
 import { useEffect } from 'react';
 import { api } from '@/lib/api';
+import { getBackendMode } from '@/lib/backendAdapter';
 
 export function AuthSync() {
     const { data: session, status } = useSession();
@@ -13,6 +14,12 @@ export function AuthSync() {
 
     useEffect(() => {
         const syncUser = async () => {
+            // The local backend has its own accounts, which next-auth knows nothing about
+            if (getBackendMode() === 'local') {
+                setAuthLoading(false);
+                return;
+            }
+
             if (status === 'loading') {
                 setAuthLoading(true);
                 return;
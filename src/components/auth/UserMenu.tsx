@@ -4,6 +4,7 @@ import { signOut } from 'next-auth/react';
 import { useState, useRef, useEffect } from 'react';
 import { LogOut, Settings, User, ChevronDown, UserPen, Lock } from 'lucide-react';
 import { useAuthStore } from '@/store/useAuthStore';
+import { getBackendMode, canLeaveLocalMode, setBackendMode } from '@/lib/backendAdapter';
 import { ProfileModal, ModalMode } from './ProfileModal';
 import { useToast } from '@/context/ToastContext';
 
@@ -110,7 +111,12 @@ export function UserMenu() {
           <div className="border-t border-zinc-800 pt-1">
             <button
               onClick={async () => {
-                await signOut({ redirect: false });
+                if (getBackendMode() === 'local') {
+                  // Back to the real API, unless this build only has the local one
+                  if (canLeaveLocalMode()) setBackendMode('http');
+                } else {
+                  await signOut({ redirect: false });
+                }
                 logout();
                 setIsOpen(false);
                 window.location.reload();
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { useGraphStore } from '@/store/useGraphStore';
 import { useAuthStore } from '@/store/useAuthStore';
 import { useToast } from '@/context/ToastContext';
-import { api } from '@/lib/api';
+import { api, writes } from '@/lib/api';
 import { useHasClassroomAccess } from '@/hooks/useClassroomApi';
 import { GoogleAuthPromptModal } from './GoogleAuthPromptModal';
 import { ClassroomSelectionModal } from './ClassroomSelectionModal';
@@ -164,54 +164,31 @@ export function ClassroomIntegration({ isOpen, onClose }: ClassroomIntegrationPr
         customColor: randomColor,
       });
 
-      // Add attachments if the item has materials
-      if (item.materials && item.materials.length > 0) {
-        const attachments = item.materials.map(material => {
-          const materialInfo = extractMaterialInfo(material);
-          return {
-            fileName: materialInfo.title,
-            fileUrl: materialInfo.url || '',
-          };
-        });
+      // Materials, then the Classroom source link, added in one request
+      const attachments = (item.materials ?? []).map(material => {
+        const materialInfo = extractMaterialInfo(material);
+        return {
+          fileName: materialInfo.title,
+          fileUrl: materialInfo.url || '',
+        };
+      });
 
-        // Add each attachment
-        for (const attachment of attachments) {
-          if (attachment.fileUrl) {
-            try {
-              await api.attachments.create({
-                nodeId: newNode.id,
-                fileName: attachment.fileName,
-                fileUrl: attachment.fileUrl,
-              });
-            } catch (error) {
-              console.error('Failed to add attachment:', error);
-            }
-          }
-        }
+      if (item.alternateLink) {
+        const itemTitle = type === 'assignment' ? (item as CourseWork).title : (item as CourseWorkMaterial).title;
+        const typeLabel = type === 'assignment' ? 'Assignment' : 'Material';
+        attachments.push({
+          fileName: `${typeLabel}: ${itemTitle || 'Untitled'}`,
+          fileUrl: item.alternateLink,
+        });
       }
 
-      // Add Classroom source link as attachment
-      if (item.alternateLink) {
-        try {
-          let itemTitle: string;
-          let typeLabel: string;
-          
-          if (type === 'assignment') {
-            itemTitle = (item as CourseWork).title;
-            typeLabel = 'Assignment';
-          } else {
-            itemTitle = (item as CourseWorkMaterial).title;
-            typeLabel = 'Material';
-          }
-          
-          await api.attachments.create({
-            nodeId: newNode.id,
-            fileName: `${typeLabel}: ${itemTitle || 'Untitled'}`,
-            fileUrl: item.alternateLink,
-          });
-        } catch (error) {
-          console.error('Failed to add Classroom source link:', error);
-        }
+      try {
+        await api.batch(attachments
+          .filter(attachment => attachment.fileUrl)
+          .map(attachment => writes.attachments.create({ nodeId: newNode.id, ...attachment })));
+      } catch (error) {
+        console.error('Failed to add attachments:', error);
+        showToast('The node was created, but its attachments could not be added', 'warning');
       }
 
       // Fetch the complete node with attachments
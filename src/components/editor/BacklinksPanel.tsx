@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { CornerDownRight, AtSign, Link2, Loader2 } from 'lucide-react';
+import { Node, Link as LinkType } from '@/types/knowledge';
+import { getIncomingLinks, findUnlinkedMentions } from '@/lib/backlinks';
+
+interface BacklinksPanelProps {
+    node: Node;
+    nodes: Node[];
+    links: LinkType[];
+    onSelectNode?: (node: Node) => void;
+    // Left out where the graph is read-only, which hides the convert buttons
+    onConvertMention?: (source: Node) => Promise<void>;
+}
+
+export function BacklinksPanel({ node, nodes, links, onSelectNode, onConvertMention }: BacklinksPanelProps) {
+    const [convertingId, setConvertingId] = useState<number | null>(null);
+
+    const incoming = useMemo(() => getIncomingLinks(links, node.id), [links, node.id]);
+    const mentions = useMemo(() => findUnlinkedMentions(nodes, links, node), [nodes, links, node]);
+
+    const handleConvert = async (source: Node) => {
+        if (!onConvertMention) return;
+        setConvertingId(source.id);
+        try {
+            await onConvertMention(source);
+        } finally {
+            setConvertingId(null);
+        }
+    };
+
+    const renderNodeButton = (target: Node | undefined, fallback = 'Unknown Node') => (
+        <button
+            type="button"
+            onClick={() => target && onSelectNode?.(target)}
+            disabled={!target || !onSelectNode}
+            className="truncate text-left text-sm font-medium text-white hover:text-[#6b93d6] disabled:hover:text-white transition-colors"
+        >
+            {target?.title || fallback}
+        </button>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-zinc-300">
+                    <CornerDownRight className="h-4 w-4" />
+                    Linked from ({incoming.length})
+                </h4>
+                {incoming.length > 0 ? (
+                    <div className="space-y-1">
+                        {incoming.map(link => {
+                            const otherId = link.targetId === node.id ? link.sourceId : link.targetId;
+                            return (
+                                <div key={link.id} className="flex items-center gap-2 rounded-lg bg-zinc-800/50 px-3 py-2">
+                                    <span
+                                        className="h-2 w-2 shrink-0 rounded-full"
+                                        style={{ backgroundColor: link.color || '#355ea1' }}
+                                    />
+                                    {renderNodeButton(nodes.find(n => n.id === otherId))}
+                                    {link.description && (
+                                        <span className="ml-auto truncate text-xs text-zinc-500">{link.description}</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <p className="text-xs text-zinc-500">No nodes link here yet</p>
+                )}
+            </div>
+
+            <div>
+                <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-zinc-300">
+                    <AtSign className="h-4 w-4" />
+                    Unlinked mentions ({mentions.length})
+                </h4>
+                {mentions.length > 0 ? (
+                    <div className="space-y-1">
+                        {mentions.map(mention => (
+                            <div key={mention.node.id} className="rounded-lg bg-zinc-800/50 px-3 py-2">
+                                <div className="flex items-center gap-2">
+                                    {renderNodeButton(mention.node)}
+                                    {mention.count > 1 && (
+                                        <span className="text-[10px] text-zinc-500">×{mention.count}</span>
+                                    )}
+                                    {onConvertMention && (
+                                        <button
+                                            type="button"
+                                            onClick={() => handleConvert(mention.node)}
+                                            disabled={convertingId !== null}
+                                            className="ml-auto flex shrink-0 items-center gap-1 rounded-md bg-zinc-700 px-2 py-0.5 text-xs text-zinc-300 transition-colors hover:bg-[#355ea1] hover:text-white disabled:opacity-50"
+                                            title={`Link ${mention.node.title} to ${node.title}`}
+                                        >
+                                            {convertingId === mention.node.id
+                                                ? <Loader2 className="h-3 w-3 animate-spin" />
+                                                : <Link2 className="h-3 w-3" />}
+                                            Link
+                                        </button>
+                                    )}
+                                </div>
+                                <p className="mt-1 text-xs text-zinc-500">{mention.excerpt}</p>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-xs text-zinc-500">No unlinked mentions</p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Check, RotateCcw, Send, Trash2, Loader2 } from 'lucide-react';
+import type { CommentThread, ProjectComment } from '@/types/knowledge';
+import { getMentionQuery, getThreadComments, splitMentions, type MentionablePerson } from '@/lib/comments';
+import { useCommentsStore } from '@/store/useCommentsStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useToast } from '@/context/ToastContext';
+
+const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface CommentComposerProps {
+    people: MentionablePerson[];
+    placeholder?: string;
+    autoFocus?: boolean;
+    onSubmit: (body: string) => Promise<void>;
+}
+
+// Typing @ suggests the project's members; picking one inserts their handle
+export function CommentComposer({ people, placeholder = 'Add a comment…', autoFocus, onSubmit }: CommentComposerProps) {
+    const [body, setBody] = useState('');
+    const [caret, setCaret] = useState(0);
+    const [isSending, setIsSending] = useState(false);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+
+    const query = getMentionQuery(body, caret);
+    const suggestions = query === null
+        ? []
+        : people.filter(p => p.handle.includes(query.toLowerCase()) || p.name.toLowerCase().includes(query.toLowerCase())).slice(0, 5);
+
+    const insertMention = (person: MentionablePerson) => {
+        const before = body.slice(0, caret).replace(/@[\w.-]*$/, `@${person.handle} `);
+        const next = before + body.slice(caret);
+        setBody(next);
+        setCaret(before.length);
+        requestAnimationFrame(() => {
+            inputRef.current?.focus();
+            inputRef.current?.setSelectionRange(before.length, before.length);
+        });
+    };
+
+    const handleSubmit = async () => {
+        const text = body.trim();
+        if (!text || isSending) return;
+        setIsSending(true);
+        try {
+            await onSubmit(text);
+            setBody('');
+            setCaret(0);
+        } catch {
+            // Keep the text so it can be sent again
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <textarea
+                ref={inputRef}
+                value={body}
+                autoFocus={autoFocus}
+                rows={2}
+                onChange={(e) => {
+                    setBody(e.target.value);
+                    setCaret(e.target.selectionStart);
+                }}
+                onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+                onKeyDown={(e) => {
+                    e.stopPropagation();
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        if (suggestions.length > 0) insertMention(suggestions[0]);
+                        else handleSubmit();
+                    }
+                }}
+                placeholder={placeholder}
+                className="w-full resize-none rounded-lg bg-zinc-800 py-2 pl-3 pr-9 text-sm text-white placeholder-zinc-500 outline-none ring-1 ring-zinc-700 focus:ring-[#355ea1]"
+            />
+            <button
+                type="button"
+                onClick={handleSubmit}
+                disabled={!body.trim() || isSending}
+                className="absolute bottom-3 right-2 rounded-md p-1 text-zinc-400 transition-colors hover:text-white disabled:opacity-40"
+                title="Send"
+            >
+                {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </button>
+            {suggestions.length > 0 && (
+                <div className="absolute left-0 right-0 top-full z-10 mt-1 overflow-hidden rounded-lg border border-zinc-700 bg-zinc-900 shadow-lg">
+                    {suggestions.map(person => (
+                        <button
+                            key={person.userId}
+                            type="button"
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                insertMention(person);
+                            }}
+                            className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white"
+                        >
+                            <span className="truncate">{person.name}</span>
+                            <span className="ml-auto text-xs text-zinc-500">@{person.handle}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function CommentBody({ comment, people }: { comment: ProjectComment; people: MentionablePerson[] }) {
+    const mentioned = people.filter(p => comment.mentions.includes(p.userId));
+    return (
+        <p className="whitespace-pre-wrap break-words text-sm text-zinc-300">
+            {splitMentions(comment.body, mentioned).map((segment, i) => segment.mention ? (
+                <span key={i} className="rounded bg-[#355ea1]/20 px-0.5 font-medium text-[#6b93d6]" title={segment.mention.name}>
+                    {segment.text}
+                </span>
+            ) : (
+                <span key={i}>{segment.text}</span>
+            ))}
+        </p>
+    );
+}
+
+interface CommentThreadViewProps {
+    thread: CommentThread;
+    comments: ProjectComment[];
+    people: MentionablePerson[];
+    // Signed in with a role that may comment; otherwise the thread is read-only
+    canPost: boolean;
+}
+
+export function CommentThreadView({ thread, comments, people, canPost }: CommentThreadViewProps) {
+    const user = useAuthStore((s) => s.user);
+    const reply = useCommentsStore((s) => s.reply);
+    const setResolved = useCommentsStore((s) => s.setResolved);
+    const deleteComment = useCommentsStore((s) => s.deleteComment);
+    const { showToast } = useToast();
+    const [isResolving, setIsResolving] = useState(false);
+
+    const threadComments = getThreadComments(comments, thread.id);
+    const isResolved = !!thread.resolvedAt;
+    const mentionsMe = !!user && threadComments.some(c => c.mentions.includes(user.id));
+
+    const handleReply = async (body: string) => {
+        if (!user) return;
+        try {
+            await reply(thread, body, { userId: user.id, name: user.displayName || user.email || 'Someone' });
+        } catch {
+            showToast('Failed to post comment', 'error');
+            throw new Error('Failed to post comment');
+        }
+    };
+
+    const handleResolve = async () => {
+        if (!user) return;
+        setIsResolving(true);
+        try {
+            await setResolved(thread, !isResolved, user.id);
+        } catch {
+            showToast(isResolved ? 'Failed to reopen thread' : 'Failed to resolve thread', 'error');
+        } finally {
+            setIsResolving(false);
+        }
+    };
+
+    const handleDelete = async (comment: ProjectComment) => {
+        try {
+            await deleteComment(comment);
+        } catch {
+            showToast('Failed to delete comment', 'error');
+        }
+    };
+
+    return (
+        <div className={`space-y-3 ${isResolved ? 'opacity-70' : ''}`}>
+            <div className="flex items-center gap-2">
+                {mentionsMe && !isResolved && (
+                    <span className="rounded bg-[#355ea1]/20 px-1.5 py-0.5 text-[10px] font-medium text-[#6b93d6]">Mentions you</span>
+                )}
+                {isResolved && <span className="text-xs text-zinc-500">Resolved</span>}
+                {canPost && (
+                    <button
+                        type="button"
+                        onClick={handleResolve}
+                        disabled={isResolving}
+                        className="ml-auto flex items-center gap-1 rounded-md px-2 py-0.5 text-xs text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white disabled:opacity-50"
+                    >
+                        {isResolved ? <RotateCcw className="h-3 w-3" /> : <Check className="h-3 w-3" />}
+                        {isResolved ? 'Reopen' : 'Resolve'}
+                    </button>
+                )}
+            </div>
+
+            {threadComments.map(comment => (
+                <div key={comment.id} className="group">
+                    <div className="flex items-baseline gap-2">
+                        <span className="text-xs font-medium text-white">{comment.authorName}</span>
+                        <span className="text-[10px] text-zinc-500">{formatTime(comment.createdAt)}</span>
+                        {comment.userId === user?.id && (
+                            <button
+                                type="button"
+                                onClick={() => handleDelete(comment)}
+                                className="ml-auto text-zinc-500 opacity-0 transition-opacity hover:text-red-400 group-hover:opacity-100"
+                                title="Delete comment"
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </button>
+                        )}
+                    </div>
+                    <CommentBody comment={comment} people={people} />
+                </div>
+            ))}
+
+            {canPost && !isResolved && (
+                <CommentComposer people={people} placeholder="Reply…" onSubmit={handleReply} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { MessageSquare } from 'lucide-react';
+import { getThreadsForNode } from '@/lib/comments';
+import { useProjectComments } from '@/hooks/useProjectComments';
+import { useCommentsStore } from '@/store/useCommentsStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useToast } from '@/context/ToastContext';
+import { CommentComposer, CommentThreadView } from './CommentThread';
+
+interface CommentsPanelProps {
+    nodeId: number;
+    projectId: number | null | undefined;
+    canPost: boolean;
+}
+
+export function CommentsPanel({ nodeId, projectId, canPost }: CommentsPanelProps) {
+    const { threads, comments, people } = useProjectComments(projectId);
+    const startThread = useCommentsStore((s) => s.startThread);
+    const user = useAuthStore((s) => s.user);
+    const { showToast } = useToast();
+    const [showResolved, setShowResolved] = useState(false);
+
+    const nodeThreads = getThreadsForNode(threads, nodeId);
+    const open = nodeThreads.filter(t => !t.resolvedAt);
+    const resolved = nodeThreads.filter(t => t.resolvedAt);
+
+    const handleStart = async (body: string) => {
+        if (!user || !projectId) return;
+        try {
+            await startThread(projectId, { kind: 'node', nodeId }, body, {
+                userId: user.id,
+                name: user.displayName || user.email || 'Someone',
+            });
+        } catch {
+            showToast('Failed to post comment', 'error');
+            throw new Error('Failed to post comment');
+        }
+    };
+
+    if (!projectId) return null;
+
+    return (
+        <div>
+            <h4 className="mb-3 flex items-center gap-2 text-sm font-medium text-zinc-300">
+                <MessageSquare className="h-4 w-4" />
+                Comments ({open.length})
+                {resolved.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => setShowResolved(v => !v)}
+                        className="ml-auto text-xs font-normal text-zinc-500 transition-colors hover:text-white"
+                    >
+                        {showResolved ? 'Hide resolved' : `Show resolved (${resolved.length})`}
+                    </button>
+                )}
+            </h4>
+
+            <div className="space-y-3">
+                {[...open, ...(showResolved ? resolved : [])].map(thread => (
+                    <div key={thread.id} className="rounded-lg bg-zinc-800/50 p-3">
+                        <CommentThreadView thread={thread} comments={comments} people={people} canPost={canPost} />
+                    </div>
+                ))}
+
+                {open.length === 0 && !canPost && (
+                    <p className="text-xs text-zinc-500">No comments yet</p>
+                )}
+
+                {canPost && (
+                    <CommentComposer
+                        people={people}
+                        placeholder="Ask a question or leave a note… (@ to mention)"
+                        onSubmit={handleStart}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
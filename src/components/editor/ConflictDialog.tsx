@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import type { MergeSide } from '@/lib/conflictMerge';
+
+export interface ConflictRow {
+    key: string; // Unique in the dialog, handed back with the choice
+    section: string; // What the field belongs to, e.g. "This node" or "Connection to X"
+    label: string;
+    mine: string;
+    theirs: string;
+    isColor?: boolean;
+}
+
+interface ConflictDialogProps {
+    isOpen: boolean;
+    rows: ConflictRow[];
+    // Changes from the other side that merged without needing a choice
+    notes: string[];
+    isSaving: boolean;
+    onResolve: (choices: Record<string, MergeSide>) => void;
+    onCancel: () => void;
+}
+
+function ConflictValue({ value, isColor }: { value: string; isColor?: boolean }) {
+    if (!value) return <span className="italic text-zinc-500">Empty</span>;
+    if (isColor) {
+        return (
+            <span className="flex items-center gap-2">
+                <span className="h-4 w-4 rounded border border-zinc-700" style={{ backgroundColor: value }} />
+                <span className="font-mono text-xs">{value}</span>
+            </span>
+        );
+    }
+    return <span className="block max-h-40 overflow-y-auto whitespace-pre-wrap break-words">{value}</span>;
+}
+
+export function ConflictDialog({ isOpen, rows, notes, isSaving, onResolve, onCancel }: ConflictDialogProps) {
+    // Every conflict starts on the user's own edit; mount a fresh dialog per conflict
+    const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+    const sections = [...new Set(rows.map(r => r.section))];
+
+    const renderSide = (row: ConflictRow, side: MergeSide) => {
+        const isChosen = (choices[row.key] ?? 'mine') === side;
+        return (
+            <button
+                type="button"
+                onClick={() => setChoices(prev => ({ ...prev, [row.key]: side }))}
+                className={`min-w-0 rounded-lg border p-3 text-left text-sm transition-colors ${isChosen
+                    ? 'border-[#355ea1] bg-[#355ea1]/15 text-zinc-100'
+                    : 'border-zinc-800 bg-zinc-800/40 text-zinc-400 hover:bg-zinc-800'
+                    }`}
+            >
+                <span className="mb-1.5 block text-[10px] font-semibold uppercase tracking-wide text-zinc-500">
+                    {side === 'mine' ? 'Mine' : 'Theirs'}
+                </span>
+                <ConflictValue value={side === 'mine' ? row.mine : row.theirs} isColor={row.isColor} />
+            </button>
+        );
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onCancel}
+            title="Someone else saved first"
+            description="These fields were changed both here and elsewhere. Pick which version to keep; everything else has been merged."
+            size="full"
+            footer={
+                <>
+                    <Button variant="ghost" onClick={onCancel} disabled={isSaving}>
+                        Keep editing
+                    </Button>
+                    <Button onClick={() => onResolve(choices)} loading={isSaving} icon={<GitMerge className="h-4 w-4" />}>
+                        Save merged
+                    </Button>
+                </>
+            }
+        >
+            <div className="max-h-[60vh] space-y-5 overflow-y-auto pr-1">
+                {sections.map(section => (
+                    <div key={section}>
+                        <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-400">{section}</h4>
+                        <div className="space-y-3">
+                            {rows.filter(r => r.section === section).map(row => (
+                                <div key={row.key}>
+                                    <p className="mb-1 text-xs text-zinc-500">{row.label}</p>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {renderSide(row, 'mine')}
+                                        {renderSide(row, 'theirs')}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+
+                {notes.length > 0 && (
+                    <div>
+                        <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-400">Also changed elsewhere</h4>
+                        <ul className="space-y-1 text-sm text-zinc-400">
+                            {notes.map(note => <li key={note}>{note}</li>)}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Plus, Trash2, Sparkles, Pencil } from 'lucide-react';
+import { Node, Flashcard } from '@/types/knowledge';
+import { api } from '@/lib/api';
+import { deriveFlashcards, FlashcardDraft } from '@/lib/flashcards';
+import { useFlashcardStore } from '@/store/useFlashcardStore';
+import { useToast } from '@/context/ToastContext';
+
+interface FlashcardEditorProps {
+    node: Pick<Node, 'id' | 'projectId' | 'title' | 'content'>;
+}
+
+export function FlashcardEditor({ node }: FlashcardEditorProps) {
+    const allCards = useFlashcardStore((s) => s.cards);
+    const addCard = useFlashcardStore((s) => s.addCard);
+    const updateCard = useFlashcardStore((s) => s.updateCard);
+    const deleteCard = useFlashcardStore((s) => s.deleteCard);
+    const { showToast } = useToast();
+
+    const [isAdding, setIsAdding] = useState(false);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [question, setQuestion] = useState('');
+    const [answer, setAnswer] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const cards = useMemo(() => allCards.filter(c => c.nodeId === node.id), [allCards, node.id]);
+
+    if (!node.projectId) return null;
+    const projectId = node.projectId;
+
+    const resetForm = () => {
+        setIsAdding(false);
+        setEditingId(null);
+        setQuestion('');
+        setAnswer('');
+    };
+
+    const createCards = async (drafts: FlashcardDraft[]) => {
+        setIsSaving(true);
+        try {
+            for (const draft of drafts) {
+                const created = await api.flashcards.create({ nodeId: node.id, projectId, ...draft });
+                addCard(created);
+            }
+        } catch {
+            showToast('Failed to save flashcard', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = async () => {
+        const draft = { question: question.trim(), answer: answer.trim() };
+        if (!draft.question || !draft.answer) return;
+
+        if (editingId !== null) {
+            const previous = cards.find(c => c.id === editingId);
+            updateCard(editingId, draft);
+            resetForm();
+            try {
+                await api.flashcards.update(editingId, draft);
+            } catch {
+                if (previous) updateCard(previous.id, previous);
+                showToast('Failed to update flashcard', 'error');
+            }
+            return;
+        }
+
+        await createCards([draft]);
+        resetForm();
+    };
+
+    const handleSuggest = async () => {
+        const existing = new Set(cards.map(c => c.question.toLowerCase()));
+        const drafts = deriveFlashcards(node).filter(d => !existing.has(d.question.toLowerCase()));
+        if (drafts.length === 0) {
+            showToast('No new cards found. Write lines like "Question :: Answer" in the content.', 'info');
+            return;
+        }
+        await createCards(drafts);
+    };
+
+    const handleDelete = async (card: Flashcard) => {
+        deleteCard(card.id);
+        try {
+            await api.flashcards.delete(card.id);
+        } catch {
+            addCard(card);
+            showToast('Failed to delete flashcard', 'error');
+        }
+    };
+
+    const startEdit = (card: Flashcard) => {
+        setEditingId(card.id);
+        setQuestion(card.question);
+        setAnswer(card.answer);
+        setIsAdding(true);
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-zinc-300">Flashcards</label>
+                <div className="flex items-center gap-1">
+                    <button
+                        type="button"
+                        onClick={handleSuggest}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 rounded-lg bg-zinc-800 px-2 py-1 text-xs text-zinc-400 transition-colors hover:bg-zinc-700 hover:text-white disabled:opacity-50"
+                        title="Generate cards from the title and content"
+                    >
+                        <Sparkles className="h-3 w-3" />
+                        Suggest
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => { resetForm(); setIsAdding(true); }}
+                        className="flex items-center gap-1 rounded-lg bg-zinc-800 px-2 py-1 text-xs text-zinc-400 transition-colors hover:bg-zinc-700 hover:text-white"
+                    >
+                        <Plus className="h-3 w-3" />
+                        Add
+                    </button>
+                </div>
+            </div>
+
+            {isAdding && (
+                <div className="mt-2 space-y-2 rounded-lg bg-zinc-800 p-3">
+                    <input
+                        type="text"
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        placeholder="Question"
+                        autoFocus
+                        className="w-full rounded-lg bg-zinc-700 px-3 py-1.5 text-sm text-white placeholder-zinc-500 outline-none"
+                    />
+                    <textarea
+                        value={answer}
+                        onChange={(e) => setAnswer(e.target.value)}
+                        placeholder="Answer"
+                        rows={2}
+                        className="w-full resize-none rounded-lg bg-zinc-700 px-3 py-1.5 text-sm text-white placeholder-zinc-500 outline-none"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={resetForm}
+                            className="flex-1 rounded-lg bg-zinc-700 py-1.5 text-xs font-medium text-white hover:bg-zinc-600 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={!question.trim() || !answer.trim() || isSaving}
+                            className="flex-1 rounded-lg bg-[#355ea1] py-1.5 text-xs font-medium text-white hover:bg-[#265fbd] transition-colors disabled:opacity-50"
+                        >
+                            {editingId !== null ? 'Update' : 'Add card'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {cards.length > 0 ? (
+                <div className="mt-2 space-y-2">
+                    {cards.map(card => (
+                        <div key={card.id} className="group rounded-lg bg-zinc-800/50 p-2 text-sm">
+                            <div className="flex items-start gap-2">
+                                <p className="flex-1 font-medium text-white">{card.question}</p>
+                                <button
+                                    type="button"
+                                    onClick={() => startEdit(card)}
+                                    className="opacity-0 group-hover:opacity-100 p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-all"
+                                    title="Edit card"
+                                >
+                                    <Pencil className="h-3 w-3" />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => handleDelete(card)}
+                                    className="opacity-0 group-hover:opacity-100 p-1 rounded text-zinc-400 hover:bg-red-600/50 hover:text-white transition-all"
+                                    title="Delete card"
+                                >
+                                    <Trash2 className="h-3 w-3" />
+                                </button>
+                            </div>
+                            <p className="mt-1 text-xs text-zinc-400 whitespace-pre-wrap">{card.answer}</p>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                !isAdding && <p className="mt-2 text-xs text-zinc-500">No flashcards yet</p>
+            )}
+        </div>
+    );
+}
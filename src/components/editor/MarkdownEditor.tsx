@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useRef, useMemo } from 'react';
+import { Node } from '@/types/knowledge';
+import { MarkdownContent } from '@/components/ui';
+import { getWikiLinkQuery, completeWikiLink, findNodeByTitle, WikiLinkQuery } from '@/lib/wikiLinks';
+
+interface MarkdownEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    nodes: Node[]; // Candidates for [[reference]] autocomplete
+    currentNodeId?: number;
+    onWikiLinkClick?: (title: string) => void;
+    placeholder?: string;
+    rows?: number;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export function MarkdownEditor({ value, onChange, nodes, currentNodeId, onWikiLinkClick, placeholder, rows = 6 }: MarkdownEditorProps) {
+    const [mode, setMode] = useState<'write' | 'preview'>('write');
+    const [wikiQuery, setWikiQuery] = useState<WikiLinkQuery | null>(null);
+    const [highlightIndex, setHighlightIndex] = useState(0);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const suggestions = useMemo(() => {
+        if (!wikiQuery) return [];
+        const q = wikiQuery.query.trim().toLowerCase();
+        return nodes
+            .filter(n => n.id !== currentNodeId && n.title.toLowerCase().includes(q))
+            .sort((a, b) => {
+                // Prefix matches first
+                const aPrefix = a.title.toLowerCase().startsWith(q) ? 0 : 1;
+                const bPrefix = b.title.toLowerCase().startsWith(q) ? 0 : 1;
+                return aPrefix - bPrefix || a.title.localeCompare(b.title);
+            })
+            .slice(0, MAX_SUGGESTIONS);
+    }, [wikiQuery, nodes, currentNodeId]);
+
+    const updateQuery = (text: string, caret: number) => {
+        setWikiQuery(getWikiLinkQuery(text, caret));
+        setHighlightIndex(0);
+    };
+
+    const applySuggestion = (title: string) => {
+        const textarea = textareaRef.current;
+        if (!textarea || !wikiQuery) return;
+        const completed = completeWikiLink(value, textarea.selectionStart, wikiQuery, title);
+        onChange(completed.text);
+        setWikiQuery(null);
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(completed.caret, completed.caret);
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (!wikiQuery || suggestions.length === 0) return;
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setHighlightIndex(i => (i + 1) % suggestions.length);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlightIndex(i => (i - 1 + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            applySuggestion(suggestions[highlightIndex].title);
+        } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            setWikiQuery(null);
+        }
+    };
+
+    return (
+        <div className="mt-2">
+            <div className="mb-1 flex gap-1">
+                {(['write', 'preview'] as const).map(m => (
+                    <button
+                        key={m}
+                        type="button"
+                        onClick={() => setMode(m)}
+                        className={`rounded-md px-2 py-0.5 text-xs font-medium capitalize transition-colors ${mode === m
+                            ? 'bg-zinc-700 text-white'
+                            : 'text-zinc-500 hover:text-zinc-300'
+                            }`}
+                    >
+                        {m}
+                    </button>
+                ))}
+            </div>
+
+            {mode === 'write' ? (
+                <div className="relative">
+                    <textarea
+                        ref={textareaRef}
+                        value={value}
+                        onChange={(e) => {
+                            onChange(e.target.value);
+                            updateQuery(e.target.value, e.target.selectionStart);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        onClick={(e) => updateQuery(value, e.currentTarget.selectionStart)}
+                        onBlur={() => setWikiQuery(null)}
+                        placeholder={placeholder}
+                        rows={rows}
+                        className="w-full resize-y rounded-lg bg-zinc-800 px-4 py-2.5 font-mono text-sm text-white placeholder-zinc-500 outline-none ring-1 ring-zinc-700 transition-all"
+                    />
+                    {wikiQuery && suggestions.length > 0 && (
+                        <div className="absolute left-2 right-2 top-full z-50 mt-1 max-h-48 overflow-y-auto rounded-lg border border-zinc-700 bg-zinc-800 shadow-xl">
+                            {suggestions.map((node, i) => (
+                                <button
+                                    key={node.id}
+                                    type="button"
+                                    // Keep focus in the textarea so the caret position survives
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        applySuggestion(node.title);
+                                    }}
+                                    className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${i === highlightIndex ? 'bg-zinc-700 text-white' : 'text-zinc-300 hover:bg-zinc-700'}`}
+                                >
+                                    <span
+                                        className="h-2 w-2 shrink-0 rounded-full"
+                                        style={{ backgroundColor: node.customColor || '#355ea1' }}
+                                    />
+                                    <span className="truncate">{node.title}</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <p className="mt-1 text-[10px] text-zinc-500">Markdown supported. Type [[ to reference another node.</p>
+                </div>
+            ) : (
+                <div className="min-h-[6rem] rounded-lg bg-zinc-800/50 px-4 py-2.5 ring-1 ring-zinc-700">
+                    {value.trim() ? (
+                        <MarkdownContent
+                            content={value}
+                            resolveWikiLink={(title) => !!findNodeByTitle(nodes, title)}
+                            onWikiLinkClick={onWikiLinkClick}
+                        />
+                    ) : (
+                        <p className="text-sm italic text-zinc-500">Nothing to preview</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
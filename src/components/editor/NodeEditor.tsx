@@ -1,14 +1,65 @@
 'use client';
 // Refactored for Optimistic UI
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { X, Save, Trash2, Plus, Image, Video, Link2, FileText, ExternalLink, Tag, Loader2, ArrowRight, Pencil } from 'lucide-react';
 import { useGraphStore } from '@/store/useGraphStore';
 import { useAuthStore } from '@/store/useAuthStore';
 import { useToast } from '@/context/ToastContext';
-import { Attachment, Tag as TagType, Link as LinkType, GROUP_COLORS } from '@/types/knowledge';
-import { api } from '@/lib/api';
+import { Attachment, Tag as TagType, Link as LinkType, Node as GraphNode, GROUP_COLORS } from '@/types/knowledge';
+import { api, ConflictError } from '@/lib/api';
+import { mergeFields, resolveMerge, type FieldMerge, type MergeSide } from '@/lib/conflictMerge';
 import { ColorPicker } from '@/components/ui/ColorPicker';
+import { RelationshipTypePicker } from '@/components/graph/RelationshipTypePicker';
+import { StudyProgressControl } from './StudyProgressControl';
+import { FlashcardEditor } from './FlashcardEditor';
+import { MarkdownEditor } from './MarkdownEditor';
+import { BacklinksPanel } from './BacklinksPanel';
+import { ConflictDialog, type ConflictRow } from './ConflictDialog';
+import { extractWikiLinks, findNodeByTitle } from '@/lib/wikiLinks';
+import { areNodesLinked } from '@/lib/backlinks';
+import { getRelationshipVocabulary, findRelationshipType } from '@/lib/relationshipTypes';
+import { usePresence } from '@/hooks/usePresence';
+
+type NodeFields = Pick<GraphNode, 'title' | 'content' | 'customColor'>;
+type LinkFields = Pick<LinkType, 'description' | 'relationshipType' | 'color' | 'isBidirectional'>;
+
+const NODE_MERGE_FIELDS: (keyof NodeFields)[] = ['title', 'content', 'customColor'];
+const LINK_MERGE_FIELDS: (keyof LinkFields)[] = ['description', 'relationshipType', 'color', 'isBidirectional'];
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  content: 'Content',
+  customColor: 'Color',
+  description: 'Description',
+  relationshipType: 'Relationship',
+  color: 'Color',
+  isBidirectional: 'Direction',
+};
+
+interface LinkConflict {
+  id: number;
+  mine: LinkType;
+  original: LinkType; // As it was before this edit, the base of the merge
+  theirs: LinkType;
+  merge: FieldMerge<LinkFields, keyof LinkFields>;
+}
+
+// What a save couldn't merge on its own because someone else saved the same fields
+interface SaveConflict {
+  node: { theirs: GraphNode; merge: FieldMerge<NodeFields, keyof NodeFields> } | null;
+  links: LinkConflict[];
+  notes: string[];
+}
+
+// The dialog keys choices as "<prefix>.<field>"
+function choicesFor<K extends string>(choices: Record<string, MergeSide>, prefix: string): Partial<Record<K, MergeSide>> {
+  return Object.fromEntries(
+    Object.entries(choices)
+      .filter(([key]) => key.startsWith(`${prefix}.`))
+      .map(([key, side]) => [key.slice(prefix.length + 1), side])
+  ) as Partial<Record<K, MergeSide>>;
+}
 
 export function NodeEditor() {
   const activeNode = useGraphStore((s) => s.activeNode);
@@ -28,6 +79,11 @@ export function NodeEditor() {
   const updateLink = useGraphStore((s) => s.updateLink);
   const deleteLink = useGraphStore((s) => s.deleteLink);
   const setSearchQuery = useGraphStore((s) => s.setSearchQuery);
+  const relationshipTypes = useGraphStore((s) => s.relationshipTypes);
+  const beginUndoStep = useGraphStore((s) => s.beginUndoStep);
+  const endUndoStep = useGraphStore((s) => s.endUndoStep);
+  const editingNodeId = isEditorOpen && activeNode ? String(activeNode.id) : null;
+  const { activeEditors: otherEditors, updatePresence } = usePresence(editingNodeId);
 
   const isConnectionPickerActive = useGraphStore(s => s.isConnectionPickerActive);
   const setConnectionPickerActive = useGraphStore(s => s.setConnectionPickerActive);
@@ -49,9 +105,14 @@ export function NodeEditor() {
   const [selectedTargetNodeId, setSelectedTargetNodeId] = useState<number | ''>('');
   const [connectionDescription, setConnectionDescription] = useState('');
   const [connectionColor, setConnectionColor] = useState('#355ea1');
+  const [connectionRelationshipType, setConnectionRelationshipType] = useState<string | null>(null);
+  const [connectionBidirectional, setConnectionBidirectional] = useState(false);
   const [editingConnectionId, setEditingConnectionId] = useState<number | null>(null);
+  const [linkWikiReferences, setLinkWikiReferences] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const attachmentMenuRef = useRef<HTMLDivElement>(null);
@@ -63,6 +124,17 @@ export function NodeEditor() {
   const [tempCustomColor, setTempCustomColor] = useState('#355ea1');
   const [showUnsavedPopup, setShowUnsavedPopup] = useState(false);
 
+  const relationshipVocabulary = useMemo(() => getRelationshipVocabulary(relationshipTypes), [relationshipTypes]);
+
+  // [[References]] in the content that point at a node this one isn't connected to yet
+  const unlinkedReferences = useMemo(() => {
+    if (!activeNode) return [];
+    return extractWikiLinks(content)
+      .map(title => findNodeByTitle(nodes, title))
+      .filter((n): n is NonNullable<typeof n> => !!n && n.id !== activeNode.id)
+      .filter(n => !areNodesLinked(links, activeNode.id, n.id));
+  }, [content, nodes, links, activeNode]);
+
   // Buffer State for Deferred Saving & Revert
   const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
   const [deletedAttachments, setDeletedAttachments] = useState<Map<number, Attachment>>(new Map());
@@ -83,6 +155,7 @@ export function NodeEditor() {
     setDeletedLinks(new Map());
     setEditedLinks(new Map());
     setOriginalLinks(new Map());
+    setConflict(null);
   }, [activeNode?.id]);
 
   useEffect(() => {
@@ -108,6 +181,15 @@ export function NodeEditor() {
     }
   }, [activeNode?.id]);
 
+  // Let collaborators see which node is open here
+  useEffect(() => {
+    if (!editingNodeId) return;
+    updatePresence(editingNodeId);
+    return () => {
+      updatePresence(null);
+    };
+  }, [editingNodeId, updatePresence]);
+
   // Revert changes on unmount/selection change if not saved
   useEffect(() => {
     const nodeId = activeNode?.id;
@@ -141,28 +223,95 @@ export function NodeEditor() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  const nodeTitle = (id: number) => nodes.find(n => n.id === id)?.title || 'Untitled';
+
+  // Save title, content and color, checked against the version this copy was loaded at.
+  // Fields the other save didn't touch merge quietly; a real clash is handed back.
+  const saveNodeFields = async (node: GraphNode, fields: NodeFields, version: number | undefined): Promise<SaveConflict['node']> => {
+    try {
+      const saved = await api.nodes.update(node.id, {
+        id: node.id,
+        ...fields,
+        groupId: node.groupId,
+        projectId: node.projectId,
+        userId: node.userId,
+        version,
+      });
+      updateNode(node.id, { ...fields, version: saved.version ?? version });
+      originalColorRef.current = fields.customColor || undefined;
+      return null;
+    } catch (err) {
+      if (!(err instanceof ConflictError) || !err.current) throw err;
+      const theirs = err.current as GraphNode;
+      const base = { title: node.title, content: node.content || '', customColor: originalColorRef.current };
+      const merge = mergeFields<NodeFields, keyof NodeFields>(base, fields, theirs, NODE_MERGE_FIELDS);
+      if (merge.conflicts.length > 0) return { theirs, merge };
+      return saveNodeFields(node, merge.merged, theirs.version);
+    }
+  };
+
+  const saveLinkFields = async (id: number, mine: LinkType, original: LinkType, version: number | undefined): Promise<LinkConflict | null> => {
+    try {
+      const updated = await api.links.update(id, {
+        id: id,
+        sourceId: mine.sourceId,
+        targetId: mine.targetId,
+        color: mine.color,
+        description: mine.description || undefined,
+        relationshipType: mine.relationshipType ?? null,
+        isBidirectional: !!mine.isBidirectional,
+        userId: mine.userId || activeNode?.userId || user?.id || '',
+        version,
+      });
+      updateLink(id, updated);
+      return null;
+    } catch (err) {
+      if (!(err instanceof ConflictError) || !err.current) throw err;
+      const theirs = err.current as LinkType;
+      const merge = mergeFields<LinkFields, keyof LinkFields>(original, mine, theirs, LINK_MERGE_FIELDS);
+      if (merge.conflicts.length > 0) return { id, mine, original, theirs, merge };
+      return saveLinkFields(id, { ...mine, ...merge.merged }, original, theirs.version);
+    }
+  };
+
+  // Someone else saved this node, so they may have connected or disconnected it too; catch up and say what changed
+  const syncConnections = async (nodeId: number): Promise<string[]> => {
+    const theirLinks = await api.links.getByNode(nodeId).catch(() => null);
+    if (!theirLinks) return [];
+
+    const { links: current, applyRemoteChange } = useGraphStore.getState();
+    const saved = current.filter(l => l.id > 0 && (l.sourceId === nodeId || l.targetId === nodeId));
+    const otherEnd = (link: LinkType) => nodeTitle(link.sourceId === nodeId ? link.targetId : link.sourceId);
+    const notes: string[] = [];
+
+    for (const link of theirLinks) {
+      if (saved.some(l => l.id === link.id)) continue;
+      applyRemoteChange('link', 'create', link.id, link);
+      notes.push(`Connected to "${otherEnd(link)}"`);
+    }
+    for (const link of saved) {
+      if (theirLinks.some(l => l.id === link.id)) continue;
+      applyRemoteChange('link', 'delete', link.id, null);
+      notes.push(`Disconnected from "${otherEnd(link)}"`);
+    }
+    return notes;
+  };
+
   const handleSave = async () => {
     if (!activeNode) return;
 
     setIsSaving(true);
     setError(null);
+    // The node and its connections are one step, however many requests the save takes
+    beginUndoStep();
+
+    let nodeConflict: SaveConflict['node'] = null;
+    const linkConflicts: LinkConflict[] = [];
 
     try {
       // 1. Save Node Properties
       if (title !== activeNode.title || content !== (activeNode.content || '') || customColor !== originalColorRef.current) {
-        await api.nodes.update(activeNode.id, {
-          id: activeNode.id,
-          title,
-          content: content || '',
-          groupId: activeNode.groupId,
-          customColor,
-          projectId: activeNode.projectId,
-          userId: activeNode.userId,
-          group: activeNode.group ? { id: activeNode.group.id, name: activeNode.group.name, color: activeNode.group.color, order: activeNode.group.order } : { id: activeNode.groupId ?? 0, name: 'Default', color: '#808080', order: 0 },
-          x: activeNode.x,
-          y: activeNode.y,
-        });
-        updateNode(activeNode.id, { title, content, customColor });
+        nodeConflict = await saveNodeFields(activeNode, { title, content: content || '', customColor }, activeNode.version);
       }
 
       // 2. Attachments
@@ -189,21 +338,30 @@ export function NodeEditor() {
           targetId: link.targetId,
           color: link.color,
           description: link.description || undefined,
+          relationshipType: link.relationshipType ?? null,
+          isBidirectional: !!link.isBidirectional,
           userId: link.userId || activeNode.userId || user?.id || ''
         });
         deleteLink(link.id);
         addLink(newLink);
       }
       for (const [id, link] of editedLinks) {
-        const updated = await api.links.update(id, {
-          id: id,
-          sourceId: link.sourceId,
-          targetId: link.targetId,
-          color: link.color,
-          description: link.description || undefined,
-          userId: link.userId || activeNode.userId || user?.id || ''
-        });
-        updateLink(id, updated);
+        const original = originalLinks.get(id) ?? link;
+        const linkConflict = await saveLinkFields(id, link, original, original.version);
+        if (linkConflict) linkConflicts.push(linkConflict);
+      }
+
+      // 4. Links for [[references]] in the content
+      if (linkWikiReferences) {
+        for (const target of unlinkedReferences) {
+          const newLink = await api.links.create({
+            sourceId: activeNode.id,
+            targetId: target.id,
+            color: '#355ea1',
+            userId: activeNode.userId || user?.id || ''
+          });
+          addLink(newLink);
+        }
       }
 
       // Reset Buffers
@@ -214,8 +372,12 @@ export function NodeEditor() {
       setEditedLinks(new Map());
       setOriginalLinks(new Map());
 
-      // Update Ref
-      originalColorRef.current = customColor;
+      if (nodeConflict || linkConflicts.length > 0) {
+        // Everything else is saved; the editor stays open until the clashes are settled
+        const notes = nodeConflict ? await syncConnections(activeNode.id) : [];
+        setConflict({ node: nodeConflict, links: linkConflicts, notes });
+        return;
+      }
 
       setSearchQuery('');
       showToast('Node saved successfully');
@@ -224,10 +386,94 @@ export function NodeEditor() {
       setError(err instanceof Error ? err.message : 'Failed to save');
       showToast('Failed to save node', 'error');
     } finally {
+      endUndoStep();
       setIsSaving(false);
     }
   };
 
+  const handleResolveConflict = async (choices: Record<string, MergeSide>) => {
+    if (!conflict || !activeNode) return;
+
+    setIsResolving(true);
+    beginUndoStep();
+    try {
+      const remaining: SaveConflict = { node: null, links: [], notes: conflict.notes };
+      if (conflict.node) {
+        const fields = resolveMerge(conflict.node.merge, choicesFor<keyof NodeFields>(choices, 'node'));
+        remaining.node = await saveNodeFields(activeNode, fields, conflict.node.theirs.version);
+      }
+      for (const linkConflict of conflict.links) {
+        const fields = resolveMerge(linkConflict.merge, choicesFor<keyof LinkFields>(choices, `link:${linkConflict.id}`));
+        const again = await saveLinkFields(linkConflict.id, { ...linkConflict.mine, ...fields }, linkConflict.original, linkConflict.theirs.version);
+        if (again) remaining.links.push(again);
+      }
+
+      if (remaining.node || remaining.links.length > 0) {
+        setConflict(remaining);
+        showToast('It changed again while you were merging', 'warning');
+        return;
+      }
+
+      setConflict(null);
+      setSearchQuery('');
+      showToast('Node saved successfully');
+      toggleEditor(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+      showToast('Failed to save node', 'error');
+    } finally {
+      endUndoStep();
+      setIsResolving(false);
+    }
+  };
+
+  const handleCancelConflict = () => {
+    if (conflict) {
+      // Unsettled connection edits go back in the buffers, so the next save runs into them again
+      setEditedLinks(prev => {
+        const next = new Map(prev);
+        conflict.links.forEach(l => next.set(l.id, l.mine));
+        return next;
+      });
+      setOriginalLinks(prev => {
+        const next = new Map(prev);
+        conflict.links.forEach(l => next.set(l.id, l.original));
+        return next;
+      });
+    }
+    setConflict(null);
+  };
+
+  const describeConflictValue = (field: string, value: unknown) => {
+    if (field === 'isBidirectional') return value ? 'Both ways' : 'One way';
+    if (field === 'relationshipType') {
+      return value ? findRelationshipType(relationshipVocabulary, value as string)?.label ?? String(value) : '';
+    }
+    return value == null ? '' : String(value);
+  };
+
+  const conflictRows: ConflictRow[] = conflict ? [
+    ...(conflict.node?.merge.conflicts ?? []).map(c => ({
+      key: `node.${c.field}`,
+      section: 'This node',
+      label: FIELD_LABELS[c.field],
+      mine: describeConflictValue(c.field, c.mine),
+      theirs: describeConflictValue(c.field, c.theirs),
+      isColor: c.field === 'customColor',
+    })),
+    ...conflict.links.flatMap(l => {
+      const otherId = l.mine.sourceId === activeNode?.id ? l.mine.targetId : l.mine.sourceId;
+      return l.merge.conflicts.map(c => ({
+        key: `link:${l.id}.${c.field}`,
+        section: `Connection to "${nodeTitle(otherId)}"`,
+        label: FIELD_LABELS[c.field],
+        mine: describeConflictValue(c.field, c.mine),
+        theirs: describeConflictValue(c.field, c.theirs),
+        isColor: c.field === 'color',
+      }));
+    }),
+  ] : [];
+
   const handleDelete = async () => {
     if (!activeNode) return;
 
@@ -282,6 +528,38 @@ export function NodeEditor() {
     setShowUnsavedPopup(false);
   };
 
+  const navigateToNode = (target: typeof nodes[number]) => {
+    if (isDirty) {
+      showToast('Save or discard your changes before leaving this node', 'info');
+      return;
+    }
+    setActiveNode(target);
+  };
+
+  const handleWikiLinkClick = (targetTitle: string) => {
+    const target = findNodeByTitle(nodes, targetTitle);
+    if (!target) {
+      showToast(`No node named "${targetTitle}" in this project`, 'info');
+      return;
+    }
+    navigateToNode(target);
+  };
+
+  const handleConvertMention = async (source: { id: number; userId?: string | null }) => {
+    if (!activeNode) return;
+    try {
+      const newLink = await api.links.create({
+        sourceId: source.id,
+        targetId: activeNode.id,
+        color: '#355ea1',
+        userId: source.userId || user?.id || ''
+      });
+      addLink(newLink);
+    } catch {
+      showToast('Failed to create link', 'error');
+    }
+  };
+
   const handleClose = () => {
     if (isDirty) {
       setShowUnsavedPopup(true);
@@ -407,6 +685,8 @@ export function NodeEditor() {
       target: sanitizeNode(targetNode),
       color: connectionColor,
       description: connectionDescription.trim() || undefined,
+      relationshipType: connectionRelationshipType,
+      isBidirectional: connectionBidirectional,
       userId: userId,
       createdAt: new Date().toISOString()
     };
@@ -417,6 +697,8 @@ export function NodeEditor() {
     setSelectedTargetNodeId('');
     setConnectionDescription('');
     setConnectionColor('#355ea1');
+    setConnectionRelationshipType(null);
+    setConnectionBidirectional(false);
     setShowConnectionMenu(false);
     setError(null);
   };
@@ -440,6 +722,8 @@ export function NodeEditor() {
     setSelectedTargetNodeId(connectedNodeId);
     setConnectionDescription(link.description || '');
     setConnectionColor(link.color || '#355ea1');
+    setConnectionRelationshipType(link.relationshipType || null);
+    setConnectionBidirectional(!!link.isBidirectional);
     setShowConnectionMenu(true);
   };
 
@@ -454,6 +738,8 @@ export function NodeEditor() {
       ...link,
       color: connectionColor,
       description: connectionDescription.trim() || undefined,
+      relationshipType: connectionRelationshipType,
+      isBidirectional: connectionBidirectional,
     };
 
     if (editingConnectionId < 0) {
@@ -474,6 +760,8 @@ export function NodeEditor() {
     setSelectedTargetNodeId('');
     setConnectionDescription('');
     setConnectionColor('#355ea1');
+    setConnectionRelationshipType(null);
+    setConnectionBidirectional(false);
     setEditingConnectionId(null);
     setShowConnectionMenu(false);
     setError(null);
@@ -484,6 +772,8 @@ export function NodeEditor() {
     setSelectedTargetNodeId('');
     setConnectionDescription('');
     setConnectionColor('#355ea1');
+    setConnectionRelationshipType(null);
+    setConnectionBidirectional(false);
     setShowConnectionMenu(false);
   };
 
@@ -537,6 +827,24 @@ export function NodeEditor() {
           </button>
         </div>
 
+        {otherEditors.length > 0 && (
+          <div className="flex items-center gap-2 border-b border-amber-500/20 bg-amber-500/10 px-4 py-2 text-xs text-amber-300">
+            <div className="flex -space-x-1">
+              {otherEditors.map(editor => (
+                <span
+                  key={editor.sessionId}
+                  className="h-2.5 w-2.5 rounded-full ring-2 ring-zinc-900"
+                  style={{ backgroundColor: editor.color }}
+                  title={editor.displayName}
+                />
+              ))}
+            </div>
+            <span className="truncate">
+              Being edited by {[...new Set(otherEditors.map(e => e.displayName))].join(', ')}
+            </span>
+          </div>
+        )}
+
         {error && (
           <div className="border-b border-red-500/20 bg-red-500/10 px-4 py-2 text-xs text-red-400">
             {error}
@@ -558,15 +866,31 @@ export function NodeEditor() {
 
             <div>
               <label className="block text-sm font-medium text-zinc-300">Content (optional)</label>
-              <textarea
+              <MarkdownEditor
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
+                onChange={setContent}
+                nodes={nodes}
+                currentNodeId={activeNode.id}
+                onWikiLinkClick={handleWikiLinkClick}
                 placeholder="Add content..."
-                rows={6}
-                className="mt-2 w-full resize-none rounded-lg bg-zinc-800 px-4 py-2.5 text-sm text-white placeholder-zinc-500 outline-none ring-1 ring-zinc-700 transition-all  -[#265fbd]"
               />
+              {unlinkedReferences.length > 0 && (
+                <label className="mt-2 flex cursor-pointer items-center gap-2 text-xs text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={linkWikiReferences}
+                    onChange={(e) => setLinkWikiReferences(e.target.checked)}
+                    className="accent-[#355ea1]"
+                  />
+                  Connect to {unlinkedReferences.length === 1 ? unlinkedReferences[0].title : `${unlinkedReferences.length} referenced nodes`} on save
+                </label>
+              )}
             </div>
 
+            <StudyProgressControl nodeId={activeNode.id} projectId={activeNode.projectId} />
+
+            <FlashcardEditor node={activeNode} />
+
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-2">Color</label>
               <div className="flex flex-wrap gap-2 items-center">
@@ -867,6 +1191,21 @@ export function NodeEditor() {
                             <ArrowRight className="h-4 w-4" />
                           </button>
                         </div>                      </div>
+                      <div className="mb-2">
+                        <RelationshipTypePicker
+                          value={connectionRelationshipType}
+                          onChange={setConnectionRelationshipType}
+                        />
+                        <label className="mt-2 flex cursor-pointer items-center gap-2 text-xs text-zinc-400">
+                          <input
+                            type="checkbox"
+                            checked={connectionBidirectional}
+                            onChange={(e) => setConnectionBidirectional(e.target.checked)}
+                            className="accent-[#355ea1]"
+                          />
+                          Undirected (no arrowhead)
+                        </label>
+                      </div>
                       <div className="mb-2">
                         <ColorPicker
                           selectedColor={connectionColor}
@@ -921,6 +1260,7 @@ export function NodeEditor() {
                     const isSource = link.sourceId === activeNode.id;
                     const connectedNodeId = isSource ? link.targetId : link.sourceId;
                     const connectedNode = nodes.find(n => n.id === connectedNodeId);
+                    const linkType = findRelationshipType(relationshipVocabulary, link.relationshipType);
                     return (
                       <div
                         key={link.id}
@@ -931,8 +1271,11 @@ export function NodeEditor() {
                             className="h-2 w-2 rounded-full"
                             style={{ backgroundColor: link.color || '#355ea1' }}
                           />
-                          <span className="text-xs text-zinc-400">{isSource ? 'to' : 'from'}</span>
+                          <span className="text-xs text-zinc-400">{link.isBidirectional ? 'with' : isSource ? 'to' : 'from'}</span>
                           <span className="truncate text-sm text-white">{connectedNode?.title || 'Unknown'}</span>
+                          {linkType && (
+                            <span className="shrink-0 rounded bg-zinc-700 px-1.5 py-0.5 text-[10px] text-zinc-300">{linkType.label}</span>
+                          )}
                           {link.description && (
                             <span className="truncate text-xs text-zinc-500">({link.description})</span>
                           )}
@@ -957,6 +1300,14 @@ export function NodeEditor() {
                 )}
               </div>
             </div>
+
+            <BacklinksPanel
+              node={activeNode}
+              nodes={nodes}
+              links={links}
+              onSelectNode={navigateToNode}
+              onConvertMention={handleConvertMention}
+            />
           </div>
         </div>
 
@@ -988,6 +1339,17 @@ export function NodeEditor() {
         />
       )}
 
+      {conflict && (
+        <ConflictDialog
+          isOpen
+          rows={conflictRows}
+          notes={conflict.notes}
+          isSaving={isResolving}
+          onResolve={handleResolveConflict}
+          onCancel={handleCancelConflict}
+        />
+      )}
+
       {showUnsavedPopup && (
         <div className="fixed bottom-4 left-4 z-[60] w-80 rounded-lg border border-red-500/20 bg-zinc-900 p-4 shadow-2xl animate-in slide-in-from-bottom-2 fade-in duration-200">
           <p className="text-sm font-medium text-zinc-200 mb-4">
@@ -2,16 +2,29 @@
 
 import { X, Link2, FileText, Image, Video, Paperclip } from 'lucide-react';
 import { useGraphStore } from '@/store/useGraphStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useToast } from '@/context/ToastContext';
+import { api } from '@/lib/api';
 import { Node, Link as LinkType } from '@/types/knowledge';
+import { StudyProgressControl } from './StudyProgressControl';
+import { MarkdownContent } from '@/components/ui';
+import { findNodeByTitle } from '@/lib/wikiLinks';
+import { BacklinksPanel } from './BacklinksPanel';
+import { CommentsPanel } from './CommentsPanel';
+import { canComment } from '@/lib/projectRoles';
 
 interface NodePreviewPaneContentProps {
     activeNode: Node;
     nodes: Node[];
     links: LinkType[];
     onClose: () => void;
+    onNavigate?: (node: Node) => void;
+    onConvertMention?: (source: Node) => Promise<void>;
+    // Signed in with a role that may comment; others only read the threads
+    canPostComments?: boolean;
 }
 
-export function NodePreviewPaneContent({ activeNode, nodes, links, onClose }: NodePreviewPaneContentProps) {
+export function NodePreviewPaneContent({ activeNode, nodes, links, onClose, onNavigate, onConvertMention, canPostComments = false }: NodePreviewPaneContentProps) {
     // console.log('[NodeEditPanelDebug]', { nodeId: activeNode.id, title: activeNode.title, customColor: activeNode.customColor });
     const attachments = activeNode.attachments || [];
     const nodeConnections = links.filter(l => l.sourceId === activeNode.id || l.targetId === activeNode.id);
@@ -46,13 +59,23 @@ export function NodePreviewPaneContent({ activeNode, nodes, links, onClose }: No
                     <div>
                         <h3 className="text-xl font-bold text-white">{activeNode.title}</h3>
                         {activeNode.content && (
-                            <p className="mt-2 text-sm text-zinc-400 whitespace-pre-wrap">{activeNode.content}</p>
+                            <MarkdownContent
+                                content={activeNode.content}
+                                className="mt-2 text-zinc-400"
+                                resolveWikiLink={(title) => !!findNodeByTitle(nodes, title)}
+                                onWikiLinkClick={(title) => {
+                                    const target = findNodeByTitle(nodes, title);
+                                    if (target) onNavigate?.(target);
+                                }}
+                            />
                         )}
                         {!activeNode.content && (
                             <p className="mt-2 text-sm text-zinc-500 italic">No description</p>
                         )}
                     </div>
 
+                    <StudyProgressControl nodeId={activeNode.id} projectId={activeNode.projectId} />
+
                     {attachments.length > 0 && (
                         <div>
                             <h4 className="mb-3 flex items-center gap-2 text-sm font-medium text-zinc-300">
@@ -99,7 +122,7 @@ export function NodePreviewPaneContent({ activeNode, nodes, links, onClose }: No
                                                     style={{ backgroundColor: link.color || '#355ea1' }}
                                                 />
                                                 <span className="text-xs text-zinc-500">
-                                                    {isOutgoing ? 'To' : 'From'}
+                                                    {link.isBidirectional ? 'With' : isOutgoing ? 'To' : 'From'}
                                                 </span>
                                                 <span className="text-sm font-medium text-white">
                                                     {connectedNode?.title || 'Unknown Node'}
@@ -122,6 +145,20 @@ export function NodePreviewPaneContent({ activeNode, nodes, links, onClose }: No
                             <p className="text-sm text-zinc-500">No attachments or connections</p>
                         </div>
                     )}
+
+                    <CommentsPanel
+                        nodeId={activeNode.id}
+                        projectId={activeNode.projectId}
+                        canPost={canPostComments}
+                    />
+
+                    <BacklinksPanel
+                        node={activeNode}
+                        nodes={nodes}
+                        links={links}
+                        onSelectNode={onNavigate}
+                        onConvertMention={onConvertMention}
+                    />
                 </div>
             </div>
         </div>
@@ -132,9 +169,27 @@ export function NodePreviewPane() {
     const { activeNode, setActiveNode, nodes, links } = useGraphStore();
     const isEditorOpen = useGraphStore(state => state.isEditorOpen);
     const toggleEditor = useGraphStore(state => state.toggleEditor);
+    const addLink = useGraphStore(state => state.addLink);
+    const userId = useAuthStore(state => state.user?.id);
+    const canPostComments = useGraphStore(state => canComment(state.currentRole)) && !!userId;
+    const { showToast } = useToast();
 
     if (!isEditorOpen || !activeNode) return null;
 
+    const handleConvertMention = async (source: Node) => {
+        try {
+            const newLink = await api.links.create({
+                sourceId: source.id,
+                targetId: activeNode.id,
+                color: '#355ea1',
+                userId: source.userId || userId || ''
+            });
+            addLink(newLink);
+        } catch {
+            showToast('Failed to create link', 'error');
+        }
+    };
+
     const handleClose = () => {
         setActiveNode(null);
         toggleEditor(false);
@@ -146,6 +201,9 @@ export function NodePreviewPane() {
             nodes={nodes}
             links={links}
             onClose={handleClose}
+            onNavigate={setActiveNode}
+            onConvertMention={handleConvertMention}
+            canPostComments={canPostComments}
         />
     );
 }
@@ -0,0 +1,53 @@
+'use client';
+
+import { Circle, CircleDashed, CheckCircle2 } from 'lucide-react';
+import type { StudyStatus } from '@/types/knowledge';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useProgressStore, getNodeStatus } from '@/store/useProgressStore';
+import { STUDY_STATUS_COLORS } from '@/components/graph/nodeBadges';
+
+interface StudyProgressControlProps {
+    nodeId: number;
+    projectId?: number | null;
+}
+
+const statuses: { id: StudyStatus; label: string; icon: typeof Circle }[] = [
+    { id: 'not-started', label: 'Not started', icon: Circle },
+    { id: 'learning', label: 'Learning', icon: CircleDashed },
+    { id: 'mastered', label: 'Mastered', icon: CheckCircle2 },
+];
+
+export function StudyProgressControl({ nodeId, projectId }: StudyProgressControlProps) {
+    const userId = useAuthStore((s) => s.user?.id ?? null);
+    const entries = useProgressStore((s) => s.entries);
+    const setStatus = useProgressStore((s) => s.setStatus);
+
+    if (!projectId) return null;
+
+    const current = getNodeStatus(entries, userId, nodeId);
+
+    return (
+        <div>
+            <label className="text-sm font-medium text-zinc-300">My progress</label>
+            <div className="mt-2 flex gap-1 rounded-lg bg-zinc-800/50 p-1">
+                {statuses.map(({ id, label, icon: Icon }) => (
+                    <button
+                        key={id}
+                        type="button"
+                        onClick={() => setStatus({ nodeId, projectId, userId, status: id })}
+                        className={`flex flex-1 items-center justify-center gap-1.5 rounded-md py-1.5 text-xs font-medium transition-colors ${current === id
+                            ? 'bg-zinc-700 text-white'
+                            : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'
+                            }`}
+                    >
+                        <Icon className="h-3.5 w-3.5" style={current === id ? { color: STUDY_STATUS_COLORS[id] } : undefined} />
+                        {label}
+                    </button>
+                ))}
+            </div>
+            {!userId && (
+                <p className="mt-1 text-[10px] text-zinc-500">Saved on this device. Sign in to keep it across devices.</p>
+            )}
+        </div>
+    );
+}
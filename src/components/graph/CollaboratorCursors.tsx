@@ -0,0 +1,37 @@
+'use client';
+
+import { MousePointer2 } from 'lucide-react';
+import { useCollabStore } from '@/store/useCollabStore';
+
+interface CollaboratorCursorsProps {
+    // Graph coordinates to position within the canvas; changes identity when the view pans or zooms
+    worldToScreen: (x: number, y: number) => { x: number; y: number };
+}
+
+export function CollaboratorCursors({ worldToScreen }: CollaboratorCursorsProps) {
+    const peers = useCollabStore(state => state.peers);
+
+    return (
+        <div className="pointer-events-none absolute inset-0 overflow-hidden" style={{ zIndex: 25 }}>
+            {Object.values(peers).map(peer => {
+                if (!peer.cursor) return null;
+                const { x, y } = worldToScreen(peer.cursor.x, peer.cursor.y);
+                return (
+                    <div
+                        key={peer.sessionId}
+                        className="absolute left-0 top-0 transition-transform duration-75 ease-linear"
+                        style={{ transform: `translate(${x}px, ${y}px)` }}
+                    >
+                        <MousePointer2 className="h-4 w-4" style={{ color: peer.color, fill: peer.color }} />
+                        <span
+                            className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-[11px] font-medium text-white shadow"
+                            style={{ backgroundColor: peer.color }}
+                        >
+                            {peer.displayName}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
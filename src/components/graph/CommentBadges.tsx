@@ -0,0 +1,113 @@
+'use client';
+
+import { MessageSquare, X } from 'lucide-react';
+import type { Node, Link } from '@/types/knowledge';
+import { getAnchorPosition, getThreadAnchor, getThreadComments } from '@/lib/comments';
+import { useProjectComments } from '@/hooks/useProjectComments';
+import { useCommentsStore } from '@/store/useCommentsStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useToast } from '@/context/ToastContext';
+import { CommentComposer, CommentThreadView } from '@/components/editor/CommentThread';
+
+interface CommentBadgesProps {
+    projectId: number | null | undefined;
+    nodes: Node[];
+    links: Link[];
+    canPost: boolean;
+    // Graph coordinates to position within the canvas; changes identity when the view pans or zooms
+    worldToScreen: (x: number, y: number) => { x: number; y: number };
+}
+
+/**
+ * A badge for every open comment thread, pinned to its node, connection or
+ * canvas point, and the popover of the thread that's open or being started.
+ */
+export function CommentBadges({ projectId, nodes, links, canPost, worldToScreen }: CommentBadgesProps) {
+    const { threads, comments, people } = useProjectComments(projectId);
+    const openThreadId = useCommentsStore(state => state.openThreadId);
+    const draftAnchor = useCommentsStore(state => state.draftAnchor);
+    const openThread = useCommentsStore(state => state.openThread);
+    const openDraft = useCommentsStore(state => state.openDraft);
+    const startThread = useCommentsStore(state => state.startThread);
+    const user = useAuthStore(state => state.user);
+    const { showToast } = useToast();
+    const userId = user?.id;
+
+    const positioned = threads
+        .map(thread => {
+            const anchor = getThreadAnchor(thread);
+            const position = anchor && getAnchorPosition(anchor, nodes, links);
+            return position ? { thread, position: worldToScreen(position.x, position.y) } : null;
+        })
+        .filter((t): t is NonNullable<typeof t> => !!t);
+
+    const openEntry = positioned.find(p => p.thread.id === openThreadId);
+    const draftPosition = draftAnchor && getAnchorPosition(draftAnchor, nodes, links);
+    const popoverAt = openEntry?.position ?? (draftPosition ? worldToScreen(draftPosition.x, draftPosition.y) : null);
+
+    const handleStart = async (body: string) => {
+        if (!user || !projectId || !draftAnchor) return;
+        try {
+            const thread = await startThread(projectId, draftAnchor, body, {
+                userId: user.id,
+                name: user.displayName || user.email || 'Someone',
+            });
+            openThread(thread.id);
+        } catch {
+            showToast('Failed to post comment', 'error');
+            throw new Error('Failed to post comment');
+        }
+    };
+
+    const close = () => {
+        openThread(null);
+        openDraft(null);
+    };
+
+    return (
+        <div className="pointer-events-none absolute inset-0 overflow-hidden" style={{ zIndex: 24 }}>
+            {positioned.map(({ thread, position }) => {
+                if (thread.resolvedAt && thread.id !== openThreadId) return null;
+                const threadComments = getThreadComments(comments, thread.id);
+                const mentionsMe = !!userId && threadComments.some(c => c.mentions.includes(userId));
+                return (
+                    <button
+                        key={thread.id}
+                        type="button"
+                        onClick={() => openThread(thread.id === openThreadId ? null : thread.id)}
+                        className={`pointer-events-auto absolute left-0 top-0 flex items-center gap-1 rounded-full rounded-bl-none px-1.5 py-0.5 text-[11px] font-medium text-white shadow transition-colors ${mentionsMe ? 'bg-amber-500 hover:bg-amber-400' : 'bg-[#355ea1] hover:bg-[#265fbd]'}`}
+                        style={{ transform: `translate(${position.x}px, ${position.y - 22}px)` }}
+                        title={mentionsMe ? 'You were mentioned' : 'Comments'}
+                    >
+                        <MessageSquare className="h-3 w-3" />
+                        {threadComments.length}
+                    </button>
+                );
+            })}
+
+            {popoverAt && (
+                <div
+                    className="pointer-events-auto absolute left-0 top-0 w-72 rounded-xl border border-zinc-800 bg-zinc-900/95 p-3 shadow-xl"
+                    style={{ transform: `translate(${popoverAt.x + 12}px, ${popoverAt.y}px)` }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                >
+                    <div className="mb-2 flex items-center justify-between">
+                        <span className="text-xs font-semibold text-white">{openEntry ? 'Comments' : 'New comment'}</span>
+                        <button
+                            type="button"
+                            onClick={close}
+                            className="rounded-md p-1 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </button>
+                    </div>
+                    {openEntry ? (
+                        <CommentThreadView thread={openEntry.thread} comments={comments} people={people} canPost={canPost} />
+                    ) : (
+                        <CommentComposer people={people} autoFocus placeholder="What does this mean? (@ to mention)" onSubmit={handleStart} />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
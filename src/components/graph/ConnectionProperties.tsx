@@ -1,30 +1,44 @@
 'use client';
 
-import { useState } from 'react';
-import { X, Pencil, Trash2 } from 'lucide-react';
+import { useState, useMemo } from 'react';
+import { X, Pencil, Trash2, ArrowLeftRight } from 'lucide-react';
 import { Link } from '@/types/knowledge';
 import { useGraphStore } from '@/store/useGraphStore';
-import { api } from '@/lib/api';
+import { api, ConflictError } from '@/lib/api';
+import { mergeFields } from '@/lib/conflictMerge';
 import { ColorPicker } from '@/components/ui/ColorPicker';
 import { useToast } from '@/context/ToastContext';
+import { getRelationshipVocabulary, findRelationshipType } from '@/lib/relationshipTypes';
+import { RelationshipTypePicker } from './RelationshipTypePicker';
 
 interface ConnectionPropertiesProps {
     link: Link | null;
     onClose: () => void;
 }
 
-export function ConnectionProperties({ link, onClose }: ConnectionPropertiesProps) {
+export function ConnectionProperties({ link: selectedLink, onClose }: ConnectionPropertiesProps) {
+    // Prefer the store copy so the panel reflects updates made while it is open
+    const link = useGraphStore((s) => s.links.find(l => l.id === selectedLink?.id)) ?? selectedLink;
     const nodes = useGraphStore((s) => s.nodes);
     const deleteLink = useGraphStore((s) => s.deleteLink);
     const addLink = useGraphStore((s) => s.addLink);
-    const { showConfirmation } = useToast();
+    const updateLink = useGraphStore((s) => s.updateLink);
+    const applyRemoteChange = useGraphStore((s) => s.applyRemoteChange);
+    const relationshipTypes = useGraphStore((s) => s.relationshipTypes);
+    const { showConfirmation, showToast } = useToast();
 
     const [isEditing, setIsEditing] = useState(false);
     const [description, setDescription] = useState(link?.description || '');
     const [color, setColor] = useState(link?.color || '#355ea1');
+    const [relationshipType, setRelationshipType] = useState<string | null>(link?.relationshipType || null);
+    const [isBidirectional, setIsBidirectional] = useState(!!link?.isBidirectional);
+
+    const vocabulary = useMemo(() => getRelationshipVocabulary(relationshipTypes), [relationshipTypes]);
 
     if (!link) return null;
 
+    const linkType = findRelationshipType(vocabulary, link.relationshipType);
+
     const sourceNode = nodes.find(n => n.id === link.sourceId);
     const targetNode = nodes.find(n => n.id === link.targetId);
 
@@ -39,28 +53,68 @@ export function ConnectionProperties({ link, onClose }: ConnectionPropertiesProp
         }
     };
 
+    const saveLink = async (fields: Partial<Link>, version: number | undefined) => {
+        const updatedLink = await api.links.update(link.id, {
+            id: link.id,
+            sourceId: link.sourceId,
+            targetId: link.targetId,
+            color: link.color,
+            description: link.description || undefined,
+            relationshipType: link.relationshipType,
+            isBidirectional: link.isBidirectional,
+            userId: link.userId,
+            ...fields,
+            version,
+        });
+
+        deleteLink(link.id);
+        addLink(updatedLink);
+    };
+
     const handleUpdate = async () => {
+        const mine = { color, description: description.trim() || undefined, relationshipType, isBidirectional };
         try {
-            const updatedLink = await api.links.update(link.id, {
-                id: link.id,
-                sourceId: link.sourceId,
-                targetId: link.targetId,
-                color: color,
-                description: description.trim() || undefined,
-                userId: link.userId,
-            });
-
-            deleteLink(link.id);
-            addLink(updatedLink);
+            await saveLink(mine, link.version);
             setIsEditing(false);
         } catch (err) {
-            // console.error('Failed to update connection:', err);
+            if (!(err instanceof ConflictError) || !err.current) {
+                // console.error('Failed to update connection:', err);
+                return;
+            }
+            const theirs = err.current as Link;
+            const { merged, conflicts } = mergeFields(link, { ...link, ...mine }, theirs, ['color', 'description', 'relationshipType', 'isBidirectional']);
+            if (conflicts.length === 0) {
+                await saveLink(merged, theirs.version).then(() => setIsEditing(false)).catch(() => { });
+                return;
+            }
+            // Show their version underneath and keep these edits in the form, so saving again is a choice
+            applyRemoteChange('link', 'update', link.id, theirs);
+            showToast('Someone else changed this connection. Check it against your edits and save again.', 'warning');
+        }
+    };
+
+    const handleReverse = async () => {
+        const { sourceId, targetId } = link;
+        // Flip the arrow right away; the saved copy replaces it when it comes back
+        updateLink(link.id, { sourceId: targetId, targetId: sourceId });
+        try {
+            await saveLink({ sourceId: targetId, targetId: sourceId }, link.version);
+        } catch (err) {
+            if (err instanceof ConflictError && err.current) {
+                applyRemoteChange('link', 'update', link.id, err.current as Link);
+                showToast('Someone else changed this connection first. Try again.', 'warning');
+                return;
+            }
+            updateLink(link.id, { sourceId, targetId });
+            showToast('Failed to reverse connection', 'error');
         }
     };
 
     const handleCancel = () => {
         setDescription(link.description || '');
         setColor(link.color || '#355ea1');
+        setRelationshipType(link.relationshipType || null);
+        setIsBidirectional(!!link.isBidirectional);
         setIsEditing(false);
     };
 
@@ -71,6 +125,15 @@ export function ConnectionProperties({ link, onClose }: ConnectionPropertiesProp
                     Connection
                 </div>
                 <div className="flex items-center gap-1">
+                    {!isEditing && !link.isBidirectional && (
+                        <button
+                            onClick={handleReverse}
+                            className="p-1.5 rounded-lg text-zinc-400 hover:bg-zinc-800 hover:text-blue-400 transition-colors"
+                            title="Reverse direction"
+                        >
+                            <ArrowLeftRight className="h-3.5 w-3.5" />
+                        </button>
+                    )}
                     {!isEditing && (
                         <button
                             onClick={() => setIsEditing(true)}
@@ -99,19 +162,45 @@ export function ConnectionProperties({ link, onClose }: ConnectionPropertiesProp
 
             <div className="space-y-3">
                 <div className="space-y-1">
-                    <label className="text-xs text-zinc-500">From</label>
+                    <label className="text-xs text-zinc-500">{link.isBidirectional ? 'Between' : 'From'}</label>
                     <div className="text-sm text-white bg-zinc-800/50 rounded-lg px-3 py-2">
                         {sourceNode?.title || 'Unknown'}
                     </div>
                 </div>
 
                 <div className="space-y-1">
-                    <label className="text-xs text-zinc-500">To</label>
+                    <label className="text-xs text-zinc-500">{link.isBidirectional ? 'And' : 'To'}</label>
                     <div className="text-sm text-white bg-zinc-800/50 rounded-lg px-3 py-2">
                         {targetNode?.title || 'Unknown'}
                     </div>
                 </div>
 
+                {isEditing && (
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={isBidirectional}
+                            onChange={(e) => setIsBidirectional(e.target.checked)}
+                            className="accent-[#355ea1]"
+                        />
+                        Undirected (no arrowhead)
+                    </label>
+                )}
+
+                {isEditing ? (
+                    <RelationshipTypePicker
+                        value={relationshipType}
+                        onChange={setRelationshipType}
+                    />
+                ) : (
+                    <div className="space-y-1">
+                        <label className="text-xs text-zinc-500">Relationship</label>
+                        <div className="text-sm text-white bg-zinc-800/50 rounded-lg px-3 py-2">
+                            {linkType?.label || link.relationshipType || <span className="text-zinc-500">No type</span>}
+                        </div>
+                    </div>
+                )}
+
                 <div className="space-y-1">
                     {isEditing ? (
                         <ColorPicker
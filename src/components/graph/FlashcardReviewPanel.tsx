@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Layers, X, MapPin, RotateCcw } from 'lucide-react';
+import { Node } from '@/types/knowledge';
+import { REVIEW_GRADES } from '@/lib/flashcards';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useFlashcardStore, getDueCards } from '@/store/useFlashcardStore';
+
+interface FlashcardReviewPanelProps {
+    isOpen: boolean;
+    onToggle: () => void;
+    nodes: Node[];
+    projectId: number | null;
+    onLocateNode?: (node: Node) => void;
+    className?: string;
+}
+
+export function FlashcardReviewPanel({ isOpen, onToggle, nodes, projectId, onLocateNode, className = '' }: FlashcardReviewPanelProps) {
+    const userId = useAuthStore((s) => s.user?.id ?? null);
+    const cards = useFlashcardStore((s) => s.cards);
+    const schedules = useFlashcardStore((s) => s.schedules);
+    const recordReview = useFlashcardStore((s) => s.recordReview);
+
+    // Card ids left in this session, fixed when it starts so cards don't jump around while grading
+    const [queue, setQueue] = useState<number[]>([]);
+    const [reviewedCount, setReviewedCount] = useState(0);
+    const [isRevealed, setIsRevealed] = useState(false);
+
+    const projectCards = useMemo(() => {
+        const nodeIds = new Set(nodes.map(n => n.id));
+        return cards.filter(c => c.projectId === projectId && nodeIds.has(c.nodeId));
+    }, [cards, nodes, projectId]);
+
+    const dueCards = useMemo(
+        () => getDueCards(projectCards, schedules, userId),
+        [projectCards, schedules, userId]
+    );
+
+    const startSession = () => {
+        setQueue(dueCards.map(c => c.id));
+        setReviewedCount(0);
+        setIsRevealed(false);
+    };
+
+    const card = projectCards.find(c => c.id === queue[0]);
+    const cardNode = card ? nodes.find(n => n.id === card.nodeId) : undefined;
+
+    const handleGrade = (grade: typeof REVIEW_GRADES[number]['grade']) => {
+        if (!card) return;
+        recordReview(card.id, userId, grade);
+        setReviewedCount(c => c + 1);
+        setIsRevealed(false);
+        // Lapsed cards come back at the end of the session
+        setQueue(q => (grade < 3 ? [...q.slice(1), q[0]] : q.slice(1)));
+    };
+
+    return (
+        <div className={`flex flex-col items-start gap-2 ${className}`} onMouseDown={(e) => e.stopPropagation()}>
+            <button
+                onClick={() => {
+                    if (!isOpen) startSession();
+                    onToggle();
+                }}
+                className={`flex items-center gap-2 rounded-lg px-3 h-9 text-sm shadow-lg backdrop-blur-sm border transition-all ${isOpen
+                    ? 'bg-[#355ea1] text-white border-[#355ea1]'
+                    : 'bg-zinc-800/90 text-zinc-300 border-zinc-700 hover:bg-zinc-700 hover:text-white hover:border-zinc-600'
+                    }`}
+                title="Review flashcards that are due"
+            >
+                <Layers className="h-4 w-4" />
+                <span className="hidden sm:inline">Review</span>
+                {dueCards.length > 0 && (
+                    <span className="rounded-full bg-rose-500 px-1.5 text-[10px] font-semibold leading-4 text-white">
+                        {dueCards.length}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div
+                    className="w-80 rounded-xl border border-zinc-800 bg-zinc-900/90 backdrop-blur-sm shadow-lg overflow-hidden flex flex-col"
+                    onWheel={(e) => e.stopPropagation()}
+                >
+                    <div className="flex items-center justify-between border-b border-zinc-700 px-4 py-3">
+                        <div className="flex items-center gap-2">
+                            <Layers className="w-4 h-4 text-zinc-400" />
+                            <h3 className="text-sm font-semibold text-white">Review</h3>
+                            {queue.length > 0 && (
+                                <span className="text-xs text-zinc-500">{queue.length} left</span>
+                            )}
+                        </div>
+                        <button
+                            onClick={onToggle}
+                            className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white"
+                        >
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    {card ? (
+                        <div className="space-y-3 p-4">
+                            {cardNode && (
+                                <div className="flex items-center gap-2 text-xs text-zinc-500">
+                                    <span
+                                        className="h-2 w-2 shrink-0 rounded-full"
+                                        style={{ backgroundColor: cardNode.customColor || '#355ea1' }}
+                                    />
+                                    <span className="flex-1 truncate">{cardNode.title}</span>
+                                    {onLocateNode && (
+                                        <button
+                                            onClick={() => onLocateNode(cardNode)}
+                                            className="p-1 rounded hover:bg-zinc-800 hover:text-white transition-colors"
+                                            title="Locate"
+                                        >
+                                            <MapPin className="h-3.5 w-3.5" />
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+
+                            <p className="text-sm font-medium text-white whitespace-pre-wrap">{card.question}</p>
+
+                            {isRevealed ? (
+                                <>
+                                    <p className="rounded-lg bg-zinc-800/50 p-3 text-sm text-zinc-300 whitespace-pre-wrap">{card.answer}</p>
+                                    <div className="grid grid-cols-4 gap-1">
+                                        {REVIEW_GRADES.map(({ grade, label }) => (
+                                            <button
+                                                key={grade}
+                                                onClick={() => handleGrade(grade)}
+                                                className={`rounded-lg py-1.5 text-xs font-medium transition-colors ${grade < 3
+                                                    ? 'bg-red-600/20 text-red-300 hover:bg-red-600/40'
+                                                    : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700 hover:text-white'
+                                                    }`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={() => setIsRevealed(true)}
+                                    className="w-full rounded-lg bg-[#355ea1] py-2 text-sm font-medium text-white hover:bg-[#265fbd] transition-colors"
+                                >
+                                    Show answer
+                                </button>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="space-y-3 p-4 text-center">
+                            <p className="text-sm text-zinc-400">
+                                {reviewedCount > 0
+                                    ? `Session done, ${reviewedCount} review${reviewedCount === 1 ? '' : 's'} recorded.`
+                                    : projectCards.length === 0
+                                        ? 'No flashcards yet. Add some from the node editor.'
+                                        : 'Nothing is due right now.'}
+                            </p>
+                            {dueCards.length > 0 && (
+                                <button
+                                    onClick={startSession}
+                                    className="inline-flex items-center gap-1.5 rounded-lg bg-zinc-800 px-3 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors"
+                                >
+                                    <RotateCcw className="h-3 w-3" />
+                                    Review {dueCards.length} due
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -10,8 +10,23 @@ import { drawShapeOnContext, isPointNearShape, drawSelectionBox, isShapeInMarque
 import { getShapeBounds, drawResizeHandles, getHandleAtPoint, resizeShape, rotateShape, getCursorForHandle, ResizeHandle, ShapeBounds, getResizeHandlePosition } from './resizeUtils';
 import { SelectionPane } from './SelectionPane';
 import { GroupsTabs, getNextGroupColor } from './GroupsTabs';
-import { DrawnShape } from '@/types/knowledge';
-import { api, ApiDrawing } from '@/lib/api';
+import { PathFinderPanel } from './PathFinderPanel';
+import { StudyOrderPanel } from './StudyOrderPanel';
+import { FlashcardReviewPanel } from './FlashcardReviewPanel';
+import { usePathFinder } from '@/hooks/usePathFinder';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useCollaboration, updateLocalPresence, broadcastNodeMoves } from '@/hooks/useCollaboration';
+import { CollaboratorCursors } from './CollaboratorCursors';
+import { CommentBadges } from './CommentBadges';
+import { useCommentsStore } from '@/store/useCommentsStore';
+import { drawProgressRing, drawDueBadge } from './nodeBadges';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useProgressStore, getNodeStatus, summarizeProgress, ProgressSummary } from '@/store/useProgressStore';
+import { useFlashcardStore, getDueCards } from '@/store/useFlashcardStore';
+import { DrawnShape, Node } from '@/types/knowledge';
+import { api, writes, BatchError, type WriteOperation } from '@/lib/api';
+import { getRelationshipVocabulary, findRelationshipType, getLinkLineDash } from '@/lib/relationshipTypes';
+import { canEdit, canComment } from '@/lib/projectRoles';
 
 const ForceGraph2D = dynamic(() => import('react-force-graph-2d'), {
   ssr: false,
@@ -212,6 +227,20 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
   const [selectedNodeIds, setSelectedNodeIds] = useState<Set<number>>(new Set());
   const [selectedLink, setSelectedLink] = useState<any | null>(null);
+  const pathFinder = usePathFinder(links);
+  useOfflineSync();
+  useCollaboration();
+  const { highlightedNodeIds, highlightedLinkIds } = pathFinder;
+  const [showStudyOrder, setShowStudyOrder] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const userId = useAuthStore((s) => s.user?.id ?? null);
+  const progressEntries = useProgressStore((s) => s.entries);
+  const flashcards = useFlashcardStore((s) => s.cards);
+  const cardSchedules = useFlashcardStore((s) => s.schedules);
+  const dueNodeIds = useMemo(
+    () => new Set(getDueCards(flashcards, cardSchedules, userId).map(c => c.nodeId)),
+    [flashcards, cardSchedules, userId]
+  );
   const [hoveredLink, setHoveredLink] = useState<any | null>(null);
   const [isOutsideContent, setIsOutsideContent] = useState(false);
 
@@ -283,8 +312,9 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
   const nodeCacheRef = useRef<Map<string | number, any>>(new Map());
   const linkCacheRef = useRef<Map<string | number, any>>(new Map());
-  const nodeSaveTimeoutsRef = useRef<Map<string | number, any>>(new Map());
-  const shapeSaveTimeoutsRef = useRef<Map<string | number, any>>(new Map());
+  // Arrow-key moves waiting to be saved, latest per entity, sent as one batch once the keys go quiet
+  const pendingMoveWritesRef = useRef<Map<string, WriteOperation>>(new Map());
+  const moveSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const shapeStateSaveTimeoutRef = useRef<any>(null);
 
   const graphData = useMemo(() => {
@@ -344,6 +374,8 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         // Update props
         cached.color = l.color;
         cached.description = l.description;
+        cached.relationshipType = l.relationshipType;
+        cached.isBidirectional = l.isBidirectional;
 
         return cached;
       });
@@ -475,12 +507,24 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       const isSearchMatch =
         searchQuery &&
         label.toLowerCase().includes(searchQuery.toLowerCase());
+      const isOnPath = !!highlightedNodeIds?.has(nodeId);
 
       const baseColor = node.customColor || groups.find(g => g.order === nodeGroup)?.color || groups[0]?.color || '#8B5CF6';
       const nodeRadius = isActive ? 8 : 6;
       const x = node.x || 0;
       const y = node.y || 0;
 
+      // Fade everything off the learning path while one is shown
+      ctx.globalAlpha = highlightedNodeIds && !isOnPath ? 0.2 : 1;
+
+      if (isOnPath) {
+        ctx.beginPath();
+        ctx.arc(x, y, nodeRadius + 4, 0, 2 * Math.PI);
+        ctx.strokeStyle = '#38BDF8';
+        ctx.lineWidth = 2 / globalScale;
+        ctx.stroke();
+      }
+
       if (isSelected) {
         ctx.beginPath();
         ctx.arc(x, y, nodeRadius + 5, 0, 2 * Math.PI);
@@ -506,6 +550,8 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         ctx.stroke();
       }
 
+      drawProgressRing(ctx, x, y, nodeRadius, getNodeStatus(progressEntries, userId, nodeId), globalScale);
+
       const gradient = ctx.createRadialGradient(
         x - nodeRadius / 3,
         y - nodeRadius / 3,
@@ -530,12 +576,17 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       ctx.fill();
       ctx.shadowBlur = 0;
 
+      if (dueNodeIds.has(nodeId)) {
+        drawDueBadge(ctx, x, y, nodeRadius, globalScale);
+      }
+
       ctx.textAlign = 'center';
       ctx.textBaseline = 'top';
       ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
       ctx.fillText(label, x, y + nodeRadius + 3);
+      ctx.globalAlpha = 1;
     },
-    [activeNode, searchQuery, selectedNodeIds, groups]
+    [activeNode, searchQuery, selectedNodeIds, groups, highlightedNodeIds, progressEntries, userId, dueNodeIds]
   );
 
   const linkColor = useCallback((link: unknown) => {
@@ -551,7 +602,9 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
   const linkWidth = useCallback(
     (link: unknown) => {
-      const l = link as { source?: string | { id?: string }; target?: string | { id?: string } };
+      const l = link as { id?: number; source?: string | { id?: string }; target?: string | { id?: string } };
+      if (highlightedLinkIds?.has(Number(l.id))) return 3;
+
       const srcId = typeof l.source === 'string' ? l.source : l.source?.id;
       const tgtId = typeof l.target === 'string' ? l.target : l.target?.id;
 
@@ -563,17 +616,43 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
       return isHovered ? 3 : (isActive ? 2 : 1);
     },
-    [activeNode, hoveredLink]
+    [activeNode, hoveredLink, highlightedLinkIds]
   );
 
+  const pathLinkColor = useCallback((link: { id?: number; color?: string }) => {
+    const color = link.color || '#52525b';
+    if (!highlightedLinkIds) return color;
+    return highlightedLinkIds.has(Number(link.id)) ? color : '#52525b40';
+  }, [highlightedLinkIds]);
+
+  const handleLocateNode = useCallback((node: Node) => {
+    if (node.groupId !== activeGroupId) setActiveGroupId(node.groupId);
+    if (graphRef.current) {
+      graphRef.current.centerAt(node.x ?? 0, node.y ?? 0, 500);
+      graphRef.current.zoom(1.5, 500);
+    }
+  }, [activeGroupId, setActiveGroupId]);
+
   const previewCanvasRef = useRef<HTMLCanvasElement>(null);
   const isPreviewMode = graphSettings.isPreviewMode;
   const prevPreviewModeRef = useRef(isPreviewMode);
   const [graphTransform, setGraphTransform] = useState({ x: 0, y: 0, k: 1 });
 
   const currentProject = useGraphStore(state => state.currentProject);
+
+  const relationshipTypes = useGraphStore(state => state.relationshipTypes);
+  const relationshipVocabulary = useMemo(
+    () => getRelationshipVocabulary(relationshipTypes, currentProject?.id),
+    [relationshipTypes, currentProject?.id]
+  );
+
+  const isReadOnly = useGraphStore(state => !canEdit(state.currentRole));
+  const canPostComments = useGraphStore(state => canComment(state.currentRole)) && !!userId;
+  const isPlacingComment = useCommentsStore(state => state.isPlacingComment);
+  const openCommentDraft = useCommentsStore(state => state.openDraft);
+
   const shapes = useGraphStore(state => state.shapes);
-  const setShapes = useGraphStore(state => state.setShapes);
+  const commitShapes = useGraphStore(state => state.commitShapes);
   const addShape = useGraphStore(state => state.addShape);
   const updateShape = useGraphStore(state => state.updateShape);
   const deleteShape = useGraphStore(state => state.deleteShape);
@@ -581,22 +660,8 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
   const deleteNode = useGraphStore(state => state.deleteNode);
   const undo = useGraphStore(state => state.undo);
   const redo = useGraphStore(state => state.redo);
-  const pushToUndoStack = useGraphStore(state => state.pushToUndoStack);
-
-  const apiDrawingToShape = useCallback((d: ApiDrawing): DrawnShape => ({
-    id: d.id,
-    projectId: d.projectId,
-    type: d.type as DrawnShape['type'],
-    points: d.points,
-    color: d.color,
-    width: d.width,
-    style: d.style as DrawnShape['style'],
-    text: d.text || undefined,
-    fontSize: d.fontSize || undefined,
-    fontFamily: d.fontFamily || undefined,
-    groupId: d.groupId,
-    synced: true,
-  }), []);
+  const beginUndoStep = useGraphStore(state => state.beginUndoStep);
+  const endUndoStep = useGraphStore(state => state.endUndoStep);
 
   const shapeToApiDrawing = useCallback((s: DrawnShape, projectId: number, groupId?: number) => ({
     projectId,
@@ -611,56 +676,65 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
     fontFamily: s.fontFamily ?? undefined,
   }), []);
 
+  const loadProjectProgress = useProgressStore(state => state.loadProjectProgress);
+  const loadProjectCards = useFlashcardStore(state => state.loadProjectCards);
+  const setProgressNodeCount = useProgressStore(state => state.setNodeCount);
+
   useEffect(() => {
     if (!currentProject?.id) return;
+    loadProjectProgress(currentProject.id, userId);
+    loadProjectCards(currentProject.id, userId);
+  }, [currentProject?.id, userId, loadProjectProgress, loadProjectCards]);
 
-    api.drawings.getByProject(currentProject.id)
-      .then(drawings => {
-        const loadedShapes = drawings.map(apiDrawingToShape);
-        setShapes(loadedShapes);
-      })
-      .catch(() => { });
-  }, [currentProject?.id, apiDrawingToShape, setShapes]);
+  useEffect(() => {
+    if (!currentProject?.id || nodes.length === 0) return;
+    setProgressNodeCount(currentProject.id, nodes.length);
+  }, [currentProject?.id, nodes.length, setProgressNodeCount]);
+
+  const groupProgress = useMemo(() => {
+    const summaries: Record<number, ProgressSummary> = {};
+    groups.forEach(g => {
+      summaries[g.id] = summarizeProgress(progressEntries, userId, nodes.filter(n => n.groupId === g.id).map(n => n.id));
+    });
+    return summaries;
+  }, [groups, nodes, progressEntries, userId]);
 
   const lastLoadedProjectIdRef = useRef<number | null>(null);
+  // The page loads groups, drawings and relationship types with the project snapshot
+  const isSnapshotLoaded = useGraphStore(state => state.snapshotRevision !== null);
 
   useEffect(() => {
     if (!currentProject?.id) return;
+    if (!isSnapshotLoaded) {
+      setGroupsReady(false);
+      return;
+    }
     if (lastLoadedProjectIdRef.current === currentProject.id) return;
     lastLoadedProjectIdRef.current = currentProject.id;
 
-    setGroups([]);
-    setGroupsReady(false);
-
     const colorNames = ['violet', 'blue', 'green', 'yellow', 'red', 'pink', 'cyan', 'lime', 'orange', 'purple', 'teal', 'amber', 'emerald', 'sky', 'indigo', 'rose', 'fuchsia'];
 
-    api.groups.getByProject(currentProject.id)
-      .then((backendGroups) => {
-        const hidden = JSON.parse(localStorage.getItem('nexus_hidden_groups') || '[]');
-        const visibleGroups = backendGroups.filter(g => !hidden.includes(g.id));
+    const hidden = JSON.parse(localStorage.getItem('nexus_hidden_groups') || '[]');
+    const visibleGroups = useGraphStore.getState().groups.filter(g => !hidden.includes(g.id));
 
-        const groupsWithOrder = visibleGroups.map((g, i) => {
-          const isColorName = colorNames.includes(g.name.toLowerCase());
-          const newName = isColorName ? `Group ${i + 1}` : g.name;
+    const groupsWithOrder = visibleGroups.map((g, i) => {
+      const isColorName = colorNames.includes(g.name.toLowerCase());
+      const newName = isColorName ? `Group ${i + 1}` : g.name;
 
-          if (isColorName && g.name !== newName && g.id !== 0) {
-            api.groups.update(g.id, { name: newName })
-              .catch(() => { });
-          }
+      if (isColorName && g.name !== newName && g.id !== 0) {
+        api.groups.update(g.id, { name: newName })
+          .catch(() => { });
+      }
 
-          return { ...g, name: newName, order: i };
-        });
-        setGroups(groupsWithOrder);
+      return { ...g, name: newName, order: i };
+    });
+    setGroups(groupsWithOrder);
 
-        if (groupsWithOrder.length > 0) {
-          setActiveGroupId(groupsWithOrder[0].id);
-        }
-        setGroupsReady(true);
-      })
-      .catch(() => {
-        setGroupsReady(true);
-      });
-  }, [setGroups, setActiveGroupId, currentProject?.id]);
+    if (groupsWithOrder.length > 0) {
+      setActiveGroupId(groupsWithOrder[0].id);
+    }
+    setGroupsReady(true);
+  }, [setGroups, setActiveGroupId, currentProject?.id, isSnapshotLoaded]);
 
   // Update selected shapes when settings change
   useEffect(() => {
@@ -818,6 +892,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
   const getToolCursor = () => {
     if (useGraphStore.getState().isConnectionPickerActive) return 'crosshair';
+    if (isPlacingComment) return 'crosshair';
 
     if (graphSettings.isPreviewMode) {
       return isHoveringNode ? 'pointer' : 'default';
@@ -965,8 +1040,8 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       const toDelete = nodes.filter(n => n.groupId !== undefined && !validGroupIds.has(n.groupId));
       toDelete.forEach(n => {
         api.nodes.delete(n.id).catch(() => { });
+        useGraphStore.getState().deleteNode(n.id);
       });
-      useGraphStore.getState().setNodes(validNodes);
     }
 
     const orphanedShapes = shapes.filter(s => s.groupId === undefined || s.groupId === null);
@@ -991,10 +1066,10 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         }
         return s;
       }).filter((s): s is DrawnShape => s !== null);
-      useGraphStore.getState().setShapes(updatedShapes);
+      useGraphStore.getState().commitShapes(updatedShapes);
     } else if (invalidShapes.length > 0) {
       const validShapes = shapes.filter(s => s.groupId !== undefined && s.groupId !== null && validGroupIds.has(s.groupId));
-      useGraphStore.getState().setShapes(validShapes);
+      useGraphStore.getState().commitShapes(validShapes);
     }
   }, [groups, nodes, shapes]);
 
@@ -1025,71 +1100,25 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
     }
   }, [activeGroupId]);
 
-  const syncUndoRedo = useCallback(async (isUndo: boolean) => {
-    const state = useGraphStore.getState();
-    const oldShapes = state.shapes;
-    const stack = isUndo ? state.undoStack : state.redoStack;
-    if (stack.length === 0) return;
-
-    const targetShapes = stack[stack.length - 1];
-
-    if (isUndo) {
-      undo();
-    } else {
-      redo();
-    }
-
-    const oldIds = new Set(oldShapes.map(s => s.id));
-    const newIds = new Set(targetShapes.map(s => s.id));
-
-    const reappeared = targetShapes.filter(s => !oldIds.has(s.id));
-    const disappeared = oldShapes.filter(s => !newIds.has(s.id));
-
-    for (const shape of disappeared) {
-      try {
-        await api.drawings.delete(shape.id);
-      } catch { }
-    }
-
-    const idMap = new Map<number, number>();
-    for (const shape of reappeared) {
-      try {
-        const payload = {
-          projectId: shape.projectId!,
-          type: shape.type as string,
-          points: shape.points,
-          color: shape.color,
-          width: shape.width,
-          style: shape.style as string,
-          text: shape.text ?? undefined,
-          fontSize: shape.fontSize ?? undefined,
-          fontFamily: shape.fontFamily ?? undefined,
-          groupId: shape.groupId ?? undefined,
-        };
-        const newShape = await api.drawings.create(payload);
-        idMap.set(shape.id, newShape.id);
-      } catch { }
-    }
-
-    if (idMap.size > 0) {
-      const currentShapes = useGraphStore.getState().shapes;
-      const updatedShapes = currentShapes.map(s => {
-        const newId = idMap.get(s.id);
-        return newId !== undefined ? { ...s, id: newId } : s;
-      });
-      setShapes(updatedShapes);
-    }
-  }, [undo, redo, setShapes]);
-
   useEffect(() => {
+    const replay = async (step: () => Promise<boolean>) => {
+      if (!await step()) showToast('Some changes could not be undone', 'warning');
+    };
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-        e.preventDefault();
-        syncUndoRedo(true);
-      } else if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
+      const isUndo = (e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey;
+      const isRedo = (e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey));
+      const isDelete = e.key === 'Delete' || e.key === 'Backspace';
+      const isPaste = (e.ctrlKey || e.metaKey) && e.key === 'v';
+      // Viewers and commenters can still select and copy
+      if ((isUndo || isRedo || isDelete || isPaste) && !canEdit(useGraphStore.getState().currentRole)) return;
+      if (isUndo || isRedo) {
+        // Leave text fields their own undo
+        const activeElement = document.activeElement;
+        if (activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA')) return;
         e.preventDefault();
-        syncUndoRedo(false);
-      } else if ((e.key === 'Delete' || e.key === 'Backspace')) {
+        replay(isUndo ? undo : redo);
+      } else if (isDelete) {
         // Don't delete if typing in an input
         const activeElement = document.activeElement;
         if (activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA')) {
@@ -1102,17 +1131,22 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         if (hasSelectedShapes || hasSelectedNodes) {
           e.preventDefault();
 
+          const operations: WriteOperation[] = [];
+          // What goes, to put back if the API refuses
+          const { nodes: storeNodes, links: storeLinks, shapes: storeShapes } = useGraphStore.getState();
+          const deletedNodeIds = new Set(selectedNodeIdsRefForDelete.current);
+          const deleted = {
+            nodes: storeNodes.filter(n => deletedNodeIds.has(n.id)),
+            links: storeLinks.filter(l => deletedNodeIds.has(l.sourceId) || deletedNodeIds.has(l.targetId)),
+            shapes: storeShapes.filter(s => selectedShapeIdsRef.current.has(s.id)),
+          };
+
           // Delete selected shapes
           if (hasSelectedShapes) {
-            pushToUndoStack(shapesRef.current);
             const toDelete = shapesRef.current.filter(s => selectedShapeIdsRef.current.has(s.id));
             const remaining = shapesRef.current.filter(s => !selectedShapeIdsRef.current.has(s.id));
-            setShapes(remaining);
-            toDelete.forEach(s => {
-              api.drawings.delete(s.id).catch(
-                // err => console.error('Failed to delete drawing:', err)
-              );
-            });
+            commitShapes(remaining);
+            toDelete.forEach(s => operations.push(writes.drawings.delete(s.id)));
             setSelectedShapeIds(new Set());
           }
 
@@ -1121,13 +1155,17 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
             const deleteNode = useGraphStore.getState().deleteNode;
             selectedNodeIdsRefForDelete.current.forEach(nodeId => {
               deleteNode(nodeId);
-              api.nodes.delete(nodeId).catch(
-                // err => console.error('Failed to delete node:', err)
-              );
+              operations.push(writes.nodes.delete(nodeId));
             });
             setSelectedNodeIds(new Set());
             setActiveNode(null);
           }
+
+          // One request for the whole selection, so it is either all gone or all kept
+          api.batch(operations).catch(() => {
+            useGraphStore.getState().restoreDeleted(deleted);
+            showToast('Failed to delete the selection. It has been put back.', 'error');
+          });
         }
       } else if ((e.ctrlKey || e.metaKey) && e.key === 'c') {
         const activeElement = document.activeElement;
@@ -1143,7 +1181,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
           };
           // Optional: Display "Copied" toast
         }
-      } else if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
+      } else if (isPaste) {
         const activeElement = document.activeElement;
         if (activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA')) return;
 
@@ -1160,52 +1198,41 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
           const offset = 50;
 
-          const nodePromises = cpNodes.map(async (n: any) => {
-            try {
-              const payload = {
-                title: n.title,
-                content: n.content || '',
-                projectId: currentProject.id,
-                groupId: n.groupId,
-                userId: currentUserId || n.userId,
-                customColor: n.customColor,
-                x: (n.x || 0) + offset,
-                y: (n.y || 0) + offset,
-              };
-
-              const newNode = await api.nodes.create(payload);
-              useGraphStore.getState().addNode(newNode);
-              return newNode.id;
-            } catch (err) { return null; }
-          });
-
-          const shapePromises = cpShapes.map(async (s: any) => {
-            try {
-              const newPoints = s.points.map((p: any) => ({ x: p.x + offset, y: p.y + offset }));
-              const payload = {
-                projectId: currentProject.id,
-                type: s.type,
-                points: newPoints,
-                color: s.color,
-                width: s.width,
-                style: s.style,
-                text: s.text,
-                fontSize: s.fontSize,
-                fontFamily: s.fontFamily,
-                groupId: s.groupId
-              };
-
-              const newShape = await api.drawings.create(payload);
-              useGraphStore.getState().addShape(newShape);
-              return newShape.id;
-            } catch (err) { return null; }
-          });
-
-          Promise.all([...nodePromises, ...shapePromises]).then((ids) => {
-            const nodeIds = ids.slice(0, cpNodes.length).filter((id): id is number => id !== null);
-            const shapeIds = ids.slice(cpNodes.length).filter((id): id is number => id !== null);
-            setSelectedNodeIds(new Set(nodeIds));
-            setSelectedShapeIds(new Set(shapeIds));
+          const nodeWrites = cpNodes.map((n: any) => writes.nodes.create({
+            title: n.title,
+            content: n.content || '',
+            projectId: currentProject.id,
+            groupId: n.groupId,
+            userId: currentUserId || n.userId,
+            customColor: n.customColor,
+            x: (n.x || 0) + offset,
+            y: (n.y || 0) + offset,
+          }));
+
+          const shapeWrites = cpShapes.map((s: any) => writes.drawings.create({
+            projectId: currentProject.id,
+            type: s.type,
+            points: s.points.map((p: any) => ({ x: p.x + offset, y: p.y + offset })),
+            color: s.color,
+            width: s.width,
+            style: s.style,
+            text: s.text,
+            fontSize: s.fontSize,
+            fontFamily: s.fontFamily,
+            groupId: s.groupId
+          }));
+
+          // Created in one request and added together, so the paste is a single undo step
+          api.batch([...nodeWrites, ...shapeWrites]).then(results => {
+            const { addNode, addShape } = useGraphStore.getState();
+            const pastedNodes = results.slice(0, nodeWrites.length) as Node[];
+            const pastedShapes = results.slice(nodeWrites.length) as DrawnShape[];
+            pastedNodes.forEach(addNode);
+            pastedShapes.forEach(addShape);
+            setSelectedNodeIds(new Set(pastedNodes.map(n => n.id)));
+            setSelectedShapeIds(new Set(pastedShapes.map(s => s.id)));
+          }).catch(() => {
+            showToast('Failed to paste. Please try again.', 'error');
           });
 
           clipboardRef.current = {
@@ -1223,12 +1250,13 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       } else if (e.key === 'Escape') {
         setSelectedShapeIds(new Set());
         setSelectedNodeIds(new Set());
+        useCommentsStore.getState().setPlacingComment(false);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo, pushToUndoStack, setShapes, setActiveNode]);
+  }, [undo, redo, commitShapes, setActiveNode, showToast]);
 
 
 
@@ -1288,6 +1316,29 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
     return { x: coords.x, y: coords.y };
   }, [graphTransform]);
 
+  const worldToScreen = useCallback((worldX: number, worldY: number) => {
+    if (!graphRef.current?.graph2ScreenCoords) {
+      const k = graphTransform.k || 1;
+      return {
+        x: worldX * k + graphTransform.x,
+        y: worldY * k + graphTransform.y
+      };
+    }
+    const coords = graphRef.current.graph2ScreenCoords(worldX, worldY);
+    return { x: coords.x, y: coords.y };
+  }, [graphTransform]);
+
+  // Share the pointer with collaborators, in graph coordinates so it lands on the same spot for them
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    updateLocalPresence({ cursor: screenToWorld(e.clientX - rect.left, e.clientY - rect.top) });
+  }, [screenToWorld]);
+
+  const handlePointerLeave = useCallback(() => {
+    updateLocalPresence({ cursor: null });
+  }, []);
+
   const handleContainerMouseMove = useCallback((e: React.MouseEvent) => {
     // 1. Middle Mouse Pan (High Priority)
     if (!isMiddleMousePanning && middleMouseStartRef.current) {
@@ -1387,7 +1438,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
           }
           return s;
         });
-        setShapes(updatedShapes);
+        commitShapes(updatedShapes);
 
         if (selectedNodeIds.size > 0) {
           const currentGraphNodes = graphData.nodes as Array<{ id: string | number; x?: number; y?: number; fx?: number; fy?: number }>;
@@ -1465,12 +1516,24 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
     if (isNear !== isHoveringShape) {
       setIsHoveringShape(isNear);
     }
-  }, [graphSettings.activeTool, graphTransform, filteredShapes, screenToWorld, isHoveringShape, isMarqueeSelecting, isMiddleMousePanning, isResizing, isDraggingSelection, dragStartWorld, selectedShapeIds, shapes, setShapes, selectedNodeIds, graphData]);
+  }, [graphSettings.activeTool, graphTransform, filteredShapes, screenToWorld, isHoveringShape, isMarqueeSelecting, isMiddleMousePanning, isResizing, isDraggingSelection, dragStartWorld, selectedShapeIds, shapes, commitShapes, selectedNodeIds, graphData]);
 
 
 
   // Handle Keyboard Navigation (Arrow Keys)
   useEffect(() => {
+    const saveMoveLater = (key: string, operation: WriteOperation) => {
+      pendingMoveWritesRef.current.set(key, operation);
+      if (moveSaveTimeoutRef.current) clearTimeout(moveSaveTimeoutRef.current);
+
+      moveSaveTimeoutRef.current = setTimeout(() => {
+        const operations = [...pendingMoveWritesRef.current.values()];
+        pendingMoveWritesRef.current.clear();
+        moveSaveTimeoutRef.current = null;
+        saveMoves(operations);
+      }, 300);
+    };
+
     const handleKeyDown = (e: KeyboardEvent) => {
       // Ignore if typing in an input
       const target = e.target as HTMLElement;
@@ -1521,15 +1584,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
             cachedNode.y = newY;
 
             // Debounced Persist
-            const timeouts = nodeSaveTimeoutsRef.current;
-            if (timeouts.has(id)) clearTimeout(timeouts.get(id));
-
-            const timeoutId = setTimeout(() => {
-              api.nodes.update(id, { x: newX, y: newY }).catch(() => { });
-              timeouts.delete(id);
-            }, 300);
-
-            timeouts.set(id, timeoutId);
+            saveMoveLater(`node:${id}`, writes.nodes.update(id, { x: newX, y: newY }));
           }
         });
 
@@ -1552,15 +1607,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
             const newPoints = s.points.map(p => ({ x: p.x + dx, y: p.y + dy }));
 
             // Debounced Persist
-            const timeouts = shapeSaveTimeoutsRef.current;
-            if (timeouts.has(s.id)) clearTimeout(timeouts.get(s.id));
-
-            const timeoutId = setTimeout(() => {
-              api.drawings.update(s.id, { points: newPoints }).catch(() => { });
-              timeouts.delete(s.id);
-            }, 300);
-
-            timeouts.set(s.id, timeoutId);
+            saveMoveLater(`drawing:${s.id}`, writes.drawings.update(s.id, { points: newPoints }));
 
             return { ...s, points: newPoints };
           }
@@ -1572,7 +1619,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
           if (shapeStateSaveTimeoutRef.current) clearTimeout(shapeStateSaveTimeoutRef.current);
           shapeStateSaveTimeoutRef.current = setTimeout(() => {
-            setShapes(newShapes);
+            commitShapes(newShapes);
           }, 300);
 
           // Trigger visual update for Shapes
@@ -1586,7 +1633,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [graphTransform, setShapes, graphSettings.isPreviewMode]);
+  }, [graphTransform, commitShapes, graphSettings.isPreviewMode]);
 
   const handleContainerMouseDownCapture = useCallback((e: React.MouseEvent) => {
     // Ignore clicks on UI elements
@@ -1712,7 +1759,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       const resizedShape = currentResizingShapeRef.current;
       if (resizedShape) {
         const updatedShapes = shapes.map(s => s.id === resizedShape.id ? resizedShape : s);
-        setShapes(updatedShapes);
+        commitShapes(updatedShapes);
         if (resizedShape.synced !== false) {
           api.drawings.update(resizedShape.id, { points: resizedShape.points })
             .catch(() => { });
@@ -1757,7 +1804,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       const selectedShapeIds = selectedShapeIdsRef.current;
       if (selectedShapeIds.size > 0) {
         const finalShapes = shapesRef.current;
-        setShapes(finalShapes);
+        commitShapes(finalShapes);
         finalShapes.forEach(s => {
           if (selectedShapeIds.has(s.id) && s.synced !== false) {
             api.drawings.update(s.id, { points: s.points })
@@ -1806,15 +1853,20 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
     // Always clear the start ref
     marqueeStartScreenPosRef.current = null;
-  }, [setShapes, isMarqueeSelecting, marqueeStart, marqueeEnd, filteredShapes, isResizing, isDraggingSelection, selectedShapeIds]);
+
+    // Closes the step a resize or shape drag opened
+    endUndoStep();
+  }, [commitShapes, endUndoStep, isMarqueeSelecting, marqueeStart, marqueeEnd, filteredShapes, isResizing, isDraggingSelection, selectedShapeIds]);
 
   // Handle node drag via ForceGraph - move other selected nodes along
   const handleNodeDrag = useCallback((node: any) => {
     isNodeDraggingRef.current = true;
     setIsNodeDragging(true);
     lastDragTimeRef.current = Date.now();
-    if (!dragGroupRef.current?.active) return;
-    if (node.id !== dragGroupRef.current.nodeId) return;
+    if (!dragGroupRef.current?.active || node.id !== dragGroupRef.current.nodeId) {
+      broadcastNodeMoves([{ id: Number(node.id), x: node.x ?? 0, y: node.y ?? 0 }]);
+      return;
+    }
 
     // Calculate delta from the dragged node's movement
     const initialNodes = dragGroupRef.current.initialNodes;
@@ -1843,6 +1895,10 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       }
     });
 
+    broadcastNodeMoves(graphDataRef.current.nodes
+      .filter(n => n.id === node.id || initialNodes.has(String(n.id)))
+      .map(n => ({ id: Number(n.id), x: n.x ?? 0, y: n.y ?? 0 })));
+
     // Update shapes
     const initialShapes = dragGroupRef.current.initialShapes;
     if (initialShapes.size > 0) {
@@ -1871,27 +1927,17 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
     if (dragGroupRef.current?.active) {
       const selectedNodeIds = selectedNodeIdsRef.current;
+      // Everything that moved is saved in one request rather than one per node
+      const operations: WriteOperation[] = [];
 
       // Persist node positions for all selected nodes
       graphDataRef.current.nodes.forEach((n: any) => {
         if (selectedNodeIds.has(Number(n.id))) {
           updateNode(n.id, { x: n.x, y: n.y });
 
-          const fullNode = storeNodes.find(sn => sn.id === n.id);
-          if (fullNode) {
-            api.nodes.update(n.id, {
-              id: fullNode.id,
-              title: fullNode.title,
-              content: fullNode.content || '',
-
-              groupId: fullNode.groupId,
-              projectId: fullNode.projectId,
-              userId: fullNode.userId,
-              customColor: fullNode.customColor,
-              group: fullNode.group ? { id: fullNode.group.id, name: fullNode.group.name, color: fullNode.group.color, order: fullNode.group.order } : { id: fullNode.groupId ?? 0, name: 'Default', color: '#808080', order: 0 },
-              x: n.x,
-              y: n.y
-            }).catch(() => { });
+          // Only the position, so a move never overwrites someone else's edit to the node
+          if (storeNodes.some(sn => sn.id === n.id)) {
+            operations.push(writes.nodes.update(n.id, { id: n.id, x: n.x, y: n.y }));
           }
         }
       });
@@ -1900,39 +1946,28 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       const selectedShapeIds = selectedShapeIdsRef.current;
       if (selectedShapeIds.size > 0) {
         const finalShapes = shapesRef.current;
-        setShapes(finalShapes);
+        commitShapes(finalShapes);
         finalShapes.forEach(s => {
           if (selectedShapeIds.has(s.id)) {
-            api.drawings.update(s.id, { points: s.points })
-              .catch(() => { });
+            operations.push(writes.drawings.update(s.id, { points: s.points }));
           }
         });
       }
 
+      saveMoves(operations);
       dragGroupRef.current = null;
     } else if (node) {
       // Single node drag - persist position
       const nodeId = Number(node.id);
       updateNode(nodeId, { x: node.x, y: node.y });
 
-      const fullNode = storeNodes.find(sn => sn.id === nodeId);
-      if (fullNode) {
-        api.nodes.update(nodeId, {
-          id: fullNode.id,
-          title: fullNode.title,
-          content: fullNode.content || '',
-
-          groupId: fullNode.groupId,
-          projectId: fullNode.projectId,
-          userId: fullNode.userId,
-          customColor: fullNode.customColor,
-          group: fullNode.group ? { id: fullNode.group.id, name: fullNode.group.name, color: fullNode.group.color, order: fullNode.group.order } : { id: fullNode.groupId ?? 0, name: 'Default', color: '#808080', order: 0 },
-          x: node.x,
-          y: node.y
-        }).catch(() => { });
+      if (storeNodes.some(sn => sn.id === nodeId)) {
+        api.nodes.updatePosition(nodeId, node.x, node.y)
+          .then(saved => useGraphStore.getState().keepSavedVersion(saved))
+          .catch(() => { });
       }
     }
-  }, [setShapes]);
+  }, [commitShapes]);
 
   /* End Manual Refs */
 
@@ -1942,7 +1977,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
 
     if (graphSettings.activeTool === 'eraser') {
       setIsDrawing(true);
-      pushToUndoStack(shapes);
+      beginUndoStep();
       return;
     }
 
@@ -1954,7 +1989,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
     setIsDrawing(true);
     setStartPoint(worldPoint);
     setCurrentPoints([worldPoint]);
-  }, [isDrawingTool, screenToWorld, graphSettings.activeTool, shapes, pushToUndoStack]);
+  }, [isDrawingTool, screenToWorld, graphSettings.activeTool, beginUndoStep]);
 
   const drawPreview = useCallback((points: { x: number; y: number }[]) => {
     const canvas = previewCanvasRef.current;
@@ -2055,9 +2090,9 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         return !isPointNearShape(worldPoint, s, scale);
       });
       if (remaining.length !== shapes.length) {
-        setShapes(remaining);
+        commitShapes(remaining);
         erasedShapes.forEach(s => {
-          if (s.id > 0) {
+          if (s.synced !== false) {
             api.drawings.delete(s.id).catch(
               // err => console.error('Failed to delete drawing:', err)
             );
@@ -2083,13 +2118,14 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       graphRef.current.zoom(z * 1.00001, 0);
       graphRef.current.zoom(z, 0);
     }
-  }, [isDrawing, startPoint, screenToWorld, graphSettings.activeTool, currentPoints, shapes, setShapes, graphTransform]);
+  }, [isDrawing, startPoint, screenToWorld, graphSettings.activeTool, currentPoints, shapes, commitShapes, graphTransform]);
 
   const handleCanvasMouseUp = useCallback(() => {
     if (!isDrawing) return;
 
     if (graphSettings.activeTool === 'eraser') {
       setIsDrawing(false);
+      endUndoStep();
       return;
     }
 
@@ -2159,7 +2195,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         setTimeout(() => graphRef.current.zoom(currentZoom, 0), 20);
       }
     }, 10);
-  }, [isDrawing, currentPoints, graphSettings.activeTool, graphSettings.strokeColor, graphSettings.strokeWidth, graphSettings.strokeStyle, drawPreview, currentProject?.id, shapeToApiDrawing, addShape]);
+  }, [isDrawing, currentPoints, graphSettings.activeTool, graphSettings.strokeColor, graphSettings.strokeWidth, graphSettings.strokeStyle, drawPreview, currentProject?.id, shapeToApiDrawing, addShape, endUndoStep]);
 
   const onRenderFramePost = useCallback((ctx: CanvasRenderingContext2D, globalScale: number) => {
     if (!groupsReady) return;
@@ -2253,7 +2289,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
             resizingShapeIdRef.current = selectedShape.id;
             originalShapeRef.current = { ...selectedShape, points: [...selectedShape.points] };
             currentResizingShapeRef.current = { ...selectedShape, points: [...selectedShape.points] };
-            pushToUndoStack(shapes);
+            beginUndoStep();
             return;
           }
         }
@@ -2281,7 +2317,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       }
       setIsDraggingSelection(true);
       setDragStartWorld(worldPoint);
-      pushToUndoStack(shapes);
+      beginUndoStep();
     } else {
       if (!e.shiftKey) {
         setSelectedShapeIds(new Set());
@@ -2293,7 +2329,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       setMarqueeStart(worldPoint);
       setMarqueeEnd(worldPoint);
     }
-  }, [isSelectTool, isHoveringNode, filteredShapes, selectedShapeIds, screenToWorld, graphTransform.k, getShapeBounds, pushToUndoStack, shapes, isPointNearShape]);
+  }, [isSelectTool, isHoveringNode, filteredShapes, selectedShapeIds, screenToWorld, graphTransform.k, getShapeBounds, beginUndoStep, isPointNearShape]);
 
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
     if (e.touches.length !== 1) return;
@@ -2474,6 +2510,8 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
       }}
       suppressHydrationWarning
       onMouseMove={handleContainerMouseMove}
+      onPointerMove={handlePointerMove}
+      onPointerLeave={handlePointerLeave}
       onMouseDownCapture={handleContainerMouseDownCapture}
       onMouseDown={handleSelectMouseDown}
       onMouseUpCapture={handleContainerMouseUpCapture}
@@ -2504,14 +2542,18 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
                 ctx.fill();
               }}
               nodeLabel={() => ''}
-              linkColor={(link: any) => link.color || '#52525b'}
+              nodeRelSize={8}
+              linkColor={pathLinkColor}
               linkWidth={linkWidth}
-              linkDirectionalArrowLength={4}
+              linkLineDash={(link: { relationshipType?: string | null }) => getLinkLineDash(relationshipVocabulary, link)}
+              linkDirectionalArrowLength={(link: { isBidirectional?: boolean }) => link.isBidirectional ? 0 : 3 + linkWidth(link)}
+              linkDirectionalArrowColor={pathLinkColor}
               linkDirectionalArrowRelPos={1}
               linkCurvature={0.1}
               linkCanvasObjectMode={() => 'after'}
               linkCanvasObject={(link: any, ctx: CanvasRenderingContext2D, globalScale: number) => {
-                if (!link.description) return;
+                const label = link.description || findRelationshipType(relationshipVocabulary, link.relationshipType)?.label;
+                if (!label) return;
 
                 const source = link.source;
                 const target = link.target;
@@ -2541,7 +2583,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
                 ctx.textBaseline = 'middle';
 
                 const padding = 3 / globalScale;
-                const textWidth = ctx.measureText(link.description).width;
+                const textWidth = ctx.measureText(label).width;
 
                 ctx.fillStyle = 'rgba(24, 24, 27, 0.9)';
                 ctx.beginPath();
@@ -2549,7 +2591,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
                 ctx.fill();
 
                 ctx.fillStyle = '#a1a1aa';
-                ctx.fillText(link.description, midX, midY);
+                ctx.fillText(label, midX, midY);
               }}
               onNodeClick={(node: any, event: any) => {
                 const state = useGraphStore.getState();
@@ -2558,15 +2600,34 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
                   state.setConnectionPickerActive(false);
                   return;
                 }
+                if (pathFinder.isActive) {
+                  pathFinder.pickNode(Number(node.id));
+                  return;
+                }
+                if (isPlacingComment) {
+                  openCommentDraft({ kind: 'node', nodeId: Number(node.id) });
+                  return;
+                }
                 handleNodeClick(node, event);
               }}
               onNodeHover={handleNodeHover}
               onNodeDrag={handleNodeDrag}
               onNodeDragEnd={handleNodeDragEnd}
-              onLinkClick={handleLinkClick}
+              onLinkClick={(link: { id: number }) => {
+                if (isPlacingComment) {
+                  openCommentDraft({ kind: 'link', linkId: Number(link.id) });
+                  return;
+                }
+                handleLinkClick(link);
+              }}
               onLinkHover={handleLinkHover}
-              onBackgroundClick={() => {
+              onBackgroundClick={(event: MouseEvent) => {
                 if (useGraphStore.getState().isConnectionPickerActive) return;
+                if (isPlacingComment) {
+                  const rect = containerRef.current?.getBoundingClientRect();
+                  if (rect) openCommentDraft({ kind: 'canvas', ...screenToWorld(event.clientX - rect.left, event.clientY - rect.top) });
+                  return;
+                }
                 const timeSinceNodeClick = Date.now() - lastNodeClickTimeRef.current;
                 if (timeSinceNodeClick < 300) {
                   return;
@@ -2575,7 +2636,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
               }}
               onZoom={handleZoom}
               onRenderFramePost={onRenderFramePost}
-              enableNodeDrag={!graphSettings.lockAllMovement && !isDrawingTool}
+              enableNodeDrag={!graphSettings.lockAllMovement && !isDrawingTool && !isReadOnly}
               enableZoomInteraction={isSelectTool}
               enablePanInteraction={isPanTool}
               cooldownTicks={isPreviewMode ? 100 : 0}
@@ -2591,6 +2652,14 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
               }
             `}</style>
           </div>
+          <CollaboratorCursors worldToScreen={worldToScreen} />
+          <CommentBadges
+            projectId={currentProject?.id}
+            nodes={filteredNodes}
+            links={links}
+            canPost={canPostComments}
+            worldToScreen={worldToScreen}
+          />
           <canvas
             ref={previewCanvasRef}
             width={dimensions.width}
@@ -2812,6 +2881,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         <GroupsTabs
           groups={groups}
           activeGroupId={activeGroupId}
+          progress={groupProgress}
           onSelectGroup={setActiveGroupId}
           onAddGroup={async () => {
             const newName = `Group ${groups.length + 1}`;
@@ -2845,34 +2915,54 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
             const groupName = groupToDelete?.name || 'this group';
             let message = `Are you sure you want to delete "${groupName}"?`;
             if (nodeCount > 0 || shapeCount > 0) {
-              message += '\n\nThis will permanently delete:';
+              message += '\n\nThis will delete:';
               if (nodeCount > 0) message += `\n• ${nodeCount} node${nodeCount > 1 ? 's' : ''}`;
               if (shapeCount > 0) message += `\n• ${shapeCount} drawing${shapeCount > 1 ? 's' : ''}`;
+              message += '\n\nYou can undo this or bring them back from History.';
             }
 
             if (!await showConfirmation(message)) {
               return;
             }
 
+            const groupNodeIds = new Set(nodesInGroup.map(n => n.id));
+            const deleted = {
+              nodes: nodesInGroup,
+              links: useGraphStore.getState().links.filter(l => groupNodeIds.has(l.sourceId) || groupNodeIds.has(l.targetId)),
+              shapes: shapesInGroup,
+              groups: groupToDelete ? [groupToDelete] : [],
+            };
+
             // Delete all nodes in this group
             for (const node of nodesInGroup) {
               deleteNode(node.id);
-              api.nodes.delete(node.id).catch(() => { });
             }
 
             // Delete all shapes/drawings in this group
             for (const shape of shapesInGroup) {
               deleteShape(shape.id);
-              api.drawings.delete(shape.id).catch(() => { });
             }
 
             // Delete the group locally
             deleteGroup(id);
 
-            // Try backend delete silently, fall back to local hide
+            // The group and everything in it go in one request
+            const contentWrites = [
+              ...nodesInGroup.map(node => writes.nodes.delete(node.id)),
+              ...shapesInGroup.map(shape => writes.drawings.delete(shape.id)),
+            ];
             try {
-              await api.groups.delete(id);
-            } catch {
+              await api.batch([...contentWrites, writes.groups.delete(id)]);
+            } catch (err) {
+              const onlyGroupRefused = err instanceof BatchError && err.failures.every(f => f.index === contentWrites.length);
+              if (!onlyGroupRefused) {
+                useGraphStore.getState().restoreDeleted(deleted);
+                showToast('Failed to delete the group. It has been put back.', 'error');
+                return;
+              }
+
+              // The API won't delete the group itself: delete its contents and hide it locally
+              await api.batch(contentWrites).catch(() => { });
               const hidden = JSON.parse(localStorage.getItem('nexus_hidden_groups') || '[]');
               if (!hidden.includes(id)) {
                 hidden.push(id);
@@ -3008,6 +3098,46 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
         </div>
       )}
 
+      {!selectedLink && (
+        <div className="absolute left-4 top-[4.5rem] z-30 flex items-start gap-2 graph-ui-hide md:top-4">
+          <PathFinderPanel
+            pathFinder={pathFinder}
+            nodes={nodes}
+            onLocateNode={handleLocateNode}
+            onToggle={(active) => {
+              if (!active) return;
+              setShowStudyOrder(false);
+              setShowReview(false);
+            }}
+          />
+          <StudyOrderPanel
+            isOpen={showStudyOrder}
+            onToggle={() => {
+              setShowStudyOrder(!showStudyOrder);
+              setShowReview(false);
+              pathFinder.setActive(false);
+            }}
+            nodes={nodes}
+            links={links}
+            groups={groups}
+            activeGroupId={activeGroupId}
+            projectName={currentProject?.name || 'Project'}
+            onLocateNode={handleLocateNode}
+          />
+          <FlashcardReviewPanel
+            isOpen={showReview}
+            onToggle={() => {
+              setShowReview(!showReview);
+              setShowStudyOrder(false);
+              pathFinder.setActive(false);
+            }}
+            nodes={nodes}
+            projectId={currentProject?.id ?? null}
+            onLocateNode={handleLocateNode}
+          />
+        </div>
+      )}
+
       {selectedLink && (
         <div className="graph-ui-hide" onMouseDown={(e) => e.stopPropagation()}>
           <ConnectionProperties
@@ -3020,6 +3150,15 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle>((props, ref) => {
   );
 });
 
+// Moves go out without a version; keep the ones the nodes come back with
+function saveMoves(operations: WriteOperation[]) {
+  api.batch(operations).then(results => {
+    results.forEach((saved, i) => {
+      if (operations[i].entity === 'node' && saved) useGraphStore.getState().keepSavedVersion(saved as Node);
+    });
+  }).catch(() => { });
+}
+
 function adjustBrightness(hex: string, percent: number): string {
   const num = parseInt(hex.replace('#', ''), 16);
   const amt = Math.round(2.55 * percent);
@@ -1,16 +1,27 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
 import {
   Play, Pause,
   Hand, MousePointer2, Square, Diamond, Circle,
   ArrowRight, Minus, Pencil, Type, Eraser,
-  Undo2, Redo2, Share2
+  Undo2, Redo2, Share2, History,
+  CloudOff, RefreshCw, AlertTriangle, MessageSquarePlus
 } from 'lucide-react';
-import { GraphSettings, DrawingTool } from '@/types/knowledge';
+import { GraphSettings, DrawingTool, Project, ProjectRole } from '@/types/knowledge';
 
 import { useGraphStore } from '@/store/useGraphStore';
+import { useToast } from '@/context/ToastContext';
+import { useSyncStore } from '@/store/useSyncStore';
+import { useCommentsStore } from '@/store/useCommentsStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { syncPendingChanges, retryRefusedChange, discardRefusedChange } from '@/hooks/useOfflineSync';
+import type { MutationMethod, RefusedMutation } from '@/lib/offlineQueue';
+import { ENTITY_LABELS } from '@/lib/projectHistory';
 import { ShareModal } from '@/components/ui/ShareModal';
+import { ProjectHistoryModal } from './ProjectHistoryModal';
+import { canEdit, canComment, ROLE_LABELS } from '@/lib/projectRoles';
 
 interface GraphControlsProps {
   settings: GraphSettings;
@@ -33,9 +44,16 @@ const drawingTools: { id: DrawingTool; icon: typeof Hand; label: string }[] = [
 export function GraphControls({ settings, onSettingsChange }: GraphControlsProps) {
   const undo = useGraphStore(state => state.undo);
   const redo = useGraphStore(state => state.redo);
-  const canUndo = useGraphStore(state => state.undoStack.length > 0);
-  const canRedo = useGraphStore(state => state.redoStack.length > 0);
+  const canUndo = useGraphStore(state => state.undoStack.length > 0 && !state.isReplayingUndo);
+  const canRedo = useGraphStore(state => state.redoStack.length > 0 && !state.isReplayingUndo);
   const currentProject = useGraphStore(state => state.currentProject);
+  const currentRole = useGraphStore(state => state.currentRole);
+  const isSignedIn = useAuthStore(state => !!state.user);
+  const { showToast } = useToast();
+
+  const replay = async (step: () => Promise<boolean>) => {
+    if (!await step()) showToast('Some changes could not be undone', 'warning');
+  };
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showLeftShadow, setShowLeftShadow] = useState(false);
@@ -118,20 +136,41 @@ export function GraphControls({ settings, onSettingsChange }: GraphControlsProps
 
       <div className="absolute right-2.5 top-[4.5rem] z-30 flex flex-col items-end gap-2 graph-ui-hide md:top-4">
         <div className="flex items-center gap-2 rounded-xl bg-zinc-900/90 p-2 backdrop-blur-sm border border-zinc-800">
-          <PreviewControl
-            enabled={settings.isPreviewMode}
-            onToggle={() => onSettingsChange({ isPreviewMode: !settings.isPreviewMode })}
-          />
+          {canEdit(currentRole) ? (
+            <PreviewControl
+              enabled={settings.isPreviewMode}
+              onToggle={() => onSettingsChange({ isPreviewMode: !settings.isPreviewMode })}
+            />
+          ) : (
+            <span
+              className="rounded-lg bg-zinc-800 px-3 py-1.5 text-xs font-medium text-zinc-400"
+              title="Ask the owner for editor access to make changes"
+            >
+              {currentRole ? ROLE_LABELS[currentRole] : 'View only'}
+            </span>
+          )}
+
+          {isSignedIn && canComment(currentRole) && (
+            <>
+              <div className="h-6 w-px bg-zinc-700" />
+              <CommentControl
+                onStart={() => {
+                  // Drawing tools cover the canvas and would swallow the click
+                  if (!settings.isPreviewMode && !['pan', 'select'].includes(settings.activeTool)) setActiveTool('select');
+                }}
+              />
+            </>
+          )}
 
           <div className="h-6 w-px bg-zinc-700" />
 
-          <ShareControl projectId={currentProject?.id} />
+          <ShareControl project={currentProject} role={currentRole} />
         </div>
 
         {!settings.isPreviewMode && (
           <div className="flex items-center gap-2 rounded-xl bg-zinc-900/90 p-2 backdrop-blur-sm border border-zinc-800">
             <button
-              onClick={undo}
+              onClick={() => replay(undo)}
               disabled={!canUndo}
               className={`flex flex-1 items-center justify-center gap-2 rounded-lg px-3 py-1.5 text-xs font-medium transition-all ${canUndo
                 ? 'bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700'
@@ -146,7 +185,7 @@ export function GraphControls({ settings, onSettingsChange }: GraphControlsProps
             <div className="h-6 w-px bg-zinc-700" />
 
             <button
-              onClick={redo}
+              onClick={() => replay(redo)}
               disabled={!canRedo}
               className={`flex items-center justify-center gap-2 flex-1 rounded-lg px-3 py-1.5 text-xs font-medium transition-all ${canRedo
                 ? 'bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700'
@@ -157,8 +196,14 @@ export function GraphControls({ settings, onSettingsChange }: GraphControlsProps
               <Redo2 className="h-3.5 w-3.5" />
               <span className="hidden sm:inline">Redo</span>
             </button>
+
+            <div className="h-6 w-px bg-zinc-700" />
+
+            <HistoryControl projectId={currentProject?.id} />
           </div>
         )}
+
+        <SyncControl />
       </div>
     </>
   );
@@ -189,16 +234,41 @@ function PreviewControl({ enabled, onToggle }: PreviewControlProps) {
   );
 }
 
+interface CommentControlProps {
+  onStart: () => void;
+}
+
+// Arms the canvas: the next click on a node, a connection or empty space starts a thread there
+function CommentControl({ onStart }: CommentControlProps) {
+  const isPlacing = useCommentsStore(state => state.isPlacingComment);
+  const setPlacing = useCommentsStore(state => state.setPlacingComment);
+
+  return (
+    <button
+      onClick={() => {
+        if (!isPlacing) onStart();
+        setPlacing(!isPlacing);
+      }}
+      className={`flex items-center gap-2 rounded-lg px-3 py-1.5 text-xs font-medium transition-all ${isPlacing
+        ? 'bg-amber-500 text-white'
+        : 'bg-zinc-800 text-zinc-400 hover:text-white'
+        }`}
+      title={isPlacing ? 'Click a node, a connection or the canvas (Esc to cancel)' : 'Add a comment'}
+    >
+      <MessageSquarePlus className="h-3.5 w-3.5" />
+      <span className="hidden sm:inline">{isPlacing ? 'Place comment' : 'Comment'}</span>
+    </button>
+  );
+}
+
 interface ShareControlProps {
-  projectId?: number;
+  project: Project | null;
+  role: ProjectRole | null;
 }
 
-function ShareControl({ projectId }: ShareControlProps) {
+function ShareControl({ project, role }: ShareControlProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
-
-  const shareUrl = projectId
-    ? `${typeof window !== 'undefined' ? window.location.origin : ''}/project/${projectId}/preview`
-    : '';
+  const projectId = project?.id;
 
   return (
     <>
@@ -215,8 +285,122 @@ function ShareControl({ projectId }: ShareControlProps) {
       <ShareModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
-        shareUrl={shareUrl}
+        project={project}
+        role={role}
       />
     </>
   );
 }
+
+interface HistoryControlProps {
+  projectId?: number;
+}
+
+function HistoryControl({ projectId }: HistoryControlProps) {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsModalOpen(true)}
+        disabled={!projectId}
+        className={`flex items-center justify-center gap-2 flex-1 rounded-lg px-3 py-1.5 text-xs font-medium transition-all bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700 ${!projectId ? 'opacity-50 cursor-not-allowed' : ''}`}
+        title="Version history"
+      >
+        <History className="h-3.5 w-3.5" />
+        <span className="hidden sm:inline">History</span>
+      </button>
+
+      {/* Portaled out of the toolbar, whose backdrop blur would otherwise contain the fixed modal */}
+      {projectId && isModalOpen && createPortal(
+        <ProjectHistoryModal
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          projectId={projectId}
+        />,
+        document.body
+      )}
+    </>
+  );
+}
+
+function pluralizeChanges(count: number) {
+  return `${count} change${count === 1 ? '' : 's'}`;
+}
+
+const METHOD_LABELS: Record<MutationMethod, string> = { POST: 'Add', PUT: 'Change', DELETE: 'Delete' };
+
+function describeRefused(mutation: RefusedMutation) {
+  const body = (mutation.body ?? {}) as { title?: unknown; name?: unknown };
+  const name = typeof body.title === 'string' ? body.title : typeof body.name === 'string' ? body.name : null;
+  return `${METHOD_LABELS[mutation.method]} ${ENTITY_LABELS[mutation.entity]}${name ? ` "${name}"` : ''}`;
+}
+
+// Only shows up while something is offline, waiting or refused
+function SyncControl() {
+  const pending = useSyncStore(state => state.pending);
+  const isOnline = useSyncStore(state => state.isOnline);
+  const isSyncing = useSyncStore(state => state.isSyncing);
+  const refused = useSyncStore(state => state.refused);
+  const [showRefused, setShowRefused] = useState(false);
+
+  if (isOnline && pending === 0 && refused.length === 0) return null;
+
+  if (pending === 0 && refused.length > 0 && isOnline) {
+    return (
+      <div className="flex flex-col items-end gap-2">
+        <button
+          onClick={() => setShowRefused(!showRefused)}
+          className="flex items-center gap-2 rounded-xl border border-rose-900/60 bg-zinc-900/90 px-3 py-1.5 text-xs text-rose-300 backdrop-blur-sm transition-colors hover:text-rose-200"
+          title="The server refused these changes. Click to review them."
+        >
+          <AlertTriangle className="h-3.5 w-3.5" />
+          {pluralizeChanges(refused.length)} couldn&apos;t be saved
+        </button>
+        {showRefused && (
+          <div className="flex max-h-72 w-72 flex-col gap-1 overflow-y-auto rounded-xl border border-zinc-800 bg-zinc-900/95 p-2 backdrop-blur-sm">
+            {refused.map(mutation => (
+              <div key={mutation.seq} className="rounded-lg px-2 py-1.5 hover:bg-zinc-800/60">
+                <div className="truncate text-xs text-zinc-200">{describeRefused(mutation)}</div>
+                <div className="text-[11px] text-zinc-500">{mutation.error}</div>
+                <div className="mt-1 flex gap-3">
+                  <button
+                    onClick={() => retryRefusedChange(mutation.seq)}
+                    className="text-[11px] text-blue-400 hover:text-blue-300"
+                    title={mutation.status === 409 ? 'Save your version over the one saved in the meantime' : 'Send this change again'}
+                  >
+                    {mutation.status === 409 ? 'Keep mine' : 'Try again'}
+                  </button>
+                  <button
+                    onClick={() => discardRefusedChange(mutation.seq).catch(() => { })}
+                    className="text-[11px] text-zinc-400 hover:text-zinc-200"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const label = !isOnline
+    ? pending > 0 ? `Offline · ${pluralizeChanges(pending)} pending` : 'Offline'
+    : isSyncing ? `Syncing ${pluralizeChanges(pending)}…` : `${pluralizeChanges(pending)} pending`;
+
+  return (
+    <button
+      onClick={() => syncPendingChanges()}
+      disabled={isSyncing || pending === 0}
+      className="flex items-center gap-2 rounded-xl border border-zinc-800 bg-zinc-900/90 px-3 py-1.5 text-xs text-amber-300 backdrop-blur-sm transition-colors hover:text-amber-200 disabled:cursor-default"
+      title={pending > 0 ? 'Saved on this device. Click to retry sending now.' : 'Edits are saved on this device until the connection is back'}
+    >
+      {isOnline
+        ? <RefreshCw className={`h-3.5 w-3.5 ${isSyncing ? 'animate-spin' : ''}`} />
+        : <CloudOff className="h-3.5 w-3.5" />}
+      {label}
+    </button>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { Plus, X, GripVertical, Check } from 'lucide-react';
+import type { ProgressSummary } from '@/store/useProgressStore';
 
 export interface Group {
     id: number;
@@ -19,6 +20,7 @@ interface GroupsTabsProps {
     onDeleteGroup: (groupId: number) => void;
     onReorderGroups: (groups: Group[]) => void;
     isPreviewMode?: boolean;
+    progress?: Record<number, ProgressSummary>;
 }
 
 const DEFAULT_COLORS = [
@@ -35,6 +37,7 @@ export function GroupsTabs({
     onDeleteGroup,
     onReorderGroups,
     isPreviewMode = false,
+    progress,
 }: GroupsTabsProps) {
     const [editingId, setEditingId] = useState<number | null>(null);
     const [editValue, setEditValue] = useState('');
@@ -256,6 +259,15 @@ export function GroupsTabs({
                             <span className="truncate max-w-24">{group.name}</span>
                         )}
 
+                        {editingId !== group.id && progress?.[group.id] && progress[group.id].total > 0 && (
+                            <span
+                                className="text-[10px] text-zinc-500 tabular-nums"
+                                title={`${progress[group.id].mastered} mastered, ${progress[group.id].learning} learning, ${progress[group.id].notStarted} not started`}
+                            >
+                                {progress[group.id].mastered}/{progress[group.id].total}
+                            </span>
+                        )}
+
                         {!isPreviewMode && sortedGroups.length > 1 && (
                             <button
                                 onClick={(e) => {
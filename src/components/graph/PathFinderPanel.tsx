@@ -0,0 +1,165 @@
+'use client';
+
+import { Route, X, MapPin, RotateCcw } from 'lucide-react';
+import { Node } from '@/types/knowledge';
+import type { PathFinderState, PathFinderMode } from '@/hooks/usePathFinder';
+
+interface PathFinderPanelProps {
+    pathFinder: PathFinderState;
+    nodes: Node[];
+    onLocateNode?: (node: Node) => void;
+    onToggle?: (active: boolean) => void;
+    className?: string;
+}
+
+const modes: { id: PathFinderMode; label: string }[] = [
+    { id: 'path', label: 'Shortest path' },
+    { id: 'prerequisites', label: 'Study before' },
+];
+
+export function PathFinderPanel({ pathFinder, nodes, onLocateNode, onToggle, className = '' }: PathFinderPanelProps) {
+    const { isActive, setActive, mode, setMode, startId, targetId, path, chain, reset } = pathFinder;
+
+    const getNode = (id: number | null) => (id === null ? undefined : nodes.find(n => n.id === id));
+
+    const renderStep = (nodeId: number, index: number, detail?: string) => {
+        const node = getNode(nodeId);
+        return (
+            <div
+                key={nodeId}
+                className="group flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+            >
+                <span className="w-5 shrink-0 text-right text-xs text-zinc-500">{index + 1}.</span>
+                <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: node?.customColor || '#355ea1' }}
+                />
+                <span className="flex-1 truncate">{node?.title || 'Unknown'}</span>
+                {detail && <span className="shrink-0 text-[10px] text-zinc-500">{detail}</span>}
+                {node && onLocateNode && (
+                    <button
+                        onClick={() => onLocateNode(node)}
+                        className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-zinc-700 transition-all"
+                        title="Locate"
+                    >
+                        <MapPin className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+        );
+    };
+
+    const renderSelection = (label: string, id: number | null, placeholder: string) => (
+        <div className="flex items-center gap-2 text-xs">
+            <span className="w-10 shrink-0 text-zinc-500">{label}</span>
+            <span className={`flex-1 truncate rounded-lg bg-zinc-800/50 px-2 py-1 ${id === null ? 'text-zinc-500 italic' : 'text-white'}`}>
+                {getNode(id)?.title || placeholder}
+            </span>
+        </div>
+    );
+
+    return (
+        <div className={`flex flex-col items-start gap-2 ${className}`} onMouseDown={(e) => e.stopPropagation()}>
+            <button
+                onClick={() => {
+                    setActive(!isActive);
+                    onToggle?.(!isActive);
+                }}
+                className={`flex items-center gap-2 rounded-lg px-3 h-9 text-sm shadow-lg backdrop-blur-sm border transition-all ${isActive
+                    ? 'bg-[#355ea1] text-white border-[#355ea1]'
+                    : 'bg-zinc-800/90 text-zinc-300 border-zinc-700 hover:bg-zinc-700 hover:text-white hover:border-zinc-600'
+                    }`}
+                title="Find a learning path between nodes"
+            >
+                <Route className="h-4 w-4" />
+                <span className="hidden sm:inline">Path</span>
+            </button>
+
+            {isActive && (
+                <div
+                    className="w-64 max-h-96 rounded-xl border border-zinc-800 bg-zinc-900/90 backdrop-blur-sm shadow-lg overflow-hidden flex flex-col"
+                    onWheel={(e) => e.stopPropagation()}
+                >
+                    <div className="flex items-center justify-between border-b border-zinc-700 px-4 py-3">
+                        <div className="flex items-center gap-2">
+                            <Route className="w-4 h-4 text-zinc-400" />
+                            <h3 className="text-sm font-semibold text-white">Learning Path</h3>
+                        </div>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={reset}
+                                className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white"
+                                title="Clear selection"
+                            >
+                                <RotateCcw className="h-3.5 w-3.5" />
+                            </button>
+                            <button
+                                onClick={() => setActive(false)}
+                                className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white"
+                            >
+                                <X className="h-4 w-4" />
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="flex gap-1 border-b border-zinc-800 p-2">
+                        {modes.map(m => (
+                            <button
+                                key={m.id}
+                                onClick={() => setMode(m.id)}
+                                className={`flex-1 rounded-lg py-1.5 text-xs font-medium transition-colors ${mode === m.id
+                                    ? 'bg-zinc-700 text-white'
+                                    : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'
+                                    }`}
+                            >
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="space-y-1.5 border-b border-zinc-800 p-3">
+                        {mode === 'path' ? (
+                            <>
+                                {renderSelection('From', startId, 'Click a node...')}
+                                {renderSelection('To', targetId, startId === null ? '—' : 'Click a node...')}
+                            </>
+                        ) : (
+                            renderSelection('Goal', targetId, 'Click a node...')
+                        )}
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto p-2">
+                        {mode === 'path' && startId !== null && targetId !== null && (
+                            path ? (
+                                <>
+                                    {!path.directed && (
+                                        <p className="px-2 pb-2 text-xs text-amber-400/80">
+                                            No path follows the arrows, showing the closest connection instead.
+                                        </p>
+                                    )}
+                                    {path.nodeIds.map((id, i) => renderStep(id, i))}
+                                </>
+                            ) : (
+                                <p className="px-2 py-2 text-xs text-zinc-500 italic">These nodes are not connected.</p>
+                            )
+                        )}
+
+                        {mode === 'prerequisites' && chain && (
+                            chain.nodeIds.length > 0 ? (
+                                <>
+                                    {chain.nodeIds.map((id, i) => {
+                                        const steps = chain.depth.get(id) ?? 0;
+                                        return renderStep(id, i, `${steps} step${steps === 1 ? '' : 's'} away`);
+                                    })}
+                                    {renderStep(chain.targetId, chain.nodeIds.length, 'goal')}
+                                </>
+                            ) : (
+                                <p className="px-2 py-2 text-xs text-zinc-500 italic">Nothing needs to be studied before this node.</p>
+                            )
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { History, Plus, Minus, PenLine, RotateCcw, Loader2, CloudOff } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { useGraphStore } from '@/store/useGraphStore';
+import { useHistoryStore } from '@/store/useHistoryStore';
+import { useToast } from '@/context/ToastContext';
+import { useProjectRestore, RestoreResult } from '@/hooks/useProjectRestore';
+import { getStateAt, diffStates, describeSnapshot, changedFields, ENTITY_LABELS, ProjectState, EntityChange } from '@/lib/projectHistory';
+import type { Revision } from '@/types/knowledge';
+
+interface ProjectHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    projectId: number;
+}
+
+const NOW = 'now';
+const EMPTY_REVISIONS: Revision[] = [];
+const EMPTY_IDS: string[] = [];
+const POSITION_FIELDS = ['x', 'y', 'points'];
+
+const CHANGE_STYLES: Record<EntityChange['kind'], { icon: typeof Plus; className: string }> = {
+    added: { icon: Plus, className: 'text-emerald-400' },
+    removed: { icon: Minus, className: 'text-rose-400' },
+    changed: { icon: PenLine, className: 'text-amber-400' },
+};
+
+function formatTime(iso: string) {
+    return new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export function ProjectHistoryModal({ isOpen, onClose, projectId }: ProjectHistoryModalProps) {
+    const revisions = useHistoryStore(state => state.revisions[projectId] ?? EMPTY_REVISIONS);
+    const loadProjectHistory = useHistoryStore(state => state.loadProjectHistory);
+    const unsaved = useHistoryStore(state => state.unsaved[projectId] ?? EMPTY_IDS);
+    const saveError = useHistoryStore(state => state.saveError);
+    const saveUnsaved = useHistoryStore(state => state.saveUnsaved);
+    const nodes = useGraphStore(state => state.nodes);
+    const links = useGraphStore(state => state.links);
+    const shapes = useGraphStore(state => state.shapes);
+    const groups = useGraphStore(state => state.groups);
+    const { showToast, showConfirmation } = useToast();
+    const { restoreProject, restoreNode } = useProjectRestore(projectId);
+
+    // Each point is "just before" a revision, so restoring one undoes that change and everything after it
+    const [fromId, setFromId] = useState<string | null>(null);
+    const [toId, setToId] = useState<string>(NOW);
+    const [restoring, setRestoring] = useState<string | null>(null);
+    const [retrying, setRetrying] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) loadProjectHistory(projectId);
+    }, [isOpen, projectId, loadProjectHistory]);
+
+    const timeline = useMemo(() => [...revisions].reverse(), [revisions]);
+
+    const stateAt = useMemo(() => {
+        const current: ProjectState = { nodes, links, shapes, groups };
+        return (pointId: string | null): ProjectState | null => {
+            if (pointId === NOW) return current;
+            const revision = revisions.find(r => r.id === pointId);
+            if (!revision) return null;
+            const justBefore = new Date(new Date(revision.createdAt).getTime() - 1).toISOString();
+            return getStateAt(current, revisions, justBefore);
+        };
+    }, [nodes, links, shapes, groups, revisions]);
+
+    const fromState = useMemo(() => stateAt(fromId), [stateAt, fromId]);
+    const toState = useMemo(() => stateAt(toId), [stateAt, toId]);
+    const changes = useMemo(
+        () => (fromState && toState ? diffStates(fromState, toState) : []),
+        [fromState, toState]
+    );
+
+    // Names for links resolve against every node either side has seen
+    const knownNodes = useMemo(
+        () => [...(fromState?.nodes ?? []), ...nodes],
+        [fromState, nodes]
+    );
+
+    const describeRevision = (r: Revision) => {
+        const name = describeSnapshot(r.entity, r.after ?? r.before, knownNodes);
+        const label = ENTITY_LABELS[r.entity];
+        if (r.action === 'create') return `Created ${label} ${name}`;
+        if (r.action === 'delete') return `Deleted ${label} ${name}`;
+        const fields = r.before && r.after ? changedFields(r.before, r.after) : [];
+        if (fields.length > 0 && fields.every(f => POSITION_FIELDS.includes(f))) return `Moved ${label} ${name}`;
+        return `Edited ${label} ${name}${fields.length ? ` (${fields.join(', ')})` : ''}`;
+    };
+
+    const reportResult = (result: RestoreResult) => {
+        if (result.failed > 0) {
+            showToast(`Restored with ${result.failed} change${result.failed > 1 ? 's' : ''} that could not be applied`, 'warning');
+        } else if (result.applied > 0) {
+            showToast('Restored', 'info');
+        } else {
+            showToast('Nothing to restore', 'info');
+        }
+    };
+
+    const handleRestoreProject = async () => {
+        if (!fromState || !fromId) return;
+        const revision = revisions.find(r => r.id === fromId);
+        if (!revision) return;
+        if (!await showConfirmation(`Restore the whole project to how it was before ${formatTime(revision.createdAt)}? Later changes stay in history.`)) return;
+
+        setRestoring(NOW);
+        try {
+            reportResult(await restoreProject(fromState));
+        } finally {
+            setRestoring(null);
+        }
+        setFromId(null);
+    };
+
+    const handleRestoreNode = async (nodeId: number) => {
+        if (!fromState) return;
+        setRestoring(`node:${nodeId}`);
+        try {
+            reportResult(await restoreNode(nodeId, fromState));
+        } finally {
+            setRestoring(null);
+        }
+    };
+
+    const handleRetrySave = async () => {
+        setRetrying(true);
+        try {
+            await saveUnsaved(projectId);
+        } finally {
+            setRetrying(false);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Version history"
+            description="Every change to nodes, connections, drawings and groups. Pick a point to compare it with now, or restore it."
+            size="full"
+        >
+            {unsaved.length > 0 && (
+                <div className="mb-3 flex items-center gap-2 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-300 ring-1 ring-amber-500/30">
+                    <CloudOff className="h-3.5 w-3.5 shrink-0" />
+                    <span className="min-w-0 flex-1">
+                        {unsaved.length} change{unsaved.length > 1 ? 's are' : ' is'} only saved on this device{saveError ? `: ${saveError}` : ''}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={handleRetrySave}
+                        disabled={retrying}
+                        className="flex shrink-0 items-center gap-1 rounded-md bg-zinc-800 px-2 py-0.5 text-zinc-200 transition-colors hover:bg-zinc-700 disabled:opacity-50"
+                    >
+                        {retrying && <Loader2 className="h-3 w-3 animate-spin" />}
+                        Try again
+                    </button>
+                </div>
+            )}
+            <div className="grid max-h-[65vh] gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+                <div className="min-h-0 overflow-y-auto pr-1">
+                    {timeline.length === 0 ? (
+                        <div className="flex flex-col items-center gap-2 py-10 text-center text-sm text-zinc-500">
+                            <History className="h-6 w-6" />
+                            No changes recorded yet
+                        </div>
+                    ) : (
+                        <div className="space-y-1">
+                            {timeline.map(r => (
+                                <button
+                                    key={r.id}
+                                    type="button"
+                                    onClick={() => setFromId(r.id === fromId ? null : r.id)}
+                                    className={`w-full rounded-lg px-3 py-2 text-left transition-colors ${r.id === fromId
+                                        ? 'bg-[#355ea1]/30 ring-1 ring-[#355ea1]'
+                                        : 'bg-zinc-800/50 hover:bg-zinc-800'
+                                        }`}
+                                >
+                                    <p className="truncate text-sm text-zinc-200">{describeRevision(r)}</p>
+                                    <p className="text-[11px] text-zinc-500">{formatTime(r.createdAt)}</p>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex min-h-0 flex-col gap-3">
+                    {fromId ? (
+                        <>
+                            <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-400">
+                                <span>Before the selected change</span>
+                                <span>→</span>
+                                <select
+                                    value={toId}
+                                    onChange={(e) => setToId(e.target.value)}
+                                    className="rounded-md bg-zinc-800 px-2 py-1 text-xs text-white outline-none ring-1 ring-zinc-700"
+                                >
+                                    <option value={NOW}>Now</option>
+                                    {timeline.filter(r => r.id !== fromId).map(r => (
+                                        <option key={r.id} value={r.id}>Before {formatTime(r.createdAt)}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="min-h-0 flex-1 overflow-y-auto">
+                                {changes.length === 0 ? (
+                                    <p className="py-6 text-center text-sm text-zinc-500">No differences</p>
+                                ) : (
+                                    <div className="space-y-1">
+                                        {changes.map(change => {
+                                            const { icon: Icon, className } = CHANGE_STYLES[change.kind];
+                                            const canRestoreNode = change.entity === 'node' && change.before !== null;
+                                            return (
+                                                <div key={`${change.entity}:${change.id}`} className="flex items-center gap-2 rounded-lg bg-zinc-800/50 px-3 py-2">
+                                                    <Icon className={`h-3.5 w-3.5 shrink-0 ${className}`} />
+                                                    <div className="min-w-0 flex-1">
+                                                        <p className="truncate text-sm text-zinc-200">
+                                                            <span className="text-zinc-500">{ENTITY_LABELS[change.entity]} </span>
+                                                            {describeSnapshot(change.entity, change.after ?? change.before, knownNodes)}
+                                                        </p>
+                                                        {change.fields.length > 0 && (
+                                                            <p className="truncate text-[11px] text-zinc-500">{change.fields.join(', ')}</p>
+                                                        )}
+                                                    </div>
+                                                    {canRestoreNode && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleRestoreNode(change.id)}
+                                                            disabled={restoring !== null}
+                                                            className="flex shrink-0 items-center gap-1 rounded-md bg-zinc-700 px-2 py-0.5 text-xs text-zinc-300 transition-colors hover:bg-[#355ea1] hover:text-white disabled:opacity-50"
+                                                            title="Put this node back the way it was before the selected change"
+                                                        >
+                                                            {restoring === `node:${change.id}`
+                                                                ? <Loader2 className="h-3 w-3 animate-spin" />
+                                                                : <RotateCcw className="h-3 w-3" />}
+                                                            Restore
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+
+                            <button
+                                type="button"
+                                onClick={handleRestoreProject}
+                                disabled={restoring !== null}
+                                className="flex items-center justify-center gap-2 rounded-lg bg-[#355ea1] px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-[#265fbd] disabled:opacity-50"
+                            >
+                                {restoring === NOW ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                                Restore project to this point
+                            </button>
+                        </>
+                    ) : (
+                        <p className="py-10 text-center text-sm text-zinc-500">Select a change to see what the project looked like just before it</p>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+}
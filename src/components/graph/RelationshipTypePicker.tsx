@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Plus } from 'lucide-react';
+import { LinkLineStyle } from '@/types/knowledge';
+import { useGraphStore } from '@/store/useGraphStore';
+import { api } from '@/lib/api';
+import { getRelationshipVocabulary, toRelationshipKey } from '@/lib/relationshipTypes';
+import { useToast } from '@/context/ToastContext';
+
+interface RelationshipTypePickerProps {
+    value: string | null;
+    onChange: (key: string | null) => void;
+    label?: string;
+}
+
+const lineStyles: LinkLineStyle[] = ['solid', 'dashed', 'dotted', 'dash-dot'];
+
+export function RelationshipTypePicker({ value, onChange, label = 'Relationship' }: RelationshipTypePickerProps) {
+    const currentProject = useGraphStore((s) => s.currentProject);
+    const relationshipTypes = useGraphStore((s) => s.relationshipTypes);
+    const addRelationshipType = useGraphStore((s) => s.addRelationshipType);
+    const { showToast } = useToast();
+
+    const [isCreating, setIsCreating] = useState(false);
+    const [newLabel, setNewLabel] = useState('');
+    const [newLineStyle, setNewLineStyle] = useState<LinkLineStyle>('solid');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const vocabulary = useMemo(
+        () => getRelationshipVocabulary(relationshipTypes, currentProject?.id),
+        [relationshipTypes, currentProject?.id]
+    );
+
+    const handleCreate = async () => {
+        const key = toRelationshipKey(newLabel);
+        if (!key || !currentProject?.id) return;
+
+        const existing = vocabulary.find(t => t.key === key);
+        if (existing) {
+            onChange(existing.key);
+            setIsCreating(false);
+            setNewLabel('');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const created = await api.relationshipTypes.create({
+                projectId: currentProject.id,
+                key,
+                label: newLabel.trim(),
+                lineStyle: newLineStyle,
+            });
+            addRelationshipType(created);
+            onChange(created.key);
+            setIsCreating(false);
+            setNewLabel('');
+            setNewLineStyle('solid');
+        } catch {
+            showToast('Failed to create relationship type', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between">
+                <label className="text-xs text-zinc-400">{label}</label>
+                {!isCreating && currentProject?.id && (
+                    <button
+                        type="button"
+                        onClick={() => setIsCreating(true)}
+                        className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white transition-colors"
+                    >
+                        <Plus className="h-3 w-3" />
+                        New type
+                    </button>
+                )}
+            </div>
+
+            <select
+                value={value ?? ''}
+                onChange={(e) => onChange(e.target.value || null)}
+                className="w-full rounded-lg bg-zinc-700 px-3 py-1.5 text-sm text-white outline-none"
+            >
+                <option value="">No type</option>
+                {vocabulary.map(t => (
+                    <option key={t.key} value={t.key}>{t.label}</option>
+                ))}
+                {value && !vocabulary.some(t => t.key === value) && (
+                    <option value={value}>{value}</option>
+                )}
+            </select>
+
+            {isCreating && (
+                <div className="space-y-2 rounded-lg bg-zinc-900/60 p-2">
+                    <input
+                        type="text"
+                        value={newLabel}
+                        onChange={(e) => setNewLabel(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleCreate();
+                            if (e.key === 'Escape') setIsCreating(false);
+                        }}
+                        placeholder="e.g. Depends on"
+                        autoFocus
+                        className="w-full rounded-lg bg-zinc-700 px-3 py-1.5 text-sm text-white placeholder-zinc-500 outline-none"
+                    />
+                    <div className="flex gap-1">
+                        {lineStyles.map(style => (
+                            <button
+                                key={style}
+                                type="button"
+                                onClick={() => setNewLineStyle(style)}
+                                className={`flex-1 rounded-lg py-1 text-xs capitalize transition-colors ${newLineStyle === style ? 'bg-[#355ea1] text-white' : 'bg-zinc-700 text-zinc-400 hover:bg-zinc-600 hover:text-white'}`}
+                            >
+                                {style}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={() => { setIsCreating(false); setNewLabel(''); }}
+                            className="flex-1 rounded-lg bg-zinc-700 py-1 text-xs font-medium text-white hover:bg-zinc-600 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleCreate}
+                            disabled={!toRelationshipKey(newLabel) || isSaving}
+                            className="flex-1 rounded-lg bg-[#355ea1] py-1 text-xs font-medium text-white hover:bg-[#265fbd] transition-colors disabled:opacity-50"
+                        >
+                            Add
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
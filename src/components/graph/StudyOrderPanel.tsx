@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { ListOrdered, X, MapPin, Download, AlertTriangle } from 'lucide-react';
+import { Node, Link, Group } from '@/types/knowledge';
+import { getStudyOrder, exportStudyOrderAsMarkdown } from '@/lib/studyOrder';
+
+interface StudyOrderPanelProps {
+    isOpen: boolean;
+    onToggle: () => void;
+    nodes: Node[];
+    links: Link[];
+    groups: Group[];
+    activeGroupId: number | null;
+    projectName: string;
+    onLocateNode?: (node: Node) => void;
+    className?: string;
+}
+
+type StudyOrderScope = 'group' | 'project';
+
+export function StudyOrderPanel({
+    isOpen,
+    onToggle,
+    nodes,
+    links,
+    groups,
+    activeGroupId,
+    projectName,
+    onLocateNode,
+    className = '',
+}: StudyOrderPanelProps) {
+    const [scope, setScope] = useState<StudyOrderScope>('group');
+
+    const activeGroup = groups.find(g => g.id === activeGroupId);
+    const effectiveScope: StudyOrderScope = activeGroup ? scope : 'project';
+
+    const order = useMemo(() => {
+        if (!isOpen) return null;
+        const scopedNodes = effectiveScope === 'group' ? nodes.filter(n => n.groupId === activeGroupId) : nodes;
+        return getStudyOrder(scopedNodes, links);
+    }, [isOpen, effectiveScope, nodes, links, activeGroupId]);
+
+    const title = effectiveScope === 'group' && activeGroup
+        ? `${projectName} - ${activeGroup.name} study order`
+        : `${projectName} study order`;
+
+    const renderNode = (node: Node, label: string) => (
+        <div
+            key={node.id}
+            className="group flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+        >
+            <span className="w-5 shrink-0 text-right text-xs text-zinc-500">{label}</span>
+            <span
+                className="h-2.5 w-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: node.customColor || '#355ea1' }}
+            />
+            <span className="flex-1 truncate">{node.title || 'Untitled Node'}</span>
+            {onLocateNode && (
+                <button
+                    onClick={() => onLocateNode(node)}
+                    className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-zinc-700 transition-all"
+                    title="Locate"
+                >
+                    <MapPin className="h-3.5 w-3.5" />
+                </button>
+            )}
+        </div>
+    );
+
+    return (
+        <div className={`flex flex-col items-start gap-2 ${className}`} onMouseDown={(e) => e.stopPropagation()}>
+            <button
+                onClick={onToggle}
+                className={`flex items-center gap-2 rounded-lg px-3 h-9 text-sm shadow-lg backdrop-blur-sm border transition-all ${isOpen
+                    ? 'bg-[#355ea1] text-white border-[#355ea1]'
+                    : 'bg-zinc-800/90 text-zinc-300 border-zinc-700 hover:bg-zinc-700 hover:text-white hover:border-zinc-600'
+                    }`}
+                title="Generate a study order from prerequisite links"
+            >
+                <ListOrdered className="h-4 w-4" />
+                <span className="hidden sm:inline">Study order</span>
+            </button>
+
+            {isOpen && order && (
+                <div
+                    className="w-72 max-h-[28rem] rounded-xl border border-zinc-800 bg-zinc-900/90 backdrop-blur-sm shadow-lg overflow-hidden flex flex-col"
+                    onWheel={(e) => e.stopPropagation()}
+                >
+                    <div className="flex items-center justify-between border-b border-zinc-700 px-4 py-3">
+                        <div className="flex items-center gap-2">
+                            <ListOrdered className="w-4 h-4 text-zinc-400" />
+                            <h3 className="text-sm font-semibold text-white">Study Order</h3>
+                        </div>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => exportStudyOrderAsMarkdown(order, title)}
+                                className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white"
+                                title="Export as Markdown"
+                            >
+                                <Download className="h-3.5 w-3.5" />
+                            </button>
+                            <button
+                                onClick={onToggle}
+                                className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white"
+                            >
+                                <X className="h-4 w-4" />
+                            </button>
+                        </div>
+                    </div>
+
+                    {activeGroup && (
+                        <div className="flex gap-1 border-b border-zinc-800 p-2">
+                            {(['group', 'project'] as StudyOrderScope[]).map(s => (
+                                <button
+                                    key={s}
+                                    onClick={() => setScope(s)}
+                                    className={`flex-1 truncate rounded-lg px-2 py-1.5 text-xs font-medium transition-colors ${effectiveScope === s
+                                        ? 'bg-zinc-700 text-white'
+                                        : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'
+                                        }`}
+                                >
+                                    {s === 'group' ? activeGroup.name : 'Whole project'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex-1 overflow-y-auto p-2">
+                        {order.steps.length === 0 && order.unresolved.length === 0 && (
+                            <p className="px-2 py-2 text-xs text-zinc-500 italic">No nodes to order.</p>
+                        )}
+
+                        {order.steps.map((step, i) => (
+                            <div key={step.node.id}>
+                                {(i === 0 || order.steps[i - 1].level !== step.level) && (
+                                    <div className="px-2 pt-2 pb-1 text-[10px] font-medium uppercase tracking-wide text-zinc-500">
+                                        Stage {step.level + 1}
+                                    </div>
+                                )}
+                                {renderNode(step.node, `${i + 1}.`)}
+                            </div>
+                        ))}
+
+                        {order.unresolved.length > 0 && (
+                            <div className="mt-2 rounded-lg border border-amber-500/20 bg-amber-500/5 p-2">
+                                <div className="flex items-center gap-2 px-1 pb-1 text-xs font-medium text-amber-400">
+                                    <AlertTriangle className="h-3.5 w-3.5" />
+                                    {order.cycles.length} cycle{order.cycles.length === 1 ? '' : 's'} found
+                                </div>
+                                {order.cycles.map((cycle, i) => (
+                                    <p key={i} className="px-1 pb-1 text-xs text-zinc-400">
+                                        {cycle.map(n => n.title).join(' ↔ ')}
+                                    </p>
+                                ))}
+                                <div className="mt-1">
+                                    {order.unresolved.map(node => renderNode(node, '–'))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,6 +2,7 @@
 
 import { DrawingTool, StrokeStyle, DrawnShape } from '@/types/knowledge';
 import { getShapeBounds } from './resizeUtils';
+import { layoutTextShape, drawTextShapeLayout, getTextShapeFont } from './textShapeLayout';
 
 export function drawShapeOnContext(
     ctx: CanvasRenderingContext2D, 
@@ -154,26 +155,20 @@ export function drawShapeOnContext(
         case 'text':
             if (shape.text && points.length > 0) {
                 const fontSize = shape.fontSize || 16;
-                ctx.font = `${fontSize}px ${shape.fontFamily || 'Inter'}, sans-serif`;
+                ctx.font = getTextShapeFont(fontSize, shape.fontFamily);
                 ctx.fillStyle = shape.color;
-                ctx.textBaseline = 'top';
                 ctx.textAlign = 'left';
-                const lineHeight = fontSize * 1.2;
-                const lines = shape.text.split('\n');
+                const layout = layoutTextShape(shape.text, fontSize, shape.fontFamily);
                 
                 if (points.length >= 2) {
                     const angle = Math.atan2(points[1].y - points[0].y, points[1].x - points[0].x);
                     ctx.save();
                     ctx.translate(points[0].x, points[0].y);
                     ctx.rotate(angle);
-                    lines.forEach((line, index) => {
-                        ctx.fillText(line, 0, index * lineHeight);
-                    });
+                    drawTextShapeLayout(ctx, layout, 0, 0, shape.color);
                     ctx.restore();
                 } else {
-                    lines.forEach((line, index) => {
-                        ctx.fillText(line, points[0].x, points[0].y + index * lineHeight);
-                    });
+                    drawTextShapeLayout(ctx, layout, points[0].x, points[0].y, shape.color);
                 }
             }
             break;
@@ -0,0 +1,56 @@
+import type { StudyStatus } from '@/types/knowledge';
+
+export const STUDY_STATUS_COLORS: Record<StudyStatus, string> = {
+  'not-started': '#52525b',
+  learning: '#F59E0B',
+  mastered: '#10B981',
+};
+
+/**
+ * Progress ring around a node: half ring while learning, full ring once mastered.
+ * Nothing is drawn for nodes that haven't been started.
+ */
+export function drawProgressRing(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  nodeRadius: number,
+  status: StudyStatus,
+  globalScale: number
+) {
+  if (status === 'not-started') return;
+
+  const radius = nodeRadius + 2;
+  const start = -Math.PI / 2;
+  const end = status === 'mastered' ? start + 2 * Math.PI : start + Math.PI;
+
+  ctx.beginPath();
+  ctx.arc(x, y, radius, start, end);
+  ctx.strokeStyle = STUDY_STATUS_COLORS[status];
+  ctx.lineWidth = 1.5 / globalScale;
+  ctx.lineCap = 'round';
+  ctx.stroke();
+  ctx.lineCap = 'butt';
+}
+
+export const DUE_BADGE_COLOR = '#F43F5E';
+
+/**
+ * Small dot on the top-right of a node that has flashcards due for review
+ */
+export function drawDueBadge(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  nodeRadius: number,
+  globalScale: number
+) {
+  const offset = nodeRadius * 0.75;
+  ctx.beginPath();
+  ctx.arc(x + offset, y - offset, 2.5, 0, 2 * Math.PI);
+  ctx.fillStyle = DUE_BADGE_COLOR;
+  ctx.fill();
+  ctx.strokeStyle = '#18181b';
+  ctx.lineWidth = 1 / globalScale;
+  ctx.stroke();
+}
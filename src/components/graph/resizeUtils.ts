@@ -1,4 +1,5 @@
 import { DrawnShape } from '@/types/knowledge';
+import { layoutTextShape } from './textShapeLayout';
 
 export type ResizeHandle = 'nw' | 'ne' | 'sw' | 'se' | 'n' | 's' | 'e' | 'w' | 'rotate';
 
@@ -11,26 +12,14 @@ export interface ShapeBounds {
   height: number;
 }
 
-// Helper for text measurement
-const tempCtx = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
-
 export function getShapeBounds(shape: DrawnShape, globalScale: number = 1): ShapeBounds | null {
   if (shape.points.length === 0) return null;
 
   if (shape.type === 'text' && shape.text) {
-    const fontSize = shape.fontSize || 16;
-    const lines = shape.text.split('\n');
-    const lineHeight = fontSize * 1.2;
-    let textWidth = 0;
-    const totalHeight = lines.length * lineHeight;
-
-    if (tempCtx) {
-        tempCtx.font = `${fontSize}px ${shape.fontFamily || 'Inter'}, sans-serif`;
-        textWidth = Math.max(...lines.map(line => tempCtx.measureText(line).width));
-    } else {
-        // Fallback
-        textWidth = Math.max(...lines.map(line => line.length)) * fontSize * 0.6;
-    }
+    // Shares the layout used for drawing so $...$ math is measured the same way
+    const layout = layoutTextShape(shape.text, shape.fontSize || 16, shape.fontFamily);
+    const textWidth = layout.width;
+    const totalHeight = layout.height;
     
     const angle = shape.points.length >= 2 
       ? Math.atan2(shape.points[1].y - shape.points[0].y, shape.points[1].x - shape.points[0].x)
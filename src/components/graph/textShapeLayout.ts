@@ -0,0 +1,103 @@
+import { layoutMath, measureText, splitMathSegments, drawMathOnContext, MathBox } from '@/lib/latex';
+
+export type TextShapeSegment =
+  | { type: 'text'; text: string; x: number; width: number }
+  | { type: 'math'; box: MathBox; x: number };
+
+export interface TextShapeLine {
+  segments: TextShapeSegment[];
+  top: number;
+  height: number;
+  baseline: number; // Only used when the line contains math
+  width: number;
+  hasMath: boolean;
+}
+
+export interface TextShapeLayout {
+  lines: TextShapeLine[];
+  width: number;
+  height: number;
+}
+
+// Text shapes are redrawn every frame, so reuse layouts until the text or font changes
+const layoutCache = new Map<string, TextShapeLayout>();
+const MAX_CACHED_LAYOUTS = 200;
+
+export function getTextShapeFont(fontSize: number, fontFamily?: string | null) {
+  return `${fontSize}px ${fontFamily || 'Inter'}, sans-serif`;
+}
+
+/**
+ * Lay out a text drawing line by line. Lines without $...$ keep the plain
+ * 1.2 line height, lines with math grow to fit fractions and stacked limits.
+ */
+export function layoutTextShape(text: string, fontSize: number, fontFamily?: string | null): TextShapeLayout {
+  const key = `${fontSize}|${fontFamily ?? ''}|${text}`;
+  const cached = layoutCache.get(key);
+  if (cached) return cached;
+
+  const font = getTextShapeFont(fontSize, fontFamily);
+  const lineHeight = fontSize * 1.2;
+  let top = 0;
+
+  const lines = text.split('\n').map(line => {
+    const parts = splitMathSegments(line);
+    const hasMath = parts.some(p => p.type === 'math');
+    let x = 0;
+    let ascent = fontSize * 0.8;
+    let depth = fontSize * 0.25;
+
+    const segments: TextShapeSegment[] = parts.map(part => {
+      if (part.type === 'math') {
+        const box = layoutMath(part.text, { size: fontSize, display: part.display });
+        const segment: TextShapeSegment = { type: 'math', box, x };
+        x += box.width;
+        ascent = Math.max(ascent, box.ascent);
+        depth = Math.max(depth, box.depth);
+        return segment;
+      }
+      const width = measureText(part.text, font);
+      const segment: TextShapeSegment = { type: 'text', text: part.text, x, width };
+      x += width;
+      return segment;
+    });
+
+    const height = hasMath ? Math.max(lineHeight, ascent + depth + fontSize * 0.2) : lineHeight;
+    const result: TextShapeLine = {
+      segments,
+      top,
+      height,
+      baseline: top + (height - ascent - depth) / 2 + ascent,
+      width: x,
+      hasMath,
+    };
+    top += height;
+    return result;
+  });
+
+  const layout = { lines, width: Math.max(0, ...lines.map(l => l.width)), height: top };
+  if (layoutCache.size >= MAX_CACHED_LAYOUTS) layoutCache.delete(layoutCache.keys().next().value!);
+  layoutCache.set(key, layout);
+  return layout;
+}
+
+/**
+ * Draw a laid-out text shape with its top-left corner at (x, y)
+ */
+export function drawTextShapeLayout(ctx: CanvasRenderingContext2D, layout: TextShapeLayout, x: number, y: number, color: string) {
+  layout.lines.forEach(line => {
+    if (!line.hasMath) {
+      ctx.textBaseline = 'top';
+      ctx.fillText(line.segments.map(s => (s.type === 'text' ? s.text : '')).join(''), x, y + line.top);
+      return;
+    }
+    line.segments.forEach(segment => {
+      if (segment.type === 'math') {
+        drawMathOnContext(ctx, segment.box, x + segment.x, y + line.baseline, color);
+      } else {
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(segment.text, x + segment.x, y + line.baseline);
+      }
+    });
+  });
+}
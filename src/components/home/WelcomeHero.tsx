@@ -3,7 +3,15 @@
 import Image from 'next/image';
 import NexusLogo from '@/assets/Logo/Logo with no circle.svg';
 
-export function WelcomeHero({ onSignup, onLogin }: { onSignup: () => void; onLogin: () => void }) {
+interface WelcomeHeroProps {
+  onSignup: () => void;
+  onLogin: () => void;
+  // Start a demo kept in this browser only
+  onTryLocal: () => void;
+  isStartingLocal?: boolean;
+}
+
+export function WelcomeHero({ onSignup, onLogin, onTryLocal, isStartingLocal }: WelcomeHeroProps) {
   return (
     <div className="flex min-h-[calc(100vh-15rem)] flex-col items-center justify-center">
       <div className="relative mb-4 h-24 w-24">
@@ -30,6 +38,14 @@ export function WelcomeHero({ onSignup, onLogin }: { onSignup: () => void; onLog
           Sign in
         </button>
       </div>
+      <button
+        onClick={onTryLocal}
+        disabled={isStartingLocal}
+        className="mt-4 text-sm text-zinc-400 underline-offset-4 transition-colors hover:text-white hover:underline disabled:cursor-wait disabled:opacity-50"
+      >
+        {isStartingLocal ? 'Setting things up...' : 'Try without an account'}
+      </button>
+      <p className="mt-1 text-xs text-zinc-500">Everything stays in this browser.</p>
     </div>
   );
 }
@@ -9,6 +9,7 @@ import { UserMenu } from '@/components/auth/UserMenu';
 import { useAuthStore } from '@/store/useAuthStore';
 import { useGraphStore } from '@/store/useGraphStore';
 import { createColorImage } from '@/lib/imageUtils';
+import { PROJECT_EXPORT_FORMATS, type ProjectExportFormat } from '@/lib/graphFormats';
 import { SearchInput } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { useHasClassroomAccess } from '@/hooks/useClassroomApi';
@@ -64,6 +65,7 @@ interface ProjectNavbarProps {
   onExportPNG?: () => void;
   onExportJPG?: () => void;
   onExportProject?: () => void;
+  onExportData?: (format: ProjectExportFormat) => void;
   onAddNode?: () => void;
   onAddNodeFromClassroom?: () => void;
   isAddingNode?: boolean;
@@ -90,6 +92,7 @@ export function ProjectNavbar({
   onExportPNG,
   onExportJPG,
   onExportProject,
+  onExportData,
   onAddNode,
   onAddNodeFromClassroom,
   isAddingNode,
@@ -208,6 +211,24 @@ export function ProjectNavbar({
                     >
                       <span>JPG</span>
                     </button>
+                    {onExportData && (
+                      <>
+                        <div className="my-1 border-t border-zinc-800" />
+                        {PROJECT_EXPORT_FORMATS.map(({ format, label }) => (
+                          <button
+                            key={format}
+                            className="flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors cursor-pointer"
+                            onClick={() => {
+                              setIsSaveAsMenuOpen(false);
+                              setIsMenuOpen(false);
+                              onExportData(format);
+                            }}
+                          >
+                            <span>{label}</span>
+                          </button>
+                        ))}
+                      </>
+                    )}
                     {/* <button
                       className="flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors cursor-pointer"
                       onClick={() => {
@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import NextImage from 'next/image';
-import { Info, Search, ChevronDown, Save, ChevronRight, LayoutGrid, X } from 'lucide-react';
+import { Info, Search, ChevronDown, Save, ChevronRight, LayoutGrid, X, Copy, Loader2 } from 'lucide-react';
 import NexusLogo from '@/assets/Logo/Logo with no circle.svg';
 import { SearchInput } from '@/components/ui/Input';
 import { createColorImage } from '@/lib/imageUtils';
@@ -17,6 +17,9 @@ interface PreviewNavbarProps {
     onExportJPG: () => void;
     currentWallpaper?: string;
     onWallpaperChange?: (wallpaper: string) => void;
+    // Copies the project into the signed-in user's account
+    onDuplicate?: () => void;
+    isDuplicating?: boolean;
 }
 
 const WALLPAPER_COLORS = [
@@ -40,7 +43,9 @@ export function PreviewNavbar({
     onExportPNG,
     onExportJPG,
     currentWallpaper,
-    onWallpaperChange
+    onWallpaperChange,
+    onDuplicate,
+    isDuplicating = false
 }: PreviewNavbarProps) {
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const [isSaveAsMenuOpen, setIsSaveAsMenuOpen] = useState(false);
@@ -155,6 +160,20 @@ export function PreviewNavbar({
                                     )}
                                 </div>
 
+                                {onDuplicate && (
+                                    <button
+                                        onClick={() => {
+                                            setIsMenuOpen(false);
+                                            onDuplicate();
+                                        }}
+                                        disabled={isDuplicating}
+                                        className="flex w-full items-center gap-2.5 rounded-lg px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors text-left cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {isDuplicating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+                                        <span>{isDuplicating ? 'Duplicating…' : 'Duplicate to my projects'}</span>
+                                    </button>
+                                )}
+
                                 <div className="my-1 border-t border-zinc-800" />
 
                                 <Link
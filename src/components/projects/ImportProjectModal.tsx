@@ -0,0 +1,146 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Upload, FileText, AlertTriangle, XCircle } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { importNxusFile, NxusValidationError, type NxusImport } from '@/lib/projectExport';
+import { importMarkdownVault } from '@/lib/markdownImport';
+
+interface ImportProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Resolves to whether the project was created
+  onImport: (nxus: NxusImport) => Promise<boolean>;
+  loading?: boolean;
+}
+
+// Checks the file and shows what it would create before anything is written
+export function ImportProjectModal({ isOpen, onClose, onImport, loading }: ImportProjectModalProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [checked, setChecked] = useState<NxusImport | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const reset = () => {
+    setFileName(null);
+    setChecked(null);
+    setProblems([]);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    try {
+      // A zip is read as a folder of Markdown notes, such as an Obsidian vault
+      const isVault = file.name.toLowerCase().endsWith('.zip');
+      setChecked(await (isVault ? importMarkdownVault(file) : importNxusFile(file)));
+    } catch (err) {
+      setProblems(err instanceof NxusValidationError ? err.problems : ['The file could not be read.']);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!checked) return;
+    if (await onImport(checked)) reset();
+  };
+
+  const summary = checked?.summary;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import project"
+      description="Bring in a .nxus file exported from Nexus, or a zip of Markdown notes such as an Obsidian vault"
+    >
+      <div className="space-y-4">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".nxus,.zip"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex w-full items-center gap-3 rounded-lg border border-dashed border-zinc-700 px-4 py-3 text-left text-sm text-zinc-400 transition-colors hover:border-[#355ea1] hover:text-white"
+        >
+          <FileText className="h-4 w-4 shrink-0" />
+          <span className="truncate">{fileName ?? 'Choose a .nxus or .zip file'}</span>
+        </button>
+
+        {problems.length > 0 && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3">
+            <p className="mb-2 flex items-center gap-2 text-sm font-medium text-red-400">
+              <XCircle className="h-4 w-4" />
+              This file can&apos;t be imported
+            </p>
+            <ul className="max-h-40 list-disc space-y-1 overflow-y-auto pl-5 text-xs text-red-300">
+              {problems.map((problem, i) => <li key={i}>{problem}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {checked && summary && (
+          <div className="space-y-3 rounded-lg bg-zinc-800/50 p-3">
+            <div>
+              <p className="text-sm font-medium text-white">{checked.file.project.name}</p>
+              {checked.migratedFrom && (
+                <p className="text-xs text-zinc-500">Written by an older version ({checked.migratedFrom}), converted for import</p>
+              )}
+            </div>
+            <dl className="grid grid-cols-3 gap-2 text-xs">
+              {([
+                ['Nodes', summary.nodes],
+                ['Connections', summary.links],
+                ['Groups', summary.groups],
+                ['Drawings', summary.shapes],
+                ['Tags', summary.tags],
+                ['Attachments', summary.attachments],
+              ] as const).map(([label, count]) => (
+                <div key={label} className="rounded-md bg-zinc-900 px-2 py-1.5">
+                  <dt className="text-zinc-500">{label}</dt>
+                  <dd className="font-medium text-white">{count}</dd>
+                </div>
+              ))}
+            </dl>
+            {checked.warnings.length > 0 && (
+              <ul className="space-y-1 text-xs text-amber-400">
+                {checked.warnings.map((warning, i) => (
+                  <li key={i} className="flex gap-2">
+                    <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 flex justify-end gap-3">
+        <Button variant="ghost" onClick={handleClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="brand"
+          onClick={handleImport}
+          disabled={!checked}
+          loading={loading}
+          icon={<Upload className="h-4 w-4" />}
+        >
+          Import project
+        </Button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, X, Mail, Loader2 } from 'lucide-react';
+
+import { Project, ProjectMember } from '@/types/knowledge';
+import { api } from '@/lib/api';
+import { ROLE_LABELS } from '@/lib/projectRoles';
+import { useMembersStore } from '@/store/useMembersStore';
+import { useToast } from '@/context/ToastContext';
+
+interface InvitationsListProps {
+  invitations: ProjectMember[];
+  onAccepted: (project: Project) => void;
+}
+
+export function InvitationsList({ invitations, onAccepted }: InvitationsListProps) {
+  const respondToInvitation = useMembersStore((s) => s.respondToInvitation);
+  const { showToast } = useToast();
+  const [projects, setProjects] = useState<Record<number, Project>>({});
+  const [respondingId, setRespondingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const missing = invitations.filter(i => !projects[i.projectId]);
+    if (missing.length === 0) return;
+    Promise.all(missing.map(i => api.projects.getById(i.projectId).catch(() => null)))
+      .then(loaded => setProjects(prev => ({
+        ...prev,
+        ...Object.fromEntries(loaded.filter((p): p is Project => !!p).map(p => [p.id, p])),
+      })));
+  }, [invitations, projects]);
+
+  if (invitations.length === 0) return null;
+
+  const handleRespond = async (invitation: ProjectMember, accept: boolean) => {
+    setRespondingId(invitation.id);
+    try {
+      await respondToInvitation(invitation, accept);
+      const project = projects[invitation.projectId];
+      if (accept && project) onAccepted(project);
+    } catch {
+      showToast('Could not answer the invitation, try again', 'error');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-2">
+      {invitations.map(invitation => {
+        const project = projects[invitation.projectId];
+        const isResponding = respondingId === invitation.id;
+        return (
+          <div
+            key={invitation.id}
+            className="flex items-center gap-3 rounded-xl border border-[#355ea1]/40 bg-[#355ea1]/10 px-4 py-3"
+          >
+            <Mail className="h-4 w-4 shrink-0 text-[#355ea1]" />
+            <p className="min-w-0 flex-1 truncate text-sm text-zinc-300">
+              You were invited to <span className="font-medium text-white">{project?.name ?? 'a project'}</span> as {ROLE_LABELS[invitation.role].toLowerCase()}
+            </p>
+            {isResponding ? (
+              <Loader2 className="h-4 w-4 animate-spin text-zinc-400" />
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleRespond(invitation, true)}
+                  className="flex items-center gap-1 rounded-lg bg-[#355ea1] px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-[#265fbd]"
+                >
+                  <Check className="h-3.5 w-3.5" />
+                  Accept
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRespond(invitation, false)}
+                  className="rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white"
+                  title="Decline"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 'use client';
 
 import { useState } from 'react';
-import { ChevronRight, FolderOpen, Loader2, Trash2, Pencil } from 'lucide-react';
+import { ChevronRight, FolderOpen, Loader2, Trash2, Pencil, Users } from 'lucide-react';
 
 import { Project } from '@/types/knowledge';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useProgressStore, summarizeProjectProgress } from '@/store/useProgressStore';
 
 interface ProjectCardProps {
   project: Project;
@@ -16,6 +18,12 @@ interface ProjectCardProps {
 export function ProjectCard({ project, onClick, onDelete, onEdit, viewMode = 'grid' }: ProjectCardProps) {
   const [isLoading, setIsLoading] = useState(false);
   const isListView = viewMode === 'list';
+  const userId = useAuthStore((s) => s.user?.id ?? null);
+  const entries = useProgressStore((s) => s.entries);
+  const nodeCounts = useProgressStore((s) => s.nodeCounts);
+  const progress = summarizeProjectProgress({ entries, nodeCounts }, userId, project.id);
+  // Projects shared with the user can only be renamed or deleted by their owner
+  const isOwner = !userId || project.userId === userId;
 
   const handleClick = () => {
     setIsLoading(true);
@@ -74,30 +82,51 @@ export function ProjectCard({ project, onClick, onDelete, onEdit, viewMode = 'gr
               {project.description}
             </p>
           )}
+          {progress && progress.learning + progress.mastered > 0 && (
+            <div
+              className="flex w-full items-center gap-2"
+              title={`${progress.mastered} mastered, ${progress.learning} learning, ${progress.notStarted} not started`}
+            >
+              <div className="flex h-1.5 w-full max-w-40 overflow-hidden rounded-full bg-zinc-800">
+                <div className="bg-[#10B981]" style={{ width: `${(progress.mastered / progress.total) * 100}%` }} />
+                <div className="bg-[#F59E0B]" style={{ width: `${(progress.learning / progress.total) * 100}%` }} />
+              </div>
+              <span className="shrink-0 text-xs text-zinc-500">{progress.mastered}/{progress.total} mastered</span>
+            </div>
+          )}
         </div>
 
         <div className={`flex max-sm:self-start items-center gap-3 text-xs text-zinc-500 ${!isListView ? 'sm:mt-4' : ''}`}>
           <span className="text-zinc-600">
             {new Date(project.updatedAt).toLocaleDateString()}
           </span>
-          <button
-            className="p-1 rounded hover:bg-zinc-800 text-zinc-400 hover:text-blue-400 transition-colors"
-            title="Edit project"
-            onClick={handleEdit}
-            tabIndex={-1}
-            type="button"
-          >
-            <Pencil className="w-4 h-4" />
-          </button>
-          <button
-            className="p-1 rounded hover:bg-zinc-800 text-zinc-400 hover:text-red-500 transition-colors"
-            title="Delete project"
-            onClick={handleDelete}
-            tabIndex={-1}
-            type="button"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
+          {isOwner ? (
+            <>
+              <button
+                className="p-1 rounded hover:bg-zinc-800 text-zinc-400 hover:text-blue-400 transition-colors"
+                title="Edit project"
+                onClick={handleEdit}
+                tabIndex={-1}
+                type="button"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                className="p-1 rounded hover:bg-zinc-800 text-zinc-400 hover:text-red-500 transition-colors"
+                title="Delete project"
+                onClick={handleDelete}
+                tabIndex={-1}
+                type="button"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          ) : (
+            <span className="flex items-center gap-1 text-zinc-400" title="Shared with you">
+              <Users className="w-4 h-4" />
+              Shared
+            </span>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { Search, Grid3X3, List, Plus } from 'lucide-react';
+import { Search, Grid3X3, List, Plus, Upload } from 'lucide-react';
 import { SearchInput } from '@/components/ui/Input';
 import { Button, IconButton } from '@/components/ui/Button';
 
@@ -10,6 +10,7 @@ interface ProjectsToolbarProps {
   viewMode: 'grid' | 'list';
   onViewModeChange: (mode: 'grid' | 'list') => void;
   onCreateProject: () => void;
+  onImportProject: () => void;
 }
 
 export function ProjectsToolbar({
@@ -18,6 +19,7 @@ export function ProjectsToolbar({
   viewMode,
   onViewModeChange,
   onCreateProject,
+  onImportProject,
 }: ProjectsToolbarProps) {
   return (
     <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -34,6 +36,15 @@ export function ProjectsToolbar({
           <ViewModeToggle viewMode={viewMode} onChange={onViewModeChange} />
         </div>
 
+        <Button
+          variant="secondary"
+          onClick={onImportProject}
+          icon={<Upload className="h-4 w-4" />}
+          className="justify-center"
+        >
+          Import
+        </Button>
+
         <Button
           variant="brand"
           onClick={onCreateProject}
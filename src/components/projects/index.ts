@@ -2,3 +2,5 @@ export { ProjectCard, ProjectGrid, EmptyProjectsState } from './ProjectCard';
 export { ProjectsToolbar, ViewModeToggle } from './ProjectsToolbar';
 export { CreateProjectModal } from './CreateProjectModal';
 export { EditProjectModal } from './EditProjectModal';
+export { ImportProjectModal } from './ImportProjectModal';
+export { InvitationsList } from './InvitationsList';
@@ -5,6 +5,7 @@ import { useState } from 'react';
 import { ToastProvider } from '@/context/ToastContext';
 import { SessionProvider } from './SessionProvider';
 import { AuthSync } from '../auth/AuthSync';
+import { ApiError } from '@/lib/apiError';
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
@@ -14,6 +15,8 @@ export function Providers({ children }: { children: React.ReactNode }) {
           queries: {
             staleTime: 1000 * 60,
             refetchOnWindowFocus: false,
+            // The API client already retried whatever was worth retrying
+            retry: (failureCount, error) => !(error instanceof ApiError) && failureCount < 3,
           },
         },
       })
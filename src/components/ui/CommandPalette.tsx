@@ -115,7 +115,7 @@ export function CommandPalette() {
           customColor: randomColor,
           x: newNode.x,
           y: newNode.y,
-        }).catch(
+        }).then(saved => useGraphStore.getState().keepSavedVersion(saved)).catch(
           // err => console.error('Failed to persist initial random color:', err)
         );
       }
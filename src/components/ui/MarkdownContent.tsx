@@ -0,0 +1,159 @@
+'use client';
+
+import { Fragment, useMemo, ReactNode } from 'react';
+import { parseMarkdown, MarkdownBlock, MarkdownInline, TableAlign } from '@/lib/markdown';
+import { highlightCode, CodeTokenType } from '@/lib/syntaxHighlight';
+import { MathFormula } from './MathFormula';
+
+interface MarkdownContentProps {
+  content: string;
+  // Tells a [[reference]] to an existing node apart from a dangling one
+  resolveWikiLink?: (title: string) => boolean;
+  onWikiLinkClick?: (title: string) => void;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  comment: 'text-zinc-500 italic',
+  string: 'text-emerald-400',
+  number: 'text-amber-300',
+  keyword: 'text-sky-400',
+  plain: '',
+};
+
+const HEADING_CLASSES = [
+  'text-lg font-bold',
+  'text-base font-bold',
+  'text-sm font-semibold',
+  'text-sm font-semibold',
+  'text-xs font-semibold uppercase tracking-wide',
+  'text-xs font-semibold uppercase tracking-wide text-zinc-400',
+];
+
+const ALIGN_CLASSES: Record<Exclude<TableAlign, null>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+export function MarkdownContent({ content, resolveWikiLink, onWikiLinkClick, className = '' }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const renderInline = (inlines: MarkdownInline[]): ReactNode[] => inlines.map((inline, i) => {
+    switch (inline.type) {
+      case 'text':
+        return <Fragment key={i}>{inline.text}</Fragment>;
+      case 'break':
+        return <br key={i} />;
+      case 'math':
+        return <MathFormula key={i} tex={inline.tex} display={inline.display} />;
+      case 'code':
+        return <code key={i} className="rounded bg-zinc-800 px-1 py-0.5 font-mono text-[0.85em] text-zinc-200">{inline.text}</code>;
+      case 'strong':
+        return <strong key={i} className="font-semibold text-white">{renderInline(inline.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(inline.children)}</em>;
+      case 'del':
+        return <del key={i} className="text-zinc-500">{renderInline(inline.children)}</del>;
+      case 'link':
+        return (
+          <a key={i} href={inline.href} target="_blank" rel="noopener noreferrer" className="text-[#6b93d6] underline underline-offset-2 hover:text-white">
+            {renderInline(inline.children)}
+          </a>
+        );
+      case 'wikilink': {
+        const exists = resolveWikiLink ? resolveWikiLink(inline.target) : true;
+        return (
+          <button
+            key={i}
+            type="button"
+            onClick={() => onWikiLinkClick?.(inline.target)}
+            className={`inline rounded px-0.5 font-medium transition-colors ${exists
+              ? 'text-[#6b93d6] hover:bg-[#355ea1]/20 hover:text-white'
+              : 'text-zinc-500 border-b border-dashed border-zinc-600 hover:text-zinc-300'
+              }`}
+            title={exists ? `Go to ${inline.target}` : `No node named "${inline.target}"`}
+          >
+            {inline.label}
+          </button>
+        );
+      }
+    }
+  });
+
+  const renderBlock = (block: MarkdownBlock, key: number): ReactNode => {
+    switch (block.type) {
+      case 'heading':
+        return <p key={key} className={`text-white ${HEADING_CLASSES[block.level - 1]}`}>{renderInline(block.children)}</p>;
+      case 'paragraph':
+        return <p key={key}>{renderInline(block.children)}</p>;
+      case 'hr':
+        return <hr key={key} className="border-zinc-700" />;
+      case 'math':
+        return <MathFormula key={key} tex={block.tex} display size={17} />;
+      case 'blockquote':
+        return (
+          <blockquote key={key} className="space-y-2 border-l-2 border-zinc-600 pl-3 text-zinc-400">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case 'code':
+        return (
+          <pre key={key} className="overflow-x-auto rounded-lg bg-zinc-950 p-3 font-mono text-xs leading-relaxed text-zinc-200">
+            <code>
+              {highlightCode(block.text, block.lang).map((token, i) => (
+                <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+              ))}
+            </code>
+          </pre>
+        );
+      case 'list': {
+        const items = block.items.map((item, i) => (
+          <li key={i} className={item.checked !== null ? 'list-none -ml-4' : ''}>
+            {item.checked !== null && (
+              <input type="checkbox" checked={item.checked} readOnly className="mr-2 align-middle accent-[#355ea1]" />
+            )}
+            {renderInline(item.children)}
+            {item.sublist && <div className="mt-1">{renderBlock(item.sublist, 0)}</div>}
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={key} start={block.start} className="list-decimal space-y-1 pl-5">{items}</ol>
+          : <ul key={key} className="list-disc space-y-1 pl-5">{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={key} className="overflow-x-auto">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  {block.header.map((cell, i) => (
+                    <th key={i} className={`border border-zinc-700 bg-zinc-800/60 px-2 py-1 font-semibold text-white ${ALIGN_CLASSES[block.align[i] ?? 'left']}`}>
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {block.header.map((_, i) => (
+                      <td key={i} className={`border border-zinc-700 px-2 py-1 ${ALIGN_CLASSES[block.align[i] ?? 'left']}`}>
+                        {row[i] ? renderInline(row[i]) : null}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className={`space-y-3 break-words text-sm text-zinc-300 ${className}`}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useMemo } from 'react';
+import { layoutMath, getFontFamily, MATH_ERROR_COLOR } from '@/lib/latex';
+
+interface MathFormulaProps {
+  tex: string;
+  display?: boolean;
+  size?: number;
+  className?: string;
+}
+
+// Headroom so strokes on the edge of the box are not clipped
+const PAD = 2;
+
+export function MathFormula({ tex, display = false, size = 16, className = '' }: MathFormulaProps) {
+  const box = useMemo(() => layoutMath(tex, { size, display }), [tex, size, display]);
+  const width = Math.ceil(box.width + PAD * 2);
+  const height = Math.ceil(box.ascent + box.depth + PAD * 2);
+
+  const svg = (
+    <svg
+      role="img"
+      aria-label={tex}
+      width={width}
+      height={height}
+      viewBox={`${-PAD} ${-box.ascent - PAD} ${width} ${height}`}
+      style={display ? undefined : { verticalAlign: -(box.depth + PAD) }}
+      className="inline-block overflow-visible"
+    >
+      <title>{tex}</title>
+      {box.items.map((item, i) => {
+        if (item.type === 'glyph') {
+          return (
+            <text
+              key={i}
+              x={item.x}
+              y={item.y}
+              fontFamily={getFontFamily(item.font)}
+              fontSize={item.font.size}
+              fontStyle={item.font.italic ? 'italic' : undefined}
+              fontWeight={item.font.bold ? 'bold' : undefined}
+              fill={item.error ? MATH_ERROR_COLOR : 'currentColor'}
+              xmlSpace="preserve"
+            >
+              {item.text}
+            </text>
+          );
+        }
+        if (item.type === 'rule') {
+          return <rect key={i} x={item.x} y={item.y} width={item.width} height={item.height} fill="currentColor" />;
+        }
+        const d = item.commands.map(c => c.join(' ')).join(' ');
+        return (
+          <path key={i} d={d} fill="none" stroke="currentColor" strokeWidth={item.lineWidth} strokeLinecap="round" strokeLinejoin="round" />
+        );
+      })}
+    </svg>
+  );
+
+  if (!display) return <span className={`mx-0.5 text-zinc-100 ${className}`}>{svg}</span>;
+  // A span, since $$...$$ can also appear in the middle of a paragraph
+  return <span className={`block overflow-x-auto py-1 text-center text-zinc-100 ${className}`}>{svg}</span>;
+}
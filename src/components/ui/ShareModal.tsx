@@ -2,18 +2,59 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Link2, QrCode, Copy, Check, Maximize2, Minimize2 } from 'lucide-react';
+import { X, Link2, QrCode, Copy, Check, Maximize2, Minimize2, Users, UserPlus, Loader2, Trash2, Lock, Eye, Ban } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
+import type { Project, ProjectMember, ProjectRole, MemberRole, ShareLink } from '@/types/knowledge';
+import { useMembersStore } from '@/store/useMembersStore';
+import { useShareLinksStore } from '@/store/useShareLinksStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { MEMBER_ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, canEdit, canManageMembers } from '@/lib/projectRoles';
+import { SHARE_EXPIRY_OPTIONS, getShareLinkStatus, buildShareUrl, ShareLinkStatus } from '@/lib/shareLinks';
 
 interface ShareModalProps {
   isOpen: boolean;
   onClose: () => void;
-  shareUrl: string;
+  project: Project | null;
+  role: ProjectRole | null;
 }
 
-export function ShareModal({ isOpen, onClose, shareUrl }: ShareModalProps) {
+const NO_MEMBERS: ProjectMember[] = [];
+const NO_LINKS: ShareLink[] = [];
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function describeLink(link: ShareLink, status: ShareLinkStatus) {
+  if (status === 'revoked') return 'Revoked';
+  if (status === 'expired') return `Expired ${formatDate(link.expiresAt!)}`;
+  return link.expiresAt ? `Expires ${formatDate(link.expiresAt)}` : `Created ${formatDate(link.createdAt)}`;
+}
+
+export function ShareModal({ isOpen, onClose, project, role }: ShareModalProps) {
+  const user = useAuthStore((state) => state.user);
+  const links = useShareLinksStore((state) => (project ? state.links[project.id] : undefined) ?? NO_LINKS);
+  const loadLinks = useShareLinksStore((state) => state.loadLinks);
+  const createLink = useShareLinksStore((state) => state.createLink);
+  const revokeLink = useShareLinksStore((state) => state.revokeLink);
   const [copied, setCopied] = useState(false);
-  const [activeTab, setActiveTab] = useState<'link' | 'qr'>('link');
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [selectedLinkId, setSelectedLinkId] = useState<number | null>(null);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [linkPassword, setLinkPassword] = useState('');
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const canCreateLinks = canEdit(role);
+
+  const activeLinks = links.filter(l => getShareLinkStatus(l) === 'active');
+  const selectedLink = activeLinks.find(l => l.id === selectedLinkId) ?? activeLinks[0];
+  const shareUrl = selectedLink && typeof window !== 'undefined' ? buildShareUrl(window.location.origin, selectedLink) : '';
+
+  const projectId = project?.id;
+  useEffect(() => {
+    if (isOpen && projectId) loadLinks(projectId);
+  }, [isOpen, projectId, loadLinks]);
+  const [activeTab, setActiveTab] = useState<'link' | 'qr' | 'members'>('link');
   const [qrSize, setQrSize] = useState(200);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [mounted, setMounted] = useState(false);
@@ -70,16 +111,53 @@ export function ShareModal({ isOpen, onClose, shareUrl }: ShareModalProps) {
     }
   }, [isOpen, isFullscreen, onClose]);
 
-  const handleCopy = async () => {
+  const handleCopy = async (link?: ShareLink) => {
+    const url = link ? buildShareUrl(window.location.origin, link) : shareUrl;
     try {
-      await navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+      await navigator.clipboard.writeText(url);
+      if (link) {
+        setCopiedId(link.id);
+        setTimeout(() => setCopiedId(null), 2000);
+      } else {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }
     } catch (err) {
       // console.error('Failed to copy:', err);
     }
   };
 
+  const handleCreateLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!project || !user) return;
+    setIsCreatingLink(true);
+    setLinkError(null);
+    try {
+      const link = await createLink({
+        projectId: project.id,
+        createdBy: user.id,
+        expiresInDays,
+        password: linkPassword || undefined,
+      });
+      setLinkPassword('');
+      setSelectedLinkId(link.id);
+      handleCopy(link);
+    } catch {
+      setLinkError('Could not create the link, try again');
+    } finally {
+      setIsCreatingLink(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    setLinkError(null);
+    try {
+      await revokeLink(link);
+    } catch {
+      setLinkError('Could not revoke the link, try again');
+    }
+  };
+
   if (!isOpen || !mounted) return null;
 
   const modalContent = (
@@ -133,42 +211,134 @@ export function ShareModal({ isOpen, onClose, shareUrl }: ShareModalProps) {
             <QrCode className="h-4 w-4" />
             <span>QR Code</span>
           </button>
+          {project && (
+            <button
+              onClick={() => {
+                setActiveTab('members');
+                setIsFullscreen(false);
+              }}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'members'
+                ? 'bg-[#355ea1] text-white'
+                : 'bg-zinc-800 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                }`}
+            >
+              <Users className="h-4 w-4" />
+              <span>Members</span>
+            </button>
+          )}
         </div>
 
         {/* Content */}
-        {activeTab === 'link' && (
+        {activeTab === 'link' && project && (
           <div className="space-y-4">
-            <p className="text-sm text-zinc-400">
-              Share this link with others to let them view your project:
-            </p>
-            <div className="flex items-center gap-2">
-              <div className="flex-1 px-3 py-2.5 bg-zinc-800 rounded-lg border border-zinc-700 text-sm text-zinc-300 truncate">
-                {shareUrl}
-              </div>
-              <button
-                onClick={handleCopy}
-                className={`flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${copied
-                  ? 'bg-green-600 text-white'
-                  : 'bg-[#355ea1] text-white hover:bg-[#2563EB]'
-                  }`}
-              >
-                {copied ? (
-                  <>
-                    <Check className="h-4 w-4" />
-                    <span>Copied!</span>
-                  </>
-                ) : (
-                  <>
-                    <Copy className="h-4 w-4" />
-                    <span>Copy</span>
-                  </>
-                )}
-              </button>
+            {canCreateLinks ? (
+              <form onSubmit={handleCreateLink} className="space-y-2">
+                <p className="text-sm text-zinc-400">
+                  Anyone with a link can view the project. Links can expire, ask for a password, and be turned off at any time.
+                </p>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={expiresInDays ?? ''}
+                    onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                    className="rounded-lg bg-zinc-800 px-2 py-2.5 text-sm text-white outline-none ring-1 ring-zinc-700"
+                  >
+                    {SHARE_EXPIRY_OPTIONS.map(option => (
+                      <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="password"
+                    value={linkPassword}
+                    onChange={(e) => setLinkPassword(e.target.value)}
+                    placeholder="Password (optional)"
+                    autoComplete="new-password"
+                    className="min-w-0 flex-1 rounded-lg bg-zinc-800 px-3 py-2.5 text-sm text-white placeholder-zinc-500 outline-none ring-1 ring-zinc-700 focus:ring-[#355ea1]"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isCreatingLink}
+                  className="flex w-full items-center justify-center gap-2 rounded-lg bg-[#355ea1] px-4 py-2.5 text-sm font-medium text-white transition-all hover:bg-[#265fbd] disabled:opacity-50"
+                >
+                  {isCreatingLink ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+                  <span>Create link</span>
+                </button>
+              </form>
+            ) : (
+              <p className="text-sm text-zinc-400">Links to view this project:</p>
+            )}
+
+            {linkError && <p className="text-xs text-red-400">{linkError}</p>}
+
+            <div className="max-h-64 space-y-1 overflow-y-auto">
+              {links.length === 0 ? (
+                <p className="py-4 text-center text-sm text-zinc-500">No share links yet</p>
+              ) : links.map(link => {
+                const status = getShareLinkStatus(link);
+                const isSelected = link.id === selectedLink?.id;
+                return (
+                  <div
+                    key={link.id}
+                    className={`flex items-center gap-2 rounded-lg px-3 py-2 ${isSelected ? 'bg-[#355ea1]/20 ring-1 ring-[#355ea1]/50' : 'bg-zinc-800/50'}`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className={`flex items-center gap-1.5 truncate text-sm ${status === 'active' ? 'text-zinc-200' : 'text-zinc-500 line-through'}`}>
+                        {link.hasPassword && <Lock className="h-3 w-3 shrink-0" />}
+                        …{link.token.slice(-8)}
+                      </p>
+                      <p className="flex items-center gap-2 truncate text-[11px] text-zinc-500">
+                        <span className="flex items-center gap-0.5" title="Views">
+                          <Eye className="h-3 w-3" />
+                          {link.viewCount}
+                        </span>
+                        <span>{describeLink(link, status)}</span>
+                      </p>
+                    </div>
+                    {status === 'active' && (
+                      <>
+                        <button
+                          onClick={() => handleCopy(link)}
+                          className={`flex items-center gap-1.5 rounded-md px-2 py-1 text-xs font-medium transition-all ${copiedId === link.id
+                            ? 'bg-green-600 text-white'
+                            : 'bg-zinc-700 text-zinc-300 hover:bg-[#355ea1] hover:text-white'
+                            }`}
+                          title="Copy link"
+                        >
+                          {copiedId === link.id ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                        </button>
+                        <button
+                          onClick={() => {
+                            setSelectedLinkId(link.id);
+                            setActiveTab('qr');
+                          }}
+                          className="rounded-md p-1.5 text-zinc-400 transition-colors hover:bg-zinc-700 hover:text-white"
+                          title="Show QR code"
+                        >
+                          <QrCode className="h-3.5 w-3.5" />
+                        </button>
+                        {canCreateLinks && (
+                          <button
+                            onClick={() => handleRevoke(link)}
+                            className="rounded-md p-1.5 text-zinc-400 transition-colors hover:bg-zinc-700 hover:text-red-400"
+                            title="Revoke link"
+                          >
+                            <Ban className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}
 
-        {activeTab === 'qr' && (
+        {activeTab === 'qr' && !shareUrl && (
+          <p className="py-6 text-center text-sm text-zinc-500">Create a share link first</p>
+        )}
+
+        {activeTab === 'qr' && shareUrl && (
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <p className="text-sm text-zinc-400">
@@ -253,7 +423,7 @@ export function ShareModal({ isOpen, onClose, shareUrl }: ShareModalProps) {
             {/* Copy button for QR tab too */}
             <div className="pt-2 border-t border-zinc-800">
               <button
-                onClick={handleCopy}
+                onClick={() => handleCopy()}
                 className={`w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${copied
                   ? 'bg-green-600 text-white'
                   : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700 hover:text-white'
@@ -274,9 +444,141 @@ export function ShareModal({ isOpen, onClose, shareUrl }: ShareModalProps) {
             </div>
           </div>
         )}
+
+        {activeTab === 'members' && project && <MembersTab project={project} role={role} />}
       </div>
     </div>
   );
 
   return createPortal(modalContent, document.body);
 }
+
+interface MembersTabProps {
+  project: Project;
+  role: ProjectRole | null;
+}
+
+function MembersTab({ project, role }: MembersTabProps) {
+  const user = useAuthStore((state) => state.user);
+  const members = useMembersStore((state) => state.members[project.id] ?? NO_MEMBERS);
+  const loadMembers = useMembersStore((state) => state.loadMembers);
+  const invite = useMembersStore((state) => state.invite);
+  const updateRole = useMembersStore((state) => state.updateRole);
+  const removeMember = useMembersStore((state) => state.removeMember);
+
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MemberRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canManage = canManageMembers(role);
+
+  useEffect(() => {
+    loadMembers(project.id);
+  }, [project.id, loadMembers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !user) return;
+    setIsInviting(true);
+    setError(null);
+    try {
+      await invite(project, email, inviteRole, user.id);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch {
+      setError('Could not update members, try again');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage ? (
+        <form onSubmit={handleInvite} className="space-y-2">
+          <p className="text-sm text-zinc-400">Invite people by the email they signed up with:</p>
+          <div className="flex items-center gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              className="min-w-0 flex-1 rounded-lg bg-zinc-800 px-3 py-2.5 text-sm text-white placeholder-zinc-500 outline-none ring-1 ring-zinc-700 focus:ring-[#355ea1]"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+              className="rounded-lg bg-zinc-800 px-2 py-2.5 text-sm text-white outline-none ring-1 ring-zinc-700"
+              title={ROLE_DESCRIPTIONS[inviteRole]}
+            >
+              {MEMBER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+            <button
+              type="submit"
+              disabled={isInviting || !email.trim()}
+              className="flex items-center gap-2 rounded-lg bg-[#355ea1] px-3 py-2.5 text-sm font-medium text-white transition-all hover:bg-[#265fbd] disabled:opacity-50"
+              title="Send invitation"
+            >
+              {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-zinc-400">
+          You are {role ? `a ${ROLE_LABELS[role].toLowerCase()}` : 'not a member'} of this project. Only the owner can invite people.
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="max-h-64 space-y-1 overflow-y-auto">
+        {members.length === 0 ? (
+          <p className="py-4 text-center text-sm text-zinc-500">Nobody else has access yet</p>
+        ) : members.map(member => {
+          const isSelf = member.userId === user?.id;
+          return (
+            <div key={member.id} className="flex items-center gap-2 rounded-lg bg-zinc-800/50 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm text-zinc-200">
+                  {member.displayName || member.email}
+                  {isSelf && <span className="text-zinc-500"> (you)</span>}
+                </p>
+                <p className="truncate text-[11px] text-zinc-500">
+                  {member.status === 'pending' ? 'Invitation sent' : member.email}
+                </p>
+              </div>
+              {canManage ? (
+                <>
+                  <select
+                    value={member.role}
+                    onChange={(e) => run(() => updateRole(member, e.target.value as MemberRole))}
+                    className="rounded-md bg-zinc-800 px-2 py-1 text-xs text-white outline-none ring-1 ring-zinc-700"
+                  >
+                    {MEMBER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                  <button
+                    onClick={() => run(() => removeMember(member))}
+                    className="rounded-md p-1.5 text-zinc-500 transition-colors hover:bg-zinc-700 hover:text-red-400"
+                    title={member.status === 'pending' ? 'Cancel invitation' : 'Remove from project'}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              ) : (
+                <span className="text-xs text-zinc-400">{ROLE_LABELS[member.role]}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
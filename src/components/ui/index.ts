@@ -5,3 +5,5 @@ export { Modal, ConfirmModal } from './Modal';
 export { ShareModal } from './ShareModal';
 export { ColorPicker } from './ColorPicker';
 export { CommandPalette } from './CommandPalette';
+export { MarkdownContent } from './MarkdownContent';
+export { MathFormula } from './MathFormula';
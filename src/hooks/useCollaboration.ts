@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect } from 'react';
+import { openCollabChannel, isCollabAvailable, CollabChannel } from '@/lib/collabChannel';
+import { NODE_COLORS } from '@/lib/constants';
+import { useGraphStore, subscribeGraphChanges } from '@/store/useGraphStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useCollabStore } from '@/store/useCollabStore';
+import type { CollabMessage, PresenceState } from '@/types/knowledge';
+
+// Cursors and drags send at most this often
+const SEND_INTERVAL_MS = 50;
+
+type NodePosition = { id: number; x: number; y: number };
+
+let sessionId: string | null = null;
+let channel: CollabChannel | null = null;
+let identity: Pick<PresenceState, 'sessionId' | 'userId' | 'displayName' | 'color'> | null = null;
+// Kept across reconnects and project switches, the editor may open before the channel does
+let localState: Pick<PresenceState, 'nodeId' | 'cursor'> = { nodeId: null, cursor: null };
+let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+let moveTimer: ReturnType<typeof setTimeout> | null = null;
+const pendingMoves = new Map<number, NodePosition>();
+
+function getSessionId(): string {
+  if (!sessionId) {
+    sessionId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  }
+  return sessionId;
+}
+
+// Same user, same color, in every tab
+function colorFor(key: string): string {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  return NODE_COLORS[Math.abs(hash) % NODE_COLORS.length];
+}
+
+function sendPresence() {
+  if (presenceTimer) {
+    clearTimeout(presenceTimer);
+    presenceTimer = null;
+  }
+  if (!channel || !identity) return;
+  channel.send({ type: 'presence', presence: { ...identity, ...localState, lastSeen: new Date().toISOString() } });
+}
+
+function sendMoves() {
+  if (moveTimer) {
+    clearTimeout(moveTimer);
+    moveTimer = null;
+  }
+  if (channel && pendingMoves.size > 0) {
+    channel.send({ type: 'move', sessionId: getSessionId(), positions: [...pendingMoves.values()] });
+  }
+  pendingMoves.clear();
+}
+
+/**
+ * Tell collaborators which node this tab is editing and where its pointer is.
+ * Node changes go out right away, cursor moves are throttled.
+ */
+export function updateLocalPresence(updates: Partial<Pick<PresenceState, 'nodeId' | 'cursor'>>) {
+  localState = { ...localState, ...updates };
+  if ('nodeId' in updates) {
+    sendPresence();
+  } else if (!presenceTimer) {
+    presenceTimer = setTimeout(sendPresence, SEND_INTERVAL_MS);
+  }
+}
+
+// Show a drag to collaborators while it happens; the final position is sent as a normal change
+export function broadcastNodeMoves(positions: NodePosition[]) {
+  if (!channel) return;
+  positions.forEach(p => {
+    if (p.id > 0) pendingMoves.set(p.id, { id: p.id, x: p.x, y: p.y });
+  });
+  if (!moveTimer) moveTimer = setTimeout(sendMoves, SEND_INTERVAL_MS);
+}
+
+function handleMessage(message: CollabMessage) {
+  const { setPeers, upsertPeer, removePeer } = useCollabStore.getState();
+  switch (message.type) {
+    case 'welcome':
+      setPeers(message.peers);
+      // Also sent after a reconnect, when the relay may have forgotten us
+      sendPresence();
+      break;
+    case 'presence':
+      upsertPeer(message.presence);
+      break;
+    case 'leave':
+      removePeer(message.sessionId);
+      break;
+    case 'change':
+      useGraphStore.getState().applyRemoteChange(message.entity, message.action, message.id, message.snapshot);
+      break;
+    case 'move': {
+      const { nodes, applyRemoteChange } = useGraphStore.getState();
+      message.positions.forEach(p => {
+        const node = nodes.find(n => n.id === p.id);
+        if (node) applyRemoteChange('node', 'update', p.id, { ...node, x: p.x, y: p.y });
+      });
+      break;
+    }
+  }
+}
+
+/**
+ * Joins the open project's collaboration channel: changes made here are sent
+ * to everyone else with the project open, theirs are applied to the store, and
+ * presence (cursor, node being edited) is shared both ways.
+ */
+export function useCollaboration() {
+  const projectId = useGraphStore((s) => s.currentProject?.id);
+  const userId = useAuthStore((s) => s.user?.id);
+  const displayName = useAuthStore((s) => s.user?.displayName || s.user?.email);
+
+  useEffect(() => {
+    // The relay only lets signed-in members in
+    if (!projectId || !userId || !isCollabAvailable()) return;
+    const id = getSessionId();
+    const { setStatus, setPeers } = useCollabStore.getState();
+
+    identity = {
+      sessionId: id,
+      userId,
+      displayName: displayName || 'Guest',
+      color: colorFor(userId),
+    };
+    const current = openCollabChannel(projectId, id, handleMessage, setStatus);
+    channel = current;
+
+    const unsubscribe = subscribeGraphChanges((entity, action, entityId, snapshot) => {
+      current.send({ type: 'change', sessionId: id, entity, action, id: entityId, snapshot });
+    });
+
+    return () => {
+      unsubscribe();
+      sendMoves();
+      current.send({ type: 'leave', sessionId: id });
+      current.close();
+      if (presenceTimer) clearTimeout(presenceTimer);
+      presenceTimer = null;
+      channel = null;
+      identity = null;
+      setPeers([]);
+    };
+  }, [projectId, userId, displayName]);
+}
@@ -20,9 +20,9 @@ export function useProjects(userId: string | null) {
 
   return useQuery({
     queryKey: graphKeys.projects(),
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!userId) return [];
-      const projects = await api.projects.getByUser(userId);
+      const projects = await api.projects.getByUser(userId, { signal });
       setProjects(projects);
       return projects;
     },
@@ -35,8 +35,8 @@ export function useProject(id: string) {
 
   return useQuery({
     queryKey: graphKeys.project(id),
-    queryFn: async () => {
-      const project = await api.projects.getById(Number(id));
+    queryFn: async ({ signal }) => {
+      const project = await api.projects.getById(Number(id), { signal });
       setCurrentProject(project);
       return project;
     },
@@ -63,9 +63,9 @@ export function useProjectNodes(projectId: string | undefined) {
 
   return useQuery({
     queryKey: graphKeys.nodes(projectId),
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!projectId) return [];
-      const nodes = await api.nodes.getByProject(Number(projectId));
+      const nodes = await api.nodes.getByProject(Number(projectId), { signal });
       setNodes(nodes);
       return nodes;
     },
@@ -76,7 +76,7 @@ export function useProjectNodes(projectId: string | undefined) {
 export function useNode(id: string) {
   return useQuery({
     queryKey: graphKeys.node(id),
-    queryFn: () => api.nodes.getById(Number(id)),
+    queryFn: ({ signal }) => api.nodes.getById(Number(id), { signal }),
     enabled: !!id,
   });
 }
@@ -99,6 +99,7 @@ export function useCreateNode() {
 export function useUpdateNode() {
   const queryClient = useQueryClient();
   const updateNode = useGraphStore((s) => s.updateNode);
+  const keepSavedVersion = useGraphStore((s) => s.keepSavedVersion);
 
   return useMutation({
     mutationFn: ({ id, updates }: { id: string; updates: Partial<Node> }) =>
@@ -109,6 +110,7 @@ export function useUpdateNode() {
       updateNode(Number(id), updates);
       return { previousNode };
     },
+    onSuccess: (saved) => keepSavedVersion(saved),
     onError: (_err, { id }, context) => {
       if (context?.previousNode) {
         queryClient.setQueryData(graphKeys.node(id), context.previousNode);
@@ -164,7 +166,8 @@ export function useDeleteLink() {
 export function useSearchNodes(query: string) {
   return useQuery({
     queryKey: graphKeys.search(query),
-    queryFn: () => api.nodes.search(query),
+    // Typing on cancels the search for the previous query
+    queryFn: ({ signal }) => api.nodes.search(query, { signal }),
     enabled: query.length >= 2,
   });
 }
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect } from 'react';
+import { api } from '@/lib/api';
+import {
+  loadQueue, getPendingCount, subscribeQueue, onIdAssigned, getRefused, subscribeRefused, retryRefused, discardRefused,
+} from '@/lib/offlineQueue';
+import { saveProjectCopy } from '@/lib/offlineDb';
+import { useGraphStore } from '@/store/useGraphStore';
+import { useSyncStore } from '@/store/useSyncStore';
+
+// navigator.onLine stays true on a Wi-Fi that has dropped its uplink, so keep retrying while anything is queued
+const RETRY_INTERVAL_MS = 15 * 1000;
+const COPY_SAVE_DELAY_MS = 1000;
+
+export async function syncPendingChanges() {
+  const { setSyncing } = useSyncStore.getState();
+  if (getPendingCount() === 0) return;
+  setSyncing(true);
+  try {
+    await api.offline.replay();
+  } finally {
+    setSyncing(false);
+  }
+}
+
+// Send a refused edit again. One refused because someone else saved first overwrites their save this time
+export function retryRefusedChange(seq: number) {
+  retryRefused(seq);
+  syncPendingChanges();
+}
+
+// Give up on a refused edit and show the project the way the server has it
+export async function discardRefusedChange(seq: number) {
+  if (!discardRefused(seq)) return;
+  const { currentProject, applyProjectSnapshot } = useGraphStore.getState();
+  // Edits still queued aren't on the server yet and would vanish from the screen
+  if (!currentProject || getPendingCount() > 0) return;
+  applyProjectSnapshot(await api.projects.getSnapshot(currentProject.id));
+}
+
+/**
+ * Keeps the open project usable offline: mirrors it into IndexedDB, sends the
+ * queued edits whenever the connection comes back, and moves the store over to
+ * the real ids of entities that were created while offline. Edits the API
+ * refuses are kept in the sync store until they are retried or discarded.
+ */
+export function useOfflineSync() {
+  useEffect(() => {
+    const { setPending, setOnline, setRefused } = useSyncStore.getState();
+    setOnline(navigator.onLine);
+    loadQueue().then(() => {
+      setPending(getPendingCount());
+      setRefused(getRefused());
+      if (navigator.onLine) syncPendingChanges();
+    });
+
+    const unsubscribeQueue = subscribeQueue(setPending);
+    const unsubscribeRefused = subscribeRefused(setRefused);
+    const unsubscribeIds = onIdAssigned((entity, tempId, id) => {
+      useGraphStore.getState().remapEntityId(entity, tempId, id);
+    });
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncPendingChanges();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    const retry = setInterval(() => {
+      if (getPendingCount() > 0) syncPendingChanges();
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeRefused();
+      unsubscribeIds();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(retry);
+    };
+  }, []);
+
+  // Mirror the open project, optimistic edits included, once it has finished loading
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = useGraphStore.subscribe((state, previous) => {
+      const changed = state.nodes !== previous.nodes || state.links !== previous.links || state.shapes !== previous.shapes
+        || state.groups !== previous.groups || state.relationshipTypes !== previous.relationshipTypes
+        || state.isLoading !== previous.isLoading;
+      if (!changed || state.isLoading || !state.currentProject) return;
+
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        const { currentProject, nodes, links, shapes, groups, relationshipTypes, snapshotRevision } = useGraphStore.getState();
+        if (!currentProject) return;
+        saveProjectCopy({
+          projectId: currentProject.id,
+          project: currentProject,
+          nodes,
+          links,
+          shapes,
+          groups,
+          relationshipTypes,
+          revision: snapshotRevision ?? undefined,
+          savedAt: new Date().toISOString(),
+        }).catch(() => { });
+      }, COPY_SAVE_DELAY_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timeout) clearTimeout(timeout);
+    };
+  }, []);
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import type { Link } from '@/types/knowledge';
+import { findShortestPath, getPrerequisiteChain } from '@/lib/graphPaths';
+
+export type PathFinderMode = 'path' | 'prerequisites';
+
+/**
+ * State for the learning-path finder. Node clicks are routed to pickNode while
+ * it is active; the highlighted sets drive canvas rendering.
+ */
+export function usePathFinder(links: Link[]) {
+  const [isActive, setIsActive] = useState(false);
+  const [mode, setModeState] = useState<PathFinderMode>('path');
+  const [startId, setStartId] = useState<number | null>(null);
+  const [targetId, setTargetId] = useState<number | null>(null);
+
+  const path = useMemo(() => {
+    if (mode !== 'path' || startId === null || targetId === null) return null;
+    return findShortestPath(links, startId, targetId);
+  }, [links, mode, startId, targetId]);
+
+  const chain = useMemo(() => {
+    if (mode !== 'prerequisites' || targetId === null) return null;
+    return getPrerequisiteChain(links, targetId);
+  }, [links, mode, targetId]);
+
+  const { highlightedNodeIds, highlightedLinkIds } = useMemo(() => {
+    if (path) {
+      return { highlightedNodeIds: new Set(path.nodeIds), highlightedLinkIds: new Set(path.linkIds) };
+    }
+    if (chain) {
+      return { highlightedNodeIds: new Set([...chain.nodeIds, chain.targetId]), highlightedLinkIds: new Set(chain.linkIds) };
+    }
+    return { highlightedNodeIds: null, highlightedLinkIds: null };
+  }, [path, chain]);
+
+  const reset = useCallback(() => {
+    setStartId(null);
+    setTargetId(null);
+  }, []);
+
+  const setMode = useCallback((next: PathFinderMode) => {
+    setModeState(next);
+    setStartId(null);
+    setTargetId(null);
+  }, []);
+
+  const setActive = useCallback((active: boolean) => {
+    setIsActive(active);
+    if (!active) reset();
+  }, [reset]);
+
+  const pickNode = useCallback((nodeId: number) => {
+    if (mode === 'prerequisites') {
+      setTargetId(nodeId);
+      return;
+    }
+    // First click picks the start, second the target, third starts over
+    if (startId === null || targetId !== null) {
+      setStartId(nodeId);
+      setTargetId(null);
+    } else {
+      setTargetId(nodeId);
+    }
+  }, [mode, startId, targetId]);
+
+  return {
+    isActive,
+    setActive,
+    mode,
+    setMode,
+    startId,
+    targetId,
+    path,
+    chain,
+    highlightedNodeIds,
+    highlightedLinkIds,
+    pickNode,
+    reset,
+  };
+}
+
+export type PathFinderState = ReturnType<typeof usePathFinder>;
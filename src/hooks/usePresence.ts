@@ -1,26 +1,39 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
+import { useCollabStore } from '@/store/useCollabStore';
+import { updateLocalPresence } from './useCollaboration';
 import type { PresenceState } from '@/types/knowledge';
 
-export function usePresence(_nodeId: string | null) {
-  const [activeEditors] = useState<PresenceState[]>([]);
+/**
+ * Who else is editing nodes of the open project. `nodeId` narrows
+ * activeEditors to the collaborators on that node.
+ */
+export function usePresence(nodeId: string | null) {
+  const peers = useCollabStore((s) => s.peers);
 
-  const isNodeBeingEdited = useCallback(
-    (_checkNodeId: string) => {
-      return false;
-    },
-    []
+  const editing = useMemo(
+    () => Object.values(peers).filter(p => p.nodeId !== null),
+    [peers]
+  );
+
+  const activeEditors = useMemo(
+    () => (nodeId === null ? editing : editing.filter(p => String(p.nodeId) === nodeId)),
+    [editing, nodeId]
   );
 
   const getNodeEditors = useCallback(
-    (_checkNodeId: string): PresenceState[] => {
-      return [];
-    },
-    []
+    (checkNodeId: string): PresenceState[] => editing.filter(p => String(p.nodeId) === checkNodeId),
+    [editing]
+  );
+
+  const isNodeBeingEdited = useCallback(
+    (checkNodeId: string) => getNodeEditors(checkNodeId).length > 0,
+    [getNodeEditors]
   );
 
-  const updatePresence = useCallback(async (_editingNodeId: string | null) => {
+  const updatePresence = useCallback(async (editingNodeId: string | null) => {
+    updateLocalPresence({ nodeId: editingNodeId === null ? null : Number(editingNodeId) });
   }, []);
 
   return {
@@ -0,0 +1,27 @@
+'use client';
+
+import { useEffect } from 'react';
+import type { CommentThread, ProjectComment } from '@/types/knowledge';
+import type { MentionablePerson } from '@/lib/comments';
+import { useCommentsStore } from '@/store/useCommentsStore';
+
+const NO_THREADS: CommentThread[] = [];
+const NO_COMMENTS: ProjectComment[] = [];
+const NO_PEOPLE: MentionablePerson[] = [];
+
+// Projects whose comments were asked for already, so the canvas and the side pane load them once
+const requested = new Set<number>();
+
+export function useProjectComments(projectId: number | null | undefined) {
+  const threads = useCommentsStore((s) => (projectId ? s.threads[projectId] : undefined) ?? NO_THREADS);
+  const comments = useCommentsStore((s) => (projectId ? s.comments[projectId] : undefined) ?? NO_COMMENTS);
+  const people = useCommentsStore((s) => (projectId ? s.people[projectId] : undefined) ?? NO_PEOPLE);
+
+  useEffect(() => {
+    if (!projectId || requested.has(projectId)) return;
+    requested.add(projectId);
+    useCommentsStore.getState().loadComments(projectId);
+  }, [projectId]);
+
+  return { threads, comments, people };
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useCallback } from 'react';
+import { api } from '@/lib/api';
+import { useGraphStore } from '@/store/useGraphStore';
+import { diffStates, nodePayload, linkPayload, drawingPayload, restoreNodeExtras, ProjectState } from '@/lib/projectHistory';
+import type { Node, Link, DrawnShape, Group } from '@/types/knowledge';
+
+export interface RestoreResult {
+  applied: number;
+  failed: number;
+}
+
+function getCurrentState(): ProjectState {
+  const { nodes, links, shapes, groups } = useGraphStore.getState();
+  return { nodes, links, shapes, groups };
+}
+
+/**
+ * Puts a project, or one of its nodes, back into an earlier state through the
+ * API. Everything goes through the store actions, so a restore shows up in
+ * history as ordinary revisions and can itself be undone.
+ *
+ * Deleted entities come back with new ids, so references to them (a node's
+ * group, a link's ends) are remapped as they are recreated.
+ */
+export function useProjectRestore(projectId: number | undefined) {
+  const restoreProject = useCallback(async (target: ProjectState): Promise<RestoreResult> => {
+    const result: RestoreResult = { applied: 0, failed: 0 };
+    if (!projectId) return result;
+
+    const store = useGraphStore.getState();
+    const changes = diffStates(getCurrentState(), target);
+    const groupIds = new Map<number, number>();
+    const nodeIds = new Map<number, number>();
+
+    const run = async (action: () => Promise<unknown>) => {
+      try {
+        await action();
+        result.applied++;
+      } catch {
+        result.failed++;
+      }
+    };
+
+    // Groups first so recreated nodes and drawings have somewhere to go
+    for (const change of changes.filter(c => c.entity === 'group')) {
+      const group = (change.after ?? change.before) as Group;
+      if (change.kind === 'added') {
+        await run(async () => {
+          const created = await api.groups.create({ name: group.name, color: group.color, order: group.order, projectId });
+          groupIds.set(group.id, created.id);
+          store.addGroup({ id: created.id, name: created.name, color: created.color, order: group.order });
+        });
+      } else if (change.kind === 'changed') {
+        await run(async () => {
+          await api.groups.update(group.id, { name: group.name, color: group.color, order: group.order });
+          store.updateGroup(group.id, { name: group.name, color: group.color, order: group.order });
+        });
+      }
+    }
+
+    for (const change of changes.filter(c => c.entity === 'node')) {
+      if (change.kind === 'removed') {
+        await run(async () => {
+          await api.nodes.delete(change.id);
+          store.deleteNode(change.id);
+        });
+        continue;
+      }
+      const node = change.after as Node;
+      const groupId = groupIds.get(node.groupId) ?? node.groupId;
+      if (change.kind === 'added') {
+        await run(async () => {
+          const created = await api.nodes.create(nodePayload(node, projectId, groupId));
+          nodeIds.set(node.id, created.id);
+          store.addNode({ ...node, ...created, groupId, tags: [], attachments: [] });
+          store.updateNode(created.id, await restoreNodeExtras(node, created.id));
+        });
+      } else {
+        await run(async () => {
+          const payload = nodePayload(node, projectId, groupId);
+          // Against the version held now, so a restore can't overwrite an edit it hasn't seen
+          const version = useGraphStore.getState().nodes.find(n => n.id === node.id)?.version;
+          const saved = await api.nodes.update(node.id, { id: node.id, ...payload, version });
+          store.updateNode(node.id, { ...payload, version: saved.version });
+        });
+      }
+    }
+
+    const liveNodeIds = new Set(useGraphStore.getState().nodes.map(n => n.id));
+    for (const change of changes.filter(c => c.entity === 'link')) {
+      if (change.kind === 'removed') {
+        // Links of deleted nodes may already be gone along with them
+        const stillThere = useGraphStore.getState().links.some(l => l.id === change.id);
+        if (stillThere) {
+          await run(async () => {
+            await api.links.delete(change.id);
+            store.deleteLink(change.id);
+          });
+        }
+        continue;
+      }
+      const link = change.after as Link;
+      const sourceId = nodeIds.get(link.sourceId) ?? link.sourceId;
+      const targetId = nodeIds.get(link.targetId) ?? link.targetId;
+      if (!liveNodeIds.has(sourceId) || !liveNodeIds.has(targetId)) {
+        result.failed++;
+        continue;
+      }
+      if (change.kind === 'added') {
+        await run(async () => {
+          const created = await api.links.create(linkPayload(link, sourceId, targetId));
+          store.addLink({ ...link, ...created, sourceId, targetId });
+        });
+      } else {
+        await run(async () => {
+          const payload = linkPayload(link, sourceId, targetId);
+          const version = useGraphStore.getState().links.find(l => l.id === link.id)?.version;
+          const saved = await api.links.update(link.id, { id: link.id, ...payload, version });
+          store.updateLink(link.id, { ...payload, version: saved.version });
+        });
+      }
+    }
+
+    for (const change of changes.filter(c => c.entity === 'drawing')) {
+      if (change.kind === 'removed') {
+        await run(async () => {
+          await api.drawings.delete(change.id);
+          store.deleteShape(change.id);
+        });
+        continue;
+      }
+      const shape = change.after as DrawnShape;
+      const groupId = shape.groupId != null ? groupIds.get(shape.groupId) ?? shape.groupId : undefined;
+      if (change.kind === 'added') {
+        await run(async () => {
+          const created = await api.drawings.create(drawingPayload(shape, projectId, groupId));
+          store.addShape({ ...shape, id: created.id, groupId, synced: true });
+        });
+      } else {
+        await run(async () => {
+          await api.drawings.update(shape.id, drawingPayload(shape, projectId, groupId));
+          store.updateShape(shape.id, { ...shape, groupId });
+        });
+      }
+    }
+
+    // Groups last, once nothing points at the ones being removed
+    for (const change of changes.filter(c => c.entity === 'group' && c.kind === 'removed')) {
+      await run(async () => {
+        await api.groups.delete(change.id);
+        store.deleteGroup(change.id);
+      });
+    }
+
+    return result;
+  }, [projectId]);
+
+  const restoreNode = useCallback(async (nodeId: number, target: ProjectState): Promise<RestoreResult> => {
+    const result: RestoreResult = { applied: 0, failed: 0 };
+    const node = target.nodes.find(n => n.id === nodeId);
+    if (!projectId || !node) return result;
+
+    const store = useGraphStore.getState();
+    const current = store.nodes.find(n => n.id === nodeId);
+    const payload = nodePayload(node, projectId, node.groupId);
+
+    try {
+      if (current) {
+        const saved = await api.nodes.update(nodeId, { id: nodeId, ...payload, version: current.version });
+        store.updateNode(nodeId, { ...payload, version: saved.version });
+        result.applied++;
+        return result;
+      }
+
+      const created = await api.nodes.create(payload);
+      store.addNode({ ...node, ...created, tags: [], attachments: [] });
+      result.applied++;
+      try {
+        store.updateNode(created.id, await restoreNodeExtras(node, created.id));
+      } catch {
+        result.failed++;
+      }
+
+      // Bring back its connections to nodes that still exist
+      const liveNodeIds = new Set(useGraphStore.getState().nodes.map(n => n.id));
+      const links = target.links.filter(l => l.sourceId === nodeId || l.targetId === nodeId);
+      for (const link of links) {
+        const sourceId = link.sourceId === nodeId ? created.id : link.sourceId;
+        const targetId = link.targetId === nodeId ? created.id : link.targetId;
+        if (!liveNodeIds.has(sourceId) || !liveNodeIds.has(targetId)) continue;
+        try {
+          const newLink = await api.links.create(linkPayload(link, sourceId, targetId));
+          store.addLink({ ...link, ...newLink, sourceId, targetId });
+          result.applied++;
+        } catch {
+          result.failed++;
+        }
+      }
+    } catch {
+      result.failed++;
+    }
+    return result;
+  }, [projectId]);
+
+  return { restoreProject, restoreNode };
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Project, ProjectMember, ProjectRole } from '@/types/knowledge';
+import { getProjectRole, canEdit } from '@/lib/projectRoles';
+import { useGraphStore } from '@/store/useGraphStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useMembersStore } from '@/store/useMembersStore';
+
+const NO_MEMBERS: ProjectMember[] = [];
+
+/**
+ * The signed-in user's role in the open project. Shares it through the graph
+ * store so the canvas and toolbars can lock editing, and keeps viewers and
+ * commenters in preview mode. `isResolved` turns true once the members have
+ * loaded, before then anyone but the owner is treated as a viewer.
+ */
+export function useProjectRole(project: Project | null) {
+  const userId = useAuthStore((s) => s.user?.id);
+  const members = useMembersStore((s) => (project ? s.members[project.id] : undefined) ?? NO_MEMBERS);
+  const loadMembers = useMembersStore((s) => s.loadMembers);
+  const setCurrentRole = useGraphStore((s) => s.setCurrentRole);
+  const isPreviewMode = useGraphStore((s) => s.graphSettings.isPreviewMode);
+  const setGraphSettings = useGraphStore((s) => s.setGraphSettings);
+  const [resolvedFor, setResolvedFor] = useState<number | null>(null);
+  const forcedPreviewRef = useRef(false);
+
+  const projectId = project?.id;
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    loadMembers(projectId).then(() => {
+      if (!cancelled) setResolvedFor(projectId);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, loadMembers]);
+
+  const role: ProjectRole | null = useMemo(
+    () => (project ? getProjectRole(project, userId, members) : null),
+    [project, userId, members]
+  );
+  const isReadOnly = !canEdit(role);
+
+  useEffect(() => {
+    setCurrentRole(role);
+  }, [role, setCurrentRole]);
+
+  // Put editors back the way they were once their role is known
+  useEffect(() => {
+    if (isReadOnly && !isPreviewMode) {
+      forcedPreviewRef.current = true;
+      setGraphSettings({ isPreviewMode: true });
+    } else if (!isReadOnly && forcedPreviewRef.current) {
+      forcedPreviewRef.current = false;
+      setGraphSettings({ isPreviewMode: false });
+    }
+  }, [isReadOnly, isPreviewMode, setGraphSettings]);
+
+  useEffect(() => () => {
+    setCurrentRole(null);
+    if (forcedPreviewRef.current) useGraphStore.getState().setGraphSettings({ isPreviewMode: false });
+  }, [setCurrentRole]);
+
+  return {
+    role,
+    isReadOnly,
+    isResolved: role === 'owner' || (projectId !== undefined && resolvedFor === projectId),
+  };
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect } from 'react';
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Runs `refresh` when the tab comes back into view or back online, and every
+ * so often while it is visible, so an open project picks up changes made
+ * elsewhere. Pass null while there is nothing loaded to refresh.
+ */
+export function useSnapshotRefresh(refresh: (() => Promise<void>) | null) {
+  useEffect(() => {
+    if (!refresh) return;
+
+    const run = () => {
+      if (document.visibilityState !== 'visible') return;
+      refresh().catch(() => {
+        // Offline or the server is busy; the next tick tries again
+      });
+    };
+
+    const interval = setInterval(run, REFRESH_INTERVAL_MS);
+    window.addEventListener('focus', run);
+    window.addEventListener('online', run);
+    document.addEventListener('visibilitychange', run);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', run);
+      window.removeEventListener('online', run);
+      document.removeEventListener('visibilitychange', run);
+    };
+  }, [refresh]);
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { api, ApiError, ConflictError } from './api';
+
+const node = { Id: 1, Title: 'Graphs', GroupId: 0, CreatedAt: '2026-01-01T00:00:00.000Z', UpdatedAt: '2026-01-01T00:00:00.000Z' };
+const project = { Id: 2, Name: 'Maths', UserId: 'ada', CreatedAt: '2026-01-01T00:00:00.000Z', UpdatedAt: '2026-01-01T00:00:00.000Z' };
+
+// The API answers each request with the next of these in turn, the last one from then on
+function answer(...responses: (() => Response)[]) {
+  const fetch = vi.fn(async () => (responses.length > 1 ? responses.shift()! : responses[0])());
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+const unavailable = (headers?: HeadersInit) => () => new Response('Service Unavailable', { status: 503, headers });
+
+// Settles the request while letting its backoff timers run
+async function settle<T>(promise: Promise<T>): Promise<PromiseSettledResult<T>> {
+  const settled = Promise.allSettled([promise]).then(([result]) => result);
+  await vi.runAllTimersAsync();
+  return settled;
+}
+
+function failureOf(result: PromiseSettledResult<unknown>): ApiError {
+  if (result.status !== 'rejected') throw new Error('Expected the request to fail');
+  return result.reason;
+}
+
+describe('fetchApi', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('checks responses against their schema, with keys in camelCase', async () => {
+    answer(() => Response.json(node));
+
+    expect(await api.nodes.getById(1)).toMatchObject({ id: 1, title: 'Graphs', groupId: 0 });
+  });
+
+  it('refuses a response that does not match the schema, without retrying', async () => {
+    const fetch = answer(() => Response.json({ ...node, Title: 7 }));
+
+    const error = failureOf(await settle(api.nodes.getById(1)));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: 'invalid_response', retryable: false });
+    expect(error.message).toContain('title: expected a string, got 7');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a response that is not JSON', async () => {
+    answer(() => new Response('<html>', { status: 200 }));
+
+    expect(failureOf(await settle(api.nodes.getById(1)))).toMatchObject({ code: 'invalid_response' });
+  });
+
+  it('retries a read that failed with 503 three times, then gives up', async () => {
+    const fetch = answer(unavailable());
+
+    const error = failureOf(await settle(api.nodes.getById(1)));
+
+    expect(error).toMatchObject({ status: 503, code: 'http', retryable: true });
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('gets there on a later attempt', async () => {
+    const fetch = answer(unavailable(), () => { throw new TypeError('Failed to fetch'); }, () => Response.json(node));
+
+    const result = await settle(api.nodes.getById(1));
+
+    expect(result).toMatchObject({ status: 'fulfilled', value: { id: 1 } });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as Retry-After says', async () => {
+    const fetch = answer(unavailable({ 'Retry-After': '2' }), () => Response.json(node));
+
+    const request = api.nodes.getById(1);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await request).toMatchObject({ id: 1 });
+  });
+
+  it('does not retry a client error', async () => {
+    const fetch = answer(() => Response.json({ errors: { 'Body.Title': ['Title is required'] } }, { status: 400 }));
+
+    const error = failureOf(await settle(api.nodes.getById(1)));
+
+    expect(error).toMatchObject({ status: 400, code: 'http', retryable: false, message: 'Title is required' });
+    expect(error.fieldError('title')).toBe('Title is required');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry a write, which may have landed', async () => {
+    const fetch = answer(unavailable());
+
+    const error = failureOf(await settle(api.projects.create({ name: 'Maths', userId: 'ada' })));
+
+    expect(error).toMatchObject({ status: 503, retryable: true });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(expect.stringMatching(/\/api\/projects$/), expect.objectContaining({ method: 'POST' }));
+  });
+
+  it('hands over their copy with a conflict', async () => {
+    answer(() => Response.json({ title: 'Changed elsewhere', current: project }, { status: 409 }));
+
+    const error = failureOf(await settle(api.projects.update(2, { name: 'Mine' })));
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error).toMatchObject({ code: 'conflict', message: 'Changed elsewhere', current: { id: 2, name: 'Maths' } });
+  });
+
+  it('stops waiting to retry as soon as the request is aborted', async () => {
+    const fetch = answer(unavailable());
+    const controller = new AbortController();
+
+    const request = api.nodes.getById(1, { signal: controller.signal });
+    const settled = Promise.allSettled([request]);
+    await vi.advanceTimersByTimeAsync(100); // Into the first backoff
+    controller.abort();
+
+    const [result] = await settled;
+    expect(result.status === 'rejected' && result.reason).toMatchObject({ name: 'AbortError' });
+    await vi.runAllTimersAsync();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
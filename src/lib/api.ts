@@ -1,11 +1,16 @@
-import type { Project, Node, Link, Tag, Attachment, Profile, RegisterRequest, DrawnShape } from '@/types/knowledge';
+import type { Project, Node, Link, Tag, Attachment, Profile, RegisterRequest, DrawnShape, RelationshipType, StudyStatus, Flashcard, CardSchedule, ReviewLogEntry, Revision, RevisionEntity, ProjectMember, ShareLink, CommentThread, ProjectComment } from '@/types/knowledge';
+import { loadQueue, getPendingCount, sendOrQueue, replayQueue, MutationMethod, QueuedMutation } from './offlineQueue';
+import { readLocalCopy } from './offlineDb';
+import { getBackend } from './backendAdapter';
+import { ApiError, ConflictError, isNetworkError } from './apiError';
+import { s, SchemaError, type Schema } from './schema';
+import { resolveBatchRefs, type BatchId } from './batchRefs';
+import {
+  projectSchema, nodeSchema, linkSchema, tagSchema, attachmentSchema, groupSchema, drawingSchema, relationshipTypeSchema,
+  profileSchema, progressSchema, flashcardSchema, cardScheduleSchema, revisionSchema, projectMemberSchema, shareLinkSchema,
+  commentThreadSchema, commentSchema, snapshotSchema, changeSetSchema, writeResultSchema,
+} from './apiSchemas';
 
-const RAW_API_URL = process.env.NEXT_PUBLIC_API_URL || process.env.NEXT_PRIVATE_API_URL?.trim() || '';
-
-if (!RAW_API_URL && typeof window !== 'undefined') {
-  console.warn('API URL is not defined. Requests will be relative to the domain and may fail if not proxying.');
-}
-const API_BASE_URL = RAW_API_URL.endsWith('/') ? RAW_API_URL.slice(0, -1) : RAW_API_URL;
 
 
 function pascalToCamel(str: string): string {
@@ -41,9 +46,105 @@ function toApi(data: unknown): unknown {
   return transformKeys(data, camelToPascal);
 }
 
-async function fetchApi<T>(endpoint: string, options?: RequestInit & { suppressLog?: boolean }): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
-  const { suppressLog, ...fetchOptions } = options || {};
+export { ApiError, ConflictError } from './apiError';
+export { batchRef, type BatchRef } from './batchRefs';
+
+export interface RequestOptions {
+  // Cancels the request; the promise then rejects with the signal's AbortError, like fetch
+  signal?: AbortSignal;
+}
+
+type ApiOptions<T> = RequestInit & {
+  suppressLog?: boolean;
+  // What the response is checked against; without one it is passed on as is
+  schema?: Schema<T>;
+  // Extra attempts after a retryable failure. Reads default to RETRY_DELAYS.length,
+  // writes to none, since an update that did land would then be applied twice
+  retries?: number;
+};
+
+// Backoff between attempts, in ms; each is stretched by up to a third at random
+const RETRY_DELAYS = [300, 1000, 3000];
+const MAX_RETRY_AFTER = 10_000;
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function retryDelay(attempt: number, response?: Response): number {
+  // 429 and 503 may say how long to hold off, in seconds
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_AFTER);
+  const base = RETRY_DELAYS[Math.min(attempt, RETRY_DELAYS.length - 1)];
+  return base + Math.random() * base / 3;
+}
+
+function isAbort(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+// ASP.NET validation keys look like "Title", "$.title" or "Body.Title"; forms want "title"
+function toFieldErrors(errors: unknown): Record<string, string[]> {
+  if (!errors || typeof errors !== 'object') return {};
+  const result: Record<string, string[]> = {};
+  for (const [key, messages] of Object.entries(errors as Record<string, unknown>)) {
+    const field = pascalToCamel(key.split('.').pop()?.replace(/^\$/, '') ?? key);
+    const list = (Array.isArray(messages) ? messages : [messages]).map(String);
+    result[field] = [...(result[field] ?? []), ...list];
+  }
+  return result;
+}
+
+async function errorFromResponse(response: Response): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let error: { title?: string; message?: string; errors?: unknown; current?: unknown };
+  try {
+    error = JSON.parse(text);
+  } catch {
+    error = { message: text };
+  }
+
+  // Debug: Log full backend error
+  console.error('[API] Backend error:', response.status, error);
+
+  if (response.status === 409) {
+    return new ConflictError(error.title || error.message || 'Someone else changed this first', toFrontend(error.current ?? null));
+  }
+
+  const fieldErrors = toFieldErrors(error.errors);
+  const firstFieldError = Object.values(fieldErrors)[0]?.[0];
+  return new ApiError(firstFieldError || error.title || error.message || `API Error: ${response.status}`, response.status, { fieldErrors });
+}
+
+function checkResponse<T>(endpoint: string, data: unknown, status: number, schema?: Schema<T>): T {
+  const converted = toFrontend<unknown>(data);
+  if (!schema) return converted as T;
+  try {
+    return schema.parse(converted);
+  } catch (err) {
+    if (!(err instanceof SchemaError)) throw err;
+    console.error(`[API] Unexpected response from ${endpoint}:`, err.message);
+    throw new ApiError(`Unexpected response from the server (${err.message})`, status, {
+      code: 'invalid_response',
+      retryable: false,
+      cause: err,
+    });
+  }
+}
+
+async function fetchApi<T>(endpoint: string, options?: ApiOptions<T>): Promise<T> {
+  const { suppressLog, schema, retries, ...fetchOptions } = options || {};
 
   
   const headers: Record<string, string> = {
@@ -54,56 +155,92 @@ async function fetchApi<T>(endpoint: string, options?: RequestInit & { suppressL
     headers['Content-Type'] = 'application/json';
   }
 
-  try {
-    const response = await fetch(url, {
-      ...fetchOptions,
-      headers,
-    });
+  // Changes still waiting to be sent aren't on the server yet, the local copy has them
+  const isRead = !fetchOptions.method || fetchOptions.method === 'GET';
+  if (isRead) {
+    await loadQueue();
+    if (getPendingCount() > 0) {
+      const local = await readLocalCopy(endpoint).catch(() => undefined);
+      if (local !== undefined) return local as T;
+    }
+  }
 
-    if (!response.ok) {
-      const text = await response.text();
-      let error;
-      try {
-        error = JSON.parse(text);
-      } catch {
-        error = { message: text };
-      }
-      
-      // Debug: Log full backend error
-      console.error('[API] Backend error:', response.status, error);
-      
-      if (error.errors) {
-        throw new Error(JSON.stringify(error.errors));
+  const maxRetries = retries ?? (isRead ? RETRY_DELAYS.length : 0);
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+    let failure: ApiError;
+    try {
+      response = await getBackend().fetch(endpoint, {
+        ...fetchOptions,
+        headers,
+      });
+
+      if (response.ok) {
+        if (response.status === 204) {
+          return {} as T;
+        }
+        let data: unknown;
+        try {
+          data = await response.json();
+        } catch (err) {
+          throw new ApiError('The server sent a response that isn\'t JSON', response.status, { code: 'invalid_response', retryable: false, cause: err });
+        }
+        return checkResponse(endpoint, data, response.status, schema);
       }
-      throw new Error(error.title || error.message || `API Error: ${response.status}`);
+      failure = await errorFromResponse(response);
+    } catch (err) {
+      if (err instanceof ApiError || isAbort(err)) throw err;
+      if (!(err instanceof TypeError)) throw err;
+      failure = new ApiError('Unable to reach the server', 0, { code: 'network', cause: err });
     }
 
-    if (response.status === 204) {
-      return {} as T;
+    const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (failure.retryable && attempt < maxRetries && !isOffline) {
+      await wait(retryDelay(attempt, response), fetchOptions.signal);
+      continue;
     }
 
-    const data = await response.json();
-    return toFrontend<T>(data);
-  } catch (err) {
+    // No connection: fall back to what this device last saw
+    if (isRead && failure.code === 'network') {
+      const local = await readLocalCopy(endpoint).catch(() => undefined);
+      if (local !== undefined) return local as T;
+    }
     if (!suppressLog) {
-      // console.error(`[API] Request failed:`, err);
+      // console.error(`[API] Request failed:`, failure);
     }
-    throw err;
+    throw failure;
   }
 }
 
-async function fetchApiWithBody<T>(endpoint: string, method: string, body: unknown, suppressLog?: boolean): Promise<T> {
+async function fetchApiWithBody<T>(endpoint: string, method: string, body: unknown, options?: Omit<ApiOptions<T>, 'method' | 'body'>): Promise<T> {
   // We need to be careful not to double stringify if body is already prepared, but transformKeys expects object
   // For drawings points, we already stringified it in the caller.
   const convertedBody = toApi(body);
   
   return fetchApi<T>(endpoint, {
+    ...options,
     method,
     body: JSON.stringify(convertedBody),
-    suppressLog,
   });
 }
 
+function sendMutation(mutation: QueuedMutation): Promise<unknown> {
+  const schema = writeResultSchema(mutation.method, mutation.endpoint) ?? undefined;
+  return mutation.body === undefined
+    ? fetchApi<unknown>(mutation.endpoint, { method: mutation.method, suppressLog: true, schema })
+    : fetchApiWithBody<unknown>(mutation.endpoint, mutation.method, mutation.body, { suppressLog: true, schema });
+}
+
+// Graph edits go through the offline queue so they survive a dropped connection.
+// The local backend lives in the browser and can't be out of reach.
+function mutateApi<T>(entity: RevisionEntity, endpoint: string, method: MutationMethod, body?: unknown): Promise<T> {
+  if (getBackend().mode === 'local') {
+    const schema = (writeResultSchema(method, endpoint) ?? undefined) as Schema<T> | undefined;
+    return body === undefined ? fetchApi<T>(endpoint, { method, schema }) : fetchApiWithBody<T>(endpoint, method, body, { schema });
+  }
+  return sendOrQueue<T>({ entity, endpoint, method, body }, sendMutation);
+}
+
 // Helper to pick fields
 function pick<T, K extends keyof T>(obj: T, ...keys: K[]): Pick<T, K> {
   const ret: any = {};
@@ -113,30 +250,212 @@ function pick<T, K extends keyof T>(obj: T, ...keys: K[]): Pick<T, K> {
   return ret;
 }
 
+/**
+ * One write, in a form that can be sent alone, bundled into a batch, or queued
+ * offline. Graph entities carry `entity` so they can go through the queue.
+ */
+export interface WriteOperation {
+  entity?: RevisionEntity;
+  method: MutationMethod;
+  endpoint: string;
+  body?: unknown;
+}
+
+export interface BatchFailure {
+  index: number; // Position in the operations that were sent
+  status: number;
+  message: string;
+}
+
+// The API refused part of a batch, so none of it was applied
+export class BatchError extends Error {
+  constructor(public readonly failures: BatchFailure[]) {
+    super(failures.length === 1 ? failures[0].message : `${failures.length} changes were refused.`);
+    this.name = 'BatchError';
+  }
+}
+
+interface BatchResponse {
+  applied: boolean;
+  results: { status: number; body?: unknown; error?: string | null }[];
+}
+
+// Node, link and drawing references may point at a write earlier in the same batch
+type WithBatchIds<T, K extends keyof T> = Omit<T, K> & { [P in K]: T[P] extends number ? BatchId : T[P] | BatchId };
+
+type DrawingData = {
+  projectId: number;
+  type: string;
+  points: { x: number; y: number }[];
+  color: string;
+  width?: number;
+  style: string;
+  text?: string;
+  fontSize?: number;
+  fontFamily?: string;
+  groupId?: number;
+};
+
+type GroupData = { name: string; color: string; order: number; projectId: number };
+
+// Payloads for every write that can be batched, shared with the single-entity calls below
+export const writes = {
+  nodes: {
+    create: (data: WithBatchIds<Omit<Node, 'id' | 'createdAt' | 'updatedAt'>, 'groupId'>): WriteOperation => ({
+      entity: 'node', method: 'POST', endpoint: '/api/nodes',
+      body: pick(data, 'title', 'content', 'groupId', 'projectId', 'userId', 'x', 'y', 'customColor'),
+    }),
+    update: (id: number, data: Partial<Node>): WriteOperation => ({
+      entity: 'node', method: 'PUT', endpoint: `/api/nodes/${id}`,
+      body: pick(data, 'id', 'title', 'content', 'groupId', 'projectId', 'userId', 'x', 'y', 'customColor', 'version'),
+    }),
+    delete: (id: number): WriteOperation => ({ entity: 'node', method: 'DELETE', endpoint: `/api/nodes/${id}` }),
+    addTag: (nodeId: BatchId, tagId: BatchId): WriteOperation => ({ method: 'POST', endpoint: `/api/nodes/${nodeId}/tags/${tagId}` }),
+  },
+  links: {
+    create: (data: { sourceId: BatchId; targetId: BatchId; description?: string; relationshipType?: string | null; isBidirectional?: boolean; userId?: string; color?: string }): WriteOperation => ({
+      entity: 'link', method: 'POST', endpoint: '/api/links', body: data,
+    }),
+    update: (id: number, data: Partial<Link>): WriteOperation => ({
+      entity: 'link', method: 'PUT', endpoint: `/api/links/${id}`,
+      body: pick(data, 'id', 'sourceId', 'targetId', 'color', 'description', 'relationshipType', 'isBidirectional', 'userId', 'version'),
+    }),
+    delete: (id: number): WriteOperation => ({ entity: 'link', method: 'DELETE', endpoint: `/api/links/${id}` }),
+  },
+  drawings: {
+    // API expects Points as a JSON string
+    create: (data: WithBatchIds<DrawingData, 'groupId'>): WriteOperation => ({
+      entity: 'drawing', method: 'POST', endpoint: '/api/drawings', body: { ...data, points: JSON.stringify(data.points) },
+    }),
+    update: (id: number, data: Partial<Omit<DrawingData, 'projectId'>>): WriteOperation => ({
+      entity: 'drawing', method: 'PUT', endpoint: `/api/drawings/${id}`,
+      body: data.points ? { ...data, points: JSON.stringify(data.points) } : { ...data },
+    }),
+    delete: (id: number): WriteOperation => ({ entity: 'drawing', method: 'DELETE', endpoint: `/api/drawings/${id}` }),
+  },
+  groups: {
+    create: (data: Omit<GroupData, 'order'> & { order?: number }): WriteOperation => ({
+      entity: 'group', method: 'POST', endpoint: '/api/groups',
+      body: { name: data.name, color: data.color, order: data.order ?? 0, projectId: data.projectId },
+    }),
+    update: (id: number, data: Partial<GroupData>): WriteOperation => ({
+      entity: 'group', method: 'PUT', endpoint: `/api/groups/${id}`, body: { id, ...data },
+    }),
+    delete: (id: number): WriteOperation => ({ entity: 'group', method: 'DELETE', endpoint: `/api/groups/${id}` }),
+  },
+  attachments: {
+    create: (data: { nodeId: BatchId; fileName: string; fileUrl: string }): WriteOperation => ({
+      method: 'POST', endpoint: '/api/attachments', body: data,
+    }),
+  },
+  tags: {
+    create: (data: { name: string; color?: string; userId?: string }): WriteOperation => ({
+      method: 'POST', endpoint: '/api/tags', body: data,
+    }),
+  },
+  relationshipTypes: {
+    create: (data: Omit<RelationshipType, 'id' | 'createdAt'>): WriteOperation => ({
+      method: 'POST', endpoint: '/api/relationship-types', body: pick(data, 'projectId', 'key', 'label', 'lineStyle'),
+    }),
+  },
+};
+
+function sendWrite<T>(op: WriteOperation): Promise<T> {
+  if (op.entity) return mutateApi<T>(op.entity, op.endpoint, op.method, op.body);
+  const schema = (writeResultSchema(op.method, op.endpoint) ?? undefined) as Schema<T> | undefined;
+  return op.body === undefined
+    ? fetchApi<T>(op.endpoint, { method: op.method, schema })
+    : fetchApiWithBody<T>(op.endpoint, op.method, op.body, { schema });
+}
+
+// Answers the queue made up while offline have drawing points still as a string
+function parseWriteResult(op: WriteOperation, result: unknown): unknown {
+  const isDrawing = op.entity === 'drawing' && result && typeof result === 'object' && 'points' in result;
+  return isDrawing ? parseDrawing(result as { points: unknown }) : result;
+}
+
+/**
+ * Apply several writes as one all-or-nothing request. Results come back in
+ * the order of `operations`; a refusal throws BatchError naming the
+ * operations at fault. A write can use the id of an earlier one through
+ * batchRef. Offline, or behind edits that are still queued, the writes go one
+ * at a time through the queue instead, like single edits do, with references
+ * resolved here as each answer comes back.
+ */
+async function sendBatch(operations: WriteOperation[]): Promise<unknown[]> {
+  if (operations.length === 0) return [];
+
+  await loadQueue();
+  const isOnline = getBackend().mode === 'local' || typeof navigator === 'undefined' || navigator.onLine;
+  if (operations.length > 1 && getPendingCount() === 0 && isOnline) {
+    let response: BatchResponse | null = null;
+    try {
+      response = await fetchApiWithBody<BatchResponse>('/api/batch', 'POST', { atomic: true, operations });
+    } catch (err) {
+      // The request never got an answer; queue the writes below
+      if (!isNetworkError(err)) throw err;
+    }
+    if (response) {
+      if (!response.applied) {
+        throw new BatchError(response.results.flatMap((result, index) => result.status >= 400
+          ? [{ index, status: result.status, message: result.error || `API Error: ${result.status}` }]
+          : []));
+      }
+      return response.results.map((result, i) => {
+        const op = operations[i];
+        if (result.body === undefined || result.body === null) return result.body;
+        return checkResponse(op.endpoint, result.body, result.status, writeResultSchema(op.method, op.endpoint) ?? undefined);
+      });
+    }
+  }
+
+  const results: unknown[] = [];
+  const idOf = (index: number) => (results[index] as { id?: number } | undefined)?.id;
+  for (const op of operations) {
+    const resolved = resolveBatchRefs(op, idOf);
+    results.push(parseWriteResult(resolved, await sendWrite(resolved)));
+  }
+  return results;
+}
+
+
+// API stores drawing points as a JSON string
+function parseDrawing<T extends { points: unknown }>(drawing: T): T {
+  return { ...drawing, points: typeof drawing.points === 'string' ? JSON.parse(drawing.points) : drawing.points };
+}
+
 export const api = {
   auth: {
     register: (data: RegisterRequest) =>
-      fetchApiWithBody<Profile>('/api/auth/register', 'POST', data),
+      fetchApiWithBody('/api/auth/register', 'POST', data, { schema: profileSchema }),
     
     login: (data: Pick<RegisterRequest, 'email' | 'password'>) =>
-      fetchApiWithBody<Profile>('/api/auth/login', 'POST', data),
+      fetchApiWithBody('/api/auth/login', 'POST', data, { schema: profileSchema }),
   },
 
   projects: {
-    getByUser: (userId: string) =>
-      fetchApi<Project[]>(`/api/projects?userId=${userId}`),
+    getByUser: (userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/projects?userId=${userId}`, { schema: s.array(projectSchema), ...options }),
     
-    getById: (id: number) =>
-      fetchApi<Project>(`/api/projects/${id}`),
+    getById: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/projects/${id}`, { schema: projectSchema, ...options }),
+
+    // The whole graph of a project in one request
+    getSnapshot: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/projects/${id}/snapshot`, { schema: snapshotSchema, ...options }),
+
+    // Changes made after the revision of an earlier snapshot or change set
+    getChanges: (id: number, sinceRevision: number, options?: RequestOptions) =>
+      fetchApi(`/api/projects/${id}/changes?since=${sinceRevision}`, { schema: changeSetSchema, suppressLog: true, ...options }),
     
     create: (data: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>) => {
-        const payload = pick(data, 'name', 'description', 'color', 'userId', 'wallpaper');
-        return fetchApiWithBody<Project>('/api/projects', 'POST', payload);
+        const payload = pick(data, 'name', 'description', 'color', 'userId', 'wallpaper', 'forkedFromId');
+        return fetchApiWithBody('/api/projects', 'POST', payload, { schema: projectSchema });
     },
     
     update: (id: number, data: Partial<Project>) => {
         const payload = pick(data, 'id', 'name', 'description', 'color', 'userId', 'wallpaper');
-        return fetchApiWithBody<Project>(`/api/projects/${id}`, 'PUT', payload);
+        return fetchApiWithBody(`/api/projects/${id}`, 'PUT', payload, { schema: projectSchema });
     },
     
     delete: (id: number) =>
@@ -144,85 +463,95 @@ export const api = {
   },
 
   nodes: {
-    getByProject: (projectId: number) =>
-      fetchApi<Node[]>(`/api/nodes?projectId=${projectId}`),
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/nodes?projectId=${projectId}`, { schema: s.array(nodeSchema), ...options }),
     
-    getByUser: (userId: string) =>
-      fetchApi<Node[]>(`/api/nodes/user/${userId}`),
+    getByUser: (userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/nodes/user/${userId}`, { schema: s.array(nodeSchema), ...options }),
     
-    getById: (id: number) =>
-      fetchApi<Node>(`/api/nodes/${id}`),
+    getById: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/nodes/${id}`, { schema: nodeSchema, ...options }),
     
-    search: (query: string) =>
-      fetchApi<Node[]>(`/api/nodes/search?query=${encodeURIComponent(query)}`),
+    search: (query: string, options?: RequestOptions) =>
+      fetchApi(`/api/nodes/search?query=${encodeURIComponent(query)}`, { schema: s.array(nodeSchema), ...options }),
     
-    create: (data: Omit<Node, 'id' | 'createdAt' | 'updatedAt'>) => {
-      const payload = pick(data, 'title', 'content', 'groupId', 'projectId', 'userId', 'x', 'y', 'customColor');
-      return fetchApiWithBody<Node>('/api/nodes', 'POST', payload);
-    },
+    create: (data: Omit<Node, 'id' | 'createdAt' | 'updatedAt'>) =>
+      sendWrite<Node>(writes.nodes.create(data)),
     
-    update: (id: number, data: Partial<Node>) => {
-      const payload = pick(data, 'id', 'title', 'content', 'groupId', 'projectId', 'userId', 'x', 'y', 'customColor');
-      return fetchApiWithBody<Node>(`/api/nodes/${id}`, 'PUT', payload);
-    },
+    // With `version`, the API refuses the update with a ConflictError if the node has been saved since.
+    // Without it the update always wins; only moves should go out that way.
+    update: (id: number, data: Partial<Node>) =>
+      sendWrite<Node>(writes.nodes.update(id, data)),
     
     updatePosition: (id: number, x: number, y: number) =>
-      fetchApiWithBody<Node>(`/api/nodes/${id}`, 'PUT', { id, x, y }),
+      sendWrite<Node>(writes.nodes.update(id, { id, x, y })),
     
     delete: (id: number) =>
-      fetchApi<void>(`/api/nodes/${id}`, { method: 'DELETE', suppressLog: true }),
+      sendWrite<void>(writes.nodes.delete(id)),
     
     addTag: (nodeId: number, tagId: number) =>
-      fetchApi<void>(`/api/nodes/${nodeId}/tags/${tagId}`, { method: 'POST' }),
+      sendWrite<void>(writes.nodes.addTag(nodeId, tagId)),
     
     removeTag: (nodeId: number, tagId: number) =>
       fetchApi<void>(`/api/nodes/${nodeId}/tags/${tagId}`, { method: 'DELETE' }),
   },
 
   links: {
-    getAll: () =>
-      fetchApi<Link[]>('/api/links'),
+    getByNode: (nodeId: number, options?: RequestOptions) =>
+      fetchApi(`/api/links/node/${nodeId}`, { schema: s.array(linkSchema), ...options }),
     
-    getByNode: (nodeId: number) =>
-      fetchApi<Link[]>(`/api/links/node/${nodeId}`),
+    getByUser: (userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/links/user/${userId}`, { schema: s.array(linkSchema), ...options }),
     
-    getByUser: (userId: string) =>
-      fetchApi<Link[]>(`/api/links/user/${userId}`),
+    getById: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/links/${id}`, { schema: linkSchema, ...options }),
     
-    getById: (id: number) =>
-      fetchApi<Link>(`/api/links/${id}`),
+    create: (data: Parameters<typeof writes.links.create>[0]) =>
+      sendWrite<Link>(writes.links.create(data)),
     
-    create: (data: { sourceId: number; targetId: number; description?: string; userId?: string; color?: string }) =>
-      fetchApiWithBody<Link>('/api/links', 'POST', data),
+    // Checked against `version` like api.nodes.update
+    update: (id: number, data: Partial<Link>) =>
+      sendWrite<Link>(writes.links.update(id, data)),
     
-    update: (id: number, data: Partial<Link>) => {
-      const payload = pick(data, 'id', 'sourceId', 'targetId', 'color', 'description', 'userId');
-      return fetchApiWithBody<Link>(`/api/links/${id}`, 'PUT', payload);
+    delete: (id: number) =>
+      sendWrite<void>(writes.links.delete(id)),
+  },
+
+  relationshipTypes: {
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/relationship-types?projectId=${projectId}`, { schema: s.array(relationshipTypeSchema), suppressLog: true, ...options }),
+
+    create: (data: Omit<RelationshipType, 'id' | 'createdAt'>) =>
+      sendWrite<RelationshipType>(writes.relationshipTypes.create(data)),
+
+    update: (id: number, data: Partial<RelationshipType>) => {
+      const payload = pick(data, 'id', 'projectId', 'key', 'label', 'lineStyle');
+      return fetchApiWithBody(`/api/relationship-types/${id}`, 'PUT', payload, { schema: relationshipTypeSchema });
     },
-    
+
     delete: (id: number) =>
-      fetchApi<void>(`/api/links/${id}`, { method: 'DELETE' }),
+      fetchApi<void>(`/api/relationship-types/${id}`, { method: 'DELETE' }),
   },
 
   tags: {
-    getAll: () =>
-      fetchApi<Tag[]>('/api/tags'),
+    getAll: (options?: RequestOptions) =>
+      fetchApi('/api/tags', { schema: s.array(tagSchema), ...options }),
     
-    getByUser: (userId: string) =>
-      fetchApi<Tag[]>(`/api/tags/user/${userId}`),
+    getByUser: (userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/tags/user/${userId}`, { schema: s.array(tagSchema), ...options }),
     
-    getById: (id: number) =>
-      fetchApi<Tag>(`/api/tags/${id}`),
+    getById: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/tags/${id}`, { schema: tagSchema, ...options }),
     
-    getByName: (name: string) =>
-      fetchApi<Tag>(`/api/tags/name/${encodeURIComponent(name)}`),
+    getByName: (name: string, options?: RequestOptions) =>
+      fetchApi(`/api/tags/name/${encodeURIComponent(name)}`, { schema: tagSchema, ...options }),
     
     create: (data: { name: string; color?: string; userId?: string }) =>
-      fetchApiWithBody<Tag>('/api/tags', 'POST', data),
+      sendWrite<Tag>(writes.tags.create(data)),
     
     update: (id: number, data: Partial<Tag>) => {
         const payload = pick(data, 'id', 'name', 'color', 'userId');
-        return fetchApiWithBody<Tag>(`/api/tags/${id}`, 'PUT', payload);
+        return fetchApiWithBody(`/api/tags/${id}`, 'PUT', payload, { schema: tagSchema });
     },
     
     delete: (id: number) =>
@@ -230,129 +559,185 @@ export const api = {
   },
 
   attachments: {
-    getByNode: (nodeId: number) =>
-      fetchApi<Attachment[]>(`/api/attachments?nodeId=${nodeId}`),
+    getByNode: (nodeId: number, options?: RequestOptions) =>
+      fetchApi(`/api/attachments?nodeId=${nodeId}`, { schema: s.array(attachmentSchema), ...options }),
     
-    getById: (id: number) =>
-      fetchApi<Attachment>(`/api/attachments/${id}`),
+    getById: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/attachments/${id}`, { schema: attachmentSchema, ...options }),
     
     create: (data: { nodeId: number; fileName: string; fileUrl: string }) =>
-      fetchApiWithBody<Attachment>('/api/attachments', 'POST', data),
+      sendWrite<Attachment>(writes.attachments.create(data)),
     
     delete: (id: number) =>
       fetchApi<void>(`/api/attachments/${id}`, { method: 'DELETE' }),
   },
 
   groups: {
-    getByProject: (projectId: number) =>
-      fetchApi<{ id: number; name: string; color: string; order: number; projectId: number | null }[]>(`/api/groups?projectId=${projectId}`),
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/groups?projectId=${projectId}`, { schema: s.array(groupSchema), ...options }),
     
-    getById: (id: number) =>
-      fetchApi<{ id: number; name: string; color: string; order: number; projectId: number | null }>(`/api/groups/${id}`),
+    getById: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/groups/${id}`, { schema: groupSchema, ...options }),
 
     create: (data: { name: string; color: string; order?: number; projectId: number }) =>
-      fetchApiWithBody<{ id: number; name: string; color: string; order: number; projectId: number }>('/api/groups', 'POST', {
-        name: data.name,
-        color: data.color,
-        order: data.order ?? 0,
-        projectId: data.projectId,
-      }),
-
-    update: (id: number, data: Partial<{ name: string; color: string; order: number; projectId: number }>) =>
-      fetchApiWithBody<{ id: number; name: string; color: string; order: number; projectId: number }>(`/api/groups/${id}`, 'PUT', {
-        id: id,
-        ...data,
-      }, true),
+      sendWrite<GroupData & { id: number }>(writes.groups.create(data)),
+
+    update: (id: number, data: Partial<GroupData>) =>
+      sendWrite<GroupData & { id: number }>(writes.groups.update(id, data)),
 
     delete: (id: number) =>
-      fetchApi<void>(`/api/groups/${id}`, { method: 'DELETE', suppressLog: true }),
+      sendWrite<void>(writes.groups.delete(id)),
 
     reorder: (sortedIds: number[]) =>
-      fetchApiWithBody<void>('/api/groups/reorder', 'PUT', sortedIds, true),
+      fetchApiWithBody<void>('/api/groups/reorder', 'PUT', sortedIds, { suppressLog: true }),
   },
 
+  progress: {
+    getByProject: (projectId: number, userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/progress?projectId=${projectId}&userId=${encodeURIComponent(userId)}`, { schema: s.array(progressSchema), suppressLog: true, ...options }),
+
+    getByUser: (userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/progress/user/${encodeURIComponent(userId)}`, { schema: s.array(progressSchema), suppressLog: true, ...options }),
+
+    set: (data: { nodeId: number; projectId: number; userId: string; status: StudyStatus }) =>
+      fetchApiWithBody('/api/progress', 'PUT', data, { schema: progressSchema, suppressLog: true }),
+  },
+
+  flashcards: {
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/flashcards?projectId=${projectId}`, { schema: s.array(flashcardSchema), suppressLog: true, ...options }),
+
+    create: (data: Omit<Flashcard, 'id' | 'createdAt'>) => {
+      const payload = pick(data, 'nodeId', 'projectId', 'question', 'answer');
+      return fetchApiWithBody('/api/flashcards', 'POST', payload, { schema: flashcardSchema });
+    },
+
+    update: (id: number, data: Partial<Flashcard>) => {
+      const payload = pick(data, 'question', 'answer');
+      return fetchApiWithBody(`/api/flashcards/${id}`, 'PUT', { id, ...payload }, { schema: flashcardSchema });
+    },
+
+    delete: (id: number) =>
+      fetchApi<void>(`/api/flashcards/${id}`, { method: 'DELETE', suppressLog: true }),
+
+    getSchedules: (projectId: number, userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/flashcards/reviews?projectId=${projectId}&userId=${encodeURIComponent(userId)}`, { schema: s.array(cardScheduleSchema), suppressLog: true, ...options }),
+
+    // Appends to the review history and stores the resulting schedule
+    recordReview: (data: { review: ReviewLogEntry; schedule: CardSchedule }) =>
+      fetchApiWithBody('/api/flashcards/reviews', 'POST', data, { schema: cardScheduleSchema, suppressLog: true }),
+  },
+
+  revisions: {
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/revisions?projectId=${projectId}`, { schema: s.array(revisionSchema), suppressLog: true, ...options }),
+
+    // Ids are made on the client, so saving a revision again replaces it
+    save: (revision: Revision) =>
+      fetchApiWithBody(`/api/revisions/${revision.id}`, 'PUT', revision, { schema: revisionSchema, suppressLog: true }),
+  },
+
+  members: {
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/project-members?projectId=${projectId}`, { schema: s.array(projectMemberSchema), ...options }),
+
+    // Invitations and shared projects of a user
+    getByUser: (userId: string, options?: RequestOptions) =>
+      fetchApi(`/api/project-members?userId=${encodeURIComponent(userId)}`, { schema: s.array(projectMemberSchema), suppressLog: true, ...options }),
+
+    create: (data: Omit<ProjectMember, 'id' | 'createdAt'>) => {
+      const payload = pick(data, 'projectId', 'userId', 'email', 'displayName', 'role', 'status', 'invitedBy');
+      return fetchApiWithBody('/api/project-members', 'POST', payload, { schema: projectMemberSchema });
+    },
+
+    update: (id: number, data: Partial<Pick<ProjectMember, 'role' | 'status'>>) =>
+      fetchApiWithBody(`/api/project-members/${id}`, 'PUT', { id, ...data }, { schema: projectMemberSchema }),
+
+    delete: (id: number) =>
+      fetchApi<void>(`/api/project-members/${id}`, { method: 'DELETE' }),
+  },
+  shareLinks: {
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/share-links?projectId=${projectId}`, { schema: s.array(shareLinkSchema), ...options }),
+
+    // `passwordHash` comes from hashSharePassword
+    create: (data: Pick<ShareLink, 'projectId' | 'token' | 'createdBy' | 'expiresAt'> & { passwordHash: string | null }) => {
+      const payload = pick(data, 'projectId', 'token', 'createdBy', 'passwordHash', 'expiresAt');
+      return fetchApiWithBody('/api/share-links', 'POST', { ...payload, viewCount: 0 }, { schema: shareLinkSchema });
+    },
+
+    // Its own endpoint rather than a PUT, which would have to send every field back
+    revoke: (id: number) =>
+      fetchApi(`/api/share-links/${id}/revoke`, { method: 'POST', schema: shareLinkSchema }),
+  },
+  comments: {
+    getThreads: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/comment-threads?projectId=${projectId}`, { schema: s.array(commentThreadSchema), ...options }),
+
+    createThread: (data: Omit<CommentThread, 'id' | 'createdAt'>) => {
+      const payload = pick(data, 'projectId', 'nodeId', 'linkId', 'x', 'y', 'createdBy');
+      return fetchApiWithBody('/api/comment-threads', 'POST', payload, { schema: commentThreadSchema });
+    },
+
+    updateThread: (id: number, data: Partial<Pick<CommentThread, 'resolvedAt' | 'resolvedBy'>>) =>
+      fetchApiWithBody(`/api/comment-threads/${id}`, 'PUT', { id, ...data }, { schema: commentThreadSchema }),
+
+    getByProject: (projectId: number, options?: RequestOptions) =>
+      fetchApi(`/api/comments?projectId=${projectId}`, { schema: s.array(commentSchema), ...options }),
+
+    create: (data: Omit<ProjectComment, 'id' | 'createdAt'>) => {
+      // API expects Mentions as a JSON string
+      const payload = {
+        ...pick(data, 'threadId', 'projectId', 'userId', 'authorName', 'body'),
+        mentions: JSON.stringify(data.mentions),
+      };
+      return fetchApiWithBody('/api/comments', 'POST', payload, { schema: commentSchema });
+    },
+
+    delete: (id: number) =>
+      fetchApi<void>(`/api/comments/${id}`, { method: 'DELETE' }),
+  },
   profiles: {
-    getById: (id: string) =>
-      fetchApi<Profile>(`/api/profiles/${id}`),
+    getById: (id: string, options?: RequestOptions) =>
+      fetchApi(`/api/profiles/${id}`, { schema: profileSchema, ...options }),
     
-    getByEmail: (email: string, provider?: string, suppressLog: boolean = false) => {
+    getByEmail: (email: string, provider?: string, suppressLog: boolean = false, options?: RequestOptions) => {
       let url = `/api/profiles/email/${encodeURIComponent(email)}`;
       if (provider) url += `?provider=${encodeURIComponent(provider)}`;
-      return fetchApi<Profile>(url, { suppressLog });
+      return fetchApi(url, { schema: profileSchema, suppressLog, ...options });
     },
     
     update: (id: string, data: Partial<Profile>) =>
-      fetchApiWithBody<Profile>(`/api/profiles/${id}`, 'PUT', data),
+      fetchApiWithBody(`/api/profiles/${id}`, 'PUT', data, { schema: profileSchema }),
   },
 
   drawings: {
-    getByProject: async (projectId: number, groupId?: number) => {
+    getByProject: (projectId: number, groupId?: number, options?: RequestOptions) => {
       let url = `/api/drawings?projectId=${projectId}`;
       if (groupId !== undefined) url += `&groupId=${groupId}`;
-      const drawings = await fetchApi<DrawnShape[]>(url);
-      return drawings.map(d => ({
-        ...d,
-        points: typeof d.points === 'string' ? JSON.parse(d.points) : d.points
-      }));
+      return fetchApi(url, { schema: s.array(drawingSchema), ...options });
     },
     
-    getById: async (id: number) => {
-      const d = await fetchApi<DrawnShape>(`/api/drawings/${id}`);
-      return {
-        ...d,
-        points: typeof d.points === 'string' ? JSON.parse(d.points) : d.points
-      };
-    },
+    getById: (id: number, options?: RequestOptions) =>
+      fetchApi(`/api/drawings/${id}`, { schema: drawingSchema, ...options }),
     
-    create: (data: {
-      projectId: number;
-      type: string;
-      points: { x: number; y: number }[];
-      color: string;
-      width?: number;
-      style: string;
-      text?: string;
-      fontSize?: number;
-      fontFamily?: string;
-      groupId?: number;
-    }) => {
-      // API expects Points as a JSON string
-      const payload = {
-        ...data,
-        points: JSON.stringify(data.points)
-      };
-      
-      return fetchApiWithBody<any>('/api/drawings', 'POST', payload)
-        .then(d => ({
-          ...d,
-          points: typeof d.points === 'string' ? JSON.parse(d.points) : d.points
-        })) as Promise<DrawnShape>;
-    },
+    create: (data: DrawingData) =>
+      sendWrite<DrawnShape>(writes.drawings.create(data)).then(parseDrawing),
     
-    update: (id: number, data: Partial<{
-      type: string;
-      points: { x: number; y: number }[];
-      color: string;
-      width: number;
-      style: string;
-      text: string;
-      fontSize: number;
-      fontFamily: string;
-      groupId: number;
-    }>) => {
-      const payload: any = { ...data };
-      if (data.points) {
-          payload.points = JSON.stringify(data.points);
-      }
-      return fetchApiWithBody<any>(`/api/drawings/${id}`, 'PUT', payload)
-        .then(d => ({
-            ...d,
-            points: typeof d.points === 'string' ? JSON.parse(d.points) : d.points
-        })) as Promise<DrawnShape>;
-    },
+    update: (id: number, data: Partial<Omit<DrawingData, 'projectId'>>) =>
+      sendWrite<DrawnShape>(writes.drawings.update(id, data)).then(parseDrawing),
     
     delete: (id: number) =>
-      fetchApi<void>(`/api/drawings/${id}`, { method: 'DELETE' }),
+      sendWrite<void>(writes.drawings.delete(id)),
+  },
+
+  // Several writes applied together, all or nothing; build them with `writes`
+  batch: (operations: WriteOperation[]) =>
+    sendBatch(operations),
+
+  offline: {
+    // Send queued graph edits, oldest first
+    replay: () => replayQueue(sendMutation),
   },
 };
 
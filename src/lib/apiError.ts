@@ -0,0 +1,61 @@
+export type ApiErrorCode =
+  | 'network' // No answer at all: offline, DNS, CORS, the server down
+  | 'http' // The API answered with an error status
+  | 'conflict' // See ConflictError
+  | 'invalid_response'; // The API answered with something that doesn't match its schema
+
+export interface ApiErrorOptions {
+  code?: ApiErrorCode;
+  fieldErrors?: Record<string, string[]>;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// Worth sending again as is: no answer, a timeout, rate limiting or a server fault
+export function isRetryableStatus(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * A request the API refused, or never answered (`status` 0). Validation
+ * failures carry `fieldErrors`, keyed by the camelCase field name, so forms
+ * can show each message next to its input.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly fieldErrors: Record<string, string[]>;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(message: string, status: number, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = options.code ?? (status === 0 ? 'network' : 'http');
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.retryable = options.retryable ?? isRetryableStatus(status);
+    this.cause = options.cause;
+  }
+
+  // First message for a field, if the API had anything to say about it
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+}
+
+/**
+ * An update carried a `version` the API has moved past: someone else saved
+ * first. `current` is their copy, to merge with before trying again.
+ */
+export class ConflictError<T = unknown> extends ApiError {
+  constructor(message: string, public readonly current: T | null) {
+    super(message, 409, { code: 'conflict', retryable: false });
+    this.name = 'ConflictError';
+  }
+}
+
+// The request never got an answer. Plain fetch rejects with a TypeError then
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof ApiError ? err.code === 'network' : err instanceof TypeError;
+}
@@ -0,0 +1,298 @@
+import type {
+  Project, Node, Link, Tag, Attachment, Group, Profile, DrawnShape, RelationshipType, NodeProgress, Flashcard,
+  CardSchedule, Revision, RevisionEntity, RevisionSnapshot, ProjectMember, ShareLink, CommentThread, ProjectComment,
+  ProjectSnapshot, ProjectChange, ProjectChangeSet,
+} from '@/types/knowledge';
+import { s, type Schema } from './schema';
+
+// What fetchApi checks each response against, one per type in knowledge.ts.
+// Relations the API doesn't send (Node.group, Link.source, ...) are left out.
+
+const id = s.number();
+const date = s.string();
+const strokeStyle = s.oneOf('solid', 'dashed', 'dotted');
+
+export const projectSchema: Schema<Project> = s.object({
+  id,
+  name: s.string(),
+  description: s.optional(s.string()),
+  color: s.optional(s.string()),
+  wallpaper: s.optional(s.nullable(s.string())),
+  userId: s.string(),
+  forkedFromId: s.optional(s.nullable(s.number())),
+  createdAt: date,
+  updatedAt: date,
+});
+
+export const attachmentSchema: Schema<Attachment> = s.object({
+  id,
+  nodeId: s.number(),
+  fileName: s.string(),
+  fileUrl: s.string(),
+  contentType: s.optional(s.string()),
+  fileSize: s.optional(s.number()),
+  createdAt: s.optional(date),
+});
+
+export const tagSchema: Schema<Tag> = s.object({
+  id,
+  name: s.string(),
+  color: s.optional(s.string()),
+  userId: s.optional(s.string()),
+  createdAt: date,
+});
+
+// Groups as the API has them, with the project they belong to
+export const groupSchema: Schema<Group & { projectId?: number | null }> = s.object({
+  id,
+  name: s.string(),
+  color: s.string(),
+  order: s.number(),
+  projectId: s.optional(s.nullable(s.number())),
+});
+
+export const nodeSchema: Schema<Node> = s.object({
+  id,
+  title: s.string(),
+  content: s.optional(s.nullable(s.string())),
+  groupId: s.number(),
+  projectId: s.optional(s.nullable(s.number())),
+  userId: s.optional(s.nullable(s.string())),
+  x: s.optional(s.nullable(s.number())),
+  y: s.optional(s.nullable(s.number())),
+  customColor: s.optional(s.nullable(s.string())),
+  version: s.optional(s.number()),
+  createdAt: date,
+  updatedAt: date,
+  tags: s.optional(s.array(tagSchema)),
+  attachments: s.optional(s.array(attachmentSchema)),
+});
+
+export const linkSchema: Schema<Link> = s.object({
+  id,
+  sourceId: s.number(),
+  targetId: s.number(),
+  color: s.string(),
+  description: s.optional(s.nullable(s.string())),
+  relationshipType: s.optional(s.nullable(s.string())),
+  isBidirectional: s.optional(s.boolean()),
+  userId: s.optional(s.nullable(s.string())),
+  version: s.optional(s.number()),
+  createdAt: date,
+});
+
+export const relationshipTypeSchema: Schema<RelationshipType> = s.object({
+  id,
+  projectId: s.number(),
+  key: s.string(),
+  label: s.string(),
+  lineStyle: s.oneOf('solid', 'dashed', 'dotted', 'dash-dot'),
+  createdAt: s.optional(date),
+});
+
+// Points travel as a JSON string and come out parsed
+export const drawingSchema: Schema<DrawnShape> = s.object({
+  id,
+  projectId: s.number(),
+  type: s.oneOf('pan', 'select', 'rectangle', 'diamond', 'circle', 'arrow', 'line', 'pen', 'text', 'eraser'),
+  points: s.json(s.array(s.object({ x: s.number(), y: s.number() })), []),
+  color: s.string(),
+  width: s.number(),
+  style: strokeStyle,
+  text: s.optional(s.nullable(s.string())),
+  fontSize: s.optional(s.nullable(s.number())),
+  fontFamily: s.optional(s.nullable(s.string())),
+  groupId: s.optional(s.nullable(s.number())),
+  createdAt: s.optional(date),
+  updatedAt: s.optional(date),
+});
+
+export const profileSchema: Schema<Profile> = s.object({
+  id: s.string(),
+  email: s.optional(s.nullable(s.string())),
+  displayName: s.optional(s.nullable(s.string())),
+  avatarUrl: s.optional(s.nullable(s.string())),
+  createdAt: date,
+  updatedAt: date,
+  provider: s.optional(s.string()),
+});
+
+export const progressSchema: Schema<NodeProgress> = s.object({
+  nodeId: s.number(),
+  projectId: s.number(),
+  userId: s.nullable(s.string()),
+  status: s.oneOf('not-started', 'learning', 'mastered'),
+  updatedAt: date,
+});
+
+export const flashcardSchema: Schema<Flashcard> = s.object({
+  id,
+  nodeId: s.number(),
+  projectId: s.number(),
+  question: s.string(),
+  answer: s.string(),
+  createdAt: s.optional(date),
+});
+
+export const cardScheduleSchema: Schema<CardSchedule> = s.object({
+  cardId: s.number(),
+  userId: s.nullable(s.string()),
+  easeFactor: s.number(),
+  interval: s.number(),
+  repetitions: s.number(),
+  dueAt: date,
+  lastReviewedAt: s.optional(s.nullable(date)),
+});
+
+export const projectMemberSchema: Schema<ProjectMember> = s.object({
+  id,
+  projectId: s.number(),
+  userId: s.string(),
+  email: s.string(),
+  displayName: s.optional(s.nullable(s.string())),
+  role: s.oneOf('editor', 'commenter', 'viewer'),
+  status: s.oneOf('pending', 'accepted'),
+  invitedBy: s.string(),
+  createdAt: date,
+});
+
+const shareLinkBase = s.object({
+  id,
+  projectId: s.number(),
+  token: s.string(),
+  createdBy: s.string(),
+  passwordHash: s.optional(s.nullable(s.string())),
+  expiresAt: s.optional(s.nullable(date)),
+  revokedAt: s.optional(s.nullable(date)),
+  viewCount: s.number(),
+  createdAt: date,
+});
+
+// Whether there is a password is all the app needs; the hash is dropped here
+export const shareLinkSchema: Schema<ShareLink> = {
+  parse: (value, path = '') => {
+    const { passwordHash, ...link } = shareLinkBase.parse(value, path);
+    return { ...link, hasPassword: !!passwordHash };
+  },
+};
+
+export const commentThreadSchema: Schema<CommentThread> = s.object({
+  id,
+  projectId: s.number(),
+  nodeId: s.optional(s.nullable(s.number())),
+  linkId: s.optional(s.nullable(s.number())),
+  x: s.optional(s.nullable(s.number())),
+  y: s.optional(s.nullable(s.number())),
+  createdBy: s.string(),
+  resolvedAt: s.optional(s.nullable(date)),
+  resolvedBy: s.optional(s.nullable(s.string())),
+  createdAt: date,
+});
+
+// Mentions travel as a JSON string, empty when there are none
+export const commentSchema: Schema<ProjectComment> = s.object({
+  id,
+  threadId: s.number(),
+  projectId: s.number(),
+  userId: s.string(),
+  authorName: s.string(),
+  body: s.string(),
+  mentions: s.json(s.array(s.string()), []),
+  createdAt: date,
+});
+
+const SNAPSHOT_SCHEMAS: Record<RevisionEntity, Schema<RevisionSnapshot>> = {
+  node: nodeSchema,
+  link: linkSchema,
+  drawing: drawingSchema,
+  group: groupSchema,
+};
+const revisionEntity = s.oneOf('node', 'link', 'drawing', 'group');
+const revisionAction = s.oneOf('create', 'update', 'delete');
+
+function snapshotOf(entity: RevisionEntity, value: unknown, path: string): RevisionSnapshot | null {
+  return s.nullable(SNAPSHOT_SCHEMAS[entity]).parse(value, path);
+}
+
+const recordedId = s.object({ id });
+
+// Revision snapshots are recorded by the app from whatever it had at the
+// time, possibly an edit still waiting to be sent, so only the id is checked
+function recordedSnapshot(value: unknown, path: string): RevisionSnapshot | null {
+  if (value === null || value === undefined) return null;
+  recordedId.parse(value, path);
+  return value as RevisionSnapshot;
+}
+
+const revisionBase = s.object({
+  id: s.string(),
+  projectId: s.number(),
+  entity: revisionEntity,
+  entityId: s.number(),
+  action: revisionAction,
+  userId: s.nullable(s.string()),
+  createdAt: date,
+});
+
+export const revisionSchema: Schema<Revision> = {
+  parse: (value, path = '') => {
+    const revision = revisionBase.parse(value, path);
+    const raw = value as Record<string, unknown>;
+    return {
+      ...revision,
+      before: recordedSnapshot(raw.before, `${path}.before`),
+      after: recordedSnapshot(raw.after, `${path}.after`),
+    };
+  },
+};
+
+const changeBase = s.object({
+  revision: s.number(),
+  entity: revisionEntity,
+  entityId: s.number(),
+  action: revisionAction,
+});
+
+// Snapshots are checked against the schema for the change's entity
+const changeSchema: Schema<ProjectChange> = {
+  parse: (value, path = '') => {
+    const change = changeBase.parse(value, path);
+    return { ...change, snapshot: snapshotOf(change.entity, (value as Record<string, unknown>).snapshot ?? null, `${path}.snapshot`) };
+  },
+};
+
+export const changeSetSchema: Schema<ProjectChangeSet> = s.object({
+  revision: s.number(),
+  changes: s.array(changeSchema),
+  reset: s.optional(s.boolean()),
+});
+
+export const snapshotSchema: Schema<ProjectSnapshot> = s.object({
+  project: projectSchema,
+  groups: s.array(groupSchema),
+  nodes: s.array(nodeSchema),
+  links: s.array(linkSchema),
+  drawings: s.array(drawingSchema),
+  relationshipTypes: s.array(relationshipTypeSchema),
+  revision: s.number(),
+});
+
+/**
+ * What a single write answers with, so results of batches and queued edits
+ * get the same checks as plain requests. Writes that answer nothing have none.
+ */
+export function writeResultSchema(method: string, endpoint: string): Schema<unknown> | null {
+  if (method === 'DELETE') return null;
+  const [resource, , sub] = endpoint.replace(/^\/api\//, '').split(/[/?]/);
+  if (sub) return null; // nodes/:id/tags/:tagId and the like
+  const schemas: Record<string, Schema<unknown>> = {
+    'nodes': nodeSchema,
+    'links': linkSchema,
+    'drawings': drawingSchema,
+    'groups': groupSchema,
+    'attachments': attachmentSchema,
+    'tags': tagSchema,
+    'relationship-types': relationshipTypeSchema,
+  };
+  return schemas[resource] ?? null;
+}
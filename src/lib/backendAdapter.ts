@@ -0,0 +1,70 @@
+// Where API requests go: the HTTP API that NEXT_PUBLIC_API_URL points to,
+// or the in-browser backend in localBackend.ts
+
+export type BackendMode = 'http' | 'local';
+
+export interface BackendAdapter {
+  mode: BackendMode;
+  // Same contract as fetch, for API paths such as /api/nodes/1
+  fetch: (endpoint: string, init: RequestInit) => Promise<Response>;
+}
+
+const MODE_KEY = 'nexus_backend';
+
+const RAW_API_URL = process.env.NEXT_PUBLIC_API_URL || process.env.NEXT_PRIVATE_API_URL?.trim() || '';
+const API_BASE_URL = RAW_API_URL.endsWith('/') ? RAW_API_URL.slice(0, -1) : RAW_API_URL;
+
+// NEXT_PUBLIC_BACKEND=local runs every browser against the local backend (development, UI tests)
+const FORCED_MODE: BackendMode | null = process.env.NEXT_PUBLIC_BACKEND === 'local' ? 'local' : null;
+
+const httpBackend: BackendAdapter = {
+  mode: 'http',
+  fetch: (endpoint, init) => fetch(`${API_BASE_URL}${endpoint}`, init),
+};
+
+const localBackend: BackendAdapter = {
+  mode: 'local',
+  // Loaded on first use, so visitors of the real API never download it
+  fetch: async (endpoint, init) => {
+    const { handleLocalRequest } = await import('./localBackend');
+    return handleLocalRequest(endpoint, init);
+  },
+};
+
+// Set by setBackendMode for this page, in case storage is blocked
+let chosenMode: BackendMode | null = null;
+
+export function getBackendMode(): BackendMode {
+  if (FORCED_MODE) return FORCED_MODE;
+  if (chosenMode) return chosenMode;
+  if (typeof window === 'undefined') return 'http';
+  try {
+    return localStorage.getItem(MODE_KEY) === 'local' ? 'local' : 'http';
+  } catch {
+    return 'http';
+  }
+}
+
+// Whether this browser chose local mode itself and can leave it again
+export function canLeaveLocalMode(): boolean {
+  return !FORCED_MODE && getBackendMode() === 'local';
+}
+
+// Switch this browser over, for the "try without an account" demo. Takes effect on the next request.
+export function setBackendMode(mode: BackendMode) {
+  chosenMode = mode;
+  try {
+    if (mode === 'local') localStorage.setItem(MODE_KEY, 'local');
+    else localStorage.removeItem(MODE_KEY);
+  } catch {
+    // Storage is blocked; the choice lasts until the page reloads
+  }
+}
+
+export function getBackend(): BackendAdapter {
+  return getBackendMode() === 'local' ? localBackend : httpBackend;
+}
+
+if (!RAW_API_URL && !FORCED_MODE && typeof window !== 'undefined') {
+  console.warn('API URL is not defined. Requests will be relative to the domain and may fail if not proxying.');
+}
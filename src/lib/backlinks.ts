@@ -0,0 +1,53 @@
+import type { Node, Link } from '@/types/knowledge';
+
+// Shorter titles ("OS", "AI") match too much ordinary text to be useful
+const MIN_MENTION_LENGTH = 3;
+const EXCERPT_RADIUS = 40;
+
+export interface UnlinkedMention {
+  node: Node; // The node whose content mentions the title
+  excerpt: string;
+  count: number;
+}
+
+/**
+ * Links that lead into a node. Undirected links count from both ends.
+ */
+export function getIncomingLinks(links: Link[], nodeId: number): Link[] {
+  return links.filter(l => l.targetId === nodeId || (l.isBidirectional && l.sourceId === nodeId));
+}
+
+export function areNodesLinked(links: Link[], a: number, b: number): boolean {
+  return links.some(l => (l.sourceId === a && l.targetId === b) || (l.sourceId === b && l.targetId === a));
+}
+
+/**
+ * Nodes whose content mentions the target's title as a whole word but which
+ * have no link to or from it. A [[Title]] reference counts as a mention until
+ * a real link exists.
+ */
+export function findUnlinkedMentions(nodes: Node[], links: Link[], target: Pick<Node, 'id' | 'title'>): UnlinkedMention[] {
+  const title = target.title.trim();
+  if (title.length < MIN_MENTION_LENGTH) return [];
+
+  const escaped = title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}(?=$|[^\\p{L}\\p{N}])`, 'giu');
+
+  const mentions: UnlinkedMention[] = [];
+  nodes.forEach(node => {
+    if (node.id === target.id || !node.content || areNodesLinked(links, node.id, target.id)) return;
+
+    const matches = [...node.content.matchAll(pattern)];
+    if (matches.length === 0) return;
+
+    const first = matches[0];
+    const start = first.index! + first[1].length;
+    const from = Math.max(0, start - EXCERPT_RADIUS);
+    const to = Math.min(node.content.length, start + title.length + EXCERPT_RADIUS);
+    const excerpt = `${from > 0 ? '…' : ''}${node.content.slice(from, to).replace(/\s+/g, ' ').trim()}${to < node.content.length ? '…' : ''}`;
+
+    mentions.push({ node, excerpt, count: matches.length });
+  });
+
+  return mentions.sort((a, b) => b.count - a.count || a.node.title.localeCompare(b.node.title));
+}
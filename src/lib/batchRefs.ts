@@ -0,0 +1,46 @@
+// A write in a batch can depend on one made earlier in the same batch, such as
+// a node in a group the batch also creates. It names the earlier write by its
+// position, `$ref:<index>`, wherever the id would go: as one of the body's id
+// fields or as a segment of the endpoint. The API swaps in the id that write got
+// before applying the later one, so the whole batch stays one all-or-nothing
+// request. Other fields are left alone, so a title that reads `$ref:0` stays text.
+
+export type BatchRef = `$ref:${number}`;
+
+// An id, or the id an earlier write of the same batch is going to get
+export type BatchId = number | BatchRef;
+
+const WHOLE_REF = /^\$ref:(\d+)$/;
+// Body fields that hold an id, in either case since bodies are PascalCase once sent
+const ID_FIELDS = new Set(['groupId', 'nodeId', 'sourceId', 'targetId', 'projectId', 'tagId']);
+const ANY_REF = /\$ref:(\d+)/g;
+
+export function batchRef(index: number): BatchRef {
+  return `$ref:${index}`;
+}
+
+/**
+ * The endpoint and body with every reference replaced by the id it stands
+ * for. `idOf` answers for an earlier write's position, undefined when that
+ * write gave no id, which makes the reference an error.
+ */
+export function resolveBatchRefs<T extends { endpoint: string; body?: unknown }>(op: T, idOf: (index: number) => number | undefined): T {
+  const lookup = (index: string) => {
+    const id = idOf(Number(index));
+    if (id === undefined) throw new Error(`$ref:${index} points at a write that has no id`);
+    return id;
+  };
+  const resolve = (key: string, value: unknown): unknown => {
+    if (typeof value !== 'string' || !ID_FIELDS.has(key.charAt(0).toLowerCase() + key.slice(1))) return value;
+    const match = value.match(WHOLE_REF);
+    return match ? lookup(match[1]) : value;
+  };
+  const body = op.body && typeof op.body === 'object' && !Array.isArray(op.body)
+    ? Object.fromEntries(Object.entries(op.body).map(([key, value]) => [key, resolve(key, value)]))
+    : op.body;
+  return {
+    ...op,
+    endpoint: op.endpoint.replace(ANY_REF, (_, index: string) => String(lookup(index))),
+    body,
+  };
+}
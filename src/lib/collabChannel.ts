@@ -0,0 +1,73 @@
+import type { CollabMessage } from '@/types/knowledge';
+import { getBackendMode } from './backendAdapter';
+
+// Same origin by default, which is the in-process relay under /api/collab
+const COLLAB_BASE_URL = (process.env.NEXT_PUBLIC_COLLAB_URL || '').replace(/\/$/, '');
+
+/**
+ * The in-process relay keeps its rooms in one server process's memory, so
+ * every tab of a project has to reach the same process. That holds for
+ * `next dev` and a single Node server, turned on with
+ * NEXT_PUBLIC_COLLAB_RELAY=memory, but not on Cloudflare, where requests land
+ * on separate isolates. There it stays off unless NEXT_PUBLIC_COLLAB_URL
+ * points at a relay they all share.
+ */
+export const IN_PROCESS_RELAY = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_COLLAB_RELAY === 'memory';
+
+/**
+ * Whether there is a relay to join: a shared one at NEXT_PUBLIC_COLLAB_URL, or
+ * the in-process one where it works. The relay checks membership against the
+ * API, which can't see projects kept by the in-browser backend.
+ */
+export function isCollabAvailable(): boolean {
+  return (COLLAB_BASE_URL !== '' || IN_PROCESS_RELAY) && getBackendMode() !== 'local';
+}
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabChannel {
+  send: (message: CollabMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Subscribe to a project's collaboration channel. Messages come in over
+ * Server-Sent Events (which reconnect on their own) and go out as POSTs,
+ * sent one after another so other tabs see changes in the order they were made.
+ */
+export function openCollabChannel(
+  projectId: number,
+  sessionId: string,
+  onMessage: (message: CollabMessage) => void,
+  onStatus: (status: CollabStatus) => void
+): CollabChannel {
+  const url = `${COLLAB_BASE_URL}/api/collab/${projectId}`;
+  const source = new EventSource(`${url}?sessionId=${encodeURIComponent(sessionId)}`);
+  let outbox: Promise<unknown> = Promise.resolve();
+
+  onStatus('connecting');
+  source.onopen = () => onStatus('connected');
+  source.onerror = () => onStatus(source.readyState === EventSource.CLOSED ? 'disconnected' : 'connecting');
+  source.onmessage = (event) => {
+    try {
+      onMessage(JSON.parse(event.data) as CollabMessage);
+    } catch {
+      // Not ours
+    }
+  };
+
+  return {
+    send: (message) => {
+      outbox = outbox.then(() => fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+        keepalive: true,
+      })).catch(() => { });
+    },
+    close: () => {
+      source.close();
+      onStatus('disconnected');
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CollabMessage, PresenceState } from '@/types/knowledge';
+
+// Rooms are kept on globalThis, so each test starts from a fresh module and an empty map
+async function load() {
+  vi.resetModules();
+  delete (globalThis as { collabRooms?: unknown }).collabRooms;
+  return import('./collabRelay');
+}
+
+const editor = { userId: 'ada', canEdit: true };
+const viewer = { userId: 'bob', canEdit: false };
+
+function presence(sessionId: string, userId: string): PresenceState {
+  return { sessionId, userId, displayName: userId, color: '#fff', nodeId: null, cursor: null, lastSeen: '2026-01-01T00:00:00.000Z' };
+}
+
+const change: CollabMessage = { type: 'change', sessionId: 's1', entity: 'node', action: 'delete', id: 3, snapshot: null };
+
+describe('collab relay', () => {
+  let relay: Awaited<ReturnType<typeof load>>;
+
+  beforeEach(async () => {
+    relay = await load();
+  });
+
+  it('delivers what one tab publishes to the others in the room, not back to it', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const elsewhere = vi.fn();
+    relay.joinRoom(1, 's1', editor, first);
+    relay.joinRoom(1, 's2', viewer, second);
+    relay.joinRoom(2, 's3', editor, elsewhere);
+
+    expect(relay.publish(1, change, 's1', 'ada')).toBe(true);
+
+    expect(second).toHaveBeenLastCalledWith(change);
+    expect(first).toHaveBeenCalledTimes(1); // Only its welcome
+    expect(elsewhere).toHaveBeenCalledTimes(1);
+  });
+
+  it('welcomes a tab with who is already there, and tells the room when one leaves', () => {
+    const first = vi.fn();
+    relay.joinRoom(1, 's1', editor, first);
+    relay.publish(1, { type: 'presence', presence: presence('s1', 'ada') }, 's1', 'ada');
+
+    const second = vi.fn();
+    const leave = relay.joinRoom(1, 's2', viewer, second)!;
+    expect(second).toHaveBeenCalledWith({ type: 'welcome', peers: [presence('s1', 'ada')] });
+
+    leave();
+    expect(first).toHaveBeenLastCalledWith({ type: 'leave', sessionId: 's2' });
+  });
+
+  it('refuses messages from sessions that never joined or belong to someone else', () => {
+    const listener = vi.fn();
+    relay.joinRoom(1, 's1', editor, listener);
+
+    expect(relay.publish(1, { ...change, sessionId: 's9' }, 's9', 'ada')).toBe(false);
+    expect(relay.publish(1, change, 's1', 'mallory')).toBe(false);
+    expect(relay.publish(2, change, 's1', 'ada')).toBe(false);
+    expect(relay.joinRoom(1, 's1', { userId: 'mallory', canEdit: true }, vi.fn())).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets viewers share presence but not changes', () => {
+    const listener = vi.fn();
+    relay.joinRoom(1, 's1', editor, listener);
+    relay.joinRoom(1, 's2', viewer, vi.fn());
+
+    expect(relay.publish(1, { ...change, sessionId: 's2' }, 's2', 'bob')).toBe(false);
+    expect(relay.publish(1, { type: 'move', sessionId: 's2', positions: [] }, 's2', 'bob')).toBe(false);
+    expect(relay.publish(1, { type: 'presence', presence: presence('s2', 'bob') }, 's2', 'bob')).toBe(true);
+  });
+
+  it('stamps presence with the user the session joined as', () => {
+    const listener = vi.fn();
+    relay.joinRoom(1, 's1', editor, listener);
+    relay.joinRoom(1, 's2', viewer, vi.fn());
+
+    relay.publish(1, { type: 'presence', presence: presence('s1', 'ada') }, 's2', 'bob');
+
+    expect(listener).toHaveBeenLastCalledWith({ type: 'presence', presence: { ...presence('s1', 'ada'), sessionId: 's2', userId: 'bob' } });
+  });
+});
@@ -0,0 +1,90 @@
+import type { CollabMessage, PresenceState } from '@/types/knowledge';
+
+type Deliver = (message: CollabMessage) => void;
+
+// Who a connection belongs to, checked by the route when it joins
+export interface CollabMember {
+  userId: string;
+  canEdit: boolean;
+}
+
+interface Client extends CollabMember {
+  deliver: Deliver;
+}
+
+interface Room {
+  clients: Map<string, Client>;
+  presence: Map<string, PresenceState>;
+}
+
+// Rooms live in this server process's memory, so only tabs that reach the same
+// process meet; see IN_PROCESS_RELAY in collabChannel.ts for where that holds.
+// Kept on globalThis so dev-server reloads don't strand connected tabs in an old copy of the module
+const globalForRelay = globalThis as unknown as { collabRooms?: Map<number, Room> };
+const rooms = globalForRelay.collabRooms ?? (globalForRelay.collabRooms = new Map<number, Room>());
+
+function getRoom(projectId: number): Room {
+  let room = rooms.get(projectId);
+  if (!room) {
+    room = { clients: new Map(), presence: new Map() };
+    rooms.set(projectId, room);
+  }
+  return room;
+}
+
+function broadcast(room: Room, message: CollabMessage, fromSessionId: string) {
+  room.clients.forEach((client, sessionId) => {
+    if (sessionId !== fromSessionId) client.deliver(message);
+  });
+}
+
+/**
+ * Connect a member's tab to a project's room. It is told who is already
+ * there, and gets every message other tabs publish until the returned
+ * function is called. A session id already taken by someone else is refused
+ * with null.
+ */
+export function joinRoom(projectId: number, sessionId: string, member: CollabMember, deliver: Deliver): (() => void) | null {
+  const room = getRoom(projectId);
+  const existing = room.clients.get(sessionId);
+  if (existing && existing.userId !== member.userId) return null;
+
+  const client = { ...member, deliver };
+  room.clients.set(sessionId, client);
+  deliver({ type: 'welcome', peers: [...room.presence.values()].filter(p => p.sessionId !== sessionId) });
+  return () => leaveRoom(projectId, sessionId, client);
+}
+
+function leaveRoom(projectId: number, sessionId: string, client: Client) {
+  const room = rooms.get(projectId);
+  // A reconnect may already have replaced this connection
+  if (!room || room.clients.get(sessionId) !== client) return;
+
+  room.clients.delete(sessionId);
+  room.presence.delete(sessionId);
+  broadcast(room, { type: 'leave', sessionId }, sessionId);
+  if (room.clients.size === 0) rooms.delete(projectId);
+}
+
+/**
+ * Pass a tab's message on to the rest of the room. Only a session the same
+ * user has joined with may publish, and only editors send changes and moves;
+ * returns false for anything refused. Presence always carries the user the
+ * relay knows the session by.
+ */
+export function publish(projectId: number, message: CollabMessage, fromSessionId: string, userId: string): boolean {
+  const room = rooms.get(projectId);
+  const client = room?.clients.get(fromSessionId);
+  if (!room || client?.userId !== userId) return false;
+  if ((message.type === 'change' || message.type === 'move') && !client.canEdit) return false;
+
+  if (message.type === 'presence') {
+    const presence = { ...message.presence, sessionId: fromSessionId, userId };
+    room.presence.set(fromSessionId, presence);
+    broadcast(room, { type: 'presence', presence }, fromSessionId);
+    return true;
+  }
+  if (message.type === 'leave') room.presence.delete(fromSessionId);
+  broadcast(room, message, fromSessionId);
+  return true;
+}
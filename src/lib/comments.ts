@@ -0,0 +1,97 @@
+import type { CommentThread, ProjectComment, Node, Link } from '@/types/knowledge';
+
+// Where a new thread goes; stored flattened on CommentThread
+export type CommentAnchor =
+  | { kind: 'node'; nodeId: number }
+  | { kind: 'link'; linkId: number }
+  | { kind: 'canvas'; x: number; y: number };
+
+// Someone who can be @-mentioned: the owner or an accepted member
+export interface MentionablePerson {
+  userId: string;
+  name: string;
+  handle: string;
+}
+
+export function getThreadAnchor(thread: CommentThread): CommentAnchor | null {
+  if (thread.nodeId != null) return { kind: 'node', nodeId: thread.nodeId };
+  if (thread.linkId != null) return { kind: 'link', linkId: thread.linkId };
+  if (thread.x != null && thread.y != null) return { kind: 'canvas', x: thread.x, y: thread.y };
+  return null;
+}
+
+export function anchorFields(anchor: CommentAnchor): Pick<CommentThread, 'nodeId' | 'linkId' | 'x' | 'y'> {
+  switch (anchor.kind) {
+    case 'node': return { nodeId: anchor.nodeId, linkId: null, x: null, y: null };
+    case 'link': return { nodeId: null, linkId: anchor.linkId, x: null, y: null };
+    case 'canvas': return { nodeId: null, linkId: null, x: anchor.x, y: anchor.y };
+  }
+}
+
+/**
+ * Graph position of a thread's anchor: beside its node, at the middle of its
+ * connection, or the canvas point itself. Null once the node or connection is gone.
+ */
+export function getAnchorPosition(
+  anchor: CommentAnchor,
+  nodes: Pick<Node, 'id' | 'x' | 'y'>[],
+  links: Pick<Link, 'id' | 'sourceId' | 'targetId'>[]
+): { x: number; y: number } | null {
+  if (anchor.kind === 'canvas') return { x: anchor.x, y: anchor.y };
+  if (anchor.kind === 'node') {
+    const node = nodes.find(n => n.id === anchor.nodeId);
+    return node?.x != null && node.y != null ? { x: node.x + 10, y: node.y - 10 } : null;
+  }
+  const link = links.find(l => l.id === anchor.linkId);
+  if (!link) return null;
+  const source = nodes.find(n => n.id === link.sourceId);
+  const target = nodes.find(n => n.id === link.targetId);
+  if (source?.x == null || source.y == null || target?.x == null || target.y == null) return null;
+  return { x: (source.x + target.x) / 2, y: (source.y + target.y) / 2 };
+}
+
+export function getThreadsForNode(threads: CommentThread[], nodeId: number): CommentThread[] {
+  return threads.filter(t => t.nodeId === nodeId);
+}
+
+// Oldest first, the way a conversation reads
+export function getThreadComments(comments: ProjectComment[], threadId: number): ProjectComment[] {
+  return comments
+    .filter(c => c.threadId === threadId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function toMentionHandle(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.+|\.+$/g, '') || 'member';
+}
+
+// The word being typed after an @, if the caret is right after one
+export function getMentionQuery(text: string, caret: number): string | null {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret));
+  return match ? match[2] : null;
+}
+
+export function findMentions(body: string, people: MentionablePerson[]): string[] {
+  const handles = new Set(Array.from(body.matchAll(/@([\w.-]+)/g), m => m[1].toLowerCase().replace(/\.+$/, '')));
+  return people.filter(p => handles.has(p.handle)).map(p => p.userId);
+}
+
+export type CommentSegment = { text: string; mention?: MentionablePerson };
+
+// Splits a comment so the @-mentions of known people can be highlighted
+export function splitMentions(body: string, people: MentionablePerson[]): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let last = 0;
+  for (const match of body.matchAll(/@([\w.-]+)/g)) {
+    const handle = match[1].toLowerCase().replace(/\.+$/, '');
+    const person = people.find(p => p.handle === handle);
+    if (!person) continue;
+    const start = match.index ?? 0;
+    const end = start + 1 + handle.length;
+    if (start > last) segments.push({ text: body.slice(last, start) });
+    segments.push({ text: body.slice(start, end), mention: person });
+    last = end;
+  }
+  if (last < body.length) segments.push({ text: body.slice(last) });
+  return segments;
+}
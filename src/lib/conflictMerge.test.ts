@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { mergeFields, resolveMerge } from './conflictMerge';
+
+interface Draft {
+  title: string;
+  content?: string | null;
+  color?: string | null;
+  isBidirectional?: boolean;
+}
+
+const FIELDS: (keyof Draft)[] = ['title', 'content', 'color', 'isBidirectional'];
+const base: Draft = { title: 'Graphs', content: 'Nodes and edges', color: '#fff' };
+
+describe('mergeFields', () => {
+  it('takes each field from the side that changed it', () => {
+    const mine = { ...base, title: 'Graph theory' };
+    const theirs = { ...base, content: 'Vertices and edges' };
+
+    const { merged, conflicts } = mergeFields(base, mine, theirs, FIELDS);
+
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual({ title: 'Graph theory', content: 'Vertices and edges', color: '#fff', isBidirectional: undefined });
+  });
+
+  it('reports fields both sides changed differently, keeping mine for now', () => {
+    const mine = { ...base, title: 'Graph theory', color: '#000' };
+    const theirs = { ...base, title: 'Graphs 101', color: '#000' };
+
+    const { merged, conflicts } = mergeFields(base, mine, theirs, FIELDS);
+
+    expect(conflicts).toEqual([{ field: 'title', mine: 'Graph theory', theirs: 'Graphs 101' }]);
+    expect(merged.title).toBe('Graph theory');
+    expect(merged.color).toBe('#000'); // Same change on both sides is no conflict
+  });
+
+  it('treats missing, empty and false as the same unset value', () => {
+    const mine = { ...base, content: '' };
+    const theirs = { ...base, content: null, isBidirectional: false };
+
+    const { merged, conflicts } = mergeFields(base, mine, theirs, FIELDS);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.content).toBe('');
+    expect(merged.isBidirectional).toBe(false);
+  });
+
+  it('sees a field one side cleared and the other edited as a conflict', () => {
+    const mine = { ...base, content: null };
+    const theirs = { ...base, content: 'Vertices and edges' };
+
+    const { conflicts } = mergeFields(base, mine, theirs, FIELDS);
+
+    expect(conflicts).toEqual([{ field: 'content', mine: null, theirs: 'Vertices and edges' }]);
+  });
+});
+
+describe('resolveMerge', () => {
+  it('applies the picked side per conflict, and keeps mine where nothing was picked', () => {
+    const mine = { ...base, title: 'Mine', content: 'My notes' };
+    const theirs = { ...base, title: 'Theirs', content: 'Their notes' };
+    const merge = mergeFields(base, mine, theirs, FIELDS);
+
+    const resolved = resolveMerge(merge, { title: 'theirs' });
+
+    expect(resolved.title).toBe('Theirs');
+    expect(resolved.content).toBe('My notes');
+    expect(merge.merged.title).toBe('Mine'); // The merge itself is left as it was
+  });
+});
@@ -0,0 +1,55 @@
+export type MergeSide = 'mine' | 'theirs';
+
+// A field both sides changed, to different values
+export interface FieldConflict<K extends string = string> {
+  field: K;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface FieldMerge<T, K extends keyof T & string> {
+  merged: Pick<T, K>; // Conflicting fields hold mine until resolved
+  conflicts: FieldConflict<K>[];
+}
+
+// Missing, empty and false all read as "not set", as they do in the editor
+function normalize(value: unknown): unknown {
+  return value === undefined || value === '' || value === false ? null : value;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Three-way merge of `mine` and `theirs` against the `base` both started
+ * from. A field only one side changed takes that side's value, so only edits
+ * that really collide need someone to choose.
+ */
+export function mergeFields<T, K extends keyof T & string>(base: T, mine: T, theirs: T, fields: K[]): FieldMerge<T, K> {
+  const merged = {} as Pick<T, K>;
+  const conflicts: FieldConflict<K>[] = [];
+
+  for (const field of fields) {
+    const mineChanged = !same(mine[field], base[field]);
+    const theirsChanged = !same(theirs[field], base[field]);
+    if (mineChanged && theirsChanged && !same(mine[field], theirs[field])) {
+      conflicts.push({ field, mine: mine[field], theirs: theirs[field] });
+      merged[field] = mine[field];
+    } else {
+      merged[field] = mineChanged ? mine[field] : theirs[field];
+    }
+  }
+  return { merged, conflicts };
+}
+
+// The merge with each conflict settled the way the user picked; unpicked ones keep mine
+export function resolveMerge<T, K extends keyof T & string>(merge: FieldMerge<T, K>, choices: Partial<Record<K, MergeSide>>): Pick<T, K> {
+  const resolved = { ...merge.merged };
+  for (const conflict of merge.conflicts) {
+    if (choices[conflict.field] === 'theirs') {
+      resolved[conflict.field] = conflict.theirs as T[K];
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { CardSchedule, ReviewGrade } from '@/types/knowledge';
+import { createSchedule, deriveFlashcards, isCardDue, scheduleReview } from './flashcards';
+
+const NOW = new Date('2026-01-01T09:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Review each grade in turn, a day after the card came due
+function reviews(grades: ReviewGrade[]): CardSchedule[] {
+  let schedule = createSchedule(1, 'user', NOW);
+  return grades.map(grade => {
+    schedule = scheduleReview(schedule, grade, new Date(schedule.dueAt));
+    return schedule;
+  });
+}
+
+describe('scheduleReview (SM-2)', () => {
+  it('goes 1 day, 6 days, then grows by the ease factor', () => {
+    const [first, second, third, fourth] = reviews([4, 4, 4, 4]);
+
+    expect([first.interval, second.interval, third.interval, fourth.interval]).toEqual([1, 6, 15, 38]);
+    expect(first.repetitions).toBe(1);
+    expect(first.easeFactor).toBe(2.5); // Good keeps the ease where it was
+    expect(first.dueAt).toBe(new Date(NOW.getTime() + DAY_MS).toISOString());
+    expect(first.lastReviewedAt).toBe(NOW.toISOString());
+  });
+
+  it('raises the ease on Easy and lowers it on Hard', () => {
+    expect(reviews([5])[0].easeFactor).toBeCloseTo(2.6);
+    expect(reviews([3])[0].easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('restarts a lapsed card at one day', () => {
+    const [, , , lapsed, relearned] = reviews([4, 4, 4, 1, 4]);
+
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.interval).toBe(1);
+    expect(lapsed.easeFactor).toBeCloseTo(1.96);
+    expect(relearned.interval).toBe(1);
+    expect(relearned.repetitions).toBe(1);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    const lapses = reviews([1, 1, 1, 1, 1, 1]);
+    expect(lapses.map(s => s.easeFactor).at(-1)).toBe(1.3);
+  });
+
+  it('leaves the schedule it was given alone', () => {
+    const schedule = createSchedule(1, 'user', NOW);
+    scheduleReview(schedule, 5, NOW);
+    expect(schedule).toEqual(createSchedule(1, 'user', NOW));
+  });
+});
+
+describe('isCardDue', () => {
+  it('is due when never reviewed or once the due date has come', () => {
+    const [schedule] = reviews([4]);
+    expect(isCardDue(undefined, NOW)).toBe(true);
+    expect(isCardDue(schedule, NOW)).toBe(false);
+    expect(isCardDue(schedule, new Date(schedule.dueAt))).toBe(true);
+  });
+});
+
+describe('deriveFlashcards', () => {
+  it('makes a card of each "question :: answer" line and Q:/A: pair', () => {
+    const content = 'What is a DAG? :: A directed graph without cycles\n\nQ: What is a tree?\nA: A connected acyclic graph\nJust a note';
+    expect(deriveFlashcards({ title: 'Graphs', content })).toEqual([
+      { question: 'What is a DAG?', answer: 'A directed graph without cycles' },
+      { question: 'What is a tree?', answer: 'A connected acyclic graph' },
+    ]);
+  });
+
+  it('falls back to asking about the title, answered by the first paragraph', () => {
+    expect(deriveFlashcards({ title: ' Graph ', content: 'Nodes joined by edges.\n\nMore detail.' })).toEqual([
+      { question: 'What is Graph?', answer: 'Nodes joined by edges.' },
+    ]);
+    expect(deriveFlashcards({ title: 'Graph', content: '' })).toEqual([]);
+  });
+});
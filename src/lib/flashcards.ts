@@ -0,0 +1,102 @@
+import type { Node, Flashcard, CardSchedule, ReviewGrade } from '@/types/knowledge';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export type FlashcardDraft = Pick<Flashcard, 'question' | 'answer'>;
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+];
+
+export function createSchedule(cardId: number, userId: string | null, now = new Date()): CardSchedule {
+  return {
+    cardId,
+    userId,
+    easeFactor: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now.toISOString(),
+    lastReviewedAt: null,
+  };
+}
+
+/**
+ * SM-2: a lapse (grade below 3) restarts the card at one day, otherwise the
+ * interval goes 1 day, 6 days, then grows by the ease factor. Ease is adjusted
+ * after every review and never drops below 1.3.
+ */
+export function scheduleReview(schedule: CardSchedule, grade: ReviewGrade, now = new Date()): CardSchedule {
+  let { repetitions, interval } = schedule;
+
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions++;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * schedule.easeFactor);
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    schedule.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)
+  );
+
+  return {
+    ...schedule,
+    easeFactor,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+// Cards that have never been reviewed are due straight away
+export function isCardDue(schedule: CardSchedule | undefined, now = new Date()): boolean {
+  return !schedule || new Date(schedule.dueAt) <= now;
+}
+
+/**
+ * Suggest cards from a node's text. Lines written as "question :: answer" or
+ * "Q: ..." followed by "A: ..." become one card each; otherwise the title is
+ * asked about and the first paragraph of the content is the answer.
+ */
+export function deriveFlashcards(node: Pick<Node, 'title' | 'content'>): FlashcardDraft[] {
+  const content = node.content?.trim() || '';
+  const lines = content.split('\n').map(l => l.trim());
+  const drafts: FlashcardDraft[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const separator = line.indexOf('::');
+    if (separator > 0) {
+      const question = line.slice(0, separator).trim();
+      const answer = line.slice(separator + 2).trim();
+      if (question && answer) drafts.push({ question, answer });
+      continue;
+    }
+
+    const qMatch = line.match(/^Q:\s*(.+)$/i);
+    const aMatch = lines[i + 1]?.match(/^A:\s*(.+)$/i);
+    if (qMatch && aMatch) {
+      drafts.push({ question: qMatch[1].trim(), answer: aMatch[1].trim() });
+      i++;
+    }
+  }
+
+  if (drafts.length === 0 && node.title.trim() && content) {
+    drafts.push({
+      question: `What is ${node.title.trim()}?`,
+      answer: content.split(/\n\s*\n/)[0].trim(),
+    });
+  }
+
+  return drafts;
+}
@@ -0,0 +1,311 @@
+import type { Project, Node, Link, RelationshipType } from '@/types/knowledge';
+import type { Group } from '@/components/graph/GroupsTabs';
+import { findRelationshipType } from './relationshipTypes';
+import { createZip, type ZipFile } from './zipWriter';
+
+// Open formats a project can be saved as, next to the .nxus file and images
+export type ProjectExportFormat = 'markdown' | 'graphml' | 'gexf' | 'jsonld';
+
+export const PROJECT_EXPORT_FORMATS: { format: ProjectExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown folder' },
+  { format: 'graphml', label: 'GraphML' },
+  { format: 'gexf', label: 'GEXF' },
+  { format: 'jsonld', label: 'JSON-LD' },
+];
+
+// What every exporter reads. `relationshipTypes` is the project's full vocabulary
+export interface GraphExportInput {
+  project: Project;
+  nodes: Node[];
+  links: Link[];
+  groups: Group[];
+  relationshipTypes: RelationshipType[];
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters other than tab and newlines aren't allowed in XML 1.0
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// Links whose ends are both in the export
+function exportedLinks({ nodes, links }: GraphExportInput): Link[] {
+  const ids = new Set(nodes.map(n => n.id));
+  return links.filter(l => ids.has(l.sourceId) && ids.has(l.targetId));
+}
+
+const relationshipLabel = (input: GraphExportInput, link: Link) =>
+  findRelationshipType(input.relationshipTypes, link.relationshipType)?.label ?? link.relationshipType ?? '';
+
+const groupName = (input: GraphExportInput, node: Node) =>
+  input.groups.find(g => g.id === node.groupId)?.name ?? '';
+
+/**
+ * One note per node, in a folder per group, ready to open as an Obsidian
+ * vault. Titles, tags and positions go in the frontmatter; connections are
+ * listed as [[wikilinks]] under the note's own content.
+ */
+export function buildMarkdownFolder(input: GraphExportInput): ZipFile[] {
+  const usedNames = new Set<string>();
+  const fileNames = new Map<number, string>();
+  for (const node of input.nodes) {
+    const base = node.title.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || 'Untitled';
+    let name = base;
+    for (let i = 2; usedNames.has(name.toLowerCase()); i++) name = `${base} (${i})`;
+    usedNames.add(name.toLowerCase());
+    fileNames.set(node.id, name);
+  }
+  const folderOf = (node: Node) => groupName(input, node).replace(/[\\/:*?"<>|]/g, '-').trim();
+  const wikiLink = (node: Node) => {
+    const name = fileNames.get(node.id)!;
+    return name === node.title ? `[[${name}]]` : `[[${name}|${node.title}]]`;
+  };
+
+  const nodesById = new Map(input.nodes.map(n => [n.id, n]));
+  const links = exportedLinks(input);
+
+  return input.nodes.map(node => {
+    const lines = ['---', `title: ${JSON.stringify(node.title)}`];
+    const group = groupName(input, node);
+    if (group) lines.push(`group: ${JSON.stringify(group)}`);
+    if (node.tags?.length) {
+      lines.push('tags:', ...node.tags.map(t => `  - ${JSON.stringify(t.name)}`));
+    }
+    if (node.customColor) lines.push(`color: ${JSON.stringify(node.customColor)}`);
+    if (node.x != null && node.y != null) lines.push(`x: ${Math.round(node.x)}`, `y: ${Math.round(node.y)}`);
+    lines.push(`created: ${node.createdAt}`, `updated: ${node.updatedAt}`, '---', '');
+
+    if (node.content?.trim()) lines.push(node.content.trim(), '');
+
+    const connections = links
+      .filter(l => l.sourceId === node.id || (l.isBidirectional && l.targetId === node.id))
+      .map(l => {
+        const other = nodesById.get(l.sourceId === node.id ? l.targetId : l.sourceId)!;
+        const label = relationshipLabel(input, l);
+        const description = l.description?.trim() ? ` (${l.description.trim()})` : '';
+        return `- ${label ? `${label}: ` : ''}${wikiLink(other)}${description}`;
+      });
+    if (connections.length > 0) lines.push('## Connections', '', ...connections, '');
+
+    if (node.attachments?.length) {
+      lines.push('## Attachments', '', ...node.attachments.map(a => `- [${a.fileName}](<${a.fileUrl}>)`), '');
+    }
+
+    const folder = folderOf(node);
+    return { path: `${folder ? `${folder}/` : ''}${fileNames.get(node.id)}.md`, data: lines.join('\n') };
+  });
+}
+
+/**
+ * GraphML for yEd, Gephi, NetworkX and friends. Two-way links are written
+ * as undirected edges.
+ */
+export function buildGraphML(input: GraphExportInput): string {
+  const data = (key: string, value: string | number | null | undefined) =>
+    value == null || value === '' ? '' : `<data key="${key}">${escapeXml(String(value))}</data>`;
+
+  const keys = [
+    ['label', 'node', 'label', 'string'],
+    ['content', 'node', 'content', 'string'],
+    ['group', 'node', 'group', 'string'],
+    ['tags', 'node', 'tags', 'string'],
+    ['color', 'node', 'color', 'string'],
+    ['x', 'node', 'x', 'double'],
+    ['y', 'node', 'y', 'double'],
+    ['relationship', 'edge', 'relationship', 'string'],
+    ['description', 'edge', 'description', 'string'],
+    ['edgeColor', 'edge', 'color', 'string'],
+  ];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys.map(([id, domain, name, type]) => `  <key id="${id}" for="${domain}" attr.name="${name}" attr.type="${type}"/>`),
+    `  <graph id="${escapeXml(input.project.name)}" edgedefault="directed">`,
+  ];
+
+  for (const node of input.nodes) {
+    lines.push(`    <node id="n${node.id}">${[
+      data('label', node.title),
+      data('content', node.content),
+      data('group', groupName(input, node)),
+      data('tags', node.tags?.map(t => t.name).join(', ')),
+      data('color', node.customColor),
+      data('x', node.x),
+      data('y', node.y),
+    ].join('')}</node>`);
+  }
+
+  for (const link of exportedLinks(input)) {
+    const directed = link.isBidirectional ? ' directed="false"' : '';
+    lines.push(`    <edge id="e${link.id}" source="n${link.sourceId}" target="n${link.targetId}"${directed}>${[
+      data('relationship', relationshipLabel(input, link)),
+      data('description', link.description),
+      data('edgeColor', link.color),
+    ].join('')}</edge>`);
+  }
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function hexToRgb(hex: string | null | undefined): { r: number; g: number; b: number } | null {
+  const match = hex?.match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return { r: value >> 16, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+/**
+ * GEXF 1.2 for Gephi, with positions and colours in the viz namespace.
+ */
+export function buildGexf(input: GraphExportInput): string {
+  const attvalues = (values: [number, string | null | undefined][]) => {
+    const present = values.filter(([, value]) => value);
+    if (present.length === 0) return '';
+    return `<attvalues>${present.map(([id, value]) => `<attvalue for="${id}" value="${escapeXml(value!)}"/>`).join('')}</attvalues>`;
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://www.gexf.net/1.2draft" xmlns:viz="http://www.gexf.net/1.2draft/viz" version="1.2">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>Nexus</creator>',
+    `    <description>${escapeXml(input.project.name)}</description>`,
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="directed">',
+    '    <attributes class="node">',
+    '      <attribute id="0" title="content" type="string"/>',
+    '      <attribute id="1" title="group" type="string"/>',
+    '      <attribute id="2" title="tags" type="string"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="0" title="relationship" type="string"/>',
+    '      <attribute id="1" title="description" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+
+  for (const node of input.nodes) {
+    const color = hexToRgb(node.customColor);
+    // Gephi's y axis points up, the canvas's points down
+    const position = node.x != null && node.y != null ? `<viz:position x="${node.x}" y="${-node.y}" z="0"/>` : '';
+    lines.push(`      <node id="${node.id}" label="${escapeXml(node.title)}">${attvalues([
+      [0, node.content],
+      [1, groupName(input, node)],
+      [2, node.tags?.map(t => t.name).join(', ')],
+    ])}${color ? `<viz:color r="${color.r}" g="${color.g}" b="${color.b}"/>` : ''}${position}</node>`);
+  }
+
+  lines.push('    </nodes>', '    <edges>');
+  for (const link of exportedLinks(input)) {
+    const label = relationshipLabel(input, link);
+    const color = hexToRgb(link.color);
+    lines.push(`      <edge id="${link.id}" source="${link.sourceId}" target="${link.targetId}"${link.isBidirectional ? ' type="undirected"' : ''}${label ? ` label="${escapeXml(label)}"` : ''}>${attvalues([
+      [0, link.relationshipType],
+      [1, link.description],
+    ])}${color ? `<viz:color r="${color.r}" g="${color.g}" b="${color.b}"/>` : ''}</edge>`);
+  }
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Linked data for RDF tooling. Nodes are schema.org CreativeWorks and each
+ * relationship type becomes a predicate under the project's own namespace;
+ * links without a type use `related`. `baseUrl` is where the app is served.
+ */
+export function buildJsonLd(input: GraphExportInput, baseUrl: string): object {
+  const base = `${baseUrl.replace(/\/$/, '')}/project/${input.project.id}/`;
+  const predicate = (link: Link) => `nx:${encodeURIComponent(link.relationshipType || 'related')}`;
+
+  const outgoing = new Map<number, Map<string, { '@id': string }[]>>();
+  const addEdge = (from: number, to: number, key: string) => {
+    const byPredicate = outgoing.get(from) ?? new Map<string, { '@id': string }[]>();
+    byPredicate.set(key, [...(byPredicate.get(key) ?? []), { '@id': `nodes/${to}` }]);
+    outgoing.set(from, byPredicate);
+  };
+  const links = exportedLinks(input);
+  for (const link of links) {
+    addEdge(link.sourceId, link.targetId, predicate(link));
+    if (link.isBidirectional) addEdge(link.targetId, link.sourceId, predicate(link));
+  }
+
+  const usedKeys = [...new Set(links.map(l => l.relationshipType || 'related'))];
+  const predicates = usedKeys.map(key => ({
+    '@id': `nx:${encodeURIComponent(key)}`,
+    '@type': 'rdf:Property',
+    'rdfs:label': key === 'related' ? 'Related to' : findRelationshipType(input.relationshipTypes, key)?.label ?? key,
+  }));
+
+  return {
+    '@context': {
+      '@vocab': 'https://schema.org/',
+      '@base': base,
+      nx: `${base}relations/`,
+      rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+      rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+    },
+    '@graph': [
+      {
+        '@id': '',
+        '@type': 'Collection',
+        name: input.project.name,
+        ...(input.project.description ? { description: input.project.description } : {}),
+      },
+      ...input.groups.map(group => ({
+        '@id': `groups/${group.id}`,
+        '@type': 'Collection',
+        name: group.name,
+        isPartOf: { '@id': '' },
+      })),
+      ...predicates,
+      ...input.nodes.map(node => ({
+        '@id': `nodes/${node.id}`,
+        '@type': 'CreativeWork',
+        name: node.title,
+        ...(node.content ? { text: node.content } : {}),
+        ...(node.tags?.length ? { keywords: node.tags.map(t => t.name) } : {}),
+        isPartOf: { '@id': input.groups.some(g => g.id === node.groupId) ? `groups/${node.groupId}` : '' },
+        dateCreated: node.createdAt,
+        dateModified: node.updatedAt,
+        ...Object.fromEntries(outgoing.get(node.id) ?? []),
+      })),
+    ],
+  };
+}
+
+function download(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function exportProjectAs(format: ProjectExportFormat, input: GraphExportInput): void {
+  const baseName = input.project.name.replace(/[^a-zA-Z0-9\s-]/g, '').trim() || 'project';
+
+  switch (format) {
+    case 'markdown':
+      download(createZip(buildMarkdownFolder(input).map(f => ({ ...f, path: `${baseName}/${f.path}` }))), `${baseName}.zip`);
+      break;
+    case 'graphml':
+      download(new Blob([buildGraphML(input)], { type: 'application/graphml+xml' }), `${baseName}.graphml`);
+      break;
+    case 'gexf':
+      download(new Blob([buildGexf(input)], { type: 'application/xml' }), `${baseName}.gexf`);
+      break;
+    case 'jsonld':
+      download(
+        new Blob([JSON.stringify(buildJsonLd(input, window.location.origin), null, 2)], { type: 'application/ld+json' }),
+        `${baseName}.jsonld`
+      );
+      break;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Link } from '@/types/knowledge';
+import { findShortestPath, getPrerequisiteChain, isPrerequisiteLink } from './graphPaths';
+
+let nextId = 1;
+const link = (sourceId: number, targetId: number, extra: Partial<Link> = {}) =>
+  ({ id: nextId++, sourceId, targetId, color: '#fff', createdAt: '', ...extra }) as Link;
+
+describe('findShortestPath', () => {
+  it('takes the fewest links along their direction', () => {
+    const links = [link(1, 2), link(2, 3), link(3, 4), link(1, 4)];
+
+    expect(findShortestPath(links, 1, 4)).toEqual({ nodeIds: [1, 4], linkIds: [links[3].id], directed: true });
+  });
+
+  it('goes against the direction only when nothing else gets there, and says so', () => {
+    const links = [link(1, 2), link(3, 2)];
+
+    expect(findShortestPath(links, 1, 3)).toEqual({ nodeIds: [1, 2, 3], linkIds: [links[0].id, links[1].id], directed: false });
+  });
+
+  it('follows a two-way link either way', () => {
+    const links = [link(2, 1, { isBidirectional: true })];
+
+    expect(findShortestPath(links, 1, 2)).toMatchObject({ nodeIds: [1, 2], directed: true });
+  });
+
+  it('finds nothing between unconnected nodes, and the node itself from a node to itself', () => {
+    const links = [link(1, 2), link(3, 4)];
+
+    expect(findShortestPath(links, 1, 4)).toBeNull();
+    expect(findShortestPath(links, 5, 5)).toEqual({ nodeIds: [5], linkIds: [], directed: true });
+  });
+});
+
+describe('getPrerequisiteChain', () => {
+  it('counts prerequisite and untyped directed links, but no others', () => {
+    expect(isPrerequisiteLink(link(1, 2))).toBe(true);
+    expect(isPrerequisiteLink(link(1, 2, { relationshipType: 'prerequisite' }))).toBe(true);
+    expect(isPrerequisiteLink(link(1, 2, { relationshipType: 'part-of' }))).toBe(false);
+    expect(isPrerequisiteLink(link(1, 2, { isBidirectional: true }))).toBe(false);
+  });
+
+  it('puts A before B when A→B→C has a shortcut A→C', () => {
+    // B has the lower id, so ordering by distance alone would put it first
+    const [a, b, c] = [2, 1, 3];
+    const links = [link(b, c), link(a, c), link(a, b)];
+
+    const chain = getPrerequisiteChain(links, c);
+
+    expect(chain.nodeIds).toEqual([a, b]);
+    expect(chain.depth).toEqual(new Map([[c, 0], [b, 1], [a, 1]]));
+    expect(chain.linkIds.sort()).toEqual(links.map(l => l.id).sort());
+  });
+
+  it('walks back through every prerequisite and nothing downstream', () => {
+    const links = [link(1, 2), link(2, 4), link(3, 4), link(4, 5), link(6, 4, { relationshipType: 'example-of' })];
+
+    expect(getPrerequisiteChain(links, 4).nodeIds).toEqual([1, 3, 2]);
+  });
+
+  it('puts prerequisites caught in a cycle last', () => {
+    const links = [link(1, 4), link(2, 3), link(3, 2), link(3, 4)];
+
+    expect(getPrerequisiteChain(links, 4).nodeIds).toEqual([1, 2, 3]);
+  });
+});
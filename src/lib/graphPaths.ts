@@ -0,0 +1,156 @@
+import type { Link } from '@/types/knowledge';
+import { PREREQUISITE_RELATIONSHIP } from '@/lib/relationshipTypes';
+
+export interface GraphPath {
+  nodeIds: number[]; // Ordered from start to target
+  linkIds: number[];
+  directed: boolean; // False when no path follows link direction and an undirected fallback was used
+}
+
+export interface PrerequisiteChain {
+  targetId: number;
+  nodeIds: number[]; // Study order: deepest prerequisites first, target excluded
+  linkIds: number[];
+  depth: Map<number, number>; // Number of steps from each prerequisite to the target
+}
+
+/**
+ * Whether a link means "source must come before target".
+ * Prerequisite links always count. Untyped directed links count too, since most
+ * maps were drawn before relationship types existed. Other typed links
+ * (part-of, example-of, ...) and undirected links are ignored.
+ */
+export function isPrerequisiteLink(link: Link): boolean {
+  if (link.isBidirectional) return false;
+  return !link.relationshipType || link.relationshipType === PREREQUISITE_RELATIONSHIP;
+}
+
+type Adjacency = Map<number, { nodeId: number; linkId: number }[]>;
+
+function buildAdjacency(links: Link[], directed: boolean): Adjacency {
+  const adjacency: Adjacency = new Map();
+  const add = (from: number, to: number, linkId: number) => {
+    if (!adjacency.has(from)) adjacency.set(from, []);
+    adjacency.get(from)!.push({ nodeId: to, linkId });
+  };
+
+  links.forEach(l => {
+    add(l.sourceId, l.targetId, l.id);
+    if (!directed || l.isBidirectional) add(l.targetId, l.sourceId, l.id);
+  });
+  return adjacency;
+}
+
+function breadthFirstPath(adjacency: Adjacency, startId: number, targetId: number): { nodeIds: number[]; linkIds: number[] } | null {
+  const previous = new Map<number, { nodeId: number; linkId: number } | null>([[startId, null]]);
+  const queue = [startId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === targetId) break;
+
+    for (const edge of adjacency.get(current) || []) {
+      if (previous.has(edge.nodeId)) continue;
+      previous.set(edge.nodeId, { nodeId: current, linkId: edge.linkId });
+      queue.push(edge.nodeId);
+    }
+  }
+
+  if (!previous.has(targetId)) return null;
+
+  const nodeIds: number[] = [];
+  const linkIds: number[] = [];
+  let step: number | undefined = targetId;
+  while (step !== undefined) {
+    nodeIds.unshift(step);
+    const prev = previous.get(step);
+    if (!prev) break;
+    linkIds.unshift(prev.linkId);
+    step = prev.nodeId;
+  }
+  return { nodeIds, linkIds };
+}
+
+/**
+ * Shortest path (fewest links) from start to target.
+ * Follows link direction first, then falls back to ignoring direction so
+ * loosely connected maps still give an answer.
+ */
+export function findShortestPath(links: Link[], startId: number, targetId: number): GraphPath | null {
+  if (startId === targetId) return { nodeIds: [startId], linkIds: [], directed: true };
+
+  const directedPath = breadthFirstPath(buildAdjacency(links, true), startId, targetId);
+  if (directedPath) return { ...directedPath, directed: true };
+
+  const undirectedPath = breadthFirstPath(buildAdjacency(links, false), startId, targetId);
+  return undirectedPath ? { ...undirectedPath, directed: false } : null;
+}
+
+/**
+ * Kahn's algorithm, one layer at a time: each layer holds the ids whose
+ * sources are all in earlier layers. Ids in or behind a cycle are left out.
+ * Only edges between the given ids count, and order within a layer is up to the caller.
+ */
+export function topologicalLayers(ids: number[], edges: Pick<Link, 'sourceId' | 'targetId'>[]): number[][] {
+  const outgoing = new Map<number, number[]>();
+  const inDegree = new Map<number, number>(ids.map(id => [id, 0]));
+  edges.forEach(l => {
+    if (!inDegree.has(l.sourceId) || !inDegree.has(l.targetId)) return;
+    if (!outgoing.has(l.sourceId)) outgoing.set(l.sourceId, []);
+    outgoing.get(l.sourceId)!.push(l.targetId);
+    inDegree.set(l.targetId, inDegree.get(l.targetId)! + 1);
+  });
+
+  const layers: number[][] = [];
+  let layer = ids.filter(id => inDegree.get(id) === 0);
+  while (layer.length > 0) {
+    layers.push(layer);
+    const next: number[] = [];
+    for (const id of layer) {
+      for (const targetId of outgoing.get(id) || []) {
+        const remaining = inDegree.get(targetId)! - 1;
+        inDegree.set(targetId, remaining);
+        if (remaining === 0) next.push(targetId);
+      }
+    }
+    layer = next;
+  }
+  return layers;
+}
+
+/**
+ * Everything that must be studied before the target, found by walking
+ * incoming prerequisite links transitively. Ordered topologically rather than
+ * by distance: with A→B→C and a shortcut A→C, A and B are both one step from
+ * C but A still comes first. Prerequisites caught in a cycle come last.
+ */
+export function getPrerequisiteChain(links: Link[], targetId: number): PrerequisiteChain {
+  const prerequisites = links.filter(isPrerequisiteLink);
+  const incoming = new Map<number, Link[]>();
+  prerequisites.forEach(l => {
+    if (!incoming.has(l.targetId)) incoming.set(l.targetId, []);
+    incoming.get(l.targetId)!.push(l);
+  });
+
+  const depth = new Map<number, number>([[targetId, 0]]);
+  const linkIds = new Set<number>();
+  const queue = [targetId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const link of incoming.get(current) || []) {
+      linkIds.add(link.id);
+      if (depth.has(link.sourceId)) continue;
+      depth.set(link.sourceId, depth.get(current)! + 1);
+      queue.push(link.sourceId);
+    }
+  }
+
+  const deepestFirst = (a: number, b: number) => depth.get(b)! - depth.get(a)! || a - b;
+  const ancestors = [...depth.keys()].filter(id => id !== targetId);
+  const nodeIds = topologicalLayers(ancestors, prerequisites).flatMap(layer => layer.sort(deepestFirst));
+  const ordered = new Set(nodeIds);
+  nodeIds.push(...ancestors.filter(id => !ordered.has(id)).sort(deepestFirst));
+
+  return { targetId, nodeIds, linkIds: [...linkIds], depth };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { layoutMath, parseMath, splitMathSegments, type MeasureText } from './latex';
+
+// Every glyph is as wide as its characters, so layouts don't depend on fonts
+const measure: MeasureText = text => text.length * 10;
+
+// A formula parses to a row, which holds the one atom these tests are about
+function parseAtom(source: string) {
+  const row = parseMath(source);
+  return row.type === 'row' && row.children.length === 1 ? row.children[0] : row;
+}
+
+function glyphs(source: string) {
+  return layoutMath(source, { size: 20, measure }).items.flatMap(item => (item.type === 'glyph' ? [item.text] : []));
+}
+
+describe('parseMath', () => {
+  it('reads scripts, fractions and roots', () => {
+    expect(parseAtom('x^2_i')).toEqual({
+      type: 'scripts',
+      base: { type: 'symbol', text: 'x', kind: 'ord', italic: true },
+      sup: { type: 'symbol', text: '2', kind: 'ord' },
+      sub: { type: 'symbol', text: 'i', kind: 'ord', italic: true },
+    });
+    expect(parseAtom('\\frac{a}{b}')).toMatchObject({ type: 'frac', bar: true, num: { children: [{ text: 'a' }] }, den: { children: [{ text: 'b' }] } });
+    expect(parseAtom('\\binom{n}{k}')).toMatchObject({ type: 'delimited', left: '(', right: ')', body: { type: 'frac', bar: false } });
+    expect(parseAtom('\\sqrt[3]{x}')).toMatchObject({ type: 'sqrt', index: { children: [{ text: '3' }] }, body: { children: [{ text: 'x' }] } });
+  });
+
+  it('reads big operators with their limits', () => {
+    expect(parseAtom('\\sum_{i=1}^n')).toMatchObject({ type: 'scripts', base: { type: 'largeop', text: '∑', limits: true } });
+    expect(parseAtom('\\int')).toEqual({ type: 'largeop', text: '∫', limits: false });
+    expect(parseAtom('\\lim')).toEqual({ type: 'largeop', text: 'lim', limits: true, operatorName: true });
+    expect(parseAtom('\\sin')).toEqual({ type: 'largeop', text: 'sin', limits: false, operatorName: true });
+  });
+
+  it('reads delimiters, matrices and cases', () => {
+    expect(parseAtom('\\left( x \\right]')).toMatchObject({ type: 'delimited', left: '(', right: ']', body: { children: [{ text: 'x' }] } });
+    expect(parseAtom('\\begin{pmatrix} a & b \\\\ c & d \\end{pmatrix}')).toMatchObject({
+      type: 'grid', left: '(', right: ')',
+      rows: [
+        [{ children: [{ text: 'a' }] }, { children: [{ text: 'b' }] }],
+        [{ children: [{ text: 'c' }] }, { children: [{ text: 'd' }] }],
+      ],
+    });
+    expect(parseAtom('\\begin{cases} 1 & x > 0 \\\\ 0 & \\text{otherwise} \\end{cases}')).toMatchObject({
+      type: 'grid', left: '{', right: '', align: ['left', 'left'],
+    });
+  });
+});
+
+describe('layoutMath', () => {
+  it('draws symbols, letters and text as their characters', () => {
+    expect(glyphs('\\alpha \\leq \\infty')).toEqual(['α', '≤', '∞']);
+    expect(glyphs('\\Gamma \\to \\mathbb{R}')).toEqual(['Γ', '→', 'ℝ']);
+    expect(glyphs('a - b')).toEqual(['a', '−', 'b']);
+    expect(glyphs('\\text{if } x')).toEqual(['if ', 'x']);
+  });
+
+  it('puts a fraction bar between numerator and denominator', () => {
+    const box = layoutMath('\\frac{a}{b}', { size: 20, measure });
+    const [num, den] = box.items.filter(item => item.type === 'glyph');
+    const bar = box.items.find(item => item.type === 'rule');
+
+    expect(bar).toBeDefined();
+    expect(num.y).toBeLessThan(bar!.y);
+    expect(den.y).toBeGreaterThan(bar!.y);
+  });
+
+  it('flags unknown commands instead of dropping them', () => {
+    const box = layoutMath('x + \\foo', { size: 20, measure });
+
+    expect(box.items).toContainEqual(expect.objectContaining({ type: 'glyph', text: '\\foo', error: true }));
+    expect(box.items.filter(item => item.type === 'glyph' && item.error)).toHaveLength(1);
+  });
+
+  it.each([
+    '',
+    '{x',
+    'x}',
+    '\\frac{a}',
+    'x^',
+    '\\left( x',
+    '\\right)',
+    '\\sqrt[3',
+    '\\begin{pmatrix} a & b',
+    '\\end{cases}',
+    '\\',
+  ])('lays out malformed input %j without throwing', source => {
+    expect(() => parseMath(source)).not.toThrow();
+    const box = layoutMath(source, { size: 20, measure });
+
+    expect(Number.isFinite(box.width)).toBe(true);
+    expect(Number.isFinite(box.ascent + box.depth)).toBe(true);
+  });
+});
+
+describe('splitMathSegments', () => {
+  it('splits inline and display math from the text around it', () => {
+    expect(splitMathSegments('Area $\\pi r^2$ and $$ E = mc^2 $$.')).toEqual([
+      { type: 'text', text: 'Area ' },
+      { type: 'math', text: '\\pi r^2' },
+      { type: 'text', text: ' and ' },
+      { type: 'math', text: 'E = mc^2', display: true },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('leaves prices and escaped dollars as text', () => {
+    expect(splitMathSegments('Costs $5 and $10')).toEqual([{ type: 'text', text: 'Costs $5 and $10' }]);
+    expect(splitMathSegments('\\$x$')).toEqual([{ type: 'text', text: '\\$x$' }]);
+  });
+});
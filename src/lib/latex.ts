@@ -0,0 +1,886 @@
+// Renders the common subset of LaTeX math used in study notes: scripts,
+// fractions, roots, big operators, \left...\right, accents, matrices and cases.
+// Formulas are laid out once into positioned glyphs, rules and paths, which
+// MathFormula draws as SVG and drawMathOnContext draws on the graph canvas.
+
+export interface MathFont {
+  family: 'math' | 'text';
+  size: number;
+  italic?: boolean;
+  bold?: boolean;
+}
+
+export type MathPathCommand = ['M' | 'L', number, number] | ['Q', number, number, number, number];
+
+export type MathItem =
+  | { type: 'glyph'; x: number; y: number; text: string; font: MathFont; error?: boolean }
+  | { type: 'rule'; x: number; y: number; width: number; height: number }
+  | { type: 'path'; commands: MathPathCommand[]; lineWidth: number };
+
+// Origin is the left end of the baseline, y grows downwards
+export interface MathBox {
+  width: number;
+  ascent: number;
+  depth: number;
+  items: MathItem[];
+}
+
+export type MeasureText = (text: string, font: string) => number;
+
+const MATH_FONT_STACK = "'Latin Modern Math', 'STIX Two Math', 'Cambria Math', 'Times New Roman', serif";
+const TEXT_FONT_STACK = 'Inter, system-ui, sans-serif';
+
+export function toCssFont(font: MathFont): string {
+  return `${font.italic ? 'italic ' : ''}${font.bold ? 'bold ' : ''}${font.size}px ${font.family === 'math' ? MATH_FONT_STACK : TEXT_FONT_STACK}`;
+}
+
+export function getFontFamily(font: MathFont): string {
+  return font.family === 'math' ? MATH_FONT_STACK : TEXT_FONT_STACK;
+}
+
+let measureCtx: CanvasRenderingContext2D | null | undefined;
+
+export const measureText: MeasureText = (text, font) => {
+  if (measureCtx === undefined) {
+    measureCtx = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  if (!measureCtx) {
+    const size = parseFloat(font.match(/([\d.]+)px/)?.[1] || '16');
+    return text.length * size * 0.55;
+  }
+  measureCtx.font = font;
+  return measureCtx.measureText(text).width;
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+type AtomKind = 'ord' | 'op' | 'bin' | 'rel' | 'open' | 'close' | 'punct' | 'inner';
+
+type MathNode =
+  | { type: 'symbol'; text: string; kind: AtomKind; italic?: boolean; bold?: boolean; error?: boolean }
+  | { type: 'text'; text: string; bold?: boolean }
+  | { type: 'row'; children: MathNode[] }
+  | { type: 'scripts'; base: MathNode; sup?: MathNode; sub?: MathNode }
+  | { type: 'largeop'; text: string; limits: boolean; operatorName?: boolean }
+  | { type: 'frac'; num: MathNode; den: MathNode; bar: boolean; size?: 'display' | 'text' }
+  | { type: 'sqrt'; body: MathNode; index?: MathNode }
+  | { type: 'accent'; body: MathNode; accent: 'hat' | 'tilde' | 'vec' | 'dot' | 'ddot' | 'bar' | 'overline' | 'underline' }
+  | { type: 'delimited'; left: string; right: string; body: MathNode }
+  | { type: 'space'; em: number }
+  | { type: 'grid'; rows: MathNode[][]; align: ('left' | 'center' | 'right')[]; columnGap: number; left: string; right: string };
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'ϕ',
+  varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+  Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+};
+
+const SYMBOLS: Record<string, [string, AtomKind]> = {
+  infty: ['∞', 'ord'], partial: ['∂', 'ord'], nabla: ['∇', 'ord'], emptyset: ['∅', 'ord'], varnothing: ['∅', 'ord'],
+  forall: ['∀', 'ord'], exists: ['∃', 'ord'], neg: ['¬', 'ord'], lnot: ['¬', 'ord'], angle: ['∠', 'ord'],
+  aleph: ['ℵ', 'ord'], hbar: ['ℏ', 'ord'], ell: ['ℓ', 'ord'], Re: ['ℜ', 'ord'], Im: ['ℑ', 'ord'],
+  top: ['⊤', 'ord'], bot: ['⊥', 'ord'], prime: ['′', 'ord'], ldots: ['…', 'inner'], dots: ['…', 'inner'],
+  cdots: ['⋯', 'inner'], vdots: ['⋮', 'ord'], ddots: ['⋱', 'inner'], dagger: ['†', 'ord'], checkmark: ['✓', 'ord'],
+  cdot: ['⋅', 'bin'], times: ['×', 'bin'], div: ['÷', 'bin'], pm: ['±', 'bin'], mp: ['∓', 'bin'],
+  cup: ['∪', 'bin'], cap: ['∩', 'bin'], setminus: ['∖', 'bin'], land: ['∧', 'bin'], wedge: ['∧', 'bin'],
+  lor: ['∨', 'bin'], vee: ['∨', 'bin'], oplus: ['⊕', 'bin'], otimes: ['⊗', 'bin'], circ: ['∘', 'bin'],
+  bullet: ['∙', 'bin'], star: ['⋆', 'bin'], ast: ['∗', 'bin'], mod: ['mod', 'bin'], bmod: ['mod', 'bin'],
+  leq: ['≤', 'rel'], le: ['≤', 'rel'], geq: ['≥', 'rel'], ge: ['≥', 'rel'], neq: ['≠', 'rel'], ne: ['≠', 'rel'],
+  approx: ['≈', 'rel'], equiv: ['≡', 'rel'], sim: ['∼', 'rel'], simeq: ['≃', 'rel'], cong: ['≅', 'rel'],
+  propto: ['∝', 'rel'], ll: ['≪', 'rel'], gg: ['≫', 'rel'], in: ['∈', 'rel'], notin: ['∉', 'rel'],
+  ni: ['∋', 'rel'], subset: ['⊂', 'rel'], subseteq: ['⊆', 'rel'], supset: ['⊃', 'rel'], supseteq: ['⊇', 'rel'],
+  to: ['→', 'rel'], rightarrow: ['→', 'rel'], leftarrow: ['←', 'rel'], gets: ['←', 'rel'],
+  leftrightarrow: ['↔', 'rel'], Rightarrow: ['⇒', 'rel'], Leftarrow: ['⇐', 'rel'], Leftrightarrow: ['⇔', 'rel'],
+  implies: ['⟹', 'rel'], impliedby: ['⟸', 'rel'], iff: ['⟺', 'rel'], mapsto: ['↦', 'rel'],
+  longrightarrow: ['⟶', 'rel'], uparrow: ['↑', 'rel'], downarrow: ['↓', 'rel'],
+  mid: ['∣', 'rel'], parallel: ['∥', 'rel'], perp: ['⊥', 'rel'], models: ['⊨', 'rel'], vdash: ['⊢', 'rel'],
+  prec: ['≺', 'rel'], succ: ['≻', 'rel'], preceq: ['⪯', 'rel'], succeq: ['⪰', 'rel'],
+  lfloor: ['⌊', 'open'], rfloor: ['⌋', 'close'], lceil: ['⌈', 'open'], rceil: ['⌉', 'close'],
+  langle: ['⟨', 'open'], rangle: ['⟩', 'close'], lbrace: ['{', 'open'], rbrace: ['}', 'close'],
+  '{': ['{', 'open'], '}': ['}', 'close'], '|': ['‖', 'ord'], '%': ['%', 'ord'], '$': ['$', 'ord'],
+  '&': ['&', 'ord'], '#': ['#', 'ord'], '_': ['_', 'ord'],
+};
+
+const LARGE_OPERATORS: Record<string, string> = {
+  sum: '∑', prod: '∏', coprod: '∐', int: '∫', iint: '∬', iiint: '∭', oint: '∮',
+  bigcup: '⋃', bigcap: '⋂', bigvee: '⋁', bigwedge: '⋀', bigoplus: '⨁', bigotimes: '⨂',
+};
+
+// Named operators, the ones in LIMIT_OPERATORS put their scripts above and below in display mode
+const OPERATOR_NAMES = [
+  'log', 'ln', 'lg', 'exp', 'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'arcsin', 'arccos', 'arctan',
+  'sinh', 'cosh', 'tanh', 'det', 'gcd', 'deg', 'dim', 'ker', 'hom', 'arg', 'Pr',
+  'lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf', 'argmax', 'argmin',
+];
+const LIMIT_OPERATORS = new Set(['lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf', 'argmax', 'argmin', 'det', 'gcd', 'Pr']);
+
+const SPACES: Record<string, number> = {
+  ',': 3 / 18, ':': 4 / 18, '>': 4 / 18, ';': 5 / 18, '!': -3 / 18, ' ': 0.25, quad: 1, qquad: 2,
+};
+
+const DOUBLE_STRUCK: Record<string, string> = {
+  R: 'ℝ', N: 'ℕ', Z: 'ℤ', Q: 'ℚ', C: 'ℂ', P: 'ℙ', H: 'ℍ', E: '𝔼', F: '𝔽',
+};
+
+const DELIMITERS: Record<string, string> = {
+  '(': '(', ')': ')', '[': '[', ']': ']', '|': '|', '.': '', '/': '/',
+  '\\{': '{', '\\}': '}', '\\lbrace': '{', '\\rbrace': '}', '\\|': '‖', '\\Vert': '‖', '\\vert': '|',
+  '\\langle': '⟨', '\\rangle': '⟩', '\\lfloor': '⌊', '\\rfloor': '⌋', '\\lceil': '⌈', '\\rceil': '⌉',
+};
+
+type Token = { type: 'command'; name: string } | { type: 'char'; char: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\\') {
+      const letters = source.slice(i + 1).match(/^[A-Za-z]+/);
+      if (letters) {
+        tokens.push({ type: 'command', name: letters[0] });
+        i += letters[0].length + 1;
+      } else if (i + 1 < source.length) {
+        tokens.push({ type: 'command', name: source[i + 1] });
+        i += 2;
+      } else {
+        i++;
+      }
+    } else {
+      tokens.push({ type: 'char', char: ch });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+class MathParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) { }
+
+  parse(): MathNode {
+    return this.parseRows(() => this.pos >= this.tokens.length);
+  }
+
+  private peek() {
+    return this.tokens[this.pos];
+  }
+
+  private isChar(token: Token | undefined, char: string) {
+    return token?.type === 'char' && token.char === char;
+  }
+
+  private isCommand(token: Token | undefined, name: string) {
+    return token?.type === 'command' && token.name === name;
+  }
+
+  // A list that may be split into lines by \\ and columns by &
+  private parseRows(atEnd: () => boolean): MathNode {
+    const rows: MathNode[][] = [[]];
+    let cell: MathNode[] = [];
+    while (!atEnd()) {
+      const token = this.peek();
+      if (this.isCommand(token, '\\') || this.isCommand(token, 'cr')) {
+        this.pos++;
+        rows[rows.length - 1].push({ type: 'row', children: cell });
+        rows.push([]);
+        cell = [];
+      } else if (this.isChar(token, '&')) {
+        this.pos++;
+        rows[rows.length - 1].push({ type: 'row', children: cell });
+        cell = [];
+      } else {
+        const atom = this.parseAtom();
+        if (atom) cell.push(atom);
+      }
+    }
+    rows[rows.length - 1].push({ type: 'row', children: cell });
+
+    if (rows.length === 1 && rows[0].length === 1) return rows[0][0];
+    const filled = rows.filter(r => r.some(c => c.type !== 'row' || c.children.length > 0));
+    return { type: 'grid', rows: filled, align: ['center'], columnGap: 1, left: '', right: '' };
+  }
+
+  private parseGroup(): MathNode {
+    const token = this.peek();
+    if (this.isChar(token, '{')) {
+      this.pos++;
+      const body = this.parseRows(() => this.pos >= this.tokens.length || this.isChar(this.peek(), '}'));
+      this.pos++;
+      return body;
+    }
+    return this.parseAtom({ noScripts: true }) ?? { type: 'row', children: [] };
+  }
+
+  private parseRawGroup(): string {
+    if (!this.isChar(this.peek(), '{')) {
+      const token = this.tokens[this.pos++];
+      return token?.type === 'char' ? token.char : token ? `\\${token.name}` : '';
+    }
+    this.pos++;
+    let depth = 1;
+    let text = '';
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (this.isChar(token, '{')) depth++;
+      if (this.isChar(token, '}') && --depth === 0) break;
+      text += token.type === 'char' ? token.char : (SPACES[token.name] !== undefined ? ' ' : token.name.length === 1 ? token.name : `\\${token.name}`);
+    }
+    return text;
+  }
+
+  private parseOptional(): MathNode | undefined {
+    if (!this.isChar(this.peek(), '[')) return undefined;
+    this.pos++;
+    const body = this.parseRows(() => this.pos >= this.tokens.length || this.isChar(this.peek(), ']'));
+    this.pos++;
+    return body;
+  }
+
+  private parseDelimiter(): string {
+    const token = this.tokens[this.pos++];
+    if (!token) return '';
+    const key = token.type === 'char' ? token.char : `\\${token.name}`;
+    return DELIMITERS[key] ?? '';
+  }
+
+  private parseAtom(options: { noScripts?: boolean } = {}): MathNode | null {
+    const token = this.tokens[this.pos];
+    if (!token) return null;
+
+    let atom: MathNode | null;
+    if (token.type === 'char') {
+      this.pos++;
+      atom = this.parseChar(token.char);
+    } else {
+      this.pos++;
+      atom = this.parseCommand(token.name);
+    }
+    if (!atom || options.noScripts) return atom;
+
+    // Attach any ^, _ and primes that follow
+    let sup: MathNode | undefined;
+    let sub: MathNode | undefined;
+    for (; ;) {
+      const next = this.peek();
+      if (this.isChar(next, '^')) {
+        this.pos++;
+        sup = this.parseGroup();
+      } else if (this.isChar(next, '_')) {
+        this.pos++;
+        sub = this.parseGroup();
+      } else if (this.isChar(next, "'")) {
+        this.pos++;
+        const prime: MathNode = { type: 'symbol', text: '′', kind: 'ord' };
+        sup = sup ? { type: 'row', children: [sup, prime] } : prime;
+      } else {
+        break;
+      }
+    }
+    if (!sup && !sub) return atom;
+    return { type: 'scripts', base: atom, sup, sub };
+  }
+
+  private parseChar(char: string): MathNode | null {
+    if (/\s/.test(char) || char === '{' || char === '}') {
+      if (char === '{') {
+        this.pos--;
+        return this.parseGroup();
+      }
+      return null;
+    }
+    if (char === '~') return { type: 'space', em: 0.25 };
+    if (/[A-Za-z]/.test(char)) return { type: 'symbol', text: char, kind: 'ord', italic: true };
+    if (/[0-9.]/.test(char)) return { type: 'symbol', text: char, kind: 'ord' };
+    if ('+-*'.includes(char)) return { type: 'symbol', text: char === '-' ? '−' : char === '*' ? '∗' : char, kind: 'bin' };
+    if ('=<>:'.includes(char)) return { type: 'symbol', text: char, kind: 'rel' };
+    if ('([' .includes(char)) return { type: 'symbol', text: char, kind: 'open' };
+    if (')]'.includes(char)) return { type: 'symbol', text: char, kind: 'close' };
+    if (',;'.includes(char)) return { type: 'symbol', text: char, kind: 'punct' };
+    if (char === '|') return { type: 'symbol', text: '|', kind: 'ord' };
+    return { type: 'symbol', text: char, kind: 'ord' };
+  }
+
+  private parseCommand(name: string): MathNode | null {
+    if (GREEK[name]) return { type: 'symbol', text: GREEK[name], kind: 'ord', italic: name[0] === name[0].toLowerCase() };
+    if (SYMBOLS[name]) return { type: 'symbol', text: SYMBOLS[name][0], kind: SYMBOLS[name][1] };
+    if (LARGE_OPERATORS[name]) return { type: 'largeop', text: LARGE_OPERATORS[name], limits: !name.includes('int') };
+    if (OPERATOR_NAMES.includes(name)) return { type: 'largeop', text: name, limits: LIMIT_OPERATORS.has(name), operatorName: true };
+    if (SPACES[name] !== undefined) return { type: 'space', em: SPACES[name] };
+
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+        return {
+          type: 'frac', num: this.parseGroup(), den: this.parseGroup(), bar: true,
+          size: name === 'dfrac' ? 'display' : name === 'tfrac' ? 'text' : undefined,
+        };
+      case 'binom':
+        return { type: 'delimited', left: '(', right: ')', body: { type: 'frac', num: this.parseGroup(), den: this.parseGroup(), bar: false } };
+      case 'sqrt': {
+        const index = this.parseOptional();
+        return { type: 'sqrt', index, body: this.parseGroup() };
+      }
+      case 'text':
+      case 'textrm':
+      case 'textit':
+      case 'textbf':
+      case 'mbox':
+        return { type: 'text', text: this.parseRawGroup(), bold: name === 'textbf' };
+      case 'operatorname':
+        return { type: 'largeop', text: this.parseRawGroup(), limits: false, operatorName: true };
+      case 'mathrm':
+      case 'mathbf':
+      case 'mathit':
+      case 'mathcal':
+      case 'mathsf':
+      case 'boldsymbol': {
+        const text = this.parseRawGroup();
+        return {
+          type: 'row',
+          children: [...text].map(ch => ({
+            type: 'symbol' as const, text: ch, kind: 'ord' as const,
+            italic: name === 'mathit' || name === 'mathcal' || name === 'boldsymbol',
+            bold: name === 'mathbf' || name === 'boldsymbol',
+          })),
+        };
+      }
+      case 'mathbb': {
+        const text = this.parseRawGroup();
+        return { type: 'row', children: [...text].map(ch => ({ type: 'symbol' as const, text: DOUBLE_STRUCK[ch] ?? ch, kind: 'ord' as const, bold: !DOUBLE_STRUCK[ch] })) };
+      }
+      case 'hat':
+      case 'widehat':
+        return { type: 'accent', accent: 'hat', body: this.parseGroup() };
+      case 'tilde':
+      case 'widetilde':
+        return { type: 'accent', accent: 'tilde', body: this.parseGroup() };
+      case 'vec':
+      case 'overrightarrow':
+        return { type: 'accent', accent: 'vec', body: this.parseGroup() };
+      case 'dot':
+        return { type: 'accent', accent: 'dot', body: this.parseGroup() };
+      case 'ddot':
+        return { type: 'accent', accent: 'ddot', body: this.parseGroup() };
+      case 'bar':
+        return { type: 'accent', accent: 'bar', body: this.parseGroup() };
+      case 'overline':
+        return { type: 'accent', accent: 'overline', body: this.parseGroup() };
+      case 'underline':
+        return { type: 'accent', accent: 'underline', body: this.parseGroup() };
+      case 'left': {
+        const left = this.parseDelimiter();
+        const body = this.parseRows(() => this.pos >= this.tokens.length || this.isCommand(this.peek(), 'right'));
+        this.pos++;
+        const right = this.parseDelimiter();
+        return { type: 'delimited', left, right, body };
+      }
+      case 'right':
+        return null;
+      case 'big': case 'Big': case 'bigg': case 'Bigg':
+      case 'bigl': case 'bigr': case 'Bigl': case 'Bigr':
+        return { type: 'symbol', text: this.parseDelimiter() || ' ', kind: name.endsWith('r') ? 'close' : 'open' };
+      case 'displaystyle':
+      case 'textstyle':
+      case 'limits':
+      case 'nolimits':
+        return null;
+      case 'begin':
+        return this.parseEnvironment(this.parseRawGroup());
+      default:
+        return { type: 'symbol', text: `\\${name}`, kind: 'ord', error: true };
+    }
+  }
+
+  private parseEnvironment(env: string): MathNode {
+    const name = env.replace(/\*$/, '');
+    // Column spec of array, it only decides alignment here
+    const spec = name === 'array' ? this.parseRawGroup() : '';
+
+    const body = this.parseRows(() => {
+      const token = this.peek();
+      return this.pos >= this.tokens.length || this.isCommand(token, 'end');
+    });
+    this.pos++;
+    this.parseRawGroup();
+
+    const rows: MathNode[][] = body.type === 'grid' ? body.rows : [[body]];
+    const delimiters: Record<string, [string, string]> = {
+      pmatrix: ['(', ')'], bmatrix: ['[', ']'], Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'], cases: ['{', ''],
+    };
+    const [left, right] = delimiters[name] ?? ['', ''];
+
+    if (name === 'cases') return { type: 'grid', rows, align: ['left', 'left'], columnGap: 1, left, right };
+    if (name === 'aligned' || name === 'align' || name === 'split' || name === 'eqnarray') {
+      return { type: 'grid', rows, align: ['right', 'left'], columnGap: 0, left, right };
+    }
+    if (name === 'array') {
+      const align = [...spec].filter(c => 'lcr'.includes(c)).map(c => (c === 'l' ? 'left' : c === 'r' ? 'right' : 'center') as 'left' | 'center' | 'right');
+      return { type: 'grid', rows, align: align.length ? align : ['center'], columnGap: 0.5, left, right };
+    }
+    return { type: 'grid', rows, align: ['center'], columnGap: name === 'gathered' ? 0 : 1, left, right };
+  }
+}
+
+export function parseMath(source: string): MathNode {
+  return new MathParser(tokenize(source)).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+
+interface LayoutStyle {
+  size: number;
+  display: boolean;
+  script: boolean;
+  measure: MeasureText;
+}
+
+const GLYPH_ASCENT = 0.72;
+const GLYPH_DEPTH = 0.22;
+const AXIS_HEIGHT = 0.25;
+const MIN_SIZE_RATIO = 0.5;
+
+function emptyBox(): MathBox {
+  return { width: 0, ascent: 0, depth: 0, items: [] };
+}
+
+function translateItem(item: MathItem, dx: number, dy: number): MathItem {
+  if (item.type === 'path') {
+    return {
+      ...item,
+      commands: item.commands.map(c => (c.length === 5
+        ? ['Q', c[1] + dx, c[2] + dy, c[3] + dx, c[4] + dy]
+        : [c[0], c[1] + dx, c[2] + dy])) as MathPathCommand[],
+    };
+  }
+  return { ...item, x: item.x + dx, y: item.y + dy };
+}
+
+function place(target: MathBox, box: MathBox, dx: number, dy: number) {
+  box.items.forEach(item => target.items.push(translateItem(item, dx, dy)));
+}
+
+function glyphBox(text: string, font: MathFont, style: LayoutStyle, error?: boolean): MathBox {
+  const width = style.measure(text, toCssFont(font));
+  return {
+    width,
+    ascent: font.size * GLYPH_ASCENT,
+    depth: font.size * GLYPH_DEPTH,
+    items: [{ type: 'glyph', x: 0, y: 0, text, font, error }],
+  };
+}
+
+function smaller(style: LayoutStyle, base: number, ratio = 0.7): LayoutStyle {
+  return { ...style, size: Math.max(style.size * ratio, base * MIN_SIZE_RATIO), display: false, script: true };
+}
+
+// Space in em between two neighbouring atoms, following TeX's inter-atom table loosely
+function atomSpacing(left: AtomKind, right: AtomKind, script: boolean): number {
+  if (left === 'bin' || right === 'bin') return script ? 0 : 4 / 18;
+  if (left === 'rel' || right === 'rel') return script ? 0 : 5 / 18;
+  if (left === 'punct') return script ? 0 : 3 / 18;
+  if ((left === 'op' && right !== 'open' && right !== 'punct') || (right === 'op' && left !== 'open')) return 3 / 18;
+  if (left === 'inner' || right === 'inner') return script ? 0 : 3 / 18;
+  return 0;
+}
+
+function atomKind(node: MathNode): AtomKind {
+  switch (node.type) {
+    case 'symbol': return node.kind;
+    case 'largeop': return 'op';
+    case 'scripts': return atomKind(node.base);
+    case 'delimited': return 'inner';
+    default: return 'ord';
+  }
+}
+
+function hstack(boxes: { box: MathBox; kind: AtomKind }[], style: LayoutStyle): MathBox {
+  const result = emptyBox();
+  let x = 0;
+  let previous: AtomKind | null = null;
+
+  boxes.forEach(({ box, kind }, i) => {
+    // A binary operator at the start, or after another operator, acts as a sign
+    let effective = kind;
+    if (kind === 'bin' && (previous === null || ['bin', 'op', 'rel', 'open', 'punct'].includes(previous))) effective = 'ord';
+    if (kind === 'bin' && (i === boxes.length - 1 || boxes[i + 1]?.kind === 'close')) effective = 'ord';
+
+    if (previous !== null) x += atomSpacing(previous, effective, style.script) * style.size;
+    place(result, box, x, 0);
+    x += box.width;
+    result.ascent = Math.max(result.ascent, box.ascent);
+    result.depth = Math.max(result.depth, box.depth);
+    previous = effective;
+  });
+
+  result.width = x;
+  return result;
+}
+
+function delimiterPath(delimiter: string, x: number, top: number, bottom: number, width: number, lineWidth: number): MathItem | null {
+  const mid = (top + bottom) / 2;
+  const left = x + lineWidth;
+  const right = x + width - lineWidth;
+  const commands: MathPathCommand[] = (() => {
+    switch (delimiter) {
+      case '(': return [['M', right, top], ['Q', left - width * 0.3, mid, right, bottom]];
+      case ')': return [['M', left, top], ['Q', right + width * 0.3, mid, left, bottom]];
+      case '[': return [['M', right, top], ['L', left, top], ['L', left, bottom], ['L', right, bottom]];
+      case ']': return [['M', left, top], ['L', right, top], ['L', right, bottom], ['L', left, bottom]];
+      case '⌊': return [['M', left, top], ['L', left, bottom], ['L', right, bottom]];
+      case '⌋': return [['M', right, top], ['L', right, bottom], ['L', left, bottom]];
+      case '⌈': return [['M', right, top], ['L', left, top], ['L', left, bottom]];
+      case '⌉': return [['M', left, top], ['L', right, top], ['L', right, bottom]];
+      case '|': return [['M', (left + right) / 2, top], ['L', (left + right) / 2, bottom]];
+      case '‖': return [['M', left + (right - left) * 0.3, top], ['L', left + (right - left) * 0.3, bottom], ['M', right - (right - left) * 0.3, top], ['L', right - (right - left) * 0.3, bottom]];
+      case '⟨': return [['M', right, top], ['L', left, mid], ['L', right, bottom]];
+      case '⟩': return [['M', left, top], ['L', right, mid], ['L', left, bottom]];
+      case '/': return [['M', right, top], ['L', left, bottom]];
+      case '{': {
+        const c = (left + right) / 2;
+        return [['M', right, top], ['Q', c, top, c, top + (mid - top) * 0.3], ['L', c, mid - (mid - top) * 0.3], ['Q', c, mid, left, mid],
+          ['Q', c, mid, c, mid + (bottom - mid) * 0.3], ['L', c, bottom - (bottom - mid) * 0.3], ['Q', c, bottom, right, bottom]];
+      }
+      case '}': {
+        const c = (left + right) / 2;
+        return [['M', left, top], ['Q', c, top, c, top + (mid - top) * 0.3], ['L', c, mid - (mid - top) * 0.3], ['Q', c, mid, right, mid],
+          ['Q', c, mid, c, mid + (bottom - mid) * 0.3], ['L', c, bottom - (bottom - mid) * 0.3], ['Q', c, bottom, left, bottom]];
+      }
+      default: return [];
+    }
+  })();
+  return commands.length ? { type: 'path', commands, lineWidth } : null;
+}
+
+// Wrap a box in delimiters drawn to its full height
+function withDelimiters(body: MathBox, left: string, right: string, style: LayoutStyle): MathBox {
+  if (!left && !right) return body;
+  const { size } = style;
+  const axis = size * AXIS_HEIGHT;
+  const half = Math.max(body.ascent - axis, body.depth + axis, size * 0.5) + size * 0.08;
+  const top = -axis - half;
+  const bottom = -axis + half;
+  const delimWidth = size * Math.min(0.55, 0.3 + half / size * 0.08);
+  const lineWidth = Math.max(size * 0.06, 1);
+
+  const result = emptyBox();
+  let x = 0;
+  if (left) {
+    const path = delimiterPath(left, x, top, bottom, delimWidth, lineWidth);
+    if (path) result.items.push(path);
+    x += delimWidth + size * 0.05;
+  }
+  place(result, body, x, 0);
+  x += body.width;
+  if (right) {
+    x += size * 0.05;
+    const path = delimiterPath(right, x, top, bottom, delimWidth, lineWidth);
+    if (path) result.items.push(path);
+    x += delimWidth;
+  }
+  result.width = x;
+  result.ascent = Math.max(body.ascent, -top);
+  result.depth = Math.max(body.depth, bottom);
+  return result;
+}
+
+function layoutNode(node: MathNode, style: LayoutStyle, base: number): MathBox {
+  const { size } = style;
+
+  switch (node.type) {
+    case 'symbol': {
+      const font: MathFont = { family: 'math', size, italic: node.italic, bold: node.bold };
+      return glyphBox(node.text, font, style, node.error);
+    }
+
+    case 'text':
+      return glyphBox(node.text, { family: 'text', size: size * 0.9, bold: node.bold }, style);
+
+    case 'space':
+      return { width: node.em * size, ascent: 0, depth: 0, items: [] };
+
+    case 'row':
+      return hstack(node.children.map(child => ({ box: layoutNode(child, style, base), kind: atomKind(child) })), style);
+
+    case 'largeop': {
+      if (node.operatorName) return glyphBox(node.text, { family: 'math', size }, style);
+      const scale = style.display ? 1.6 : 1.2;
+      const box = glyphBox(node.text, { family: 'math', size: size * scale }, style);
+      // Centre the enlarged symbol on the math axis
+      const shift = (box.ascent - box.depth) / 2 - size * AXIS_HEIGHT;
+      return { ...box, ascent: box.ascent - shift, depth: box.depth + shift, items: box.items.map(i => translateItem(i, 0, shift)) };
+    }
+
+    case 'scripts': {
+      const baseBox = layoutNode(node.base, style, base);
+      const scriptStyle = smaller(style, base);
+      const sup = node.sup ? layoutNode(node.sup, scriptStyle, base) : null;
+      const sub = node.sub ? layoutNode(node.sub, scriptStyle, base) : null;
+
+      if (node.base.type === 'largeop' && node.base.limits && style.display) {
+        // Limits stacked above and below the operator
+        const gap = size * 0.12;
+        const width = Math.max(baseBox.width, sup?.width ?? 0, sub?.width ?? 0);
+        const result: MathBox = { width, ascent: baseBox.ascent, depth: baseBox.depth, items: [] };
+        place(result, baseBox, (width - baseBox.width) / 2, 0);
+        if (sup) {
+          const y = -baseBox.ascent - gap - sup.depth;
+          place(result, sup, (width - sup.width) / 2, y);
+          result.ascent = -y + sup.ascent;
+        }
+        if (sub) {
+          const y = baseBox.depth + gap + sub.ascent;
+          place(result, sub, (width - sub.width) / 2, y);
+          result.depth = y + sub.depth;
+        }
+        return result;
+      }
+
+      let supShift = sup ? Math.max(size * 0.42, baseBox.ascent - sup.ascent * 0.5) : 0;
+      let subShift = sub ? Math.max(size * 0.2, baseBox.depth + sub.ascent * 0.3 - size * 0.1) : 0;
+      if (sup && sub) {
+        // Keep the two scripts from touching
+        const clearance = (supShift - sup.depth) - (sub.ascent - subShift);
+        const minimum = size * 0.15;
+        if (clearance < minimum) {
+          supShift += (minimum - clearance) / 2;
+          subShift += (minimum - clearance) / 2;
+        }
+      }
+
+      const italicCorrection = node.base.type === 'symbol' && node.base.italic ? size * 0.05 : 0;
+      const result: MathBox = { width: 0, ascent: baseBox.ascent, depth: baseBox.depth, items: [] };
+      place(result, baseBox, 0, 0);
+      const x = baseBox.width;
+      if (sup) {
+        place(result, sup, x + italicCorrection, -supShift);
+        result.ascent = Math.max(result.ascent, supShift + sup.ascent);
+      }
+      if (sub) {
+        place(result, sub, x, subShift);
+        result.depth = Math.max(result.depth, subShift + sub.depth);
+      }
+      result.width = x + Math.max(sup ? sup.width + italicCorrection : 0, sub?.width ?? 0) + size * 0.05;
+      return result;
+    }
+
+    case 'frac': {
+      const innerStyle = node.size === 'display'
+        ? { ...style, display: false }
+        : node.size === 'text' || !style.display ? smaller(style, base, 0.8) : { ...style, display: false };
+      const num = layoutNode(node.num, innerStyle, base);
+      const den = layoutNode(node.den, innerStyle, base);
+      const thickness = node.bar ? Math.max(size * 0.05, 0.8) : 0;
+      const gap = size * (style.display ? 0.18 : 0.12);
+      const pad = size * 0.1;
+      const width = Math.max(num.width, den.width) + pad * 2;
+      const axis = size * AXIS_HEIGHT;
+
+      const result: MathBox = { width, ascent: 0, depth: 0, items: [] };
+      const numY = -axis - thickness / 2 - gap - num.depth;
+      const denY = -axis + thickness / 2 + gap + den.ascent;
+      place(result, num, (width - num.width) / 2, numY);
+      place(result, den, (width - den.width) / 2, denY);
+      if (node.bar) result.items.push({ type: 'rule', x: pad / 2, y: -axis - thickness / 2, width: width - pad, height: thickness });
+      result.ascent = -numY + num.ascent;
+      result.depth = denY + den.depth;
+      return result;
+    }
+
+    case 'sqrt': {
+      const body = layoutNode(node.body, style, base);
+      const lineWidth = Math.max(size * 0.05, 0.8);
+      const gap = size * 0.12;
+      const top = -(body.ascent + gap + lineWidth);
+      const bottom = body.depth;
+      const signWidth = size * 0.6;
+
+      const result: MathBox = { width: 0, ascent: -top + lineWidth, depth: bottom, items: [] };
+      let x = 0;
+      if (node.index) {
+        const index = layoutNode(node.index, smaller(style, base, 0.5), base);
+        place(result, index, 0, top * 0.45);
+        result.ascent = Math.max(result.ascent, -top * 0.45 + index.ascent);
+        x = Math.max(0, index.width - signWidth * 0.45);
+      }
+      result.items.push({
+        type: 'path',
+        lineWidth,
+        commands: [
+          ['M', x, (top + bottom) * 0.45 + bottom * 0.1],
+          ['L', x + signWidth * 0.25, (top + bottom) * 0.5],
+          ['L', x + signWidth * 0.55, bottom],
+          ['L', x + signWidth, top],
+          ['L', x + signWidth + body.width + size * 0.1, top],
+        ],
+      });
+      place(result, body, x + signWidth + size * 0.05, 0);
+      result.width = x + signWidth + body.width + size * 0.15;
+      return result;
+    }
+
+    case 'accent': {
+      const body = layoutNode(node.body, style, base);
+      const result: MathBox = { ...body, items: [...body.items] };
+      const lineWidth = Math.max(size * 0.05, 0.8);
+
+      if (node.accent === 'underline') {
+        const y = body.depth + size * 0.08;
+        result.items.push({ type: 'rule', x: 0, y, width: body.width, height: lineWidth });
+        result.depth = y + lineWidth;
+        return result;
+      }
+      if (node.accent === 'overline' || node.accent === 'bar') {
+        const y = -body.ascent - size * 0.1 - lineWidth;
+        result.items.push({ type: 'rule', x: node.accent === 'bar' ? body.width * 0.1 : 0, y, width: node.accent === 'bar' ? body.width * 0.8 : body.width, height: lineWidth });
+        result.ascent = -y;
+        return result;
+      }
+      if (node.accent === 'vec') {
+        const y = -body.ascent - size * 0.15;
+        const headSize = size * 0.12;
+        result.items.push({
+          type: 'path', lineWidth, commands: [
+            ['M', 0, y], ['L', body.width, y], ['M', body.width - headSize, y - headSize], ['L', body.width, y], ['L', body.width - headSize, y + headSize],
+          ],
+        });
+        result.ascent = -y + headSize;
+        return result;
+      }
+
+      const accentText = { hat: 'ˆ', tilde: '˜', dot: '˙', ddot: '¨' }[node.accent];
+      const accent = glyphBox(accentText, { family: 'math', size }, style);
+      // Accent glyphs sit high in their em box, so pull them down onto the body
+      const y = -body.ascent + size * 0.55;
+      place(result, accent, (body.width - accent.width) / 2 + (node.body.type === 'symbol' && node.body.italic ? size * 0.08 : 0), y);
+      result.ascent = body.ascent + size * 0.2;
+      return result;
+    }
+
+    case 'delimited':
+      return withDelimiters(layoutNode(node.body, style, base), node.left, node.right, style);
+
+    case 'grid': {
+      const cellStyle = { ...style, display: style.display && node.align.length === 1 && node.columnGap === 1 && node.rows.every(r => r.length === 1) };
+      const cells = node.rows.map(row => row.map(cell => layoutNode(cell, cellStyle, base)));
+      const columnCount = Math.max(...cells.map(r => r.length));
+      const columnWidths = Array.from({ length: columnCount }, (_, c) => Math.max(0, ...cells.map(r => r[c]?.width ?? 0)));
+      const rowGap = size * 0.3;
+      const columnGap = node.columnGap * size;
+
+      const result = emptyBox();
+      let y = 0;
+      const rowBaselines: number[] = [];
+      cells.forEach((row, r) => {
+        const ascent = Math.max(size * GLYPH_ASCENT, ...row.map(b => b.ascent));
+        const depth = Math.max(size * GLYPH_DEPTH, ...row.map(b => b.depth));
+        if (r > 0) y += rowGap;
+        y += ascent;
+        rowBaselines.push(y);
+        let x = 0;
+        row.forEach((cell, c) => {
+          const align = node.align[c % node.align.length];
+          const offset = align === 'left' ? 0 : align === 'right' ? columnWidths[c] - cell.width : (columnWidths[c] - cell.width) / 2;
+          place(result, cell, x + offset, y);
+          x += columnWidths[c] + columnGap;
+        });
+        y += depth;
+      });
+
+      // Centre the grid on the math axis
+      const shift = y / 2 + size * AXIS_HEIGHT;
+      result.items = result.items.map(item => translateItem(item, 0, -shift));
+      result.width = columnWidths.reduce((a, b) => a + b, 0) + columnGap * Math.max(0, columnCount - 1);
+      result.ascent = shift;
+      result.depth = y - shift;
+      return withDelimiters(result, node.left, node.right, style);
+    }
+  }
+}
+
+export interface MathLayoutOptions {
+  size: number;
+  display?: boolean;
+  measure?: MeasureText;
+}
+
+export function layoutMath(source: string, { size, display = false, measure = measureText }: MathLayoutOptions): MathBox {
+  const style: LayoutStyle = { size, display, script: false, measure };
+  try {
+    return layoutNode(parseMath(source), style, size);
+  } catch {
+    // Malformed input shows as source rather than breaking the page
+    return glyphBox(source, { family: 'math', size }, style, true);
+  }
+}
+
+export const MATH_ERROR_COLOR = '#f87171';
+
+/**
+ * Draw a laid-out formula with its baseline starting at (x, y)
+ */
+export function drawMathOnContext(ctx: CanvasRenderingContext2D, box: MathBox, x: number, y: number, color: string) {
+  ctx.save();
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+  ctx.setLineDash([]);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  box.items.forEach(item => {
+    if (item.type === 'glyph') {
+      ctx.font = toCssFont(item.font);
+      ctx.fillStyle = item.error ? MATH_ERROR_COLOR : color;
+      ctx.fillText(item.text, x + item.x, y + item.y);
+    } else if (item.type === 'rule') {
+      ctx.fillStyle = color;
+      ctx.fillRect(x + item.x, y + item.y, item.width, item.height);
+    } else {
+      ctx.beginPath();
+      item.commands.forEach(c => {
+        if (c.length === 5) ctx.quadraticCurveTo(x + c[1], y + c[2], x + c[3], y + c[4]);
+        else if (c[0] === 'M') ctx.moveTo(x + c[1], y + c[2]);
+        else ctx.lineTo(x + c[1], y + c[2]);
+      });
+      ctx.strokeStyle = color;
+      ctx.lineWidth = item.lineWidth;
+      ctx.stroke();
+    }
+  });
+
+  ctx.restore();
+}
+
+export interface RichTextSegment {
+  type: 'text' | 'math';
+  text: string;
+  display?: boolean; // $$...$$
+}
+
+/**
+ * Split plain text into text and $...$ / $$...$$ math segments. A $ followed by
+ * a space or preceded by one is not a delimiter, so prices like "$5 and $10" stay text.
+ */
+export function splitMathSegments(text: string): RichTextSegment[] {
+  const segments: RichTextSegment[] = [];
+  const pattern = /\$\$([\s\S]+?)\$\$|\$(?=\S)((?:\\\$|[^$\n])+?)(?<=\S)\$(?!\d)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > 0 && text[match.index - 1] === '\\') continue;
+    if (match.index > lastIndex) segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    segments.push(match[1] !== undefined
+      ? { type: 'math', text: match[1].trim(), display: true }
+      : { type: 'math', text: match[2] });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ type: 'text', text: text.slice(lastIndex) });
+  return segments;
+}
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { handleLocalRequest, resetLocalBackend } from './localBackend';
+
+// Without IndexedDB (as under Node) the local backend keeps its state in memory
+
+async function request<T = unknown>(method: string, endpoint: string, body?: unknown): Promise<{ status: number; body: T }> {
+  const response = await handleLocalRequest(endpoint, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: response.status === 204 ? undefined as T : await response.json().catch(() => undefined) };
+}
+
+interface BatchAnswer {
+  applied: boolean;
+  results: { status: number; body?: { id: number; sourceId?: number; targetId?: number }; error?: string | null }[];
+}
+
+const batch = (operations: { method: string; endpoint: string; body?: unknown }[]) =>
+  request<BatchAnswer>('POST', '/api/batch', { atomic: true, operations });
+
+describe('local backend batches', () => {
+  beforeEach(async () => {
+    await resetLocalBackend();
+  });
+
+  it('swaps $ref:<index> for the id an earlier write got', async () => {
+    const { body } = await batch([
+      { method: 'POST', endpoint: '/api/nodes', body: { Title: 'A', GroupId: 0, ProjectId: 1 } },
+      { method: 'POST', endpoint: '/api/nodes', body: { Title: 'B', GroupId: 0, ProjectId: 1 } },
+      { method: 'POST', endpoint: '/api/links', body: { SourceId: '$ref:0', TargetId: '$ref:1', Color: '#fff' } },
+      { method: 'GET', endpoint: '/api/nodes/$ref:1' },
+    ]);
+
+    expect(body.applied).toBe(true);
+    const [a, b, link, fetched] = body.results.map(r => r.body!);
+    expect(link.sourceId).toBe(a.id);
+    expect(link.targetId).toBe(b.id);
+    expect(fetched.id).toBe(b.id);
+  });
+
+  it('leaves text that looks like a reference as typed', async () => {
+    const { body } = await batch([
+      { method: 'POST', endpoint: '/api/nodes', body: { Title: '$ref:0', Content: '$ref:7', GroupId: 0, ProjectId: 1 } },
+      { method: 'POST', endpoint: '/api/links', body: { SourceId: '$ref:0', TargetId: '$ref:0', Description: '$ref:0', Color: '#fff' } },
+    ]);
+
+    expect(body.applied).toBe(true);
+    const [node, link] = body.results.map(r => r.body as { id: number; title?: string; content?: string; sourceId?: number; description?: string });
+    expect(node).toMatchObject({ title: '$ref:0', content: '$ref:7' });
+    expect(link).toMatchObject({ sourceId: node.id, description: '$ref:0' });
+  });
+
+  it('refuses a reference to a write that has no id, and keeps nothing', async () => {
+    const { body } = await batch([
+      { method: 'POST', endpoint: '/api/nodes', body: { Title: 'A', GroupId: 0, ProjectId: 1 } },
+      { method: 'DELETE', endpoint: '/api/nodes/$ref:0' },
+      { method: 'POST', endpoint: '/api/links', body: { SourceId: '$ref:1', TargetId: '$ref:0', Color: '#fff' } },
+    ]);
+
+    expect(body.applied).toBe(false);
+    expect(body.results[2].status).toBe(400);
+    expect((await request<unknown[]>('GET', '/api/nodes')).body).toEqual([]);
+  });
+
+  it('rolls back every earlier write when a later one is refused', async () => {
+    const { body: first } = await request<{ id: number }>('POST', '/api/nodes', { Title: 'A', GroupId: 0, ProjectId: 1 });
+    const { body: second } = await request<{ id: number }>('POST', '/api/nodes', { Title: 'B', GroupId: 0, ProjectId: 1 });
+    const { body: before } = await request<{ revision: number }>('GET', '/api/projects/1/changes?since=0');
+
+    const { body } = await batch([
+      { method: 'PUT', endpoint: `/api/nodes/${first.id}`, body: { Title: 'A2', Version: 1 } },
+      { method: 'POST', endpoint: '/api/nodes', body: { Title: 'C', GroupId: 0, ProjectId: 1 } },
+      { method: 'DELETE', endpoint: `/api/nodes/${second.id}` },
+      { method: 'PUT', endpoint: `/api/nodes/${second.id}`, body: { Title: 'B2' } },
+    ]);
+
+    expect(body.applied).toBe(false);
+    expect(body.results.map(r => r.status)).toEqual([200, 200, 204, 404]);
+
+    const { body: nodes } = await request<{ id: number; title: string; version: number }[]>('GET', '/api/nodes');
+    expect(nodes.map(n => [n.id, n.title, n.version])).toEqual([[first.id, 'A', 1], [second.id, 'B', 1]]);
+    // The change feed and id counters go back too, so other tabs see nothing and ids aren't skipped
+    expect((await request<{ revision: number }>('GET', '/api/projects/1/changes?since=0')).body.revision).toBe(before.revision);
+    expect((await request<{ id: number }>('POST', '/api/nodes', { Title: 'C', GroupId: 0, ProjectId: 1 })).body.id).toBe(second.id + 1);
+  });
+
+  it('rolls back on a version conflict', async () => {
+    const { body: node } = await request<{ id: number }>('POST', '/api/nodes', { Title: 'A', GroupId: 0, ProjectId: 1 });
+    await request('PUT', `/api/nodes/${node.id}`, { Title: 'A2', Version: 1 });
+
+    const { body } = await batch([
+      { method: 'POST', endpoint: '/api/links', body: { SourceId: node.id, TargetId: node.id, Color: '#fff' } },
+      { method: 'PUT', endpoint: `/api/nodes/${node.id}`, body: { Title: 'A3', Version: 1 } },
+    ]);
+
+    expect(body.applied).toBe(false);
+    expect(body.results[1].status).toBe(409);
+    expect((await request<unknown[]>('GET', '/api/links')).body).toEqual([]);
+    expect((await request<{ title: string }>('GET', `/api/nodes/${node.id}`)).body.title).toBe('A2');
+  });
+
+  it('refuses nested batches', async () => {
+    const { body } = await batch([
+      { method: 'POST', endpoint: '/api/nodes', body: { Title: 'A', GroupId: 0, ProjectId: 1 } },
+      { method: 'POST', endpoint: '/api/batch', body: { operations: [] } },
+    ]);
+
+    expect(body.applied).toBe(false);
+    expect((await request<unknown[]>('GET', '/api/nodes')).body).toEqual([]);
+  });
+});
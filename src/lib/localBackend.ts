@@ -0,0 +1,559 @@
+// The whole API, run inside the browser and kept in IndexedDB. Used when the
+// backend mode is 'local' (see backendAdapter.ts): the "try without an account"
+// demo, working with no server at all, and UI tests that need a backend that
+// starts empty and hands out the same ids every run.
+import type { ProjectChange, RevisionEntity, RevisionAction, ReviewLogEntry } from '@/types/knowledge';
+import { resolveBatchRefs } from './batchRefs';
+
+type Id = number | string;
+type Row = Record<string, unknown> & { id: Id };
+
+interface LocalState {
+  tables: Record<string, Row[]>;
+  nextIds: Record<string, number>;
+  nodeTags: { nodeId: number; tagId: number }[];
+  changes: (ProjectChange & { projectId: number })[];
+  revision: number;
+  // Changes up to this revision have been dropped from `changes`
+  trimmedThrough: number;
+  passwordHashes: Record<string, string>; // Profile id → SHA-256 of the password
+  reviewLog: ReviewLogEntry[];
+}
+
+interface LocalResult {
+  status: number;
+  body?: unknown;
+}
+
+const DB_NAME = 'nexus-local-backend';
+const STORE = 'state';
+const STATE_KEY = 'state';
+
+// How many changes `projects/:id/changes` can catch up on before asking for a new snapshot
+const MAX_CHANGES = 2000;
+
+// URL segment → table
+const RESOURCES: Record<string, string> = {
+  'projects': 'projects',
+  'nodes': 'nodes',
+  'links': 'links',
+  'tags': 'tags',
+  'attachments': 'attachments',
+  'groups': 'groups',
+  'drawings': 'drawings',
+  'relationship-types': 'relationshipTypes',
+  'profiles': 'profiles',
+  'flashcards': 'flashcards',
+  'revisions': 'revisions',
+  'project-members': 'projectMembers',
+  'share-links': 'shareLinks',
+  'comment-threads': 'commentThreads',
+  'comments': 'comments',
+};
+
+// Tables whose rows carry a version and refuse stale updates
+const VERSIONED: Record<string, string> = { nodes: 'node', links: 'link' };
+
+function emptyState(): LocalState {
+  return {
+    tables: {},
+    nextIds: {},
+    nodeTags: [],
+    changes: [],
+    revision: 0,
+    trimmedThrough: 0,
+    passwordHashes: {},
+    reviewLog: [],
+  };
+}
+
+let state: LocalState | null = null;
+let loading: Promise<LocalState> | null = null;
+// Requests run one at a time so a batch never sees another request's half-done writes
+let tail: Promise<unknown> = Promise.resolve();
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readStored(): Promise<LocalState | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(STATE_KEY);
+    request.onsuccess = () => resolve(request.result as LocalState | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function writeStored(value: LocalState | null): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const request = value ? store.put(value, STATE_KEY) : store.delete(STATE_KEY);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function loadState(): Promise<LocalState> {
+  if (state) return Promise.resolve(state);
+  if (!loading) {
+    const stored = typeof indexedDB === 'undefined' ? Promise.resolve(undefined) : readStored();
+    loading = stored
+      .catch(() => undefined) // No storage: the data lives as long as the page
+      .then(found => {
+        state = found ?? emptyState();
+        return state;
+      });
+  }
+  return loading;
+}
+
+async function saveState() {
+  if (!state || typeof indexedDB === 'undefined') return;
+  try {
+    await writeStored(state);
+  } catch {
+    // Keep going in memory; the next write tries again
+  }
+}
+
+// Wipe everything, e.g. between UI tests
+export async function resetLocalBackend(): Promise<void> {
+  state = emptyState();
+  loading = null;
+  if (typeof indexedDB === 'undefined') return;
+  await writeStored(null).catch(() => { });
+}
+
+function camelize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(camelize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key.charAt(0).toLowerCase() + key.slice(1), camelize(v)]));
+  }
+  return value;
+}
+
+function table(db: LocalState, name: string): Row[] {
+  return (db.tables[name] ??= []);
+}
+
+function nextId(db: LocalState, name: string): number {
+  const id = (db.nextIds[name] ?? 0) + 1;
+  db.nextIds[name] = id;
+  return id;
+}
+
+// Profile ids are UUIDs on the real API; these look like one and come out the same every run
+function nextProfileId(db: LocalState): string {
+  return `00000000-0000-4000-8000-${String(nextId(db, 'profiles')).padStart(12, '0')}`;
+}
+
+function findRow(db: LocalState, name: string, id: Id): Row | undefined {
+  return table(db, name).find(row => String(row.id) === String(id));
+}
+
+function ok(body?: unknown): LocalResult {
+  return body === undefined ? { status: 204 } : { status: 200, body };
+}
+
+function fail(status: number, message: string, extra?: Record<string, unknown>): LocalResult {
+  return { status, body: { message, ...extra } };
+}
+
+function notFound(what = 'Not found'): LocalResult {
+  return fail(404, what);
+}
+
+function matches(row: Row, query: URLSearchParams): boolean {
+  for (const [key, value] of query) {
+    if (String(row[key] ?? '') !== value) return false;
+  }
+  return true;
+}
+
+function withNodeExtras(db: LocalState, node: Row): Row {
+  const tagIds = db.nodeTags.filter(nt => nt.nodeId === node.id).map(nt => nt.tagId);
+  return {
+    ...node,
+    tags: table(db, 'tags').filter(tag => tagIds.includes(tag.id as number)),
+    attachments: table(db, 'attachments').filter(a => a.nodeId === node.id),
+  };
+}
+
+function present(db: LocalState, name: string, row: Row): Row {
+  return name === 'nodes' ? withNodeExtras(db, row) : row;
+}
+
+function projectOf(db: LocalState, name: string, row: Row): number | null {
+  if (name === 'links') {
+    const source = findRow(db, 'nodes', row.sourceId as number);
+    return (source?.projectId as number | undefined) ?? null;
+  }
+  return (row.projectId as number | undefined) ?? null;
+}
+
+const CHANGE_ENTITIES: Record<string, RevisionEntity> = { nodes: 'node', links: 'link', drawings: 'drawing', groups: 'group' };
+
+// Remember graph writes so other tabs can catch up through projects/:id/changes
+function recordChange(db: LocalState, name: string, action: RevisionAction, row: Row) {
+  const entity = CHANGE_ENTITIES[name];
+  const projectId = entity ? projectOf(db, name, row) : null;
+  if (!entity || projectId === null) return;
+
+  db.revision += 1;
+  db.changes.push({
+    revision: db.revision,
+    projectId,
+    entity,
+    entityId: row.id as number,
+    action,
+    // A copy, since later updates change rows in place
+    snapshot: action === 'delete' ? null : structuredClone(present(db, name, row)) as unknown as ProjectChange['snapshot'],
+  });
+  if (db.changes.length > MAX_CHANGES) {
+    const dropped = db.changes.splice(0, db.changes.length - MAX_CHANGES);
+    db.trimmedThrough = dropped[dropped.length - 1].revision;
+  }
+}
+
+function createRow(db: LocalState, name: string, body: Record<string, unknown>): Row {
+  const now = new Date().toISOString();
+  const row: Row = { ...body, id: nextId(db, name), createdAt: now, updatedAt: now };
+  if (VERSIONED[name]) row.version = 1;
+  table(db, name).push(row);
+  recordChange(db, name, 'create', row);
+  return row;
+}
+
+function updateRow(db: LocalState, name: string, row: Row, body: Record<string, unknown>): LocalResult {
+  const { version, ...changes } = body;
+  if (VERSIONED[name] && version !== undefined && version !== null && version !== row.version) {
+    return fail(409, `Someone else changed this ${VERSIONED[name]} first`, { current: present(db, name, row) });
+  }
+
+  // Moves don't count as edits, so they never make someone else's save conflict
+  const isMove = Object.keys(changes).every(key => key === 'id' || key === 'x' || key === 'y');
+  Object.assign(row, changes, { id: row.id, updatedAt: new Date().toISOString() });
+  if (VERSIONED[name] && !isMove) row.version = ((row.version as number | undefined) ?? 0) + 1;
+  recordChange(db, name, 'update', row);
+  return ok(present(db, name, row));
+}
+
+function removeRows(db: LocalState, name: string, keep: (row: Row) => boolean) {
+  const rows = table(db, name);
+  const removed = rows.filter(row => !keep(row));
+  removed.forEach(row => recordChange(db, name, 'delete', row));
+  db.tables[name] = rows.filter(keep);
+  return removed;
+}
+
+function deleteNodes(db: LocalState, ids: Set<unknown>) {
+  removeRows(db, 'links', link => !ids.has(link.sourceId) && !ids.has(link.targetId));
+  removeRows(db, 'nodes', node => !ids.has(node.id));
+  db.nodeTags = db.nodeTags.filter(nt => !ids.has(nt.nodeId));
+  removeRows(db, 'attachments', a => !ids.has(a.nodeId));
+  removeRows(db, 'progress', p => !ids.has(p.nodeId));
+  const cards = new Set<unknown>(removeRows(db, 'flashcards', card => !ids.has(card.nodeId)).map(card => card.id));
+  removeRows(db, 'cardSchedules', schedule => !cards.has(schedule.cardId));
+}
+
+function deleteRow(db: LocalState, name: string, row: Row) {
+  if (name === 'nodes') return deleteNodes(db, new Set([row.id]));
+  if (name === 'tags') db.nodeTags = db.nodeTags.filter(nt => nt.tagId !== row.id);
+  if (name === 'commentThreads') removeRows(db, 'comments', c => c.threadId !== row.id);
+  if (name === 'projects') {
+    const nodeIds = new Set(table(db, 'nodes').filter(n => n.projectId === row.id).map(n => n.id));
+    deleteNodes(db, nodeIds);
+    for (const other of ['groups', 'drawings', 'relationshipTypes', 'flashcards', 'revisions', 'projectMembers', 'shareLinks', 'commentThreads', 'comments', 'progress']) {
+      removeRows(db, other, r => r.projectId !== row.id);
+    }
+    db.changes = db.changes.filter(change => change.projectId !== row.id);
+  }
+  removeRows(db, name, r => r !== row);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function handleAuth(db: LocalState, action: string, body: Record<string, unknown>): Promise<LocalResult> {
+  const email = String(body.email ?? '').trim().toLowerCase();
+  const password = String(body.password ?? '');
+  if (!email || !password) return fail(400, 'Email and password are required');
+
+  const existing = table(db, 'profiles').find(p => String(p.email ?? '').toLowerCase() === email);
+  if (action === 'login') {
+    if (!existing || db.passwordHashes[existing.id] !== await hashPassword(password)) {
+      return fail(401, 'Invalid email or password');
+    }
+    return ok(present(db, 'profiles', existing));
+  }
+
+  if (existing) {
+    const message = 'An account with this email already exists';
+    return fail(400, message, { errors: { email: [message] } });
+  }
+  const now = new Date().toISOString();
+  const profile: Row = {
+    id: nextProfileId(db),
+    email,
+    displayName: body.displayName ?? email.split('@')[0],
+    avatarUrl: body.avatarUrl ?? null,
+    provider: 'email',
+    createdAt: now,
+    updatedAt: now,
+  };
+  table(db, 'profiles').push(profile);
+  db.passwordHashes[profile.id] = await hashPassword(password);
+  return ok(profile);
+}
+
+function projectSnapshot(db: LocalState, projectId: number): LocalResult {
+  const project = findRow(db, 'projects', projectId);
+  if (!project) return notFound('Project not found');
+  const nodes = table(db, 'nodes').filter(n => n.projectId === projectId);
+  const nodeIds = new Set<unknown>(nodes.map(n => n.id));
+  return ok({
+    project,
+    groups: table(db, 'groups').filter(g => g.projectId === projectId),
+    nodes: nodes.map(n => withNodeExtras(db, n)),
+    links: table(db, 'links').filter(l => nodeIds.has(l.sourceId) && nodeIds.has(l.targetId)),
+    drawings: table(db, 'drawings').filter(d => d.projectId === projectId),
+    relationshipTypes: table(db, 'relationshipTypes').filter(t => t.projectId === projectId),
+    revision: db.revision,
+  });
+}
+
+function projectChanges(db: LocalState, projectId: number, since: number): LocalResult {
+  if (since < db.trimmedThrough) return ok({ revision: db.revision, changes: [], reset: true });
+  const changes = db.changes
+    .filter(change => change.projectId === projectId && change.revision > since)
+    .map(({ revision, entity, entityId, action, snapshot }) => ({ revision, entity, entityId, action, snapshot }));
+  return ok({ revision: db.revision, changes });
+}
+
+function upsert(db: LocalState, name: string, body: Record<string, unknown>, sameAs: (row: Row) => boolean): Row {
+  const existing = table(db, name).find(sameAs);
+  if (existing) {
+    Object.assign(existing, body, { id: existing.id, updatedAt: new Date().toISOString() });
+    return existing;
+  }
+  const row: Row = { ...body, id: nextId(db, name), updatedAt: new Date().toISOString() };
+  table(db, name).push(row);
+  return row;
+}
+
+async function handle(db: LocalState, method: string, endpoint: string, body: unknown): Promise<LocalResult> {
+  const url = new URL(endpoint, 'http://local');
+  const [prefix, resource, ...rest] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (prefix !== 'api') return notFound();
+  const query = url.searchParams;
+  const data = (body && typeof body === 'object' && !Array.isArray(body) ? body : {}) as Record<string, unknown>;
+  const [first, second, third] = rest;
+
+  if (resource === 'batch' && method === 'POST') return notFound('Batches cannot be nested');
+
+  if (resource === 'auth' && method === 'POST' && (first === 'login' || first === 'register')) {
+    return handleAuth(db, first, data);
+  }
+
+  if (resource === 'projects' && first && method === 'GET') {
+    if (second === 'snapshot') return projectSnapshot(db, Number(first));
+    if (second === 'changes') return projectChanges(db, Number(first), Number(query.get('since') ?? 0));
+  }
+
+  if (resource === 'nodes') {
+    if (first === 'user' && method === 'GET') {
+      return ok(table(db, 'nodes').filter(n => n.userId === second).map(n => withNodeExtras(db, n)));
+    }
+    if (first === 'search' && method === 'GET') {
+      const term = (query.get('query') ?? '').toLowerCase();
+      return ok(table(db, 'nodes')
+        .filter(n => `${n.title ?? ''} ${n.content ?? ''}`.toLowerCase().includes(term))
+        .map(n => withNodeExtras(db, n)));
+    }
+    if (second === 'tags' && third) {
+      const nodeId = Number(first);
+      const tagId = Number(third);
+      const node = findRow(db, 'nodes', nodeId);
+      if (!node || !findRow(db, 'tags', tagId)) return notFound('Node or tag not found');
+      db.nodeTags = db.nodeTags.filter(nt => nt.nodeId !== nodeId || nt.tagId !== tagId);
+      if (method === 'POST') db.nodeTags.push({ nodeId, tagId });
+      recordChange(db, 'nodes', 'update', node);
+      return ok();
+    }
+  }
+
+  if (resource === 'links' && (first === 'node' || first === 'user') && method === 'GET') {
+    const id = first === 'node' ? Number(second) : second;
+    return ok(table(db, 'links').filter(l => first === 'node' ? l.sourceId === id || l.targetId === id : l.userId === id));
+  }
+
+  if (resource === 'tags' && method === 'GET') {
+    if (first === 'user') return ok(table(db, 'tags').filter(t => t.userId === second));
+    if (first === 'name') {
+      const tag = table(db, 'tags').find(t => String(t.name).toLowerCase() === (second ?? '').toLowerCase());
+      return tag ? ok(tag) : notFound('Tag not found');
+    }
+  }
+
+  if (resource === 'groups' && first === 'reorder' && method === 'PUT') {
+    const ids = Array.isArray(body) ? body : [];
+    ids.forEach((id, order) => {
+      const group = findRow(db, 'groups', id as number);
+      if (group) updateRow(db, 'groups', group, { order });
+    });
+    return ok();
+  }
+
+  if (resource === 'share-links' && first && method === 'POST' && (second === 'views' || second === 'revoke')) {
+    const link = findRow(db, 'shareLinks', first);
+    if (!link) return notFound('Share link not found');
+    if (second === 'views') link.viewCount = ((link.viewCount as number | undefined) ?? 0) + 1;
+    else link.revokedAt ??= new Date().toISOString();
+    return ok(link);
+  }
+
+  if (resource === 'profiles' && first === 'email' && method === 'GET') {
+    const email = (second ?? '').toLowerCase();
+    const provider = query.get('provider');
+    const profile = table(db, 'profiles').find(p => String(p.email ?? '').toLowerCase() === email && (!provider || p.provider === provider));
+    return profile ? ok(present(db, 'profiles', profile)) : notFound('Profile not found');
+  }
+
+  if (resource === 'progress') {
+    if (first === 'user' && method === 'GET') return ok(table(db, 'progress').filter(p => p.userId === second));
+    if (!first && method === 'GET') return ok(table(db, 'progress').filter(p => matches(p, query)));
+    if (!first && method === 'PUT') {
+      return ok(upsert(db, 'progress', data, p => p.nodeId === data.nodeId && p.userId === data.userId));
+    }
+  }
+
+  if (resource === 'flashcards' && first === 'reviews') {
+    if (method === 'GET') {
+      const cards = new Set<unknown>(table(db, 'flashcards').filter(c => String(c.projectId) === query.get('projectId')).map(c => c.id));
+      return ok(table(db, 'cardSchedules').filter(s => cards.has(s.cardId) && s.userId === query.get('userId')));
+    }
+    if (method === 'POST') {
+      const review = data.review as ReviewLogEntry | undefined;
+      const schedule = data.schedule as Record<string, unknown> | undefined;
+      if (!review || !schedule) return fail(400, 'A review and a schedule are required');
+      db.reviewLog.push(review);
+      upsert(db, 'cardSchedules', schedule, s => s.cardId === schedule.cardId && s.userId === schedule.userId);
+      return ok(schedule);
+    }
+  }
+
+  const name = resource ? RESOURCES[resource] : undefined;
+  if (!name) return notFound();
+
+  // Revisions carry ids made on the client; saving one again replaces it
+  if (name === 'revisions' && first && method === 'PUT') {
+    const existing = findRow(db, name, first);
+    if (existing) Object.assign(existing, data, { id: first });
+    else table(db, name).push({ ...data, id: first });
+    return ok(findRow(db, name, first));
+  }
+
+  if (!first) {
+    if (method === 'GET') {
+      const rows = table(db, name).filter(row => matches(row, query));
+      return ok(rows.map(row => present(db, name, row)));
+    }
+    if (method === 'POST') return ok(present(db, name, createRow(db, name, data)));
+    return fail(405, `${method} is not supported here`);
+  }
+
+  const row = findRow(db, name, first);
+  if (!row) return notFound();
+  if (method === 'GET') return ok(present(db, name, row));
+  if (method === 'PUT') return updateRow(db, name, row, data);
+  if (method === 'DELETE') {
+    deleteRow(db, name, row);
+    return ok();
+  }
+  return fail(405, `${method} is not supported here`);
+}
+
+interface BatchOperation {
+  method: string;
+  endpoint: string;
+  body?: unknown;
+}
+
+// Every operation runs, with `$ref:<index>` swapped for the id an earlier one
+// got (see batchRefs.ts); if any is refused the state goes back to how it was before the batch
+async function handleBatch(db: LocalState, body: unknown): Promise<LocalResult> {
+  const operations = ((body as { operations?: BatchOperation[] } | null)?.operations ?? []);
+  const before = structuredClone(db);
+  const results: { status: number; body?: unknown; error?: string | null }[] = [];
+  const idOf = (index: number) => {
+    const id = index < results.length ? (results[index].body as { id?: unknown } | undefined)?.id : undefined;
+    return typeof id === 'number' ? id : undefined;
+  };
+
+  for (const op of operations) {
+    let resolved: BatchOperation;
+    try {
+      resolved = resolveBatchRefs(op, idOf);
+    } catch (err) {
+      results.push({ status: 400, error: (err as Error).message });
+      continue;
+    }
+    const result = await handle(db, resolved.method, resolved.endpoint, resolved.body ?? null);
+    results.push(result.status >= 400
+      ? { status: result.status, error: (result.body as { message?: string } | undefined)?.message ?? null }
+      : { status: result.status, body: result.body });
+  }
+
+  const applied = results.every(result => result.status < 400);
+  if (!applied) Object.assign(db, before);
+  return ok({ applied, results });
+}
+
+function toResponse(result: LocalResult): Response {
+  if (result.body === undefined) return new Response(null, { status: result.status });
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Answer an API request the way the real API would, as a fetch Response.
+ * Keys come in either case and go out camelCase.
+ */
+export function handleLocalRequest(endpoint: string, init: RequestInit): Promise<Response> {
+  const run = async () => {
+    if (init.signal?.aborted) throw init.signal.reason;
+    const db = await loadState();
+    const method = (init.method ?? 'GET').toUpperCase();
+    let body: unknown = null;
+    if (typeof init.body === 'string' && init.body) {
+      try {
+        body = camelize(JSON.parse(init.body));
+      } catch {
+        return toResponse(fail(400, 'The request body is not valid JSON'));
+      }
+    }
+
+    const result = endpoint.split('?')[0] === '/api/batch' && method === 'POST'
+      ? await handleBatch(db, body)
+      : await handle(db, method, endpoint, body);
+    if (method !== 'GET' && result.status < 400) await saveState();
+    return toResponse(result);
+  };
+
+  const response = tail.then(run, run);
+  tail = response.catch(() => { });
+  return response;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from './markdown';
+
+const links = (text: string) => parseInline(text).filter(node => node.type === 'link');
+
+describe('parseInline', () => {
+  it('links to web pages, mail, paths and anchors', () => {
+    expect(parseInline('[Docs](https://example.com/a?b=1)')).toEqual([
+      { type: 'link', href: 'https://example.com/a?b=1', children: [{ type: 'text', text: 'Docs' }] },
+    ]);
+    expect(links('[a](mailto:ada@example.com) [b](/projects/1) [c](#intro) [d](HTTP://EXAMPLE.COM)').map(l => l.type === 'link' && l.href))
+      .toEqual(['mailto:ada@example.com', '/projects/1', '#intro', 'HTTP://EXAMPLE.COM']);
+  });
+
+  it('keeps only the text of links to scripts, data and other schemes', () => {
+    for (const href of ['javascript:alert(document.cookie)', 'JavaScript:void0', 'data:text/html;base64,PHNjcmlwdD4=', 'vbscript:msgbox', 'file:///etc/passwd']) {
+      const parsed = parseInline(`[Click](${href})`);
+      expect(parsed.filter(node => node.type === 'link')).toEqual([]);
+      expect(parsed[0]).toEqual({ type: 'text', text: 'Click' });
+    }
+  });
+
+  it('reads [[Title|label]] as a wiki link with its own label', () => {
+    expect(parseInline('See [[ Sets | the basics ]] and [[Maps]]')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'wikilink', target: 'Sets', label: 'the basics' },
+      { type: 'text', text: ' and ' },
+      { type: 'wikilink', target: 'Maps', label: 'Maps' },
+    ]);
+  });
+
+  it('leaves code spans as they were typed', () => {
+    expect(parseInline('`[[Sets]] **not bold**` then **bold**')).toEqual([
+      { type: 'code', text: '[[Sets]] **not bold**' },
+      { type: 'text', text: ' then ' },
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('keeps fenced code as it was typed, with its language', () => {
+    expect(parseMarkdown('Before\n```TS\n[[Sets]] [x](javascript:alert(1))\n  # not a heading\n```\nAfter')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Before' }] },
+      { type: 'code', lang: 'ts', text: '[[Sets]] [x](javascript:alert(1))\n  # not a heading' },
+      { type: 'paragraph', children: [{ type: 'text', text: 'After' }] },
+    ]);
+  });
+
+  it('runs an unclosed fence to the end', () => {
+    expect(parseMarkdown('```\n- one\n\n> two')).toEqual([{ type: 'code', lang: '', text: '- one\n\n> two' }]);
+  });
+});
@@ -0,0 +1,231 @@
+// Small Markdown parser for node content. Produces a tree that MarkdownContent
+// renders with React elements, so no HTML from the content ever reaches the DOM.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'wikilink'; target: string; label: string }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  checked: boolean | null; // null when the item is not a task
+  sublist?: Extract<MarkdownBlock, { type: 'list' }>;
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'hr' };
+
+const FENCE = /^\s*```\s*([\w+#-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const SAFE_HREF = /^(https?:\/\/|mailto:|\/|#)/i;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) code.push(lines[i++]);
+      i++; // Closing fence, or the end of an unterminated block
+      blocks.push({ type: 'code', lang: fence[1].toLowerCase(), text: code.join('\n') });
+      continue;
+    }
+
+    if (startsMathBlock(line)) {
+      // $$ ... $$ on one line, or spread over several until a line ending in $$
+      const math: string[] = [line.trim().slice(2)];
+      while (!/\$\$\s*$/.test(math[math.length - 1]) && i + 1 < lines.length) math.push(lines[++i]);
+      i++;
+      const tex = math.join('\n').replace(/\$\$\s*$/, '').trim();
+      if (tex) blocks.push({ type: 'math', tex });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*>\s?/, ''));
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const listLines: string[] = [];
+      while (i < lines.length && (LIST_ITEM.test(lines[i]) || (/^\s+\S/.test(lines[i]) && listLines.length > 0))) {
+        listLines.push(lines[i++]);
+      }
+      blocks.push(parseList(listLines));
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      i += 2;
+      const rows: MarkdownInline[][][] = [];
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitRow(lines[i++]).map(parseInline));
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) paragraph.push(lines[i++]);
+    if (paragraph.length === 0) paragraph.push(lines[i++]);
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.map(l => l.trim()).join('\n')) });
+  }
+
+  return blocks;
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || startsMathBlock(line) || HEADING.test(line) || HR.test(line) || /^\s*>/.test(line) || LIST_ITEM.test(line)
+    || (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-'));
+}
+
+// "$$x$$ and more" on one line is inline display math inside a paragraph
+function startsMathBlock(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith('$$') && (trimmed.endsWith('$$') || !trimmed.slice(2).includes('$$'));
+}
+
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+// Items indented deeper than the first one are nested under the item above them
+function parseList(lines: string[]): Extract<MarkdownBlock, { type: 'list' }> {
+  const first = lines[0].match(LIST_ITEM)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownListItem[] = [];
+  let nested: string[] = [];
+
+  const flushNested = () => {
+    if (nested.length > 0 && items.length > 0) {
+      const sublist = parseList(nested);
+      items[items.length - 1].sublist = sublist;
+    }
+    nested = [];
+  };
+
+  lines.forEach(line => {
+    const match = line.match(LIST_ITEM);
+    if (match && match[1].length <= baseIndent) {
+      flushNested();
+      const task = match[3].match(TASK);
+      items.push({
+        children: parseInline(task ? task[2] : match[3]),
+        checked: task ? task[1].toLowerCase() === 'x' : null,
+      });
+    } else if (match) {
+      nested.push(line);
+    } else if (nested.length > 0) {
+      nested.push(line);
+    } else if (items.length > 0) {
+      // Continuation line of the previous item
+      items[items.length - 1].children.push({ type: 'break' }, ...parseInline(line.trim()));
+    }
+  });
+  flushNested();
+
+  return { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items };
+}
+
+const INLINE_PATTERNS: { pattern: RegExp; build: (m: RegExpExecArray) => MarkdownInline }[] = [
+  { pattern: /`([^`\n]+)`/, build: m => ({ type: 'code', text: m[1] }) },
+  { pattern: /\\([\\`*_[\]$~|])/, build: m => ({ type: 'text', text: m[1] }) },
+  { pattern: /\$\$([\s\S]+?)\$\$/, build: m => ({ type: 'math', tex: m[1].trim(), display: true }) },
+  // Like pandoc, "$" only opens before and closes after a non-space, so "$5 and $10" stays text
+  { pattern: /\$(?=\S)((?:\\\$|[^$\n])+?)(?<=\S)\$(?!\d)/, build: m => ({ type: 'math', tex: m[1], display: false }) },
+  {
+    pattern: /\[\[([^\]|\n]+)(?:\|([^\]\n]+))?\]\]/,
+    build: m => ({ type: 'wikilink', target: m[1].trim(), label: (m[2] ?? m[1]).trim() }),
+  },
+  {
+    pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/,
+    build: m => (SAFE_HREF.test(m[2])
+      ? { type: 'link', href: m[2], children: parseInline(m[1]) }
+      : { type: 'text', text: m[1] }),
+  },
+  { pattern: /(?:\*\*|__)(?=\S)([\s\S]*?\S)(?:\*\*|__)/, build: m => ({ type: 'strong', children: parseInline(m[1]) }) },
+  { pattern: /~~(?=\S)([\s\S]*?\S)~~/, build: m => ({ type: 'del', children: parseInline(m[1]) }) },
+  { pattern: /(?:\*|\b_)(?=\S)([\s\S]*?\S)(?:\*|_\b)/, build: m => ({ type: 'em', children: parseInline(m[1]) }) },
+  { pattern: /https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/, build: m => ({ type: 'link', href: m[0], children: [{ type: 'text', text: m[0] }] }) },
+  { pattern: /\n/, build: () => ({ type: 'break' }) },
+];
+
+export function parseInline(text: string): MarkdownInline[] {
+  const result: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    // Take whichever pattern matches earliest, earlier patterns win ties
+    let best: { index: number; match: RegExpExecArray; build: (m: RegExpExecArray) => MarkdownInline } | null = null;
+    for (const { pattern, build } of INLINE_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match && (!best || match.index < best.index)) best = { index: match.index, match, build };
+    }
+
+    if (!best) {
+      result.push({ type: 'text', text: rest });
+      break;
+    }
+
+    if (best.index > 0) result.push({ type: 'text', text: rest.slice(0, best.index) });
+    result.push(best.build(best.match));
+    rest = rest.slice(best.index + best.match[0].length);
+  }
+
+  return result;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { importMarkdownVault } from './markdownImport';
+import { NxusValidationError } from './projectExport';
+import { createZip } from './zipWriter';
+
+function vault(files: Record<string, string | Uint8Array>, name = 'Vault.zip') {
+  return new File([createZip(Object.entries(files).map(([path, data]) => ({ path, data })))], name);
+}
+
+describe('importMarkdownVault', () => {
+  it('reads tags from each frontmatter form and leaves the frontmatter out of the note', async () => {
+    const { file } = await importMarkdownVault(vault({
+      'A.md': '---\ntags: [alpha, "beta"]\n---\nBody of A',
+      'B.md': '---\ntitle: B\ntags: gamma, #delta\n---\n',
+      'C.md': '---\ntags:\n  - epsilon\n  - Alpha\n---\n# C',
+      'D.md': 'No frontmatter\n---\ntags: zeta',
+    }));
+
+    expect(file.tags.map(t => t.name)).toEqual(['alpha', 'beta', 'gamma', 'delta', 'epsilon']);
+    const tagsOf = (title: string) => file.nodes.find(n => n.title === title)!.tagKeys.map(key => file.tags.find(t => t.key === key)!.name);
+    expect(tagsOf('C')).toEqual(['epsilon', 'alpha']);
+    expect(tagsOf('D')).toEqual([]);
+    expect(file.nodes.map(n => n.content)).toEqual(['Body of A', null, '# C', 'No frontmatter\n---\ntags: zeta']);
+  });
+
+  it('resolves links by path or by bare title, and never outside the vault', async () => {
+    const checked = await importMarkdownVault(vault({
+      'Course/Topic.md': '',
+      'Course/sub/Topic.md': '',
+      'Course/sub/Deep.md': [
+        '[[Topic]] goes to the note nearest the root, [[sub/Topic|this one]] by path.',
+        '[Up](../Topic.md) is relative, [Out](../../Topic.md) and [[../../Topic]] climb out.',
+        '[[Missing#Heading]] is not here, and `[[Code]]` or a fence are not links:',
+        '```\n[[Fenced]]\n```',
+      ].join('\n'),
+      'Course/.obsidian/workspace.md': '[[Hidden]]',
+      '__MACOSX/Course/._Deep.md': '',
+    }));
+    const { file } = checked;
+
+    // The one folder everything was in names the project and is dropped from the paths
+    expect(file.project.name).toBe('Course');
+    expect(file.groups.map(g => g.name)).toEqual(['Notes', 'sub']);
+    const paths = new Map(file.nodes.map(n => [n.key, n.groupKey === 'g1' ? n.title : `sub/${n.title}`]));
+    expect([...paths.values()].sort()).toEqual(['Topic', 'sub/Deep', 'sub/Topic']);
+
+    const pathOf = (key: string) => paths.get(key);
+    expect(file.links.map(l => `${pathOf(l.sourceKey)} > ${pathOf(l.targetKey)}`)).toEqual([
+      'sub/Deep > Topic',
+      'sub/Deep > sub/Topic',
+    ]);
+    expect(checked.warnings).toEqual(["3 links point to notes that aren't in the archive and will be left as text."]);
+  });
+
+  it('attaches embedded images, and counts what it could not attach', async () => {
+    const pixel = new Uint8Array([137, 80, 78, 71]);
+    const checked = await importMarkdownVault(vault({
+      'Note.md': [
+        '![[pic.png]] and again ![](assets/pic.png)',
+        '![](https://example.com/photo.jpg?size=2)',
+        '![[Other]] is a note, so a connection',
+        '![[slides.pdf]] ![[big.png]] ![[gone.png]]',
+      ].join('\n'),
+      'Other.md': '',
+      'assets/pic.png': pixel,
+      'assets/slides.pdf': 'pdf',
+      'assets/big.png': new Uint8Array(1024 * 1024 + 1),
+    }));
+
+    const note = checked.file.nodes.find(n => n.title === 'Note')!;
+    expect(note.attachments).toEqual([
+      { fileName: 'pic.png', fileUrl: `data:image/png;base64,${Buffer.from(pixel).toString('base64')}` },
+      { fileName: 'photo.jpg', fileUrl: 'https://example.com/photo.jpg?size=2' },
+    ]);
+    expect(checked.file.links).toEqual([expect.objectContaining({ sourceKey: note.key })]);
+    expect(checked.summary).toMatchObject({ nodes: 2, links: 1, attachments: 2 });
+    expect(checked.warnings).toEqual([
+      "1 image is larger than 1 MB and won't be attached.",
+      "1 embedded file is not an image and won't be attached.",
+      '1 embedded file is missing from the archive.',
+    ]);
+  });
+
+  it('keeps two top-level folders as groups under the archive name', async () => {
+    const { file } = await importMarkdownVault(vault({ 'a/One.md': '', 'b/Two.md': '' }, 'Notes 2024.zip'));
+
+    expect(file.project.name).toBe('Notes 2024');
+    expect(file.groups.map(g => g.name)).toEqual(['a', 'b']);
+  });
+
+  it('refuses archives without notes and files that are not zips', async () => {
+    await expect(importMarkdownVault(vault({ 'pic.png': 'x' }))).rejects.toThrow('No Markdown notes were found in the archive.');
+    await expect(importMarkdownVault(new File(['# A'], 'A.md'))).rejects.toBeInstanceOf(NxusValidationError);
+    await expect(importMarkdownVault(new File(['not a zip'], 'broken.zip'))).rejects.toBeInstanceOf(NxusValidationError);
+  });
+});
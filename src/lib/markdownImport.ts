@@ -0,0 +1,336 @@
+import { BRAND_COLOR, GROUP_COLORS, NODE_COLORS } from './constants';
+import { extractWikiLinks, stripCode } from './wikiLinks';
+import { readZip, type ZipEntry } from './zipReader';
+import { NXUS_VERSION, NxusValidationError, validateNxusFile, type NexusProjectFile, type NxusImport } from './projectExport';
+
+const NOTE_EXTENSION = /\.(md|markdown)$/i;
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+// Attachments are stored as URLs, so local images travel inline and have to stay small
+const MAX_EMBEDDED_IMAGE_BYTES = 1024 * 1024;
+const NODE_SPACING = 160;
+const GROUP_GAP = 320;
+
+const EMBED_WIKI = /!\[\[([^\]|\n]+)(?:\|[^\]\n]*)?\]\]/g;
+const EMBED_MARKDOWN = /!\[[^\]\n]*\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g;
+const MARKDOWN_LINK = /(?<!!)\[[^\]\n]*\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g;
+
+interface VaultNote {
+  key: string;
+  path: string; // Vault-relative, without the extension
+  folder: string;
+  title: string;
+  body: string;
+  tags: string[];
+}
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const folderOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+const extensionOf = (path: string) => {
+  const name = baseName(path);
+  return name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+};
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+// Resolve ./ and ../ segments; null when the path climbs out of the vault
+function normalizePath(path: string): string | null {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+function decodeTarget(target: string): string {
+  try {
+    return decodeURI(target);
+  } catch {
+    // Not percent-encoded after all
+    return target;
+  }
+}
+
+/**
+ * Tags from a note's YAML frontmatter, with the frontmatter removed from the body.
+ * Handles `tags: [a, b]`, `tags: a, b` and the `- a` list form.
+ */
+function parseFrontmatter(text: string): { tags: string[]; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { tags: [], body: text };
+
+  const raw: string[] = [];
+  const lines = match[1].split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const field = lines[i].match(/^tags?\s*:\s*(.*)$/i);
+    if (!field) continue;
+    const value = field[1].trim();
+    if (value) {
+      raw.push(...value.replace(/^\[|\]$/g, '').split(/[,\s]+/));
+    } else {
+      while (i + 1 < lines.length && /^\s*-\s+/.test(lines[i + 1])) {
+        raw.push(lines[++i].replace(/^\s*-\s+/, ''));
+      }
+    }
+  }
+
+  const tags = new Map<string, string>();
+  for (const tag of raw) {
+    const name = tag.trim().replace(/^["']|["']$/g, '').replace(/^#/, '').trim();
+    if (name && !tags.has(name.toLowerCase())) tags.set(name.toLowerCase(), name);
+  }
+  return { tags: [...tags.values()], body: text.slice(match[0].length) };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Turn a zip of Markdown notes, such as an Obsidian vault, into a .nxus
+ * document so it goes through the same preview and project creation as a
+ * .nxus import. Each note becomes a node titled after its file, folders
+ * become groups, frontmatter tags become tags, [[wikilinks]] and links to
+ * other notes become connections, and embedded images become attachments.
+ * Throws NxusValidationError when the archive can't be used.
+ */
+export async function importMarkdownVault(file: File): Promise<NxusImport> {
+  if (!file.name.toLowerCase().endsWith('.zip')) {
+    throw new NxusValidationError(['Invalid file format. Please select a .zip file.']);
+  }
+
+  let entries: ZipEntry[];
+  try {
+    entries = (await readZip(file)).filter(entry => !isHidden(entry.path));
+  } catch (err) {
+    throw new NxusValidationError([err instanceof Error ? err.message : 'The zip file could not be read.']);
+  }
+
+  // A vault zipped as its folder has everything under one top-level directory
+  let projectName = file.name.replace(/\.zip$/i, '');
+  const roots = new Set(entries.map(entry => (entry.path.includes('/') ? entry.path.split('/')[0] : '')));
+  if (roots.size === 1 && !roots.has('')) {
+    const root = [...roots][0];
+    projectName = root;
+    entries = entries.map(entry => ({ ...entry, path: entry.path.slice(root.length + 1) }));
+  }
+
+  const noteEntries = entries.filter(entry => NOTE_EXTENSION.test(entry.path));
+  if (noteEntries.length === 0) {
+    throw new NxusValidationError(['No Markdown notes were found in the archive.']);
+  }
+  const files = new Map(entries.filter(entry => !NOTE_EXTENSION.test(entry.path)).map(entry => [entry.path.toLowerCase(), entry]));
+
+  const decoder = new TextDecoder('utf-8');
+  const notes: VaultNote[] = [];
+  for (const entry of [...noteEntries].sort((a, b) => a.path.localeCompare(b.path))) {
+    let text: string;
+    try {
+      text = decoder.decode(await entry.read()).replace(/^\uFEFF/, '');
+    } catch (err) {
+      throw new NxusValidationError([err instanceof Error ? err.message : `${entry.path} could not be read.`]);
+    }
+    const { tags, body } = parseFrontmatter(text);
+    const path = entry.path.replace(NOTE_EXTENSION, '');
+    notes.push({ key: `n${notes.length + 1}`, path, folder: folderOf(path), title: baseName(path), body, tags });
+  }
+
+  // Like Obsidian, a bare title goes to the note closest to the vault root
+  const notesByPath = new Map(notes.map(note => [note.path.toLowerCase(), note]));
+  const notesByTitle = new Map<string, VaultNote>();
+  for (const note of [...notes].sort((a, b) => a.path.split('/').length - b.path.split('/').length)) {
+    if (!notesByTitle.has(note.title.toLowerCase())) notesByTitle.set(note.title.toLowerCase(), note);
+  }
+
+  const resolveNote = (target: string, from: VaultNote): VaultNote | undefined => {
+    const path = decodeTarget(target.split('#')[0].trim()).replace(NOTE_EXTENSION, '');
+    if (!path) return undefined;
+    if (path.includes('/')) {
+      const relative = normalizePath(from.folder ? `${from.folder}/${path}` : path);
+      const absolute = normalizePath(path);
+      return (relative !== null ? notesByPath.get(relative.toLowerCase()) : undefined)
+        ?? (absolute !== null ? notesByPath.get(absolute.toLowerCase()) : undefined);
+    }
+    return notesByTitle.get(path.toLowerCase());
+  };
+
+  const resolveFile = (target: string, from: VaultNote): ZipEntry | undefined => {
+    const path = decodeTarget(target.split('#')[0].trim());
+    const relative = normalizePath(from.folder ? `${from.folder}/${path}` : path);
+    const absolute = normalizePath(path);
+    const candidates = [relative, absolute].filter((p): p is string => p !== null);
+    for (const candidate of candidates) {
+      const entry = files.get(candidate.toLowerCase());
+      if (entry) return entry;
+    }
+    // Obsidian's default is to embed by file name alone
+    const name = baseName(path).toLowerCase();
+    return [...files.values()].find(entry => baseName(entry.path).toLowerCase() === name);
+  };
+
+  const folders = [...new Set(notes.map(note => note.folder))].sort((a, b) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)));
+  const groups: NexusProjectFile['groups'] = folders.map((folder, i) => ({
+    key: `g${i + 1}`,
+    name: folder || 'Notes',
+    color: GROUP_COLORS[i % Object.keys(GROUP_COLORS).length],
+    order: i,
+  }));
+  const groupKeyOf = (folder: string) => groups[folders.indexOf(folder)].key;
+
+  const tags: NexusProjectFile['tags'] = [];
+  const tagKeys = new Map<string, string>();
+  for (const name of notes.flatMap(note => note.tags)) {
+    if (tagKeys.has(name.toLowerCase())) continue;
+    const key = `t${tags.length + 1}`;
+    tagKeys.set(name.toLowerCase(), key);
+    tags.push({ key, name, color: NODE_COLORS[tags.length % NODE_COLORS.length] });
+  }
+
+  // Each folder is laid out as its own grid, side by side
+  const positions = new Map<string, { x: number; y: number }>();
+  let offsetX = 0;
+  for (const folder of folders) {
+    const members = notes.filter(note => note.folder === folder);
+    const columns = Math.ceil(Math.sqrt(members.length));
+    members.forEach((note, i) => {
+      positions.set(note.key, { x: offsetX + (i % columns) * NODE_SPACING, y: Math.floor(i / columns) * NODE_SPACING });
+    });
+    offsetX += columns * NODE_SPACING + GROUP_GAP;
+  }
+
+  const links: NexusProjectFile['links'] = [];
+  const linked = new Set<string>();
+  let unresolvedLinks = 0;
+  const dataUrls = new Map<string, string>();
+  let oversizedImages = 0;
+  let skippedFiles = 0;
+  let missingFiles = 0;
+
+  const nodes: NexusProjectFile['nodes'] = [];
+  for (const note of notes) {
+    const text = stripCode(note.body);
+
+    const targets = [
+      ...extractWikiLinks(note.body),
+      ...[...text.matchAll(MARKDOWN_LINK)].map(m => m[1]).filter(t => NOTE_EXTENSION.test(t.split('#')[0])),
+    ];
+    for (const target of targets) {
+      const other = resolveNote(target, note);
+      if (!other) {
+        // Embedded images share the [[ ]] syntax but aren't notes
+        const path = target.split('#')[0];
+        if (!extensionOf(path) || NOTE_EXTENSION.test(path)) unresolvedLinks++;
+        continue;
+      }
+      const pair = `${note.key}>${other.key}`;
+      if (other === note || linked.has(pair)) continue;
+      linked.add(pair);
+      links.push({ sourceKey: note.key, targetKey: other.key, color: BRAND_COLOR });
+    }
+
+    const attachments: NexusProjectFile['nodes'][number]['attachments'] = [];
+    const attached = new Set<string>();
+    const embeds = [...text.matchAll(EMBED_WIKI), ...text.matchAll(EMBED_MARKDOWN)].map(m => m[1].trim());
+    for (const target of embeds) {
+      if (/^https?:\/\//i.test(target)) {
+        if (attached.has(target)) continue;
+        attached.add(target);
+        attachments.push({ fileName: baseName(target.split(/[?#]/)[0]) || target, fileUrl: target });
+        continue;
+      }
+      if (resolveNote(target, note)) continue; // An embedded note, already a connection
+      const entry = resolveFile(target, note);
+      if (!entry) {
+        missingFiles++;
+        continue;
+      }
+      if (attached.has(entry.path)) continue;
+      attached.add(entry.path);
+      const type = IMAGE_TYPES[extensionOf(entry.path)];
+      if (!type) {
+        skippedFiles++;
+        continue;
+      }
+      if (entry.size > MAX_EMBEDDED_IMAGE_BYTES) {
+        oversizedImages++;
+        continue;
+      }
+      if (!dataUrls.has(entry.path)) {
+        dataUrls.set(entry.path, `data:${type};base64,${toBase64(await entry.read())}`);
+      }
+      attachments.push({ fileName: baseName(entry.path), fileUrl: dataUrls.get(entry.path)! });
+    }
+
+    const position = positions.get(note.key)!;
+    nodes.push({
+      key: note.key,
+      title: note.title,
+      content: note.body.trim() || null,
+      groupKey: groupKeyOf(note.folder),
+      x: position.x,
+      y: position.y,
+      tagKeys: note.tags.map(name => tagKeys.get(name.toLowerCase())!),
+      attachments,
+    });
+  }
+
+  const nxus: NexusProjectFile = {
+    version: NXUS_VERSION,
+    exportDate: new Date().toISOString(),
+    project: { name: projectName, description: `Imported from ${file.name}`, color: BRAND_COLOR, wallpaper: null },
+    groups,
+    tags,
+    nodes,
+    links,
+    shapes: [],
+    relationshipTypes: [],
+  };
+
+  const problems = validateNxusFile(nxus);
+  if (problems.length > 0) throw new NxusValidationError(problems);
+
+  const warnings: string[] = [];
+  if (unresolvedLinks > 0) {
+    warnings.push(`${unresolvedLinks} link${unresolvedLinks === 1 ? ' points' : 's point'} to notes that aren't in the archive and will be left as text.`);
+  }
+  if (oversizedImages > 0) {
+    warnings.push(`${oversizedImages} image${oversizedImages === 1 ? ' is' : 's are'} larger than 1 MB and won't be attached.`);
+  }
+  if (skippedFiles > 0) {
+    warnings.push(`${skippedFiles} embedded file${skippedFiles === 1 ? ' is' : 's are'} not an image and won't be attached.`);
+  }
+  if (missingFiles > 0) {
+    warnings.push(`${missingFiles} embedded file${missingFiles === 1 ? ' is' : 's are'} missing from the archive.`);
+  }
+
+  return {
+    file: nxus,
+    migratedFrom: null,
+    warnings,
+    summary: {
+      groups: groups.length,
+      nodes: nodes.length,
+      links: links.length,
+      shapes: 0,
+      tags: tags.length,
+      attachments: nodes.reduce((sum, n) => sum + n.attachments.length, 0),
+    },
+  };
+}
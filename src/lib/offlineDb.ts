@@ -0,0 +1,152 @@
+import type { Project, Node, Link, DrawnShape, Group, RelationshipType, ProjectSnapshot } from '@/types/knowledge';
+import type { StoredRevision } from './projectHistory';
+
+const DB_NAME = 'nexus-offline';
+const DB_VERSION = 3;
+
+export const QUEUE_STORE = 'queue';
+export const REFUSED_STORE = 'refused';
+export const PROJECTS_STORE = 'projects';
+export const HISTORY_STORE = 'history';
+
+/**
+ * What the app last knew about a project, including edits that haven't
+ * reached the API yet, so it can still be opened without a connection
+ */
+export interface ProjectCopy {
+  projectId: number;
+  project: Project;
+  nodes: Node[];
+  links: Link[];
+  shapes: DrawnShape[];
+  groups: Group[];
+  relationshipTypes: RelationshipType[];
+  // Snapshot revision the copy was built on, to catch up from once back online
+  revision?: number;
+  savedAt: string;
+}
+
+/**
+ * A project's revisions as kept on this device, with the ids of those the
+ * API hasn't got yet
+ */
+export interface HistoryCopy {
+  projectId: number;
+  revisions: StoredRevision[];
+  unsaved: string[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'seq' });
+        if (!db.objectStoreNames.contains(REFUSED_STORE)) db.createObjectStore(REFUSED_STORE, { keyPath: 'seq' });
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'projectId' });
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) db.createObjectStore(HISTORY_STORE, { keyPath: 'projectId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function getAll<T>(storeName: string): Promise<T[]> {
+  return run<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+export function get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  return run<T | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+export function put<T>(storeName: string, value: T): Promise<void> {
+  return run<void>(storeName, 'readwrite', store => store.put(value));
+}
+
+export function remove(storeName: string, key: IDBValidKey): Promise<void> {
+  return run<void>(storeName, 'readwrite', store => store.delete(key));
+}
+
+export function saveProjectCopy(copy: ProjectCopy): Promise<void> {
+  return put(PROJECTS_STORE, copy);
+}
+
+export function getProjectCopy(projectId: number): Promise<ProjectCopy | undefined> {
+  return get<ProjectCopy>(PROJECTS_STORE, projectId);
+}
+
+/**
+ * Answer a GET request from the local copies, in the shape the API would.
+ * Returns undefined for anything the copies can't answer.
+ */
+export async function readLocalCopy(endpoint: string): Promise<unknown> {
+  const url = new URL(endpoint, 'http://local');
+  const path = url.pathname;
+  const projectId = Number(url.searchParams.get('projectId'));
+
+  if (projectId) {
+    const copy = await getProjectCopy(projectId);
+    if (!copy) return undefined;
+    switch (path) {
+      case '/api/nodes':
+        return copy.nodes;
+      case '/api/groups':
+        return copy.groups.map(g => ({ ...g, projectId }));
+      case '/api/relationship-types':
+        return copy.relationshipTypes;
+      case '/api/drawings': {
+        const groupId = url.searchParams.get('groupId');
+        return groupId === null ? copy.shapes : copy.shapes.filter(s => s.groupId === Number(groupId));
+      }
+    }
+    return undefined;
+  }
+
+  const projectMatch = path.match(/^\/api\/projects\/(\d+)$/);
+  if (projectMatch) {
+    return (await getProjectCopy(Number(projectMatch[1])))?.project;
+  }
+
+  const snapshotMatch = path.match(/^\/api\/projects\/(\d+)\/snapshot$/);
+  if (snapshotMatch) {
+    const copy = await getProjectCopy(Number(snapshotMatch[1]));
+    if (!copy) return undefined;
+    const snapshot: ProjectSnapshot = {
+      project: copy.project,
+      groups: copy.groups,
+      nodes: copy.nodes,
+      links: copy.links,
+      drawings: copy.shapes,
+      relationshipTypes: copy.relationshipTypes,
+      revision: copy.revision ?? 0,
+    };
+    return snapshot;
+  }
+
+  const copies = await getAll<ProjectCopy>(PROJECTS_STORE);
+  if (path === '/api/projects') {
+    const userId = url.searchParams.get('userId');
+    return copies.map(c => c.project).filter(p => !userId || p.userId === userId);
+  }
+  return undefined;
+}
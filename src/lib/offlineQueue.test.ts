@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { QueuedMutation } from './offlineQueue';
+
+// Without IndexedDB (as under Node) the queue lives in memory only, which is all these need
+async function load() {
+  vi.resetModules();
+  const queue = await import('./offlineQueue');
+  const errors = await import('./apiError');
+  return { ...queue, ...errors };
+}
+
+const networkDown = async () => {
+  const { ApiError } = await import('./apiError');
+  throw new ApiError('Unable to reach the server', 0);
+};
+
+describe('offline queue', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: false });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('queues creates while offline and hands out temporary ids', async () => {
+    const { sendOrQueue, getPendingCount, isTempId } = await load();
+    const send = vi.fn();
+
+    const created = await sendOrQueue<{ id: number; title: string }>(
+      { entity: 'node', method: 'POST', endpoint: '/api/nodes', body: { title: 'A' } },
+      send,
+    );
+
+    expect(send).not.toHaveBeenCalled();
+    expect(isTempId(created.id)).toBe(true);
+    expect(created.title).toBe('A');
+    expect(getPendingCount()).toBe(1);
+  });
+
+  it('queues behind a network failure', async () => {
+    vi.stubGlobal('navigator', { onLine: true });
+    const { sendOrQueue, getPendingCount } = await load();
+
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: '/api/nodes/1', body: { x: 1 } }, networkDown);
+
+    expect(getPendingCount()).toBe(1);
+  });
+
+  it('coalesces repeated updates to the same entity', async () => {
+    const { sendOrQueue, getPendingCount, replayQueue } = await load();
+    const noSend = vi.fn();
+
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: '/api/nodes/5', body: { x: 1, y: 1 } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: '/api/nodes/5', body: { x: 2 } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: '/api/nodes/6', body: { x: 3 } }, noSend);
+    expect(getPendingCount()).toBe(2);
+
+    const sent: QueuedMutation[] = [];
+    const result = await replayQueue(async mutation => {
+      sent.push(mutation);
+      return {};
+    });
+
+    expect(result).toEqual({ sent: 2, rejected: 0 });
+    expect(sent.map(m => [m.endpoint, m.body])).toEqual([
+      ['/api/nodes/5', { x: 2, y: 1 }],
+      ['/api/nodes/6', { x: 3 }],
+    ]);
+  });
+
+  it('drops a queued create and its updates when the entity is deleted before they are sent', async () => {
+    const { sendOrQueue, getPendingCount } = await load();
+    const noSend = vi.fn();
+
+    const node = await sendOrQueue<{ id: number }>({ entity: 'node', method: 'POST', endpoint: '/api/nodes', body: { title: 'A' } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: `/api/nodes/${node.id}`, body: { title: 'B' } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'DELETE', endpoint: `/api/nodes/${node.id}` }, noSend);
+
+    expect(getPendingCount()).toBe(0);
+  });
+
+  it('drops queued creates that point at a dropped one, and what was queued for them', async () => {
+    const { sendOrQueue, getPendingCount, replayQueue } = await load();
+    const noSend = vi.fn();
+
+    const group = await sendOrQueue<{ id: number }>({ entity: 'group', method: 'POST', endpoint: '/api/groups', body: { name: 'G' } }, noSend);
+    const node = await sendOrQueue<{ id: number }>({ entity: 'node', method: 'POST', endpoint: '/api/nodes', body: { title: 'A', groupId: group.id } }, noSend);
+    await sendOrQueue({ entity: 'drawing', method: 'POST', endpoint: '/api/drawings', body: { type: 'line', groupId: group.id } }, noSend);
+    const link = await sendOrQueue<{ id: number }>({ entity: 'link', method: 'POST', endpoint: '/api/links', body: { sourceId: node.id, targetId: 7 } }, noSend);
+    await sendOrQueue({ entity: 'link', method: 'PUT', endpoint: `/api/links/${link.id}`, body: { color: '#f00' } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'POST', endpoint: '/api/nodes', body: { title: 'B', groupId: 3 } }, noSend);
+    expect(getPendingCount()).toBe(6);
+
+    await sendOrQueue({ entity: 'group', method: 'DELETE', endpoint: `/api/groups/${group.id}` }, noSend);
+
+    const sent: QueuedMutation[] = [];
+    await replayQueue(async mutation => {
+      sent.push(mutation);
+      return { id: 50 };
+    });
+    expect(sent.map(m => m.body)).toEqual([{ title: 'B', groupId: 3 }]);
+  });
+
+  it('swaps temporary ids for real ones in later endpoints and bodies', async () => {
+    const { sendOrQueue, replayQueue, onIdAssigned } = await load();
+    const noSend = vi.fn();
+
+    const node = await sendOrQueue<{ id: number }>({ entity: 'node', method: 'POST', endpoint: '/api/nodes', body: { title: 'A' } }, noSend);
+    await sendOrQueue({ entity: 'link', method: 'POST', endpoint: '/api/links', body: { sourceId: node.id, targetId: 7 } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: `/api/nodes/${node.id}`, body: { id: node.id, title: 'B' } }, noSend);
+
+    const assigned = vi.fn();
+    onIdAssigned(assigned);
+    const sent: QueuedMutation[] = [];
+    await replayQueue(async mutation => {
+      sent.push(mutation);
+      return mutation.method === 'POST' ? { id: 40 + sent.length } : {};
+    });
+
+    expect(assigned).toHaveBeenCalledWith('node', node.id, 41);
+    expect(sent[1].body).toEqual({ sourceId: 41, targetId: 7 });
+    expect(sent[2].endpoint).toBe('/api/nodes/41');
+    expect(sent[2].body).toEqual({ id: 41, title: 'B' });
+  });
+
+  it('stops at a network failure and keeps the rest for later', async () => {
+    const { sendOrQueue, replayQueue, getPendingCount } = await load();
+    const noSend = vi.fn();
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: '/api/nodes/1', body: { x: 1 } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: '/api/nodes/2', body: { x: 2 } }, noSend);
+
+    const result = await replayQueue(networkDown);
+
+    expect(result).toEqual({ sent: 0, rejected: 0 });
+    expect(getPendingCount()).toBe(2);
+  });
+
+  it('keeps refused mutations for review and can queue them again', async () => {
+    const { sendOrQueue, replayQueue, getRefused, retryRefused, discardRefused, getPendingCount, ApiError, ConflictError } = await load();
+    const noSend = vi.fn();
+    await sendOrQueue({ entity: 'node', method: 'PUT', endpoint: '/api/nodes/1', body: { title: 'Mine', version: 3 } }, noSend);
+    await sendOrQueue({ entity: 'node', method: 'DELETE', endpoint: '/api/nodes/2' }, noSend);
+
+    const result = await replayQueue(async mutation => {
+      if (mutation.method === 'PUT') throw new ConflictError('Someone else changed this first', { id: 1, title: 'Theirs', version: 4 });
+      throw new ApiError('Not found', 404);
+    });
+
+    expect(result).toEqual({ sent: 0, rejected: 2 });
+    expect(getPendingCount()).toBe(0);
+    const [conflict, missing] = getRefused();
+    expect(conflict).toMatchObject({ endpoint: '/api/nodes/1', status: 409, current: { title: 'Theirs' } });
+    expect(missing).toMatchObject({ endpoint: '/api/nodes/2', status: 404, error: 'Not found' });
+
+    discardRefused(missing.seq);
+    retryRefused(conflict.seq);
+    expect(getRefused()).toEqual([]);
+
+    const sent: QueuedMutation[] = [];
+    await replayQueue(async mutation => {
+      sent.push(mutation);
+      return {};
+    });
+    // Sent again without its version, so it wins over the other save
+    expect(sent.map(m => m.body)).toEqual([{ title: 'Mine' }]);
+  });
+
+  it('replays under a lock shared by every tab', async () => {
+    const request = vi.fn((_name: string, run: () => Promise<unknown>) => run());
+    vi.stubGlobal('navigator', { onLine: false, locks: { request } });
+    const { replayQueue } = await load();
+
+    await replayQueue(vi.fn());
+
+    expect(request).toHaveBeenCalledWith('nexus-offline-replay', expect.any(Function));
+  });
+});
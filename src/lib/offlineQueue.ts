@@ -0,0 +1,374 @@
+import type { RevisionEntity } from '@/types/knowledge';
+import { QUEUE_STORE, REFUSED_STORE, getAll, put, remove } from './offlineDb';
+import { ApiError, ConflictError, isNetworkError } from './apiError';
+
+export type MutationMethod = 'POST' | 'PUT' | 'DELETE';
+
+export interface QueuedMutation {
+  seq: number; // Send order
+  entity: RevisionEntity;
+  method: MutationMethod;
+  endpoint: string;
+  body?: unknown;
+  tempId?: number; // Id handed out for a queued create, until the API assigns the real one
+  createdAt: string;
+}
+
+// A queued mutation the API refused once it was finally sent, kept until the user retries or discards it
+export interface RefusedMutation extends QueuedMutation {
+  status: number; // 0 when the failure wasn't an answer from the API
+  error: string;
+  current?: unknown; // Their copy, when someone else had saved first
+  refusedAt: string;
+}
+
+export type SendMutation = (mutation: QueuedMutation) => Promise<unknown>;
+
+export interface ReplayResult {
+  sent: number;
+  rejected: number;
+}
+
+// Fields a temporary id can turn up in, besides the endpoint
+const ID_FIELDS = ['id', 'sourceId', 'targetId', 'groupId', 'nodeId'];
+
+// Well below anything Date.now() * -1 produces for local drafts
+const TEMP_ID_FLOOR = -(2 ** 50);
+
+// Tabs share the stored queue: one replays it at a time, and tells the others the ids it got back
+const REPLAY_LOCK = 'nexus-offline-replay';
+const CHANNEL_NAME = 'nexus-offline-queue';
+
+let queue: QueuedMutation[] = [];
+let refused: RefusedMutation[] = [];
+let channel: BroadcastChannel | null = null;
+let loaded: Promise<void> | null = null;
+let inFlight: QueuedMutation | null = null;
+let replaying: Promise<ReplayResult> | null = null;
+let lastSeq = 0;
+let tempCounter = 0;
+
+const changeListeners = new Set<(pending: number) => void>();
+const refusedListeners = new Set<(refused: RefusedMutation[]) => void>();
+const idListeners = new Set<(entity: RevisionEntity, tempId: number, id: number) => void>();
+
+export function isTempId(id: number): boolean {
+  return id <= TEMP_ID_FLOOR;
+}
+
+function nextTempId(): number {
+  return TEMP_ID_FLOOR - (Date.now() * 100 + (tempCounter++ % 100));
+}
+
+function nextSeq(): number {
+  lastSeq = Math.max(lastSeq + 1, Date.now() * 1000);
+  return lastSeq;
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function idFromEndpoint(endpoint: string): number | null {
+  const match = endpoint.match(/\/(-?\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+function notify() {
+  changeListeners.forEach(listener => listener(queue.length));
+}
+
+function notifyRefused() {
+  refusedListeners.forEach(listener => listener(refused));
+}
+
+function persist(mutation: QueuedMutation) {
+  put(QUEUE_STORE, mutation).catch(() => { });
+}
+
+function forget(mutation: QueuedMutation) {
+  remove(QUEUE_STORE, mutation.seq).catch(() => { });
+}
+
+function openChannel() {
+  if (channel || typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<{ entity: RevisionEntity; tempId: number; id: number }>) => {
+    const { entity, tempId, id } = event.data;
+    applyIdAssignment(entity, tempId, id);
+  };
+}
+
+export function loadQueue(): Promise<void> {
+  if (!loaded) {
+    openChannel();
+    loaded = Promise.all([getAll<QueuedMutation>(QUEUE_STORE), getAll<RefusedMutation>(REFUSED_STORE)])
+      .then(([stored, storedRefused]) => {
+        queue = [...stored, ...queue].sort((a, b) => a.seq - b.seq);
+        refused = [...storedRefused, ...refused].sort((a, b) => a.seq - b.seq);
+        lastSeq = Math.max(lastSeq, ...queue.map(m => m.seq), ...refused.map(m => m.seq));
+        notify();
+        notifyRefused();
+      })
+      .catch(() => {
+        // Without IndexedDB the queue only lasts for this page
+      });
+  }
+  return loaded;
+}
+
+export function getPendingCount(): number {
+  return queue.length;
+}
+
+export function subscribeQueue(listener: (pending: number) => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+export function getRefused(): RefusedMutation[] {
+  return refused;
+}
+
+export function subscribeRefused(listener: (refused: RefusedMutation[]) => void): () => void {
+  refusedListeners.add(listener);
+  return () => refusedListeners.delete(listener);
+}
+
+export function onIdAssigned(listener: (entity: RevisionEntity, tempId: number, id: number) => void): () => void {
+  idListeners.add(listener);
+  return () => idListeners.delete(listener);
+}
+
+// What the API would most likely have answered, so callers carry on as if it had
+function optimisticResponse(mutation: QueuedMutation): unknown {
+  const body = (mutation.body ?? {}) as Record<string, unknown>;
+  if (mutation.method === 'POST') return { ...body, id: mutation.tempId, createdAt: mutation.createdAt };
+  if (mutation.method === 'PUT') return { ...body };
+  return {};
+}
+
+function enqueue(mutation: QueuedMutation): unknown {
+  const targetId = idFromEndpoint(mutation.endpoint);
+  const touches = (m: QueuedMutation) => m.tempId === targetId || idFromEndpoint(m.endpoint) === targetId;
+
+  // Deleting something whose create hasn't been sent yet: drop both instead,
+  // along with queued creates that point at it (links to a node, nodes and
+  // drawings in a group) and everything queued for those, down the line
+  if (mutation.method === 'DELETE' && targetId !== null && isTempId(targetId) && !(inFlight && touches(inFlight))) {
+    const droppedIds = new Set([targetId]);
+    const isDroppedId = (id: unknown) => typeof id === 'number' && droppedIds.has(id);
+    const isDropped = (m: QueuedMutation) => m !== inFlight && (
+      isDroppedId(m.tempId) ||
+      isDroppedId(idFromEndpoint(m.endpoint)) ||
+      (m.method === 'POST' && ID_FIELDS.some(field => field !== 'id' && isDroppedId((m.body as Record<string, unknown> | undefined)?.[field])))
+    );
+    for (let size = 0; size !== droppedIds.size;) {
+      size = droppedIds.size;
+      queue.forEach(m => {
+        if (m.tempId !== undefined && isDropped(m)) droppedIds.add(m.tempId);
+      });
+    }
+
+    const dropped = queue.filter(isDropped);
+    queue = queue.filter(m => !isDropped(m));
+    dropped.forEach(forget);
+    notify();
+    return {};
+  }
+
+  // Repeated updates (a drag, typing) only need to send the latest state
+  if (mutation.method === 'PUT') {
+    const previous = [...queue].reverse().find(m => m.endpoint === mutation.endpoint);
+    if (previous && previous !== inFlight && previous.method === 'PUT') {
+      previous.body = { ...(previous.body as object), ...(mutation.body as object) };
+      persist(previous);
+      return optimisticResponse(previous);
+    }
+  }
+
+  if (mutation.method === 'POST') mutation.tempId = nextTempId();
+  queue.push(mutation);
+  persist(mutation);
+  notify();
+  return optimisticResponse(mutation);
+}
+
+/**
+ * Send a mutation, or queue it when offline, when the network fails, or when
+ * earlier changes are still waiting (so everything reaches the API in order).
+ * Queued mutations resolve right away with an optimistic response; creates get
+ * a temporary id that is swapped for the real one once they are sent.
+ */
+export async function sendOrQueue<T>(input: Omit<QueuedMutation, 'seq' | 'createdAt' | 'tempId'>, send: SendMutation): Promise<T> {
+  await loadQueue();
+  const mutation: QueuedMutation = { ...input, seq: nextSeq(), createdAt: new Date().toISOString() };
+
+  if (queue.length === 0 && !isOffline()) {
+    try {
+      return await send(mutation) as T;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+  return enqueue(mutation) as T;
+}
+
+function replaceTempId<T>(value: T, tempId: number, id: number): T {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const record = value as Record<string, unknown>;
+  if (!ID_FIELDS.some(field => record[field] === tempId)) return value;
+  const copy = { ...record };
+  ID_FIELDS.forEach(field => {
+    if (copy[field] === tempId) copy[field] = id;
+  });
+  return copy as T;
+}
+
+function remapMutation<T extends QueuedMutation>(m: T, tempId: number, id: number): T {
+  const endpoint = idFromEndpoint(m.endpoint) === tempId ? m.endpoint.replace(/-?\d+$/, String(id)) : m.endpoint;
+  const body = replaceTempId(m.body, tempId, id);
+  return endpoint === m.endpoint && body === m.body ? m : { ...m, endpoint, body };
+}
+
+function applyIdAssignment(entity: RevisionEntity, tempId: number, id: number) {
+  queue = queue.map(m => {
+    const updated = remapMutation(m, tempId, id);
+    if (updated !== m) persist(updated);
+    return updated;
+  });
+  refused = refused.map(m => {
+    const updated = remapMutation(m, tempId, id);
+    if (updated !== m) put(REFUSED_STORE, updated).catch(() => { });
+    return updated;
+  });
+  idListeners.forEach(listener => listener(entity, tempId, id));
+}
+
+function remapTempId(entity: RevisionEntity, tempId: number, id: number) {
+  applyIdAssignment(entity, tempId, id);
+  channel?.postMessage({ entity, tempId, id });
+}
+
+function refuse(mutation: QueuedMutation, err: unknown) {
+  const entry: RefusedMutation = {
+    ...mutation,
+    status: err instanceof ApiError ? err.status : 0,
+    error: err instanceof Error ? err.message : String(err),
+    current: err instanceof ConflictError ? err.current ?? undefined : undefined,
+    refusedAt: new Date().toISOString(),
+  };
+  refused = [...refused, entry];
+  put(REFUSED_STORE, entry).catch(() => { });
+  notifyRefused();
+}
+
+// Another tab may have sent some of it already, so start from what is stored now
+async function reloadQueue() {
+  try {
+    queue = (await getAll<QueuedMutation>(QUEUE_STORE)).sort((a, b) => a.seq - b.seq);
+    notify();
+  } catch {
+    // Without IndexedDB the queue is this tab's alone
+  }
+}
+
+async function replay(send: SendMutation): Promise<ReplayResult> {
+  await loadQueue();
+  await reloadQueue();
+  const result: ReplayResult = { sent: 0, rejected: 0 };
+
+  while (queue.length > 0) {
+    const mutation = queue[0];
+    inFlight = mutation;
+    let response: unknown;
+    let accepted = true;
+    try {
+      response = await send(mutation);
+    } catch (err) {
+      if (isNetworkError(err)) break; // Still offline, keep it for next time
+      // The API refused it, sending it again as it is won't help. Set it aside for the user to decide
+      accepted = false;
+      refuse(mutation, err);
+      result.rejected++;
+    } finally {
+      inFlight = null;
+    }
+
+    queue = queue.filter(m => m.seq !== mutation.seq);
+    forget(mutation);
+    if (accepted) {
+      result.sent++;
+      const id = (response as { id?: unknown } | undefined)?.id;
+      if (mutation.tempId !== undefined && typeof id === 'number') {
+        remapTempId(mutation.entity, mutation.tempId, id);
+      }
+    }
+    notify();
+  }
+
+  return result;
+}
+
+// One tab at a time, where the browser can tell tabs apart
+async function withReplayLock(run: () => Promise<ReplayResult>): Promise<ReplayResult> {
+  const locks = typeof navigator === 'undefined' ? undefined : navigator.locks;
+  return locks ? await locks.request(REPLAY_LOCK, run) : run();
+}
+
+/**
+ * Send everything that is waiting, oldest first. Stops at the first network
+ * failure; concurrent calls share the same run, and other tabs wait for it.
+ * Mutations the API refuses move to the refused list (see retryRefused).
+ */
+export function replayQueue(send: SendMutation): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = withReplayLock(() => replay(send)).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+function dropRefused(seq: number): RefusedMutation | undefined {
+  const entry = refused.find(m => m.seq === seq);
+  if (!entry) return undefined;
+  refused = refused.filter(m => m !== entry);
+  remove(REFUSED_STORE, seq).catch(() => { });
+  notifyRefused();
+  return entry;
+}
+
+// Give up on a refused mutation. What it changed on screen is the caller's to put back
+export function discardRefused(seq: number): RefusedMutation | undefined {
+  return dropRefused(seq);
+}
+
+function withoutVersion(body: unknown): unknown {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return body;
+  const copy = { ...body as Record<string, unknown> };
+  delete copy.version;
+  return copy;
+}
+
+/**
+ * Queue a refused mutation again, behind anything still waiting. An update
+ * refused because someone else saved first goes without its version this
+ * time, so it overwrites theirs.
+ */
+export function retryRefused(seq: number) {
+  const entry = dropRefused(seq);
+  if (!entry) return;
+  const mutation: QueuedMutation = {
+    seq: nextSeq(),
+    entity: entry.entity,
+    method: entry.method,
+    endpoint: entry.endpoint,
+    body: entry.status === 409 ? withoutVersion(entry.body) : entry.body,
+    tempId: entry.tempId,
+    createdAt: entry.createdAt,
+  };
+  queue.push(mutation);
+  persist(mutation);
+  notify();
+}
@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Project } from '@/types/knowledge';
+import { CopyUnavailableError, forkProject } from './projectCopy';
+
+const source = { id: 1, name: 'Graphs', color: '#fff', userId: 'ada' } as Project;
+const content = { nodes: [], links: [], shapes: [], groups: [] };
+
+describe('forkProject', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses to start offline, where the copy could not be one batch', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    vi.stubGlobal('navigator', { onLine: false });
+
+    await expect(forkProject(source, content, 'bob')).rejects.toBeInstanceOf(CopyUnavailableError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
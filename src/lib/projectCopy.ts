@@ -0,0 +1,197 @@
+import type { Project, Node, Link, DrawnShape, RelationshipType, Tag } from '@/types/knowledge';
+import type { Group } from '@/components/graph/GroupsTabs';
+import { api, writes, batchRef, type WriteOperation } from './api';
+import type { BatchId } from './batchRefs';
+import { getBackendMode } from './backendAdapter';
+import { getPendingCount, isOffline, loadQueue } from './offlineQueue';
+import { generateProjectName, nxusToProjectContent, type NxusImport } from './projectExport';
+
+// Everything that gets copied into another project. Ids are the source's own
+export interface ProjectContent {
+  nodes: Node[];
+  links: Link[];
+  shapes: DrawnShape[];
+  groups: Group[];
+  relationshipTypes?: RelationshipType[];
+}
+
+// Old id → new id, per entity
+export interface CopyIdMaps {
+  groups: Map<number, number>;
+  nodes: Map<number, number>;
+  links: Map<number, number>;
+  shapes: Map<number, number>;
+}
+
+/**
+ * Recreate a project's content inside another project owned by `userId`.
+ * Every id is remapped, group references on nodes and drawings included.
+ * Tags are matched by name against the user's own tags and made when missing.
+ * Attachments point at the same files.
+ * Links whose ends didn't make it across are dropped.
+ * Everything goes out as one batch, later writes pointing at the groups,
+ * nodes and tags they need through batchRef, so a failure leaves nothing behind.
+ */
+export async function copyProjectContent(projectId: number, userId: string, content: ProjectContent): Promise<CopyIdMaps> {
+  const operations: WriteOperation[] = [];
+  const add = (op: WriteOperation) => operations.push(op) - 1;
+
+  // Nodes must sit in a group; a 'Default' one catches any pointing nowhere
+  const groups = [...content.groups].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  const groupWrites = new Map(groups.map(group => [
+    group.id,
+    add(writes.groups.create({ name: group.name, color: group.color, order: group.order, projectId })),
+  ]));
+  const needsFallbackGroup = content.nodes.some(n => !groupWrites.has(n.groupId));
+  const fallbackGroupWrite = needsFallbackGroup
+    ? add(writes.groups.create({ name: 'Default', color: '#808080', order: groups.length, projectId }))
+    : -1;
+  const resolveGroup = (groupId: number) => batchRef(groupWrites.get(groupId) ?? fallbackGroupWrite);
+
+  const tagsByName = new Map<string, BatchId>();
+  if (content.nodes.some(n => n.tags?.length)) {
+    const ownTags = await api.tags.getByUser(userId).catch(() => [] as Tag[]);
+    ownTags.forEach(tag => tagsByName.set(tag.name.toLowerCase(), tag.id));
+  }
+  const resolveTag = (tag: Tag) => {
+    const key = tag.name.toLowerCase();
+    if (!tagsByName.has(key)) tagsByName.set(key, batchRef(add(writes.tags.create({ name: tag.name, color: tag.color, userId }))));
+    return tagsByName.get(key)!;
+  };
+
+  const nodeWrites = new Map(content.nodes.map(node => [node.id, add(writes.nodes.create({
+    title: node.title,
+    content: node.content,
+    groupId: resolveGroup(node.groupId),
+    projectId,
+    userId,
+    x: node.x,
+    y: node.y,
+    customColor: node.customColor,
+  }))]));
+
+  for (const node of content.nodes) {
+    const nodeId = batchRef(nodeWrites.get(node.id)!);
+    for (const tag of node.tags ?? []) {
+      add(writes.nodes.addTag(nodeId, resolveTag(tag)));
+    }
+
+    const attachments = node.attachments ?? await api.attachments.getByNode(node.id).catch(() => []);
+    for (const attachment of attachments) {
+      add(writes.attachments.create({ nodeId, fileName: attachment.fileName, fileUrl: attachment.fileUrl }));
+    }
+  }
+
+  const linkWrites = new Map<number, number>();
+  for (const link of content.links) {
+    const source = nodeWrites.get(link.sourceId);
+    const target = nodeWrites.get(link.targetId);
+    if (source === undefined || target === undefined) continue;
+    linkWrites.set(link.id, add(writes.links.create({
+      sourceId: batchRef(source),
+      targetId: batchRef(target),
+      description: link.description ?? undefined,
+      relationshipType: link.relationshipType,
+      isBidirectional: link.isBidirectional,
+      color: link.color,
+      userId,
+    })));
+  }
+
+  const shapeWrites = new Map(content.shapes.map(shape => [shape.id, add(writes.drawings.create({
+    projectId,
+    type: shape.type,
+    points: shape.points,
+    color: shape.color,
+    width: shape.width,
+    style: shape.style,
+    text: shape.text ?? undefined,
+    fontSize: shape.fontSize ?? undefined,
+    fontFamily: shape.fontFamily ?? undefined,
+    groupId: shape.groupId != null && groupWrites.has(shape.groupId) ? batchRef(groupWrites.get(shape.groupId)!) : undefined,
+  }))]));
+
+  for (const type of content.relationshipTypes ?? []) {
+    add(writes.relationshipTypes.create({ projectId, key: type.key, label: type.label, lineStyle: type.lineStyle }));
+  }
+
+  const results = await api.batch(operations) as { id: number }[];
+  const idsOf = (written: Map<number, number>) => new Map([...written].map(([oldId, index]) => [oldId, results[index].id]));
+  return {
+    groups: idsOf(groupWrites),
+    nodes: idsOf(nodeWrites),
+    links: idsOf(linkWrites),
+    shapes: idsOf(shapeWrites),
+  };
+}
+
+// Fork and import can't run as one batch right now, so they aren't started
+export class CopyUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CopyUnavailableError';
+  }
+}
+
+/**
+ * Offline, or behind edits still queued, api.batch sends its writes one at a
+ * time, and some of a copy's (tags, attachments) can't be queued. A failure
+ * halfway would then leave queued creates pointing at a deleted project.
+ */
+async function ensureCopyIsAtomic() {
+  if (getBackendMode() === 'local') return;
+  await loadQueue();
+  if (isOffline()) {
+    throw new CopyUnavailableError('You\'re offline. Copying a project needs a connection, so try again once you\'re back online.');
+  }
+  if (getPendingCount() > 0) {
+    throw new CopyUnavailableError('Some of your changes haven\'t been saved yet. Try again once they have been sent.');
+  }
+}
+
+/**
+ * Copy a project someone shared into the user's own account. The copy keeps
+ * a pointer back to the original in `forkedFromId`.
+ */
+export async function forkProject(source: Project, content: ProjectContent, userId: string): Promise<Project> {
+  await ensureCopyIsAtomic();
+  const ownProjects = await api.projects.getByUser(userId).catch(() => [] as Project[]);
+  const fork = await api.projects.create({
+    name: generateProjectName(source.name, ownProjects),
+    description: source.description,
+    color: source.color,
+    wallpaper: source.wallpaper,
+    userId,
+    forkedFromId: source.id,
+  });
+
+  try {
+    await copyProjectContent(fork.id, userId, content);
+  } catch (err) {
+    // Don't leave a half-copied project behind
+    await api.projects.delete(fork.id).catch(() => { });
+    throw err;
+  }
+  return fork;
+}
+
+// Create the project a checked .nxus file describes, under a name the user doesn't have yet
+export async function importNxusProject(nxus: NxusImport, userId: string, existingProjects: Project[]): Promise<Project> {
+  await ensureCopyIsAtomic();
+  const { project } = nxus.file;
+  const created = await api.projects.create({
+    name: generateProjectName(project.name, existingProjects),
+    description: project.description,
+    color: project.color,
+    wallpaper: project.wallpaper,
+    userId,
+  });
+
+  try {
+    await copyProjectContent(created.id, userId, nxusToProjectContent(nxus.file));
+  } catch (err) {
+    await api.projects.delete(created.id).catch(() => { });
+    throw err;
+  }
+  return created;
+}
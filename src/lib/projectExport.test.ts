@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawnShape, Link, Node, Project } from '@/types/knowledge';
+import { buildNxusFile, importNxusFile, nxusToProjectContent, validateNxusFile, NxusValidationError } from './projectExport';
+
+const fileOf = (data: unknown) => new File([JSON.stringify(data)], 'project.nxus');
+
+const project = { id: 1, name: 'Graphs', description: 'Notes', color: '#123456', userId: 'ada', createdAt: '', updatedAt: '' } as Project;
+
+// A 1.0.0 file: node ids gone, links and groups still pointing at them
+function legacyFile(overrides: Record<string, unknown>) {
+  return {
+    version: '1.0.0',
+    exportDate: '2025-01-01T00:00:00.000Z',
+    project: { name: 'Old' },
+    nodes: [
+      { title: 'A', groupId: 10, x: 0, y: 0 },
+      { title: 'B', groupId: 10, x: 1, y: 1 },
+      { title: 'C', groupId: 10, x: 2, y: 2 },
+    ],
+    links: [],
+    shapes: [],
+    groups: [{ name: 'Only', color: '#fff', order: 0 }],
+    ...overrides,
+  };
+}
+
+const link = (sourceId: number, targetId: number) => ({ sourceId, targetId, color: '#fff' });
+
+describe('importing 1.0.0 files', () => {
+  it('matches nodes by their order when the links name as many ids as there are nodes, and says so', async () => {
+    const checked = await importNxusFile(fileOf(legacyFile({ links: [link(5, 7), link(7, 9)] })));
+
+    expect(checked.migratedFrom).toBe('1.0.0');
+    expect(checked.file.links.map(l => [l.sourceKey, l.targetKey])).toEqual([['n1', 'n2'], ['n2', 'n3']]);
+    expect(checked.warnings).toEqual([expect.stringContaining('matched to nodes by the order of the nodes')]);
+  });
+
+  it('uses the ids attachments kept without guessing, and leaves out links to nodes it cannot find', async () => {
+    const nodes = [
+      { title: 'A', groupId: 10 },
+      { title: 'B', groupId: 10, attachments: [{ id: 1, nodeId: 7, fileName: 'b.pdf', fileUrl: 'https://files/b.pdf' }] },
+      { title: 'C', groupId: 10, attachments: [{ id: 2, nodeId: 9, fileName: 'c.pdf', fileUrl: 'https://files/c.pdf' }] },
+    ];
+
+    const checked = await importNxusFile(fileOf(legacyFile({ nodes, links: [link(7, 9), link(7, 99)] })));
+
+    expect(checked.file.links.map(l => [l.sourceKey, l.targetKey])).toEqual([['n2', 'n3']]);
+    expect(checked.file.nodes[1].attachments).toEqual([{ fileName: 'b.pdf', fileUrl: 'https://files/b.pdf' }]);
+    expect(checked.warnings).toEqual(["1 connection from this older file can't be matched to nodes and will be left out."]);
+  });
+
+  it('matches groups by their order when the ids fit, and says so', async () => {
+    const groups = [{ name: 'Second', color: '#000', order: 1 }, { name: 'First', color: '#fff', order: 0 }];
+    const nodes = [{ title: 'A', groupId: 20 }, { title: 'B', groupId: 10 }];
+    const shapes = [{ id: 1, projectId: 1, type: 'line', points: [{ x: 0, y: 0 }], color: '#fff', width: 2, style: 'solid', groupId: 20 }];
+
+    const checked = await importNxusFile(fileOf(legacyFile({ groups, nodes, shapes })));
+
+    expect(checked.file.groups.map(g => [g.key, g.name])).toEqual([['g1', 'First'], ['g2', 'Second']]);
+    expect(checked.file.nodes.map(n => n.groupKey)).toEqual(['g2', 'g1']);
+    expect(checked.file.shapes[0].groupKey).toBe('g2');
+    expect(checked.warnings).toEqual([expect.stringContaining('put in groups by the order of the groups')]);
+  });
+
+  it('puts everything in the first group when the group ids do not fit', async () => {
+    const groups = [{ name: 'First', color: '#fff', order: 0 }, { name: 'Second', color: '#000', order: 1 }];
+    const nodes = [{ title: 'A', groupId: 10 }, { title: 'B', groupId: 20 }, { title: 'C', groupId: 30 }];
+
+    const checked = await importNxusFile(fileOf(legacyFile({ groups, nodes })));
+
+    expect(checked.file.nodes.map(n => n.groupKey)).toEqual(['g1', 'g1', 'g1']);
+    expect(checked.warnings).toEqual(['Groups could not be matched up, so everything goes into "First".']);
+  });
+});
+
+describe('validateNxusFile', () => {
+  const valid = buildNxusFile(project, [], [], [], []);
+
+  it('accepts a file it wrote', () => {
+    expect(validateNxusFile(valid)).toEqual([]);
+  });
+
+  it('points at every entry at fault', () => {
+    const problems = validateNxusFile({
+      ...valid,
+      project: { name: ' ' },
+      groups: [{ key: 'g1', name: 'G', color: '#fff', order: 0 }],
+      nodes: [
+        { key: 'n1', title: 'A', groupKey: 'g1', tagKeys: ['t9'], attachments: [] },
+        { key: 'n1', title: 'B', groupKey: 'g2', tagKeys: [], attachments: [{ fileName: 'x' }] },
+      ],
+      links: [{ sourceKey: 'n1', targetKey: 'n5' }],
+      shapes: [{ key: 's1', type: 'blob', points: [], color: '#fff', width: 1, style: 'solid' }],
+    });
+
+    expect(problems).toEqual([
+      'The project needs a name.',
+      'nodes[1] reuses the key "n1".',
+      'nodes[0] ("A") has tag "t9", which is not in the file.',
+      'nodes[1] ("B") is in group "g2", which is not in the file.',
+      'nodes[1] ("B") has an attachment without a file name or URL.',
+      'links[0] connects to node "n5", which is not in the file.',
+      'shapes[0] has an unknown type "blob".',
+      'shapes[0] needs a list of points with x and y.',
+    ]);
+  });
+
+  it('reports the first twenty problems and counts the rest', () => {
+    const nodes = Array.from({ length: 30 }, (_, i) => ({ key: `n${i}`, title: `N${i}`, groupKey: 'nowhere', tagKeys: [], attachments: [] }));
+
+    const problems = validateNxusFile({ ...valid, nodes });
+
+    expect(problems).toHaveLength(21);
+    expect(problems[20]).toBe('…and 10 more problems.');
+  });
+
+  it('throws the problems when importing', async () => {
+    const error = await importNxusFile(fileOf({ ...valid, links: [{ sourceKey: 'a', targetKey: 'b' }] })).catch(err => err);
+
+    expect(error).toBeInstanceOf(NxusValidationError);
+    expect(error.problems).toHaveLength(2);
+  });
+});
+
+describe('export and import', () => {
+  it('brings a project back with the same content and references', async () => {
+    const tag = { id: 4, name: 'Core', color: '#f00', createdAt: '' };
+    const nodes = [
+      { id: 11, title: 'Sets', content: '# Sets', groupId: 2, x: 1, y: 2, tags: [tag], attachments: [{ id: 1, nodeId: 11, fileName: 'a.pdf', fileUrl: 'https://files/a.pdf' }], createdAt: '', updatedAt: '' },
+      { id: 12, title: 'Maps', groupId: 3, x: 3, y: 4, tags: [{ ...tag, id: 5, name: 'core' }], createdAt: '', updatedAt: '' },
+    ] as Node[];
+    const links = [
+      { id: 1, sourceId: 11, targetId: 12, color: '#fff', description: 'uses', relationshipType: 'prerequisite', isBidirectional: false, createdAt: '' },
+      { id: 2, sourceId: 11, targetId: 99, color: '#fff', createdAt: '' },
+    ] as Link[];
+    const shapes = [{ id: 7, projectId: 1, type: 'text', points: [{ x: 0, y: 0 }], color: '#fff', width: 2, style: 'dashed', text: 'Hi', groupId: 3 }] as DrawnShape[];
+    const groups = [{ id: 3, name: 'Later', color: '#000', order: 1 }, { id: 2, name: 'First', color: '#fff', order: 0 }];
+    const relationshipTypes = [{ id: 1, projectId: 1, key: 'uses', label: 'Uses', lineStyle: 'dash-dot' as const }];
+
+    const exported = buildNxusFile(project, nodes, links, shapes, groups, relationshipTypes);
+    const checked = await importNxusFile(fileOf(exported));
+    const content = nxusToProjectContent(checked.file);
+
+    expect(checked.warnings).toEqual([]);
+    expect(checked.file.project).toEqual({ name: 'Graphs', description: 'Notes', color: '#123456' });
+    expect(checked.summary).toEqual({ groups: 2, nodes: 2, links: 1, shapes: 1, tags: 1, attachments: 1 });
+
+    const groupName = (id: number | null | undefined) => content.groups.find(g => g.id === id)?.name;
+    const nodeTitle = (id: number) => content.nodes.find(n => n.id === id)?.title;
+    expect(content.nodes.map(n => [n.title, n.content, groupName(n.groupId), n.x, n.y, n.tags?.map(t => t.name)])).toEqual([
+      ['Sets', '# Sets', 'First', 1, 2, ['Core']],
+      ['Maps', undefined, 'Later', 3, 4, ['Core']],
+    ]);
+    expect(content.nodes[0].attachments).toMatchObject([{ fileName: 'a.pdf', fileUrl: 'https://files/a.pdf' }]);
+    expect(content.links.map(l => [nodeTitle(l.sourceId), nodeTitle(l.targetId), l.description, l.relationshipType])).toEqual([
+      ['Sets', 'Maps', 'uses', 'prerequisite'],
+    ]);
+    expect(content.shapes).toMatchObject([{ type: 'text', text: 'Hi', style: 'dashed', points: [{ x: 0, y: 0 }] }]);
+    expect(groupName(content.shapes[0].groupId)).toBe('Later');
+    expect(content.relationshipTypes).toMatchObject([{ key: 'uses', label: 'Uses', lineStyle: 'dash-dot' }]);
+  });
+});
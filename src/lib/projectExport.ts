@@ -1,25 +1,138 @@
-import type { Project, Node, Link, DrawnShape } from '@/types/knowledge';
+import type { Project, Node, Link, DrawnShape, DrawingTool, StrokeStyle, LinkLineStyle, RelationshipType, Tag, Attachment } from '@/types/knowledge';
 import type { Group } from '@/components/graph/GroupsTabs';
+import type { ProjectContent } from './projectCopy';
 
+export const NXUS_VERSION = '2.0.0';
+const LEGACY_VERSION = '1.0.0';
+
+/**
+ * A .nxus file. Entities refer to each other by file-local keys (`g1`, `n1`,
+ * `t1`, `s1`), never by database ids, so a file imports the same way into
+ * any account however often it's round-tripped.
+ */
 export interface NexusProjectFile {
+  version: typeof NXUS_VERSION;
+  exportDate: string;
+  project: Pick<Project, 'name' | 'description' | 'color' | 'wallpaper'>;
+  groups: { key: string; name: string; color: string; order: number }[];
+  tags: { key: string; name: string; color?: string }[];
+  nodes: {
+    key: string;
+    title: string;
+    content?: string | null;
+    groupKey: string;
+    customColor?: string | null;
+    x?: number | null;
+    y?: number | null;
+    tagKeys: string[];
+    attachments: { fileName: string; fileUrl: string }[];
+  }[];
+  links: {
+    sourceKey: string;
+    targetKey: string;
+    color?: string;
+    description?: string | null;
+    relationshipType?: string | null;
+    isBidirectional?: boolean;
+  }[];
+  shapes: {
+    key: string;
+    type: DrawingTool;
+    points: { x: number; y: number }[];
+    color: string;
+    width: number;
+    style: StrokeStyle;
+    text?: string | null;
+    fontSize?: number | null;
+    fontFamily?: string | null;
+    groupKey?: string | null;
+  }[];
+  relationshipTypes: Pick<RelationshipType, 'key' | 'label' | 'lineStyle'>[];
+}
+
+// What 1.0.0 wrote: node ids stripped while links and groups still pointed at them
+interface NexusProjectFileV1 {
   version: string;
   exportDate: string;
-  project: Omit<Project, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
-  nodes: Omit<Node, 'id' | 'userId' | 'projectId' | 'createdAt' | 'updatedAt'>[];
+  project: Pick<Project, 'name' | 'description' | 'color' | 'wallpaper'>;
+  nodes: (Omit<Node, 'id' | 'userId' | 'projectId' | 'createdAt' | 'updatedAt'>)[];
   links: Omit<Link, 'id' | 'userId' | 'createdAt'>[];
   shapes: DrawnShape[];
   groups: Omit<Group, 'id'>[];
 }
 
-export async function exportProjectAsNxus(
+// A checked file and what importing it would create, shown before anything is written
+export interface NxusImport {
+  file: NexusProjectFile;
+  // The version the file was written in when it had to be migrated
+  migratedFrom: string | null;
+  warnings: string[];
+  summary: { groups: number; nodes: number; links: number; shapes: number; tags: number; attachments: number };
+}
+
+export class NxusValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.length === 1 ? problems[0] : `The file has ${problems.length} problems.`);
+    this.name = 'NxusValidationError';
+  }
+}
+
+const DRAWING_TOOLS: DrawingTool[] = ['pan', 'select', 'rectangle', 'diamond', 'circle', 'arrow', 'line', 'pen', 'text', 'eraser'];
+const STROKE_STYLES: StrokeStyle[] = ['solid', 'dashed', 'dotted'];
+const LINK_LINE_STYLES: LinkLineStyle[] = [...STROKE_STYLES, 'dash-dot'];
+const MAX_REPORTED_PROBLEMS = 20;
+
+export function buildNxusFile(
   project: Project,
   nodes: Node[],
   links: Link[],
   shapes: DrawnShape[],
-  groups: Group[]
-): Promise<void> {
-  const nexusFile: NexusProjectFile = {
-    version: '1.0.0',
+  groups: Group[],
+  relationshipTypes: RelationshipType[] = []
+): NexusProjectFile {
+  const groupKeys = new Map<number, string>();
+  const fileGroups = [...groups]
+    .sort((a, b) => a.order - b.order)
+    .map((group, i) => {
+      const key = `g${i + 1}`;
+      groupKeys.set(group.id, key);
+      return { key, name: group.name, color: group.color, order: group.order };
+    });
+  // Nodes need a group to land in
+  if (fileGroups.length === 0 && nodes.length > 0) {
+    fileGroups.push({ key: 'g1', name: 'Default', color: '#808080', order: 0 });
+  }
+  const groupKeyOf = (groupId: number) => groupKeys.get(groupId) ?? fileGroups[0].key;
+
+  const tagKeys = new Map<string, string>();
+  const fileTags: NexusProjectFile['tags'] = [];
+  for (const tag of nodes.flatMap(n => n.tags ?? [])) {
+    const name = tag.name.toLowerCase();
+    if (tagKeys.has(name)) continue;
+    const key = `t${fileTags.length + 1}`;
+    tagKeys.set(name, key);
+    fileTags.push({ key, name: tag.name, color: tag.color });
+  }
+
+  const nodeKeys = new Map<number, string>();
+  const fileNodes = nodes.map((node, i) => {
+    const key = `n${i + 1}`;
+    nodeKeys.set(node.id, key);
+    return {
+      key,
+      title: node.title,
+      content: node.content,
+      groupKey: groupKeyOf(node.groupId),
+      customColor: node.customColor,
+      x: node.x,
+      y: node.y,
+      tagKeys: [...new Set((node.tags ?? []).map(t => tagKeys.get(t.name.toLowerCase())!))],
+      attachments: (node.attachments ?? []).map(a => ({ fileName: a.fileName, fileUrl: a.fileUrl })),
+    };
+  });
+
+  return {
+    version: NXUS_VERSION,
     exportDate: new Date().toISOString(),
     project: {
       name: project.name,
@@ -27,29 +140,45 @@ export async function exportProjectAsNxus(
       color: project.color,
       wallpaper: project.wallpaper,
     },
-    nodes: nodes.map(node => ({
-      title: node.title,
-      content: node.content,
-      groupId: node.groupId,
-      customColor: node.customColor,
-      x: node.x,
-      y: node.y,
-      tags: node.tags,
-      attachments: node.attachments,
-    })),
-    links: links.map(link => ({
-      sourceId: link.sourceId,
-      targetId: link.targetId,
-      color: link.color,
-      description: link.description,
-    })),
-    shapes,
-    groups: groups.map(group => ({
-      name: group.name,
-      color: group.color,
-      order: group.order,
+    groups: fileGroups,
+    tags: fileTags,
+    nodes: fileNodes,
+    // A link to a node outside the export would come back broken, so it stays behind
+    links: links
+      .filter(link => nodeKeys.has(link.sourceId) && nodeKeys.has(link.targetId))
+      .map(link => ({
+        sourceKey: nodeKeys.get(link.sourceId)!,
+        targetKey: nodeKeys.get(link.targetId)!,
+        color: link.color,
+        description: link.description,
+        relationshipType: link.relationshipType,
+        isBidirectional: link.isBidirectional,
+      })),
+    shapes: shapes.map((shape, i) => ({
+      key: `s${i + 1}`,
+      type: shape.type,
+      points: shape.points,
+      color: shape.color,
+      width: shape.width,
+      style: shape.style,
+      text: shape.text,
+      fontSize: shape.fontSize,
+      fontFamily: shape.fontFamily,
+      groupKey: shape.groupId != null ? groupKeys.get(shape.groupId) ?? null : null,
     })),
+    relationshipTypes: relationshipTypes.map(t => ({ key: t.key, label: t.label, lineStyle: t.lineStyle })),
   };
+}
+
+export async function exportProjectAsNxus(
+  project: Project,
+  nodes: Node[],
+  links: Link[],
+  shapes: DrawnShape[],
+  groups: Group[],
+  relationshipTypes: RelationshipType[] = []
+): Promise<void> {
+  const nexusFile = buildNxusFile(project, nodes, links, shapes, groups, relationshipTypes);
 
   const fileName = `${project.name.replace(/[^a-zA-Z0-9\s-]/g, '').trim()}.nxus`;
   const jsonContent = JSON.stringify(nexusFile, null, 2);
@@ -66,19 +195,374 @@ export async function exportProjectAsNxus(
   URL.revokeObjectURL(url);
 }
 
-export async function importNxusFile(file: File): Promise<NexusProjectFile> {
+/**
+ * Read, migrate and check a .nxus file without creating anything. Throws
+ * NxusValidationError listing every problem found when it can't be imported.
+ */
+export async function importNxusFile(file: File): Promise<NxusImport> {
   if (!file.name.endsWith('.nxus')) {
-    throw new Error('Invalid file format. Please select a .nxus file.');
+    throw new NxusValidationError(['Invalid file format. Please select a .nxus file.']);
   }
 
-  const text = await file.text();
-  const data = JSON.parse(text);
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new NxusValidationError(['The file is not valid JSON, it may be damaged.']);
+  }
+
+  if (!isRecord(data) || typeof data.version !== 'string') {
+    throw new NxusValidationError(['Invalid project file format: the version is missing.']);
+  }
 
-  if (!data.version || !data.project) {
-    throw new Error('Invalid project file format.');
+  let migratedFrom: string | null = null;
+  let warnings: string[] = [];
+  if (data.version === LEGACY_VERSION) {
+    const legacyProblems = validateLegacyShape(data);
+    if (legacyProblems.length > 0) throw new NxusValidationError(legacyProblems);
+    ({ file: data, warnings } = migrateFromV1(data as unknown as NexusProjectFileV1));
+    migratedFrom = LEGACY_VERSION;
+  } else if (data.version !== NXUS_VERSION) {
+    throw new NxusValidationError([`Version ${data.version} is not supported. Files from version ${LEGACY_VERSION} or ${NXUS_VERSION} can be imported.`]);
   }
 
-  return data as NexusProjectFile;
+  const problems = validateNxusFile(data);
+  if (problems.length > 0) throw new NxusValidationError(problems);
+
+  const nxus = data as NexusProjectFile;
+  return {
+    file: nxus,
+    migratedFrom,
+    warnings,
+    summary: {
+      groups: nxus.groups.length,
+      nodes: nxus.nodes.length,
+      links: nxus.links.length,
+      shapes: nxus.shapes.length,
+      tags: nxus.tags.length,
+      attachments: nxus.nodes.reduce((sum, n) => sum + n.attachments.length, 0),
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isOptionalString = (value: unknown) => value == null || typeof value === 'string';
+const isOptionalNumber = (value: unknown) => value == null || (typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * Every problem with a v2 file, as sentences that point at the entry at fault.
+ * Empty when the file can be imported.
+ */
+export function validateNxusFile(data: unknown): string[] {
+  const problems: string[] = [];
+  const report = (message: string) => problems.push(message);
+
+  if (!isRecord(data)) return ['The file does not contain a project.'];
+
+  if (!isRecord(data.project) || typeof data.project.name !== 'string' || !data.project.name.trim()) {
+    report('The project needs a name.');
+  }
+
+  const listOf = (field: string, required = true): unknown[] => {
+    const value = data[field];
+    if (value === undefined && !required) return [];
+    if (!Array.isArray(value)) {
+      report(`"${field}" must be a list.`);
+      return [];
+    }
+    return value;
+  };
+
+  // Keys must be strings and unique within their list
+  const collectKeys = (items: unknown[], field: string) => {
+    const keys = new Set<string>();
+    items.forEach((item, i) => {
+      const key = isRecord(item) ? item.key : undefined;
+      if (typeof key !== 'string' || !key) report(`${field}[${i}] has no key.`);
+      else if (keys.has(key)) report(`${field}[${i}] reuses the key "${key}".`);
+      else keys.add(key);
+    });
+    return keys;
+  };
+
+  const groups = listOf('groups');
+  const tags = listOf('tags');
+  const nodes = listOf('nodes');
+  const links = listOf('links');
+  const shapes = listOf('shapes');
+  const relationshipTypes = listOf('relationshipTypes', false);
+
+  const groupKeys = collectKeys(groups, 'groups');
+  const tagKeys = collectKeys(tags, 'tags');
+  const nodeKeys = collectKeys(nodes, 'nodes');
+  collectKeys(shapes, 'shapes');
+
+  groups.forEach((group, i) => {
+    if (!isRecord(group)) return;
+    if (typeof group.name !== 'string') report(`groups[${i}] needs a name.`);
+    if (typeof group.color !== 'string') report(`groups[${i}] needs a color.`);
+    if (typeof group.order !== 'number') report(`groups[${i}] needs a numeric order.`);
+  });
+
+  tags.forEach((tag, i) => {
+    if (isRecord(tag) && typeof tag.name !== 'string') report(`tags[${i}] needs a name.`);
+  });
+
+  nodes.forEach((node, i) => {
+    if (!isRecord(node)) return report(`nodes[${i}] is not a node.`);
+    const label = typeof node.title === 'string' ? `nodes[${i}] ("${node.title}")` : `nodes[${i}]`;
+    if (typeof node.title !== 'string') report(`${label} needs a title.`);
+    if (!isOptionalString(node.content)) report(`${label} has content that isn't text.`);
+    if (typeof node.groupKey !== 'string' || !groupKeys.has(node.groupKey)) {
+      report(`${label} is in group "${String(node.groupKey)}", which is not in the file.`);
+    }
+    if (!isOptionalNumber(node.x) || !isOptionalNumber(node.y)) report(`${label} has a position that isn't a number.`);
+    if (!Array.isArray(node.tagKeys)) {
+      report(`${label} needs a list of tag keys.`);
+    } else {
+      node.tagKeys
+        .filter(key => typeof key !== 'string' || !tagKeys.has(key))
+        .forEach(key => report(`${label} has tag "${String(key)}", which is not in the file.`));
+    }
+    if (!Array.isArray(node.attachments)) {
+      report(`${label} needs a list of attachments.`);
+    } else if (node.attachments.some(a => !isRecord(a) || typeof a.fileName !== 'string' || typeof a.fileUrl !== 'string')) {
+      report(`${label} has an attachment without a file name or URL.`);
+    }
+  });
+
+  links.forEach((link, i) => {
+    if (!isRecord(link)) return report(`links[${i}] is not a connection.`);
+    for (const end of ['sourceKey', 'targetKey'] as const) {
+      if (typeof link[end] !== 'string' || !nodeKeys.has(link[end] as string)) {
+        report(`links[${i}] connects to node "${String(link[end])}", which is not in the file.`);
+      }
+    }
+    if (!isOptionalString(link.description)) report(`links[${i}] has a description that isn't text.`);
+  });
+
+  shapes.forEach((shape, i) => {
+    if (!isRecord(shape)) return report(`shapes[${i}] is not a drawing.`);
+    if (!DRAWING_TOOLS.includes(shape.type as DrawingTool)) report(`shapes[${i}] has an unknown type "${String(shape.type)}".`);
+    if (!Array.isArray(shape.points) || shape.points.length === 0 || shape.points.some(p => !isRecord(p) || typeof p.x !== 'number' || typeof p.y !== 'number')) {
+      report(`shapes[${i}] needs a list of points with x and y.`);
+    }
+    if (typeof shape.color !== 'string') report(`shapes[${i}] needs a color.`);
+    if (typeof shape.width !== 'number') report(`shapes[${i}] needs a numeric width.`);
+    if (!STROKE_STYLES.includes(shape.style as StrokeStyle)) report(`shapes[${i}] has an unknown line style "${String(shape.style)}".`);
+    if (shape.groupKey != null && (typeof shape.groupKey !== 'string' || !groupKeys.has(shape.groupKey))) {
+      report(`shapes[${i}] is in group "${String(shape.groupKey)}", which is not in the file.`);
+    }
+  });
+
+  relationshipTypes.forEach((type, i) => {
+    if (!isRecord(type) || typeof type.key !== 'string' || typeof type.label !== 'string') {
+      report(`relationshipTypes[${i}] needs a key and a label.`);
+    } else if (!LINK_LINE_STYLES.includes(type.lineStyle as LinkLineStyle)) {
+      report(`relationshipTypes[${i}] has an unknown line style "${String(type.lineStyle)}".`);
+    }
+  });
+
+  if (problems.length > MAX_REPORTED_PROBLEMS) {
+    return [...problems.slice(0, MAX_REPORTED_PROBLEMS), `…and ${problems.length - MAX_REPORTED_PROBLEMS} more problems.`];
+  }
+  return problems;
+}
+
+function validateLegacyShape(data: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  if (!isRecord(data.project)) problems.push('Invalid project file format: the project is missing.');
+  for (const field of ['nodes', 'links', 'shapes', 'groups']) {
+    if (data[field] !== undefined && !Array.isArray(data[field])) problems.push(`"${field}" must be a list.`);
+  }
+  return problems;
+}
+
+/**
+ * Bring a 1.0.0 file up to v2. Those files dropped node and group ids but kept
+ * the old database ids in links, node groups and drawings, so the ids are
+ * recovered where the file allows it:
+ * - a node's id from its attachments, which kept their nodeId;
+ * - when the links and attachments mention exactly as many ids as there are
+ *   nodes, by position (the export listed nodes in id order);
+ * - groups by position when the ids used match the number of groups.
+ * Matching by position is a guess, so it is reported as a warning for the
+ * user to check in the import preview, as is anything that can't be placed.
+ */
+function migrateFromV1(data: NexusProjectFileV1): { file: NexusProjectFile; warnings: string[] } {
+  const warnings: string[] = [];
+  const legacyNodes = data.nodes ?? [];
+  const legacyLinks = data.links ?? [];
+  const legacyShapes = data.shapes ?? [];
+  const legacyGroups = [...(data.groups ?? [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  const groups = legacyGroups.map((group, i) => ({
+    key: `g${i + 1}`,
+    name: group.name ?? `Group ${i + 1}`,
+    color: group.color ?? '#808080',
+    order: group.order ?? i,
+  }));
+  if (groups.length === 0) groups.push({ key: 'g1', name: 'Default', color: '#808080', order: 0 });
+
+  const usedGroupIds = [...new Set([
+    ...legacyNodes.map(n => n.groupId),
+    ...legacyShapes.map(s => s.groupId),
+  ])].filter((id): id is number => typeof id === 'number').sort((a, b) => a - b);
+  const groupKeyById = new Map<number, string>();
+  if (usedGroupIds.length === groups.length || groups.length === 1) {
+    usedGroupIds.forEach((id, i) => groupKeyById.set(id, groups[Math.min(i, groups.length - 1)].key));
+    if (groups.length > 1) {
+      warnings.push('Nodes and drawings were put in groups by the order of the groups, since this older file doesn\'t say which is which. Check the groups after importing.');
+    }
+  } else if (usedGroupIds.length > 0) {
+    warnings.push(`Groups could not be matched up, so everything goes into "${groups[0].name}".`);
+  }
+  const groupKeyOf = (groupId: number) => groupKeyById.get(groupId) ?? groups[0].key;
+
+  // Old node id → key
+  const nodeKeyById = new Map<number, string>();
+  legacyNodes.forEach((node, i) => {
+    const id = node.attachments?.find(a => typeof a.nodeId === 'number')?.nodeId;
+    if (id !== undefined) nodeKeyById.set(id, `n${i + 1}`);
+  });
+  const referencedIds = [...new Set([
+    ...legacyLinks.flatMap(l => [l.sourceId, l.targetId]),
+    ...nodeKeyById.keys(),
+  ])].sort((a, b) => a - b);
+  if (referencedIds.length === legacyNodes.length) {
+    const byPosition = new Map(referencedIds.map((id, i) => [id, `n${i + 1}`]));
+    if ([...nodeKeyById].every(([id, key]) => byPosition.get(id) === key) && nodeKeyById.size < byPosition.size) {
+      byPosition.forEach((key, id) => nodeKeyById.set(id, key));
+      warnings.push('Connections were matched to nodes by the order of the nodes, assuming this older file listed them oldest first. Check the connections after importing.');
+    }
+  }
+
+  const tagKeys = new Map<string, string>();
+  const tags: NexusProjectFile['tags'] = [];
+  const legacyTags = (node: NexusProjectFileV1['nodes'][number]) => (node.tags ?? []).filter(t => typeof t?.name === 'string');
+  for (const tag of legacyNodes.flatMap(legacyTags)) {
+    const name = tag.name.toLowerCase();
+    if (tagKeys.has(name)) continue;
+    tagKeys.set(name, `t${tags.length + 1}`);
+    tags.push({ key: `t${tags.length + 1}`, name: tag.name, color: tag.color });
+  }
+
+  const links: NexusProjectFile['links'] = [];
+  let droppedLinks = 0;
+  for (const link of legacyLinks) {
+    const sourceKey = nodeKeyById.get(link.sourceId);
+    const targetKey = nodeKeyById.get(link.targetId);
+    if (!sourceKey || !targetKey) {
+      droppedLinks++;
+      continue;
+    }
+    links.push({
+      sourceKey,
+      targetKey,
+      color: link.color,
+      description: link.description,
+      relationshipType: link.relationshipType,
+      isBidirectional: link.isBidirectional,
+    });
+  }
+  if (droppedLinks > 0) {
+    warnings.push(`${droppedLinks} connection${droppedLinks === 1 ? '' : 's'} from this older file can't be matched to nodes and will be left out.`);
+  }
+
+  return {
+    warnings,
+    file: {
+      version: NXUS_VERSION,
+      exportDate: data.exportDate,
+      project: data.project,
+      groups,
+      tags,
+      nodes: legacyNodes.map((node, i) => ({
+        key: `n${i + 1}`,
+        title: node.title,
+        content: node.content,
+        groupKey: groupKeyOf(node.groupId),
+        customColor: node.customColor,
+        x: node.x,
+        y: node.y,
+        tagKeys: [...new Set(legacyTags(node).map(t => tagKeys.get(t.name.toLowerCase())!))],
+        attachments: (node.attachments ?? []).map(a => ({ fileName: a.fileName, fileUrl: a.fileUrl })),
+      })),
+      links,
+      shapes: legacyShapes.map((shape, i) => ({
+        key: `s${i + 1}`,
+        type: shape.type,
+        points: shape.points,
+        color: shape.color,
+        width: shape.width,
+        style: shape.style,
+        text: shape.text,
+        fontSize: shape.fontSize,
+        fontFamily: shape.fontFamily,
+        groupKey: shape.groupId != null ? groupKeyById.get(shape.groupId) ?? null : null,
+      })),
+      relationshipTypes: [],
+    },
+  };
+}
+
+/**
+ * A checked file as project content with stand-in ids, ready for
+ * copyProjectContent to create for real.
+ */
+export function nxusToProjectContent(file: NexusProjectFile): ProjectContent {
+  const idOf = (keys: string[]) => new Map(keys.map((key, i) => [key, i + 1]));
+  const groupIds = idOf(file.groups.map(g => g.key));
+  const nodeIds = idOf(file.nodes.map(n => n.key));
+  const tagsByKey = new Map(file.tags.map((tag, i): [string, Tag] => [tag.key, { id: i + 1, name: tag.name, color: tag.color, createdAt: '' }]));
+
+  return {
+    groups: file.groups.map(g => ({ id: groupIds.get(g.key)!, name: g.name, color: g.color, order: g.order })),
+    nodes: file.nodes.map(n => {
+      const id = nodeIds.get(n.key)!;
+      return {
+        id,
+        title: n.title,
+        content: n.content,
+        groupId: groupIds.get(n.groupKey)!,
+        customColor: n.customColor,
+        x: n.x,
+        y: n.y,
+        tags: n.tagKeys.map(key => tagsByKey.get(key)!),
+        // Always a list, so nothing is looked up for these stand-in ids
+        attachments: n.attachments.map((a, i): Attachment => ({ id: i + 1, nodeId: id, fileName: a.fileName, fileUrl: a.fileUrl })),
+        createdAt: '',
+        updatedAt: '',
+      };
+    }),
+    links: file.links.map((l, i) => ({
+      id: i + 1,
+      sourceId: nodeIds.get(l.sourceKey)!,
+      targetId: nodeIds.get(l.targetKey)!,
+      color: l.color ?? '#355ea1',
+      description: l.description,
+      relationshipType: l.relationshipType,
+      isBidirectional: l.isBidirectional,
+      createdAt: '',
+    })),
+    shapes: file.shapes.map((s, i) => ({
+      id: i + 1,
+      projectId: 0,
+      type: s.type,
+      points: s.points,
+      color: s.color,
+      width: s.width,
+      style: s.style,
+      text: s.text,
+      fontSize: s.fontSize,
+      fontFamily: s.fontFamily,
+      groupId: s.groupKey ? groupIds.get(s.groupKey) ?? null : null,
+    })),
+    relationshipTypes: file.relationshipTypes.map(t => ({ id: 0, projectId: 0, ...t })),
+  };
 }
 
 export function generateProjectName(originalName: string, existingProjects: Project[]): string {
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Revision } from '@/types/knowledge';
+import { compactRevision, expandRevision } from './projectHistory';
+
+const node: Node = {
+  id: 7,
+  title: 'Graphs',
+  content: 'A long description that stays the same across the edit. '.repeat(20),
+  groupId: 0,
+  x: 10,
+  y: 20,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function revision(before: Node | null, after: Node | null, action: Revision['action']): Revision {
+  return { id: 'r1', projectId: 1, entity: 'node', entityId: 7, action, before, after, userId: 'user', createdAt: '2026-01-02T00:00:00.000Z' };
+}
+
+describe('compactRevision', () => {
+  it('keeps only the fields an update changed, and expands back to the same revision', () => {
+    const update = revision({ ...node, customColor: '#f00' }, { ...node, title: 'Graph theory', x: 30, tags: [] }, 'update');
+
+    const stored = compactRevision(update);
+
+    expect(stored.before).toBeUndefined();
+    expect(stored.beforeChanges).toEqual({ title: 'Graphs', x: 10, customColor: '#f00' });
+    expect(stored.beforeMissing).toEqual(['tags']);
+    expect(JSON.stringify(stored).length).toBeLessThan(JSON.stringify(update).length * 0.6);
+    expect(expandRevision(stored)).toEqual(update);
+  });
+
+  it('stores creates and deletes whole', () => {
+    const create = revision(null, node, 'create');
+    const remove = revision(node, null, 'delete');
+
+    expect(compactRevision(create)).toEqual(create);
+    expect(expandRevision(compactRevision(create))).toEqual(create);
+    expect(expandRevision(compactRevision(remove))).toEqual(remove);
+  });
+});
@@ -0,0 +1,245 @@
+import type { Node, Link, DrawnShape, Group, Attachment, Revision, RevisionEntity, RevisionSnapshot } from '@/types/knowledge';
+
+// Consecutive edits to one entity within this window collapse into a single
+// revision, so dragging a node or typing into a drawing doesn't flood history
+export const REVISION_MERGE_WINDOW_MS = 60 * 1000;
+
+export interface ProjectState {
+  nodes: Node[];
+  links: Link[];
+  shapes: DrawnShape[];
+  groups: Group[];
+}
+
+export interface EntityChange {
+  entity: RevisionEntity;
+  id: number;
+  kind: 'added' | 'removed' | 'changed';
+  before: RevisionSnapshot | null;
+  after: RevisionSnapshot | null;
+  fields: string[]; // Changed fields, only for 'changed'
+}
+
+const STATE_KEYS: Record<RevisionEntity, keyof ProjectState> = {
+  node: 'nodes',
+  link: 'links',
+  drawing: 'shapes',
+  group: 'groups',
+};
+
+// Relations and bookkeeping that are not part of an entity's own content
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'synced', 'group', 'project', 'linkSources', 'linkTargets', 'source', 'target', 'nodes']);
+
+export const ENTITY_LABELS: Record<RevisionEntity, string> = {
+  node: 'node',
+  link: 'connection',
+  drawing: 'drawing',
+  group: 'group',
+};
+
+/**
+ * Copy of an entity without the joined relations, which can be large and are
+ * reloaded from the API anyway
+ */
+export function toSnapshot<T extends RevisionSnapshot>(value: T): T {
+  const copy = { ...value } as Record<string, unknown>;
+  ['project', 'linkSources', 'linkTargets', 'source', 'target', 'nodes'].forEach(key => delete copy[key]);
+  return copy as T;
+}
+
+/**
+ * Fold a new revision into the previous one when both touch the same entity in
+ * quick succession. Returns null when they must stay separate.
+ */
+export function mergeRevisions(previous: Revision, next: Revision): Revision | null {
+  if (
+    previous.entity !== next.entity ||
+    previous.entityId !== next.entityId ||
+    previous.userId !== next.userId ||
+    previous.action === 'delete' ||
+    next.action !== 'update' ||
+    new Date(next.createdAt).getTime() - new Date(previous.createdAt).getTime() > REVISION_MERGE_WINDOW_MS
+  ) {
+    return null;
+  }
+  return { ...previous, after: next.after, createdAt: next.createdAt };
+}
+
+function applySnapshot(state: ProjectState, entity: RevisionEntity, entityId: number, snapshot: RevisionSnapshot | null): ProjectState {
+  const key = STATE_KEYS[entity];
+  const list = state[key] as RevisionSnapshot[];
+  const without = list.filter(item => item.id !== entityId);
+  return { ...state, [key]: snapshot ? [...without, snapshot] : without };
+}
+
+/**
+ * The project as it was at `time`, found by undoing every later revision
+ * against the current state
+ */
+export function getStateAt(current: ProjectState, revisions: Revision[], time: string): ProjectState {
+  const cutoff = new Date(time).getTime();
+  return [...revisions]
+    .filter(r => new Date(r.createdAt).getTime() > cutoff)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .reduce((state, r) => applySnapshot(state, r.entity, r.entityId, r.before), current);
+}
+
+export function changedFields(before: RevisionSnapshot, after: RevisionSnapshot): string[] {
+  const a = before as unknown as Record<string, unknown>;
+  const b = after as unknown as Record<string, unknown>;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(key => !IGNORED_FIELDS.has(key) && JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null));
+}
+
+/**
+ * A revision as kept on the device. An update's `before` is mostly the same
+ * as its `after`, so only the fields that differ are stored.
+ */
+export interface StoredRevision extends Omit<Revision, 'before'> {
+  before?: RevisionSnapshot | null; // Creates and deletes
+  beforeChanges?: Record<string, unknown>; // Updates: fields whose value differs from `after`
+  beforeMissing?: string[]; // Updates: fields `after` has and `before` didn't
+}
+
+export function compactRevision(revision: Revision): StoredRevision {
+  const { before, ...rest } = revision;
+  if (!before || !revision.after) return revision;
+  const a = before as unknown as Record<string, unknown>;
+  const b = revision.after as unknown as Record<string, unknown>;
+  const beforeChanges: Record<string, unknown> = {};
+  Object.keys(a).forEach(key => {
+    if (!(key in b) || JSON.stringify(a[key]) !== JSON.stringify(b[key])) beforeChanges[key] = a[key];
+  });
+  return { ...rest, beforeChanges, beforeMissing: Object.keys(b).filter(key => !(key in a)) };
+}
+
+export function expandRevision(stored: StoredRevision): Revision {
+  const { beforeChanges, beforeMissing, ...rest } = stored;
+  if (!beforeChanges || !stored.after) return { ...rest, before: stored.before ?? null };
+  const before = { ...stored.after, ...beforeChanges } as Record<string, unknown>;
+  beforeMissing?.forEach(key => delete before[key]);
+  return { ...rest, before: before as unknown as RevisionSnapshot };
+}
+
+/**
+ * Everything that differs between two states of a project
+ */
+export function diffStates(from: ProjectState, to: ProjectState): EntityChange[] {
+  const changes: EntityChange[] = [];
+
+  (Object.keys(STATE_KEYS) as RevisionEntity[]).forEach(entity => {
+    const key = STATE_KEYS[entity];
+    const fromItems = new Map((from[key] as RevisionSnapshot[]).map(item => [item.id, item]));
+    const toItems = new Map((to[key] as RevisionSnapshot[]).map(item => [item.id, item]));
+
+    toItems.forEach((after, id) => {
+      const before = fromItems.get(id);
+      if (!before) {
+        changes.push({ entity, id, kind: 'added', before: null, after, fields: [] });
+        return;
+      }
+      const fields = changedFields(before, after);
+      if (fields.length > 0) changes.push({ entity, id, kind: 'changed', before, after, fields });
+    });
+    fromItems.forEach((before, id) => {
+      if (!toItems.has(id)) changes.push({ entity, id, kind: 'removed', before, after: null, fields: [] });
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Human-readable name for an entity snapshot, falling back to its kind and id
+ */
+export function describeSnapshot(entity: RevisionEntity, snapshot: RevisionSnapshot | null, nodes: Node[] = []): string {
+  if (!snapshot) return ENTITY_LABELS[entity];
+  switch (entity) {
+    case 'node':
+      return (snapshot as Node).title || `Node #${snapshot.id}`;
+    case 'group':
+      return (snapshot as Group).name || `Group #${snapshot.id}`;
+    case 'link': {
+      const link = snapshot as Link;
+      const source = nodes.find(n => n.id === link.sourceId)?.title ?? `#${link.sourceId}`;
+      const target = nodes.find(n => n.id === link.targetId)?.title ?? `#${link.targetId}`;
+      return `${source} → ${target}`;
+    }
+    case 'drawing': {
+      const shape = snapshot as DrawnShape;
+      return shape.type === 'text' && shape.text ? `"${shape.text.slice(0, 30)}"` : `${shape.type} drawing`;
+    }
+  }
+}
+
+/**
+ * Revisions that involve a node: its own, plus connections to or from it
+ */
+export function getNodeRevisions(revisions: Revision[], nodeId: number): Revision[] {
+  return revisions.filter(r => {
+    if (r.entity === 'node') return r.entityId === nodeId;
+    if (r.entity !== 'link') return false;
+    const link = (r.after ?? r.before) as Link | null;
+    return !!link && (link.sourceId === nodeId || link.targetId === nodeId);
+  });
+}
+
+// API payloads that put an entity back the way a snapshot has it
+export function nodePayload(node: Node, projectId: number, groupId: number) {
+  return {
+    title: node.title,
+    content: node.content ?? '',
+    groupId,
+    projectId,
+    userId: node.userId,
+    x: node.x,
+    y: node.y,
+    customColor: node.customColor,
+  };
+}
+
+/**
+ * Put a snapshot's tags and attachments back on the node recreated from it,
+ * which has a new id. They are records of their own in the API, so creating
+ * the node doesn't bring them back. All or nothing; resolves to the node's
+ * fields as they now are.
+ */
+export async function restoreNodeExtras(node: Node, nodeId: number): Promise<Pick<Node, 'tags' | 'attachments'>> {
+  const tags = node.tags ?? [];
+  const attachments = node.attachments ?? [];
+  if (tags.length === 0 && attachments.length === 0) return { tags, attachments };
+
+  const { api, writes } = await import('@/lib/api');
+  const results = await api.batch([
+    ...tags.map(tag => writes.nodes.addTag(nodeId, tag.id)),
+    ...attachments.map(a => writes.attachments.create({ nodeId, fileName: a.fileName, fileUrl: a.fileUrl })),
+  ]);
+  return { tags, attachments: results.slice(tags.length) as Attachment[] };
+}
+
+export function linkPayload(link: Link, sourceId: number, targetId: number) {
+  return {
+    sourceId,
+    targetId,
+    color: link.color,
+    description: link.description ?? undefined,
+    relationshipType: link.relationshipType ?? null,
+    isBidirectional: link.isBidirectional,
+    userId: link.userId ?? undefined,
+  };
+}
+
+export function drawingPayload(shape: DrawnShape, projectId: number, groupId: number | undefined) {
+  return {
+    projectId,
+    groupId,
+    type: shape.type,
+    points: shape.points,
+    color: shape.color,
+    width: shape.width,
+    style: shape.style,
+    text: shape.text ?? undefined,
+    fontSize: shape.fontSize ?? undefined,
+    fontFamily: shape.fontFamily ?? undefined,
+  };
+}
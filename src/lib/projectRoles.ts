@@ -0,0 +1,42 @@
+import type { Project, ProjectMember, ProjectRole, MemberRole } from '@/types/knowledge';
+
+export const MEMBER_ROLES: MemberRole[] = ['editor', 'commenter', 'viewer'];
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  commenter: 'Commenter',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  editor: 'Can change nodes, connections and drawings',
+  commenter: 'Can view and comment',
+  viewer: 'Can only view',
+};
+
+// These checks only decide what the app offers. The API must enforce the same
+// rules itself: a request sent straight to it doesn't go through any of them.
+
+/**
+ * What the user may do in a project: the owner, an accepted member's role,
+ * or null when they have no access (pending invitations don't count yet).
+ */
+export function getProjectRole(project: Pick<Project, 'userId'>, userId: string | null | undefined, members: ProjectMember[]): ProjectRole | null {
+  if (!userId) return null;
+  if (project.userId === userId) return 'owner';
+  return members.find(m => m.userId === userId && m.status === 'accepted')?.role ?? null;
+}
+
+export function canEdit(role: ProjectRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export function canComment(role: ProjectRole | null): boolean {
+  return canEdit(role) || role === 'commenter';
+}
+
+// Only the owner adds, removes or changes the role of members
+export function canManageMembers(role: ProjectRole | null): boolean {
+  return role === 'owner';
+}
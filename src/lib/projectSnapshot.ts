@@ -0,0 +1,59 @@
+import type { Node, Link, DrawnShape, Group, ProjectChange, RevisionSnapshot } from '@/types/knowledge';
+
+// The parts of a snapshot that change sets touch
+export interface SnapshotGraph {
+  nodes: Node[];
+  links: Link[];
+  drawings: DrawnShape[];
+  groups: Group[];
+}
+
+// The API sends missing drawing fields as null, the canvas expects them left out
+export function toShape(drawing: DrawnShape): DrawnShape {
+  return {
+    ...drawing,
+    text: drawing.text ?? undefined,
+    fontSize: drawing.fontSize ?? undefined,
+    fontFamily: drawing.fontFamily ?? undefined,
+    synced: true,
+  };
+}
+
+export function sortGroups<T extends Pick<Group, 'order'>>(groups: T[]): T[] {
+  return [...groups].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+function upsert<T extends { id: number }>(items: T[], change: ProjectChange): T[] {
+  if (change.action === 'delete' || !change.snapshot) return items.filter(item => item.id !== change.entityId);
+  const incoming = change.snapshot as unknown as T;
+  return items.some(item => item.id === change.entityId)
+    ? items.map(item => item.id === change.entityId ? { ...item, ...incoming } : item)
+    : [...items, incoming];
+}
+
+/**
+ * Apply a change set to graph state held outside the store, oldest change
+ * first. Deleting a node takes its links with it, as on the server.
+ */
+export function mergeProjectChanges(graph: SnapshotGraph, changes: ProjectChange[]): SnapshotGraph {
+  return changes.reduce<SnapshotGraph>((current, change) => {
+    switch (change.entity) {
+      case 'node': {
+        const nodes = upsert(current.nodes, change);
+        const links = change.action === 'delete'
+          ? current.links.filter(l => l.sourceId !== change.entityId && l.targetId !== change.entityId)
+          : current.links;
+        return { ...current, nodes, links };
+      }
+      case 'link':
+        return { ...current, links: upsert(current.links, change) };
+      case 'drawing': {
+        const snapshot: RevisionSnapshot | null = change.snapshot && toShape(change.snapshot as DrawnShape);
+        return { ...current, drawings: upsert(current.drawings, { ...change, snapshot }) };
+      }
+      case 'group':
+        return { ...current, groups: sortGroups(upsert(current.groups, change)) };
+    }
+    return current;
+  }, graph);
+}
@@ -0,0 +1,65 @@
+import type { Link, RelationshipType, LinkLineStyle } from '@/types/knowledge';
+
+/**
+ * Key of the built-in type that marks "source must be studied before target".
+ * Features that reason about study order look for this key.
+ */
+export const PREREQUISITE_RELATIONSHIP = 'prerequisite';
+
+/**
+ * Relationship types every project starts with. A project can rename or
+ * restyle them by saving a type with the same key, and can add its own.
+ */
+export const DEFAULT_RELATIONSHIP_TYPES: Pick<RelationshipType, 'key' | 'label' | 'lineStyle'>[] = [
+  { key: PREREQUISITE_RELATIONSHIP, label: 'Prerequisite of', lineStyle: 'solid' },
+  { key: 'part-of', label: 'Part of', lineStyle: 'dashed' },
+  { key: 'example-of', label: 'Example of', lineStyle: 'dotted' },
+  { key: 'contradicts', label: 'Contradicts', lineStyle: 'dash-dot' },
+];
+
+/**
+ * Merge the built-in defaults with the types saved for a project.
+ * Project types override a default with the same key.
+ */
+export function getRelationshipVocabulary(projectTypes: RelationshipType[], projectId = 0): RelationshipType[] {
+  const overrides = new Map(projectTypes.map(t => [t.key, t]));
+  const defaults = DEFAULT_RELATIONSHIP_TYPES.map(d => overrides.get(d.key) ?? { id: 0, projectId, ...d });
+  const custom = projectTypes.filter(t => !DEFAULT_RELATIONSHIP_TYPES.some(d => d.key === t.key));
+  return [...defaults, ...custom];
+}
+
+/**
+ * Find a type by key. Unknown keys (e.g. a type deleted from the project) return undefined.
+ */
+export function findRelationshipType(vocabulary: RelationshipType[], key?: string | null): RelationshipType | undefined {
+  if (!key) return undefined;
+  return vocabulary.find(t => t.key === key);
+}
+
+/**
+ * Build a stable key from a user-entered label, e.g. "Depends on" -> "depends-on"
+ */
+export function toRelationshipKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Canvas dash pattern for a line style, in graph units
+ */
+export function getLineDash(style?: LinkLineStyle | null): number[] | null {
+  if (style === 'dashed') return [4, 2];
+  if (style === 'dotted') return [1, 2];
+  if (style === 'dash-dot') return [4, 2, 1, 2];
+  return null;
+}
+
+/**
+ * Dash pattern for a link based on its relationship type. Untyped links stay solid.
+ */
+export function getLinkLineDash(vocabulary: RelationshipType[], link: Pick<Link, 'relationshipType'>): number[] | null {
+  return getLineDash(findRelationshipType(vocabulary, link.relationshipType)?.lineStyle);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { s, SchemaError } from './schema';
+import { drawingSchema, nodeSchema } from './apiSchemas';
+
+const node = { id: 1, title: 'Graphs', groupId: 0, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' };
+
+function errorOf(parse: () => unknown): SchemaError {
+  try {
+    parse();
+  } catch (err) {
+    if (err instanceof SchemaError) return err;
+    throw err;
+  }
+  throw new Error('Expected a SchemaError');
+}
+
+describe('schema', () => {
+  it('names the path to the first mismatch', () => {
+    const error = errorOf(() => nodeSchema.parse({ ...node, tags: [{ id: 1, name: 3 }] }));
+
+    expect(error.path).toBe('tags[0].name');
+    expect(error.message).toBe('tags[0].name: expected a string, got 3');
+  });
+
+  it('turns null into undefined for optional fields, and keeps fields it does not know', () => {
+    const parsed = nodeSchema.parse({ ...node, version: null, extra: 'kept' });
+
+    expect(parsed.version).toBeUndefined();
+    expect(parsed).toHaveProperty('extra', 'kept');
+  });
+
+  it('refuses missing required fields and values outside a set', () => {
+    const untitled: Record<string, unknown> = { ...node };
+    delete untitled.title;
+
+    expect(() => nodeSchema.parse(untitled)).toThrow('title: expected a string, got undefined');
+    expect(() => s.oneOf('solid', 'dashed').parse('wavy')).toThrow('expected one of solid, dashed, got "wavy"');
+    expect(() => s.number().parse(Number.NaN)).toThrow(SchemaError);
+  });
+
+  it('reads values the API sends as JSON strings', () => {
+    const drawing = { id: 1, projectId: 1, type: 'line', color: '#fff', width: 2, style: 'solid', createdAt: node.createdAt };
+
+    expect(drawingSchema.parse({ ...drawing, points: '[{"x":1,"y":2}]' }).points).toEqual([{ x: 1, y: 2 }]);
+    expect(() => drawingSchema.parse({ ...drawing, points: '[{' })).toThrow('points: expected JSON');
+  });
+});
@@ -0,0 +1,97 @@
+// Small runtime checks for data that comes from outside the app. A schema is
+// declared against the type it checks (`const s: Schema<Node> = ...`), so the
+// two can't drift apart without the compiler noticing.
+
+export interface Schema<T> {
+  // Returns the checked value, throwing SchemaError at the first mismatch
+  parse: (value: unknown, path?: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type ObjectOf<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+export class SchemaError extends Error {
+  constructor(public readonly path: string, public readonly expected: string, received: unknown) {
+    super(`${path || 'value'}: expected ${expected}, got ${describe(received)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+function check<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    parse: (value, path = '') => {
+      if (!test(value)) throw new SchemaError(path, expected, value);
+      return value as T;
+    },
+  };
+}
+
+export const s = {
+  string: () => check<string>('a string', v => typeof v === 'string'),
+  number: () => check<number>('a number', v => typeof v === 'number' && Number.isFinite(v)),
+  boolean: () => check<boolean>('true or false', v => typeof v === 'boolean'),
+  unknown: () => check<unknown>('anything', () => true),
+
+  oneOf: <const T extends readonly (string | number)[]>(...values: T) =>
+    check<T[number]>(`one of ${values.join(', ')}`, v => values.includes(v as T[number])),
+
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+    parse: (value, path) => value === null ? null : inner.parse(value, path),
+  }),
+
+  // The API sends null for optional fields it has no value for; they come out undefined
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({
+    parse: (value, path) => value === undefined || value === null ? undefined : inner.parse(value, path),
+  }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    parse: (value, path = '') => {
+      if (!Array.isArray(value)) throw new SchemaError(path, 'an array', value);
+      return value.map((entry, i) => item.parse(entry, `${path}[${i}]`));
+    },
+  }),
+
+  // Fields the shape doesn't mention are passed through unchecked
+  object: <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+    parse: (value, path = '') => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) throw new SchemaError(path, 'an object', value);
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, field] of Object.entries(shape)) {
+        result[key] = field.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+      }
+      return result as ObjectOf<S>;
+    },
+  }),
+
+  // For schemas that refer to each other
+  lazy: <T>(get: () => Schema<T>): Schema<T> => ({
+    parse: (value, path) => get().parse(value, path),
+  }),
+
+  // A value the API sends as a JSON string; already-parsed values are accepted too
+  json: <T>(inner: Schema<T>, whenEmpty?: T): Schema<T> => ({
+    parse: (value, path = '') => {
+      if (typeof value !== 'string') return inner.parse(value, path);
+      if (value === '' && whenEmpty !== undefined) return whenEmpty;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        throw new SchemaError(path, 'JSON', value);
+      }
+      return inner.parse(parsed, path);
+    },
+  }),
+};
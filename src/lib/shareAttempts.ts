@@ -0,0 +1,49 @@
+// Wrong share-link passwords, counted per link and visitor so the password
+// can't be guessed at the speed requests can be sent, each one costing the
+// server a PBKDF2 hash. A few mistakes are free; after that each one locks the
+// visitor out for twice as long as the last, up to MAX_LOCK_MS.
+//
+// Kept in this server process's memory, like the collab relay's rooms, so where
+// requests are spread over many isolates each counts on its own.
+
+const FREE_ATTEMPTS = 5;
+const FIRST_LOCK_MS = 30_000;
+const MAX_LOCK_MS = 15 * 60_000;
+// Past this many entries, those idle longer than MAX_LOCK_MS are forgotten
+const PRUNE_AT = 10_000;
+
+interface Attempts {
+  failures: number;
+  lockedUntil: number;
+  lastFailure: number;
+}
+
+const globalForAttempts = globalThis as unknown as { shareAttempts?: Map<string, Attempts> };
+const attempts = globalForAttempts.shareAttempts ?? (globalForAttempts.shareAttempts = new Map<string, Attempts>());
+
+// How long, in ms, this visitor has to wait before trying a password again; 0 if they may now
+export function getLockout(key: string, now = Date.now()): number {
+  const entry = attempts.get(key);
+  return entry ? Math.max(0, entry.lockedUntil - now) : 0;
+}
+
+export function recordFailedAttempt(key: string, now = Date.now()) {
+  if (attempts.size >= PRUNE_AT) {
+    attempts.forEach((entry, k) => {
+      if (now - entry.lastFailure > MAX_LOCK_MS) attempts.delete(k);
+    });
+  }
+
+  const entry = attempts.get(key) ?? { failures: 0, lockedUntil: 0, lastFailure: now };
+  entry.failures++;
+  entry.lastFailure = now;
+  if (entry.failures >= FREE_ATTEMPTS) {
+    entry.lockedUntil = now + Math.min(FIRST_LOCK_MS * 2 ** (entry.failures - FREE_ATTEMPTS), MAX_LOCK_MS);
+  }
+  attempts.set(key, entry);
+}
+
+// The right password was given: start counting afresh
+export function clearAttempts(key: string) {
+  attempts.delete(key);
+}
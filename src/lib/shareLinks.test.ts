@@ -0,0 +1,45 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { checkShareAccess, hashSharePassword, type StoredShareLink } from './shareLinks';
+import { shareLinkSchema } from './apiSchemas';
+
+const link: StoredShareLink = { id: 1, projectId: 2, token: 'abc', expiresAt: null, revokedAt: null };
+
+describe('checkShareAccess', () => {
+  it('opens links without a password', async () => {
+    expect(await checkShareAccess(link)).toBeNull();
+  });
+
+  it('checks the password against a salted PBKDF2 hash', async () => {
+    const passwordHash = await hashSharePassword('hunter2');
+
+    expect(passwordHash).toMatch(/^pbkdf2-sha256\$100000\$[\w-]+\$[\w-]+$/);
+    expect(passwordHash).not.toBe(await hashSharePassword('hunter2'));
+    expect(await checkShareAccess({ ...link, passwordHash })).toBe('password');
+    expect(await checkShareAccess({ ...link, passwordHash }, 'hunter3')).toBe('wrong-password');
+    expect(await checkShareAccess({ ...link, passwordHash }, 'hunter2')).toBeNull();
+  });
+
+  it('still opens links made with the earlier SHA-256 hash', async () => {
+    const passwordHash = createHash('sha256').update('abc:hunter2').digest('hex');
+
+    expect(await checkShareAccess({ ...link, passwordHash }, 'hunter2')).toBeNull();
+    expect(await checkShareAccess({ ...link, passwordHash }, 'hunter3')).toBe('wrong-password');
+  });
+
+  it('refuses revoked and expired links before asking for the password', async () => {
+    const passwordHash = await hashSharePassword('hunter2');
+
+    expect(await checkShareAccess({ ...link, passwordHash, revokedAt: '2026-01-01T00:00:00.000Z' }, 'hunter2')).toBe('revoked');
+    expect(await checkShareAccess({ ...link, expiresAt: '2000-01-01T00:00:00.000Z' })).toBe('expired');
+  });
+});
+
+describe('shareLinkSchema', () => {
+  it('keeps whether there is a password, not the hash', () => {
+    const parsed = shareLinkSchema.parse({ ...link, createdBy: 'u', viewCount: 3, createdAt: '2026-01-01T00:00:00.000Z', passwordHash: 'secret' });
+
+    expect(parsed.hasPassword).toBe(true);
+    expect(parsed).not.toHaveProperty('passwordHash');
+  });
+});
@@ -0,0 +1,132 @@
+import type { ShareLink, ProjectSnapshot, ProjectChangeSet } from '@/types/knowledge';
+import { snapshotSchema, changeSetSchema } from './apiSchemas';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+// Why a link didn't open the project
+export type ShareDenial = 'not-found' | 'revoked' | 'expired' | 'password' | 'wrong-password' | 'too-many-attempts';
+
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+export const SHARE_DENIAL_MESSAGES: Record<ShareDenial, string> = {
+  'not-found': 'This share link does not exist.',
+  revoked: 'This share link has been turned off by the project owner.',
+  expired: 'This share link has expired. Ask the project owner for a new one.',
+  password: 'This project is protected with a password.',
+  'wrong-password': 'That password is not right.',
+  'too-many-attempts': 'Too many wrong passwords. Wait a few minutes and try again.',
+};
+
+// PBKDF2 rounds. Cloudflare Workers, where links are opened, allow at most 100,000
+const PBKDF2_ITERATIONS = 100_000;
+const HASH_PREFIX = 'pbkdf2-sha256';
+
+// A link as the API stores it. The app is never handed the hash back: its
+// schema drops it and the share route doesn't answer with it
+export type StoredShareLink = Pick<ShareLink, 'id' | 'projectId' | 'token' | 'expiresAt' | 'revokedAt'> & {
+  passwordHash?: string | null;
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+// 192 random bits, URL safe
+export function generateShareToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hash a link's password with PBKDF2 and a random salt, as
+ * `pbkdf2-sha256$<iterations>$<salt>$<hash>`. Made in the browser when the
+ * link is created and checked on the server when it is opened.
+ */
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return [HASH_PREFIX, PBKDF2_ITERATIONS, toBase64Url(salt), toBase64Url(hash)].join('$');
+}
+
+// Compares every byte, so how long it takes says nothing about where they differ
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+async function verifySharePassword(link: StoredShareLink, password: string): Promise<boolean> {
+  const [prefix, iterations, salt, hash] = (link.passwordHash ?? '').split('$');
+  if (prefix === HASH_PREFIX && salt && hash) {
+    return sameBytes(await pbkdf2(password, fromBase64Url(salt), Number(iterations)), fromBase64Url(hash));
+  }
+  // Links made before PBKDF2 hold a SHA-256 of token and password
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${link.token}:${password}`)));
+  const hex = Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+  return sameBytes(new TextEncoder().encode(hex), new TextEncoder().encode(link.passwordHash ?? ''));
+}
+
+export function getShareLinkStatus(link: Pick<ShareLink, 'expiresAt' | 'revokedAt'>, now = Date.now()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= now) return 'expired';
+  return 'active';
+}
+
+// Null when the link may be opened with this password
+export async function checkShareAccess(link: StoredShareLink, password?: string | null): Promise<ShareDenial | null> {
+  const status = getShareLinkStatus(link);
+  if (status !== 'active') return status;
+  if (!link.passwordHash) return null;
+  if (!password) return 'password';
+  return await verifySharePassword(link, password) ? null : 'wrong-password';
+}
+
+export function buildShareUrl(origin: string, link: Pick<ShareLink, 'projectId' | 'token'>): string {
+  return `${origin}/project/${link.projectId}/preview?token=${encodeURIComponent(link.token)}`;
+}
+
+export type ShareOpenResult = { snapshot: ProjectSnapshot } | { reason: ShareDenial };
+export type ShareChangesResult = { changeSet: ProjectChangeSet } | { reason: ShareDenial };
+
+async function askShareRoute(token: string, body: { password?: string; since?: number }) {
+  const response = await fetch(`/api/share/${encodeURIComponent(token)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({})) as { snapshot?: unknown; changeSet?: unknown; reason?: ShareDenial; message?: string };
+  if (!response.ok && !data.reason) throw new Error(data.message || 'Failed to open share link');
+  return data;
+}
+
+/**
+ * Open a link: the server checks it and answers with the project, so a
+ * visitor only ever sees it through the link. Counts as a view.
+ */
+export async function openShareLink(token: string, password?: string): Promise<ShareOpenResult> {
+  const data = await askShareRoute(token, { password });
+  if (data.reason) return { reason: data.reason };
+  return { snapshot: snapshotSchema.parse(data.snapshot, 'snapshot') };
+}
+
+// What changed in a shared project since a revision, checked against the link again
+export async function getSharedChanges(token: string, since: number, password?: string): Promise<ShareChangesResult> {
+  const data = await askShareRoute(token, { password, since });
+  if (data.reason) return { reason: data.reason };
+  return { changeSet: changeSetSchema.parse(data.changeSet, 'changeSet') };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Link, Node } from '@/types/knowledge';
+import { getStudyOrder, studyOrderToMarkdown } from './studyOrder';
+
+const node = (id: number, title: string, groupId = 1): Node => ({ id, title, groupId, createdAt: '', updatedAt: '' });
+
+let nextId = 1;
+const link = (sourceId: number, targetId: number, extra: Partial<Link> = {}) =>
+  ({ id: nextId++, sourceId, targetId, color: '#fff', createdAt: '', ...extra }) as Link;
+
+const titles = (nodes: Node[]) => nodes.map(n => n.title);
+
+describe('getStudyOrder', () => {
+  it('puts each node a level after its prerequisites, by title within a level', () => {
+    const nodes = [node(1, 'Limits'), node(2, 'Sets'), node(3, 'Functions'), node(4, 'Derivatives'), node(5, 'Art')];
+    const links = [
+      link(2, 3),
+      link(3, 1, { relationshipType: 'prerequisite' }),
+      link(1, 4),
+      link(3, 4),
+      link(5, 2, { relationshipType: 'example-of' }),
+      link(5, 3, { isBidirectional: true }),
+    ];
+
+    const order = getStudyOrder(nodes, links);
+
+    expect(order.steps.map(s => [s.node.title, s.level])).toEqual([
+      ['Art', 0], ['Sets', 0], ['Functions', 1], ['Limits', 2], ['Derivatives', 3],
+    ]);
+    expect(order.linkCount).toBe(4);
+    expect(order.cycles).toEqual([]);
+  });
+
+  it('reports cycles and self-loops, and leaves out what they hold up', () => {
+    const nodes = [node(1, 'Ideal'), node(2, 'Field'), node(3, 'Ring'), node(4, 'Module'), node(5, 'Group')];
+    const links = [link(2, 3), link(3, 2), link(3, 4), link(1, 1), link(5, 2)];
+
+    const order = getStudyOrder(nodes, links);
+
+    expect(titles(order.steps.map(s => s.node))).toEqual(['Group']);
+    expect(titles(order.unresolved)).toEqual(['Field', 'Ideal', 'Module', 'Ring']);
+    expect(order.cycles.map(titles)).toEqual([['Field', 'Ring'], ['Ideal']]);
+  });
+
+  it('orders one group on its own, ignoring links that leave it', () => {
+    const nodes = [node(1, 'Vectors', 1), node(2, 'Matrices', 1), node(3, 'Numbers', 2)];
+    const links = [link(3, 1), link(1, 2), link(2, 3)];
+
+    const order = getStudyOrder(nodes.filter(n => n.groupId === 1), links);
+
+    expect(order.steps.map(s => [s.node.title, s.level])).toEqual([['Vectors', 0], ['Matrices', 1]]);
+    expect(order.linkCount).toBe(1);
+    expect(order.unresolved).toEqual([]);
+  });
+});
+
+describe('studyOrderToMarkdown', () => {
+  it('numbers the steps by stage and lists the cycles after them', () => {
+    const nodes = [node(1, 'Sets'), node(2, 'Functions'), node(3, 'Ring'), node(4, 'Field')];
+    const order = getStudyOrder(nodes, [link(1, 2), link(3, 4), link(4, 3)]);
+
+    const lines = studyOrderToMarkdown(order, 'Algebra').split('\n');
+
+    expect(lines[0]).toBe('# Algebra');
+    expect(lines[2]).toMatch(/^_Ordered along 3 prerequisite links on /);
+    expect(lines.slice(3)).toEqual([
+      '', '## Stage 1', '', '1. [ ] Sets',
+      '', '## Stage 2', '', '2. [ ] Functions',
+      '', '## Unresolved', '', expect.stringContaining('cycle'), '',
+      '- Cycle: Field ↔ Ring',
+      '', '- [ ] Field', '- [ ] Ring',
+      '',
+    ]);
+  });
+
+  it('says when there is nothing to study', () => {
+    expect(studyOrderToMarkdown(getStudyOrder([], []), 'Empty')).toBe('# Empty\n\n_No nodes to study._\n');
+  });
+});
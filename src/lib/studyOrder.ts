@@ -0,0 +1,149 @@
+import type { Node, Link } from '@/types/knowledge';
+import { isPrerequisiteLink, topologicalLayers } from '@/lib/graphPaths';
+
+export interface StudyStep {
+  node: Node;
+  level: number; // Steps on the same level have no prerequisites between them
+}
+
+export interface StudyOrder {
+  steps: StudyStep[];
+  cycles: Node[][]; // Groups of nodes that are prerequisites of each other
+  unresolved: Node[]; // Nodes in or behind a cycle, which cannot be ordered
+  linkCount: number; // Prerequisite links the order was built from
+}
+
+const byTitle = (a: Node, b: Node) => a.title.localeCompare(b.title);
+
+/**
+ * Topologically sort nodes along prerequisite links (see isPrerequisiteLink).
+ * Only links between the given nodes are used, so passing one group's nodes
+ * orders that group on its own.
+ */
+export function getStudyOrder(nodes: Node[], links: Link[]): StudyOrder {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const edges = links.filter(l => isPrerequisiteLink(l) && nodeById.has(l.sourceId) && nodeById.has(l.targetId));
+
+  // Kahn's algorithm, one layer at a time so each step knows its level
+  const steps: StudyStep[] = [];
+  topologicalLayers(nodes.map(n => n.id), edges).forEach((layer, level) => {
+    layer.map(id => nodeById.get(id)!).sort(byTitle).forEach(node => steps.push({ node, level }));
+  });
+
+  const ordered = new Set(steps.map(s => s.node.id));
+  const unresolved = nodes.filter(n => !ordered.has(n.id)).sort(byTitle);
+
+  return {
+    steps,
+    cycles: findCycles(unresolved, edges),
+    unresolved,
+    linkCount: edges.length,
+  };
+}
+
+/**
+ * Strongly connected components (Tarjan) among the unresolved nodes,
+ * keeping only those that actually form a cycle.
+ */
+function findCycles(unresolved: Node[], edges: Link[]): Node[][] {
+  const nodeById = new Map(unresolved.map(n => [n.id, n]));
+  const outgoing = new Map<number, number[]>();
+  const selfLoops = new Set<number>();
+  edges.forEach(l => {
+    if (!nodeById.has(l.sourceId) || !nodeById.has(l.targetId)) return;
+    if (l.sourceId === l.targetId) selfLoops.add(l.sourceId);
+    if (!outgoing.has(l.sourceId)) outgoing.set(l.sourceId, []);
+    outgoing.get(l.sourceId)!.push(l.targetId);
+  });
+
+  const index = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const cycles: Node[][] = [];
+  let counter = 0;
+
+  const connect = (id: number) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of outgoing.get(id) || []) {
+      if (!index.has(next)) {
+        connect(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: Node[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(nodeById.get(member)!);
+      } while (member !== id);
+
+      if (component.length > 1 || selfLoops.has(id)) {
+        cycles.push(component.sort(byTitle));
+      }
+    }
+  };
+
+  unresolved.forEach(n => {
+    if (!index.has(n.id)) connect(n.id);
+  });
+  return cycles;
+}
+
+/**
+ * Render a study order as a Markdown checklist
+ */
+export function studyOrderToMarkdown(order: StudyOrder, title: string): string {
+  const lines = [`# ${title}`, ''];
+
+  if (order.steps.length === 0 && order.unresolved.length === 0) {
+    lines.push('_No nodes to study._');
+    return lines.join('\n') + '\n';
+  }
+
+  lines.push(`_Ordered along ${order.linkCount} prerequisite link${order.linkCount === 1 ? '' : 's'} on ${new Date().toLocaleDateString()}._`);
+
+  let currentLevel = -1;
+  order.steps.forEach((step, i) => {
+    if (step.level !== currentLevel) {
+      currentLevel = step.level;
+      lines.push('', `## Stage ${currentLevel + 1}`, '');
+    }
+    lines.push(`${i + 1}. [ ] ${step.node.title}`);
+  });
+
+  if (order.unresolved.length > 0) {
+    lines.push('', '## Unresolved', '', 'These nodes depend on each other in a cycle, or on a node that does. Remove or reverse one of the links to order them.', '');
+    order.cycles.forEach(cycle => {
+      lines.push(`- Cycle: ${cycle.map(n => n.title).join(' ↔ ')}`);
+    });
+    if (order.cycles.length > 0) lines.push('');
+    order.unresolved.forEach(n => lines.push(`- [ ] ${n.title}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportStudyOrderAsMarkdown(order: StudyOrder, title: string): void {
+  const fileName = `${title.replace(/[^a-zA-Z0-9\s-]/g, '').trim() || 'study-order'}.md`;
+  const blob = new Blob([studyOrderToMarkdown(order, title)], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,128 @@
+// Lightweight highlighter for code blocks in node content. It only tells
+// comments, strings, numbers and keywords apart, which covers what study
+// notes need without pulling in a full grammar library.
+
+export type CodeTokenType = 'comment' | 'string' | 'number' | 'keyword' | 'plain';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+const C_LIKE_KEYWORDS = [
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extends',
+  'false', 'final', 'finally', 'for', 'if', 'implements', 'import', 'interface', 'new', 'null',
+  'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'throws',
+  'true', 'try', 'void', 'while',
+];
+
+const LANGUAGES: Record<string, { keywords: string[]; lineComment: string[]; blockComment: boolean }> = {
+  javascript: {
+    keywords: [...C_LIKE_KEYWORDS, 'async', 'await', 'export', 'from', 'function', 'in', 'instanceof', 'let', 'of', 'typeof', 'undefined', 'var', 'yield'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  typescript: {
+    keywords: [...C_LIKE_KEYWORDS, 'as', 'async', 'await', 'export', 'from', 'function', 'in', 'instanceof', 'keyof', 'let', 'of', 'readonly', 'type', 'typeof', 'undefined', 'var'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  java: {
+    keywords: [...C_LIKE_KEYWORDS, 'abstract', 'boolean', 'byte', 'char', 'double', 'float', 'instanceof', 'int', 'long', 'package', 'short', 'synchronized'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  c: {
+    keywords: [...C_LIKE_KEYWORDS, 'auto', 'char', 'double', 'extern', 'float', 'int', 'long', 'register', 'short', 'signed', 'sizeof', 'struct', 'typedef', 'union', 'unsigned', 'include', 'define'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  cpp: {
+    keywords: [...C_LIKE_KEYWORDS, 'auto', 'bool', 'char', 'delete', 'double', 'float', 'int', 'long', 'namespace', 'nullptr', 'short', 'sizeof', 'std', 'struct', 'template', 'typename', 'unsigned', 'using', 'virtual', 'include', 'define'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  csharp: {
+    keywords: [...C_LIKE_KEYWORDS, 'async', 'await', 'bool', 'double', 'int', 'namespace', 'out', 'override', 'readonly', 'ref', 'string', 'using', 'var', 'virtual'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  go: {
+    keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func', 'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct', 'switch', 'true', 'type', 'var'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  rust: {
+    keywords: ['as', 'break', 'const', 'continue', 'else', 'enum', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'struct', 'trait', 'true', 'use', 'where', 'while'],
+    lineComment: ['//'],
+    blockComment: true,
+  },
+  python: {
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'True', 'try', 'while', 'with', 'yield'],
+    lineComment: ['#'],
+    blockComment: false,
+  },
+  shell: {
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'while'],
+    lineComment: ['#'],
+    blockComment: false,
+  },
+  sql: {
+    keywords: ['and', 'as', 'by', 'create', 'delete', 'distinct', 'from', 'group', 'having', 'in', 'insert', 'into', 'is', 'join', 'key', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'primary', 'right', 'select', 'set', 'table', 'update', 'values', 'where'],
+    lineComment: ['--'],
+    blockComment: true,
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', ts: 'typescript', tsx: 'typescript',
+  'c++': 'cpp', 'c#': 'csharp', cs: 'csharp', py: 'python', sh: 'shell', bash: 'shell', zsh: 'shell',
+  rs: 'rust', golang: 'go', kotlin: 'java', kt: 'java', scala: 'java',
+};
+
+export function highlightCode(code: string, lang: string): CodeToken[] {
+  const language = LANGUAGES[ALIASES[lang] ?? lang];
+  if (!language) return [{ type: 'plain', text: code }];
+
+  // SQL keywords are case-insensitive, the rest are not
+  const caseInsensitive = language === LANGUAGES.sql;
+  const keywords = new Set(language.keywords);
+
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const parts = [
+    ...(language.blockComment ? ['\\/\\*[\\s\\S]*?(?:\\*\\/|$)'] : []),
+    ...language.lineComment.map(c => `${escape(c)}.*`),
+    '"(?:[^"\\\\\\n]|\\\\.)*"?',
+    "'(?:[^'\\\\\\n]|\\\\.)*'?",
+    '`(?:[^`\\\\]|\\\\.)*`?',
+    '\\b\\d+(?:\\.\\d+)?\\b',
+    '[A-Za-z_$][\\w$]*',
+  ];
+  const tokenizer = new RegExp(parts.join('|'), 'g');
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tokenizer.exec(code)) !== null) {
+    if (match.index > lastIndex) push('plain', code.slice(lastIndex, match.index));
+    const text = match[0];
+    const first = text[0];
+
+    if (text.startsWith('/*') || language.lineComment.some(c => text.startsWith(c))) push('comment', text);
+    else if (first === '"' || first === "'" || first === '`') push('string', text);
+    else if (/\d/.test(first)) push('number', text);
+    else if (keywords.has(caseInsensitive ? text.toLowerCase() : text)) push('keyword', text);
+    else push('plain', text);
+
+    lastIndex = match.index + text.length;
+  }
+  if (lastIndex < code.length) push('plain', code.slice(lastIndex));
+
+  return tokens;
+}
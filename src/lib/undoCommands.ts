@@ -0,0 +1,87 @@
+import type { RevisionEntity, RevisionSnapshot } from '@/types/knowledge';
+import { changedFields } from './projectHistory';
+
+// Oldest steps are dropped past this
+export const MAX_UNDO_STEPS = 100;
+
+/**
+ * One entity going from `before` to `after`. A null side means the entity
+ * didn't exist there, so undoing a creation deletes it and vice versa.
+ */
+export interface UndoOperation {
+  entity: RevisionEntity;
+  id: number;
+  before: RevisionSnapshot | null;
+  after: RevisionSnapshot | null;
+}
+
+// Everything one user action changed, undone and redone as a unit
+export interface UndoStep {
+  operations: UndoOperation[];
+}
+
+/**
+ * Collapse repeated operations on the same entity (a drag commits on every
+ * mouse move) into one, dropping those that end where they started
+ */
+export function mergeOperations(operations: UndoOperation[]): UndoOperation[] {
+  const merged = new Map<string, UndoOperation>();
+  operations.forEach(op => {
+    const key = `${op.entity}:${op.id}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, after: op.after } : op);
+  });
+  return [...merged.values()].filter(op => {
+    if (!op.before || !op.after) return op.before !== op.after;
+    return changedFields(op.before, op.after).length > 0;
+  });
+}
+
+function replaceId<T extends RevisionSnapshot | null>(snapshot: T, field: string, oldId: number, newId: number): T {
+  if (!snapshot || (snapshot as unknown as Record<string, unknown>)[field] !== oldId) return snapshot;
+  return { ...snapshot, [field]: newId };
+}
+
+/**
+ * Point an operation at the new id of an entity that was recreated (deleted
+ * entities come back from the API with a fresh id), including references to
+ * it from links, nodes and drawings
+ */
+export function remapOperation(op: UndoOperation, entity: RevisionEntity, oldId: number, newId: number): UndoOperation {
+  if (op.entity === entity && op.id === oldId) {
+    return { ...op, id: newId, before: replaceId(op.before, 'id', oldId, newId), after: replaceId(op.after, 'id', oldId, newId) };
+  }
+
+  const fields = entity === 'node' && op.entity === 'link'
+    ? ['sourceId', 'targetId']
+    : entity === 'group' && (op.entity === 'node' || op.entity === 'drawing')
+      ? ['groupId']
+      : [];
+  if (fields.length === 0) return op;
+
+  let { before, after } = op;
+  fields.forEach(field => {
+    before = replaceId(before, field, oldId, newId);
+    after = replaceId(after, field, oldId, newId);
+  });
+  return before === op.before && after === op.after ? op : { ...op, before, after };
+}
+
+export function remapSteps(steps: UndoStep[], entity: RevisionEntity, oldId: number, newId: number): UndoStep[] {
+  return steps.map(step => ({
+    operations: step.operations.map(op => remapOperation(op, entity, oldId, newId)),
+  }));
+}
+
+/**
+ * Give every snapshot of an entity the version the API last saved it at, so
+ * steps replayed later aren't checked against the version they were recorded at
+ */
+export function setVersionInSteps(steps: UndoStep[], entity: RevisionEntity, id: number, version: number): UndoStep[] {
+  const withVersion = <T extends RevisionSnapshot | null>(snapshot: T): T => snapshot && { ...snapshot, version };
+  return steps.map(step => ({
+    operations: step.operations.map(op => op.entity === entity && op.id === id
+      ? { ...op, before: withVersion(op.before), after: withVersion(op.after) }
+      : op),
+  }));
+}
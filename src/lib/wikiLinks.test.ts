@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { completeWikiLink, extractWikiLinks, getWikiLinkQuery, stripCode } from './wikiLinks';
+
+describe('extractWikiLinks', () => {
+  it('takes the title from [[Title|label]], once for each title whatever its case', () => {
+    expect(extractWikiLinks('[[Sets|the basics]], [[ sets ]], [[Maps]] and [[Maps|again]]')).toEqual(['Sets', 'Maps']);
+  });
+
+  it('skips code spans and fenced blocks, closed or not', () => {
+    const content = ['`[[Inline]]` [[Kept]]', '```md', '[[Fenced]]', '```', '[[After]]', '```', '[[Unclosed]]'].join('\n');
+
+    expect(extractWikiLinks(content)).toEqual(['Kept', 'After']);
+  });
+
+  it('ignores empty and unfinished references', () => {
+    expect(extractWikiLinks('[[ ]] [[Closed]] [[Open')).toEqual(['Closed']);
+    expect(extractWikiLinks(null)).toEqual([]);
+  });
+});
+
+describe('stripCode', () => {
+  it('drops code and keeps the prose around it', () => {
+    expect(stripCode('a `b` c\n```\nd\n```\ne')).toBe('a  c\n\ne');
+  });
+});
+
+describe('wiki link autocomplete', () => {
+  it('finds the reference being typed, and completes it over a typed ]]', () => {
+    const text = 'See [[Se]] later';
+    const query = getWikiLinkQuery(text, 8)!;
+
+    expect(query).toEqual({ query: 'Se', start: 4 });
+    expect(completeWikiLink(text, 8, query, 'Sets')).toEqual({ text: 'See [[Sets]] later', caret: 12 });
+  });
+
+  it('offers nothing once the reference is closed or labelled', () => {
+    expect(getWikiLinkQuery('[[Sets]] ', 9)).toBeNull();
+    expect(getWikiLinkQuery('[[Sets|la', 9)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import type { Node } from '@/types/knowledge';
+
+const WIKI_LINK = /\[\[([^\]|\n]+)(?:\|[^\]\n]+)?\]\]/g;
+
+export interface WikiLinkQuery {
+  query: string; // Text typed after the opening [[
+  start: number; // Index of the opening [[
+}
+
+/**
+ * The text without its code spans and fenced blocks, so examples of link syntax
+ * inside them aren't taken for links. An unclosed fence runs to the end.
+ */
+export function stripCode(text: string): string {
+  return text.replace(/```[\s\S]*?(```|$)/g, '').replace(/`[^`\n]*`/g, '');
+}
+
+/**
+ * Titles referenced as [[Title]] or [[Title|label]], without duplicates.
+ * Code spans and fenced blocks are skipped so examples of the syntax don't count.
+ */
+export function extractWikiLinks(content: string | null | undefined): string[] {
+  if (!content) return [];
+  const text = stripCode(content);
+  const titles = new Map<string, string>();
+  for (const match of text.matchAll(WIKI_LINK)) {
+    const title = match[1].trim();
+    if (title && !titles.has(title.toLowerCase())) titles.set(title.toLowerCase(), title);
+  }
+  return [...titles.values()];
+}
+
+export function findNodeByTitle<T extends Pick<Node, 'title'>>(nodes: T[], title: string): T | undefined {
+  const wanted = title.trim().toLowerCase();
+  return nodes.find(n => n.title.trim().toLowerCase() === wanted);
+}
+
+/**
+ * The unfinished [[reference the caret is in, if any, for autocomplete
+ */
+export function getWikiLinkQuery(text: string, caret: number): WikiLinkQuery | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('[[');
+  if (start === -1) return null;
+
+  const query = before.slice(start + 2);
+  if (query.includes(']]') || query.includes('\n') || query.includes('|')) return null;
+  return { query, start };
+}
+
+/**
+ * Replace the unfinished reference with a complete [[Title]], returning the new
+ * text and where the caret should go
+ */
+export function completeWikiLink(text: string, caret: number, query: WikiLinkQuery, title: string) {
+  const after = text.slice(caret);
+  // Swallow a closing ]] that was already typed
+  const rest = after.startsWith(']]') ? after.slice(2) : after;
+  const inserted = `[[${title}]]`;
+  return {
+    text: text.slice(0, query.start) + inserted + rest,
+    caret: query.start + inserted.length,
+  };
+}
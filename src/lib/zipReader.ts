@@ -0,0 +1,77 @@
+// Reads .zip archives in the browser: stored and deflated entries, no ZIP64 or encryption
+
+export interface ZipEntry {
+  path: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const UTF8_FLAG = 0x0800;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 64KB at the very end
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= stop; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) return i;
+  }
+  throw new Error('This is not a zip file, or it is damaged.');
+}
+
+/**
+ * List the files in an archive. Contents are only inflated when read.
+ */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  const buffer = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const utf8 = new TextDecoder('utf-8');
+  const latin1 = new TextDecoder('latin1');
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('Zip64 archives are not supported. Try zipping fewer or smaller files.');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The zip file is damaged.');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const nameBytes = buffer.subarray(offset + 46, offset + 46 + nameLength);
+    const path = (flags & UTF8_FLAG ? utf8 : latin1).decode(nameBytes).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    entries.push({
+      path,
+      size,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`The zip entry ${path} is damaged.`);
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = buffer.subarray(start, start + compressedSize);
+        if (method === 0) return data;
+        if (method === 8) return inflateRaw(data);
+        throw new Error(`${path} uses a compression method that is not supported.`);
+      },
+    });
+  }
+  return entries;
+}
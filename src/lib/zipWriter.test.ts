@@ -0,0 +1,66 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zipWriter';
+import { readZip } from './zipReader';
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+async function centralDirectory(zip: Blob): Promise<DataView> {
+  const bytes = new Uint8Array(await zip.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  return new DataView(bytes.buffer, view.getUint32(bytes.length - 22 + 16, true));
+}
+
+describe('zip round trip', () => {
+  it('reads back what createZip wrote, text and binary alike', async () => {
+    const binary = new Uint8Array([0, 255, 1, 254, 10, 13]);
+    const zip = createZip([
+      { path: 'notes/Graphs.md', data: '# Graphs\n\nNodes and edges' },
+      { path: 'notes/Überblick ∑.md', data: 'Σ ∫ — ünïcödé' },
+      { path: 'assets/blob.bin', data: binary },
+      { path: 'empty.txt', data: '' },
+    ]);
+
+    const entries = await readZip(zip);
+
+    expect(entries.map(e => [e.path, e.size])).toEqual([
+      ['notes/Graphs.md', 25],
+      ['notes/Überblick ∑.md', new TextEncoder().encode('Σ ∫ — ünïcödé').length],
+      ['assets/blob.bin', 6],
+      ['empty.txt', 0],
+    ]);
+    expect(text(await entries[0].read())).toBe('# Graphs\n\nNodes and edges');
+    expect(text(await entries[1].read())).toBe('Σ ∫ — ünïcödé');
+    expect([...await entries[2].read()]).toEqual([...binary]);
+    expect((await entries[3].read()).length).toBe(0);
+  });
+
+  it('stores the CRC-32 of each file', async () => {
+    const central = await centralDirectory(createZip([{ path: 'a.txt', data: 'hello' }]));
+    expect(central.getUint32(16, true)).toBe(0x3610a686);
+  });
+
+  it('inflates deflated entries, as other tools write them', async () => {
+    const content = 'a line that repeats\n'.repeat(50);
+    const zip = createZip([{ path: 'a.md', data: deflateRawSync(content) }]);
+    // Mark the entry as deflated, with its inflated size
+    const central = await centralDirectory(zip);
+    central.setUint16(10, 8, true);
+    central.setUint32(24, content.length, true);
+    const patched = new Blob([central.buffer as ArrayBuffer]);
+
+    const [entry] = await readZip(patched);
+
+    expect(entry.size).toBe(content.length);
+    expect(text(await entry.read())).toBe(content);
+  });
+
+  it('skips directory entries', async () => {
+    const entries = await readZip(createZip([{ path: 'notes/', data: '' }, { path: 'notes/a.md', data: 'A' }]));
+    expect(entries.map(e => e.path)).toEqual(['notes/a.md']);
+  });
+
+  it('refuses what is not a zip', async () => {
+    await expect(readZip(new Blob(['just some text, long enough to look for a directory in']))).rejects.toThrow('not a zip file');
+  });
+});
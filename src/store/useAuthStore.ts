@@ -1,6 +1,10 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { Profile } from '@/types/knowledge';
+import { setBackendMode } from '@/lib/backendAdapter';
+
+// The one account the "try without an account" demo signs in as
+const DEMO_ACCOUNT = { email: 'guest@nexus.local', password: 'guest-nexus-1', displayName: 'Guest' };
 
 interface AuthState {
   user: Profile | null;
@@ -15,11 +19,13 @@ interface AuthState {
   setHasHydrated: (hydrated: boolean) => void;
   login: (user: Profile) => void;
   logout: () => void;
+  // Switch to the in-browser backend and sign in there, no account needed
+  startLocalSession: () => Promise<void>;
 }
 
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       user: null,
       isAuthenticated: false,
       isAuthLoading: false,
@@ -42,6 +48,16 @@ export const useAuthStore = create<AuthState>()(
         isAuthenticated: false,
         authError: null 
       }),
+
+      startLocalSession: async () => {
+        setBackendMode('local');
+        const { api } = await import('@/lib/api');
+        const credentials = { email: DEMO_ACCOUNT.email, password: DEMO_ACCOUNT.password };
+        // Signed in before in this browser, or the first visit
+        const profile = await api.auth.login(credentials)
+          .catch(() => api.auth.register({ ...credentials, displayName: DEMO_ACCOUNT.displayName, provider: 'email' }));
+        get().login(profile);
+      },
     }),
     {
       name: 'nexus-auth',
@@ -0,0 +1,29 @@
+import { create } from 'zustand';
+import type { PresenceState } from '@/types/knowledge';
+import type { CollabStatus } from '@/lib/collabChannel';
+
+interface CollabState {
+  status: CollabStatus;
+  // Other tabs on the open project, by session id
+  peers: Record<string, PresenceState>;
+
+  setStatus: (status: CollabStatus) => void;
+  setPeers: (peers: PresenceState[]) => void;
+  upsertPeer: (presence: PresenceState) => void;
+  removePeer: (sessionId: string) => void;
+}
+
+export const useCollabStore = create<CollabState>()((set) => ({
+  status: 'disconnected',
+  peers: {},
+
+  setStatus: (status) => set({ status }),
+  setPeers: (peers) => set({ peers: Object.fromEntries(peers.map(p => [p.sessionId, p])) }),
+  upsertPeer: (presence) => set((state) => ({ peers: { ...state.peers, [presence.sessionId]: presence } })),
+  removePeer: (sessionId) => set((state) => {
+    if (!state.peers[sessionId]) return state;
+    const peers = { ...state.peers };
+    delete peers[sessionId];
+    return { peers };
+  }),
+}));
@@ -0,0 +1,137 @@
+import { create } from 'zustand';
+import type { CommentThread, ProjectComment } from '@/types/knowledge';
+import { anchorFields, findMentions, toMentionHandle, type CommentAnchor, type MentionablePerson } from '@/lib/comments';
+import { useMembersStore } from './useMembersStore';
+
+interface CommentAuthor {
+  userId: string;
+  name: string;
+}
+
+interface CommentsState {
+  // Per project
+  threads: Record<number, CommentThread[]>;
+  comments: Record<number, ProjectComment[]>;
+  people: Record<number, MentionablePerson[]>;
+
+  // The thread open on the canvas, or the anchor of one being started there
+  openThreadId: number | null;
+  draftAnchor: CommentAnchor | null;
+  // The next click on the canvas, a node or a connection starts a thread there
+  isPlacingComment: boolean;
+
+  loadComments: (projectId: number) => Promise<void>;
+  startThread: (projectId: number, anchor: CommentAnchor, body: string, author: CommentAuthor) => Promise<CommentThread>;
+  reply: (thread: CommentThread, body: string, author: CommentAuthor) => Promise<void>;
+  setResolved: (thread: CommentThread, resolved: boolean, userId: string) => Promise<void>;
+  deleteComment: (comment: ProjectComment) => Promise<void>;
+
+  openThread: (threadId: number | null) => void;
+  openDraft: (anchor: CommentAnchor | null) => void;
+  setPlacingComment: (active: boolean) => void;
+}
+
+const commentsApi = () => import('@/lib/api').then(m => m.api);
+
+export const useCommentsStore = create<CommentsState>()((set, get) => {
+  const addComment = (comment: ProjectComment) => set((state) => ({
+    comments: { ...state.comments, [comment.projectId]: [...(state.comments[comment.projectId] ?? []), comment] },
+  }));
+
+  const postComment = async (thread: CommentThread, body: string, author: CommentAuthor) => {
+    const comment = await (await commentsApi()).comments.create({
+      threadId: thread.id,
+      projectId: thread.projectId,
+      userId: author.userId,
+      authorName: author.name,
+      body,
+      mentions: findMentions(body, get().people[thread.projectId] ?? []),
+    });
+    addComment(comment);
+  };
+
+  return {
+    threads: {},
+    comments: {},
+    people: {},
+    openThreadId: null,
+    draftAnchor: null,
+    isPlacingComment: false,
+
+    loadComments: async (projectId) => {
+      const api = await commentsApi();
+      try {
+        const [threads, comments] = await Promise.all([
+          api.comments.getThreads(projectId),
+          api.comments.getByProject(projectId),
+        ]);
+        set((state) => ({
+          threads: { ...state.threads, [projectId]: threads },
+          comments: { ...state.comments, [projectId]: comments },
+        }));
+      } catch {
+        // Keep whatever was loaded before
+      }
+
+      // Whoever can see the comments can be mentioned in them
+      try {
+        const [project, members] = await Promise.all([
+          api.projects.getById(projectId),
+          useMembersStore.getState().loadMembers(projectId),
+        ]);
+        const owner = await api.profiles.getById(project.userId).catch(() => null);
+        const people: MentionablePerson[] = [
+          ...(owner ? [{ userId: owner.id, name: owner.displayName || owner.email || 'Owner' }] : []),
+          ...members
+            .filter(m => m.status === 'accepted')
+            .map(m => ({ userId: m.userId, name: m.displayName || m.email })),
+        ].map(p => ({ ...p, handle: toMentionHandle(p.name) }));
+        set((state) => ({ people: { ...state.people, [projectId]: people } }));
+      } catch {
+        // Mentions just won't be suggested
+      }
+    },
+
+    startThread: async (projectId, anchor, body, author) => {
+      const thread = await (await commentsApi()).comments.createThread({
+        projectId,
+        ...anchorFields(anchor),
+        createdBy: author.userId,
+      });
+      set((state) => ({
+        threads: { ...state.threads, [projectId]: [...(state.threads[projectId] ?? []), thread] },
+      }));
+      await postComment(thread, body, author);
+      return thread;
+    },
+
+    reply: postComment,
+
+    setResolved: async (thread, resolved, userId) => {
+      const changes = resolved
+        ? { resolvedAt: new Date().toISOString(), resolvedBy: userId }
+        : { resolvedAt: null, resolvedBy: null };
+      await (await commentsApi()).comments.updateThread(thread.id, changes);
+      set((state) => ({
+        threads: {
+          ...state.threads,
+          [thread.projectId]: (state.threads[thread.projectId] ?? []).map(t => t.id === thread.id ? { ...t, ...changes } : t),
+        },
+      }));
+    },
+
+    deleteComment: async (comment) => {
+      await (await commentsApi()).comments.delete(comment.id);
+      set((state) => ({
+        comments: {
+          ...state.comments,
+          [comment.projectId]: (state.comments[comment.projectId] ?? []).filter(c => c.id !== comment.id),
+        },
+      }));
+    },
+
+    openThread: (threadId) => set({ openThreadId: threadId, draftAnchor: null }),
+    openDraft: (anchor) => set({ draftAnchor: anchor, openThreadId: null, isPlacingComment: false }),
+    setPlacingComment: (active) => set({ isPlacingComment: active }),
+  };
+});
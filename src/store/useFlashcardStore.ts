@@ -0,0 +1,108 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Flashcard, CardSchedule, ReviewGrade, ReviewLogEntry } from '@/types/knowledge';
+import { createSchedule, scheduleReview, isCardDue } from '@/lib/flashcards';
+
+// Local review history is only a cache, the server keeps the full log for signed-in users
+const MAX_LOCAL_HISTORY = 1000;
+
+interface FlashcardState {
+  cards: Flashcard[];
+  // Keyed by getScheduleKey so several accounts on one device don't mix
+  schedules: Record<string, CardSchedule>;
+  history: ReviewLogEntry[];
+
+  setProjectCards: (projectId: number, cards: Flashcard[]) => void;
+  addCard: (card: Flashcard) => void;
+  updateCard: (id: number, data: Partial<Flashcard>) => void;
+  deleteCard: (id: number) => void;
+  mergeSchedules: (schedules: CardSchedule[]) => void;
+  loadProjectCards: (projectId: number, userId: string | null) => Promise<void>;
+  recordReview: (cardId: number, userId: string | null, grade: ReviewGrade) => void;
+}
+
+export const getScheduleKey = (userId: string | null, cardId: number) => `${userId ?? 'guest'}:${cardId}`;
+
+export const useFlashcardStore = create<FlashcardState>()(
+  persist(
+    (set, get) => ({
+      cards: [],
+      schedules: {},
+      history: [],
+
+      setProjectCards: (projectId, cards) => set((state) => ({
+        cards: [...state.cards.filter(c => c.projectId !== projectId), ...cards],
+      })),
+
+      addCard: (card) => set((state) => ({ cards: [...state.cards, card] })),
+
+      updateCard: (id, data) => set((state) => ({
+        cards: state.cards.map(c => (c.id === id ? { ...c, ...data } : c)),
+      })),
+
+      deleteCard: (id) => set((state) => ({ cards: state.cards.filter(c => c.id !== id) })),
+
+      mergeSchedules: (incoming) => set((state) => {
+        const schedules = { ...state.schedules };
+        incoming.forEach(s => {
+          const key = getScheduleKey(s.userId, s.cardId);
+          const existing = schedules[key];
+          // Keep whichever side was reviewed last
+          if (!existing || new Date(s.lastReviewedAt || 0) >= new Date(existing.lastReviewedAt || 0)) {
+            schedules[key] = s;
+          }
+        });
+        return { schedules };
+      }),
+
+      loadProjectCards: async (projectId, userId) => {
+        try {
+          const api = await import('@/lib/api').then(m => m.api);
+          get().setProjectCards(projectId, await api.flashcards.getByProject(projectId));
+          if (userId) get().mergeSchedules(await api.flashcards.getSchedules(projectId, userId));
+        } catch {
+          // Fall back to what is cached on this device
+        }
+      },
+
+      recordReview: (cardId, userId, grade) => {
+        const now = new Date();
+        const current = get().schedules[getScheduleKey(userId, cardId)] ?? createSchedule(cardId, userId, now);
+        const schedule = scheduleReview(current, grade, now);
+        const review: ReviewLogEntry = { cardId, userId, grade, interval: schedule.interval, reviewedAt: now.toISOString() };
+
+        set((state) => ({
+          schedules: { ...state.schedules, [getScheduleKey(userId, cardId)]: schedule },
+          history: [...state.history, review].slice(-MAX_LOCAL_HISTORY),
+        }));
+
+        // Signed-out reviews only live on this device
+        if (userId) {
+          import('@/lib/api').then(m => m.api.flashcards.recordReview({ review, schedule })).catch(() => { });
+        }
+      },
+    }),
+    {
+      name: 'nexus-flashcards',
+      partialize: (state) => ({
+        cards: state.cards,
+        schedules: state.schedules,
+        history: state.history,
+      }),
+    }
+  )
+);
+
+export function getCardSchedule(schedules: Record<string, CardSchedule>, userId: string | null, cardId: number): CardSchedule | undefined {
+  return schedules[getScheduleKey(userId, cardId)];
+}
+
+export function getDueCards(cards: Flashcard[], schedules: Record<string, CardSchedule>, userId: string | null, now = new Date()): Flashcard[] {
+  return cards
+    .filter(c => isCardDue(getCardSchedule(schedules, userId, c.id), now))
+    .sort((a, b) => {
+      const dueA = getCardSchedule(schedules, userId, a.id)?.dueAt ?? '';
+      const dueB = getCardSchedule(schedules, userId, b.id)?.dueAt ?? '';
+      return dueA.localeCompare(dueB);
+    });
+}
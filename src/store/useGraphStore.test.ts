@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Link, Node, Project } from '@/types/knowledge';
+import { api } from '@/lib/api';
+import { setBackendMode } from '@/lib/backendAdapter';
+import { resetLocalBackend } from '@/lib/localBackend';
+import { useGraphStore } from './useGraphStore';
+
+// The store persists the open project, and looks for storage when it is created
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  globalThis.localStorage = {
+    get length() { return items.size; },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+});
+
+// Edits as the editor makes them: saved first, then put in the store with the version they came back with
+async function editNode(id: number, title: string) {
+  const node = useGraphStore.getState().nodes.find(n => n.id === id)!;
+  const saved = await api.nodes.update(id, { ...node, title });
+  useGraphStore.getState().updateNode(id, { title, version: saved.version });
+  await Promise.resolve(); // Changes made in the same tick are one undo step
+}
+
+async function editLink(id: number, description: string) {
+  const link = useGraphStore.getState().links.find(l => l.id === id)!;
+  const saved = await api.links.update(id, { ...link, description });
+  useGraphStore.getState().updateLink(id, { description, version: saved.version });
+  await Promise.resolve();
+}
+
+describe('undo and redo of saved edits', () => {
+  beforeEach(async () => {
+    setBackendMode('local');
+    await resetLocalBackend();
+    useGraphStore.setState({ currentProject: { id: 1 } as Project, nodes: [], links: [], undoStack: [], redoStack: [] });
+  });
+
+  it('sends the version a node is at now, not the one the step was recorded at', async () => {
+    const node = await api.nodes.create({ title: 'A', groupId: 0, projectId: 1, x: 0, y: 0 });
+    useGraphStore.getState().setNodes([node as Node]);
+
+    await editNode(node.id, 'B');
+    await editNode(node.id, 'C');
+
+    const { undo, redo } = useGraphStore.getState();
+    expect(await undo()).toBe(true);
+    expect(await undo()).toBe(true);
+    expect(await redo()).toBe(true);
+
+    const stored = await api.nodes.getById(node.id);
+    expect(stored.title).toBe('B');
+    expect(useGraphStore.getState().nodes[0]).toMatchObject({ title: 'B', version: stored.version });
+  });
+
+  it('does the same for links', async () => {
+    const source = await api.nodes.create({ title: 'A', groupId: 0, projectId: 1, x: 0, y: 0 });
+    const target = await api.nodes.create({ title: 'B', groupId: 0, projectId: 1, x: 0, y: 0 });
+    const link = await api.links.create({ sourceId: source.id, targetId: target.id, color: '#fff' });
+    useGraphStore.getState().setLinks([link as Link]);
+
+    await editLink(link.id, 'first');
+    await editLink(link.id, 'second');
+
+    const { undo, redo } = useGraphStore.getState();
+    expect(await undo()).toBe(true);
+    expect(await undo()).toBe(true);
+    expect(await redo()).toBe(true);
+
+    expect(useGraphStore.getState().links[0].description).toBe('first');
+  });
+});
@@ -1,8 +1,14 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Project, Node, Link, GraphData, GraphSettings, Tag, Attachment, DrawnShape } from '@/types/knowledge';
+import type { Project, Node, Link, GraphData, GraphSettings, Tag, Attachment, DrawnShape, RelationshipType, RevisionEntity, RevisionAction, RevisionSnapshot, ProjectRole, ProjectSnapshot } from '@/types/knowledge';
 import type { Group } from '@/components/graph/GroupsTabs';
 import { encodeWallpaper, decodeWallpaper } from '@/lib/imageUtils';
+import { toSnapshot, changedFields, nodePayload, linkPayload, drawingPayload, restoreNodeExtras } from '@/lib/projectHistory';
+import { isTempId, getPendingCount } from '@/lib/offlineQueue';
+import { toShape, sortGroups } from '@/lib/projectSnapshot';
+import { MAX_UNDO_STEPS, mergeOperations, remapOperation, remapSteps, setVersionInSteps, UndoOperation, UndoStep } from '@/lib/undoCommands';
+import { useHistoryStore } from './useHistoryStore';
+import { useAuthStore } from './useAuthStore';
 
 interface AppState {
   projects: Project[];
@@ -19,15 +25,23 @@ interface AppState {
   isLoading: boolean;
   graphSettings: GraphSettings;
   currentUserId: string | null;
+  // The user's role in the open project, null until it is known. Anything below editor is read-only.
+  currentRole: ProjectRole | null;
   hasHydrated: boolean;
   
   groups: Group[];
   activeGroupId: number | null;
+
+  // Project-defined relationship types (built-in defaults are merged in by getRelationshipVocabulary)
+  relationshipTypes: RelationshipType[];
   
   // Drawing state
   shapes: DrawnShape[];
-  undoStack: DrawnShape[][];
-  redoStack: DrawnShape[][];
+
+  // Undo history for every graph mutation, one step per user action
+  undoStack: UndoStep[];
+  redoStack: UndoStep[];
+  isReplayingUndo: boolean;
   
   // Connection Picker state
   isConnectionPickerActive: boolean;
@@ -37,6 +51,7 @@ interface AppState {
 
   setHasHydrated: (hydrated: boolean) => void;
   setCurrentUserId: (userId: string | null) => void;
+  setCurrentRole: (role: ProjectRole | null) => void;
   setProjects: (projects: Project[]) => void;
   addProject: (project: Project) => void;
   updateProject: (id: number, updates: Partial<Project>) => void;
@@ -45,13 +60,40 @@ interface AppState {
   
   // Drawing actions
   setShapes: (shapes: DrawnShape[]) => void;
+  // Like setShapes, for edits made on the canvas rather than loads, so they reach project history
+  commitShapes: (shapes: DrawnShape[]) => void;
   addShape: (shape: DrawnShape) => void;
   updateShape: (id: number, updates: Partial<DrawnShape>) => void;
   deleteShape: (id: number) => void;
-  undo: () => void;
-  redo: () => void;
   clearShapes: () => void;
-  pushToUndoStack: (shapes: DrawnShape[]) => void;
+
+  // Undo actions. Both resolve to false if part of the step could not be applied.
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+  // Everything recorded until endUndoStep becomes one step (gestures, pastes, multi-part saves).
+  // Outside of these, changes made in the same tick are grouped.
+  beginUndoStep: () => void;
+  endUndoStep: () => void;
+
+  // Swap a temporary id for the one the API assigned, everywhere it is referenced
+  remapEntityId: (entity: RevisionEntity, oldId: number, newId: number) => void;
+
+  // Put back entities deleted here whose deletion the API then refused, and take
+  // that deletion out of undo. Recorded and broadcast, so history and collaborators follow.
+  restoreDeleted: (deleted: { nodes?: Node[]; links?: Link[]; shapes?: DrawnShape[]; groups?: Group[] }) => void;
+
+  // Take the version a save of ours came back with. Not recorded, undoable or broadcast.
+  keepSavedVersion: (saved: Pick<Node, 'id' | 'version'>) => void;
+
+  // A change another tab made to the open project. Not recorded, undoable or broadcast again.
+  applyRemoteChange: (entity: RevisionEntity, action: RevisionAction, id: number, snapshot: RevisionSnapshot | null) => void;
+
+  // Revision of the open project's last loaded snapshot or change set, null until one is loaded
+  snapshotRevision: number | null;
+  // Replace the open project's graph with a snapshot of it
+  applyProjectSnapshot: (snapshot: ProjectSnapshot) => void;
+  // Catch up with changes made elsewhere since the last snapshot, reloading it when the server can't say
+  refreshProjectSnapshot: () => Promise<void>;
   
   // Group actions
   setGroups: (groups: Group[]) => void;
@@ -59,6 +101,12 @@ interface AppState {
   updateGroup: (id: number, updates: Partial<Group>) => void;
   deleteGroup: (id: number) => void;
   setActiveGroupId: (groupId: number | null) => void;
+
+  // Relationship type actions
+  setRelationshipTypes: (types: RelationshipType[]) => void;
+  addRelationshipType: (type: RelationshipType) => void;
+  updateRelationshipType: (id: number, updates: Partial<RelationshipType>) => void;
+  deleteRelationshipType: (id: number) => void;
   
   setNodes: (nodes: Node[]) => void;
   setLinks: (links: Link[]) => void;
@@ -86,7 +134,7 @@ interface AppState {
 
 export const useGraphStore = create<AppState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       projects: [],
       currentProject: null,
       nodes: [],
@@ -110,15 +158,20 @@ export const useGraphStore = create<AppState>()(
         fontFamily: 'Inter',
       },
       currentUserId: null,
+      currentRole: null,
       hasHydrated: false,
 
       groups: [],
       activeGroupId: null,
 
+      relationshipTypes: [],
+
       // Drawing state
       shapes: [],
+      snapshotRevision: null,
       undoStack: [],
       redoStack: [],
+      isReplayingUndo: false,
 
       // Connection Picker state
       isConnectionPickerActive: false,
@@ -127,6 +180,7 @@ export const useGraphStore = create<AppState>()(
       setHasHydrated: (hydrated) => set({ hasHydrated: hydrated }),
 
   setCurrentUserId: (userId) => set({ currentUserId: userId }),
+  setCurrentRole: (role) => set({ currentRole: role }),
   setProjects: (projects) => set({ projects }),
   
   addProject: (project) => set((state) => ({ 
@@ -199,7 +253,13 @@ export const useGraphStore = create<AppState>()(
     currentProject: project,
     nodes: [],
     links: [],
+    relationshipTypes: [],
+    groups: [],
+    shapes: [],
     activeNode: null,
+    snapshotRevision: null,
+    undoStack: [],
+    redoStack: [],
   }),
 
   setNodes: (nodes) => {
@@ -230,36 +290,61 @@ export const useGraphStore = create<AppState>()(
   setTags: (tags) => set({ tags }),
   setGraphData: (data) => set({ nodes: data.nodes, links: data.links }),
   
-  addNode: (node) => set((state) => ({ 
-    nodes: [...state.nodes, node] 
-  })),
+  addNode: (node) => {
+    set((state) => ({ 
+      nodes: [...state.nodes, node] 
+    }));
+    recordRevision('node', node.id, null, node);
+  },
   
-  updateNode: (id, updates) => set((state) => ({
-    nodes: state.nodes.map((n) => 
-      n.id === id ? { ...n, ...updates, updatedAt: new Date().toISOString() } : n
-    ),
-    activeNode: state.activeNode?.id === id 
-      ? { ...state.activeNode, ...updates, updatedAt: new Date().toISOString() } 
-      : state.activeNode
-  })),
+  updateNode: (id, updates) => {
+    const before = get().nodes.find((n) => n.id === id);
+    set((state) => ({
+      nodes: state.nodes.map((n) => 
+        n.id === id ? { ...n, ...updates, updatedAt: new Date().toISOString() } : n
+      ),
+      activeNode: state.activeNode?.id === id 
+        ? { ...state.activeNode, ...updates, updatedAt: new Date().toISOString() } 
+        : state.activeNode
+    }));
+    recordRevision('node', id, before, get().nodes.find((n) => n.id === id));
+  },
   
-  deleteNode: (id) => set((state) => ({
-    nodes: state.nodes.filter((n) => n.id !== id),
-    links: state.links.filter((l) => l.sourceId !== id && l.targetId !== id),
-    activeNode: state.activeNode?.id === id ? null : state.activeNode
-  })),
+  deleteNode: (id) => {
+    const { nodes, links } = get();
+    set((state) => ({
+      nodes: state.nodes.filter((n) => n.id !== id),
+      links: state.links.filter((l) => l.sourceId !== id && l.targetId !== id),
+      activeNode: state.activeNode?.id === id ? null : state.activeNode
+    }));
+    links
+      .filter((l) => l.sourceId === id || l.targetId === id)
+      .forEach((l) => recordRevision('link', l.id, l, null));
+    recordRevision('node', id, nodes.find((n) => n.id === id), null);
+  },
   
-  addLink: (link) => set((state) => ({ 
-    links: [...state.links, link] 
-  })),
+  addLink: (link) => {
+    set((state) => ({ 
+      links: [...state.links, link] 
+    }));
+    recordRevision('link', link.id, null, link);
+  },
 
-  updateLink: (id, updates) => set((state) => ({
-    links: state.links.map((l) => l.id === id ? { ...l, ...updates } : l)
-  })),
+  updateLink: (id, updates) => {
+    const before = get().links.find((l) => l.id === id);
+    set((state) => ({
+      links: state.links.map((l) => l.id === id ? { ...l, ...updates } : l)
+    }));
+    recordRevision('link', id, before, get().links.find((l) => l.id === id));
+  },
   
-  deleteLink: (id) => set((state) => ({
-    links: state.links.filter((l) => l.id !== id)
-  })),
+  deleteLink: (id) => {
+    const before = get().links.find((l) => l.id === id);
+    set((state) => ({
+      links: state.links.filter((l) => l.id !== id)
+    }));
+    recordRevision('link', id, before, null);
+  },
 
   addTagToNode: (nodeId, tag) => set((state) => ({
     nodes: state.nodes.map((n) => 
@@ -324,62 +409,92 @@ export const useGraphStore = create<AppState>()(
 
   // Drawing actions
   setShapes: (shapes) => set({ shapes }),
+
+  commitShapes: (shapes) => {
+    const previous = get().shapes;
+    set({ shapes });
+    recordShapeChanges(previous, shapes);
+  },
   
   setConnectionPickerActive: (active) => set({ isConnectionPickerActive: active }),
   setConnectionPickerResult: (nodeId) => set({ connectionPickerResult: nodeId }),
 
-  pushToUndoStack: (shapes) => set((state) => ({
-    undoStack: [...state.undoStack, shapes],
-    redoStack: [],
-  })),
-  
-  addShape: (shape) => set((state) => ({
-    undoStack: [...state.undoStack, state.shapes],
-    redoStack: [],
-    shapes: [...state.shapes, shape],
-  })),
+  addShape: (shape) => {
+    set((state) => ({
+      shapes: [...state.shapes, shape],
+    }));
+    recordRevision('drawing', shape.id, null, shape);
+  },
 
-  updateShape: (id, updates) => set((state) => ({
-    shapes: state.shapes.map(s => s.id === id ? { ...s, ...updates } : s),
-  })),
+  updateShape: (id, updates) => {
+    const before = get().shapes.find(s => s.id === id);
+    set((state) => ({
+      shapes: state.shapes.map(s => s.id === id ? { ...s, ...updates } : s),
+    }));
+
+    const nextId = updates.id ?? id;
+    const projectId = get().currentProject?.id;
+    if (nextId !== id && projectId) {
+      // Temporary id swapped for the one the API assigned
+      useHistoryStore.getState().rekey(projectId, 'drawing', id, nextId);
+      remapUndoIds('drawing', id, nextId);
+    }
+    // Saving a drawing isn't a step of its own, undoing its creation covers it
+    recordRevision('drawing', nextId, before && { ...before, id: nextId }, get().shapes.find(s => s.id === nextId), nextId === id);
+  },
   
-  deleteShape: (id) => set((state) => ({
-    undoStack: [...state.undoStack, state.shapes],
-    redoStack: [],
-    shapes: state.shapes.filter(s => s.id !== id),
-  })),
+  deleteShape: (id) => {
+    const before = get().shapes.find(s => s.id === id);
+    set((state) => ({
+      shapes: state.shapes.filter(s => s.id !== id),
+    }));
+    recordRevision('drawing', id, before, null);
+  },
 
   setGroups: (groups) => set({ groups }),
   
-  addGroup: (group) => set((state) => ({
-    groups: [...state.groups, group],
-  })),
+  addGroup: (group) => {
+    set((state) => ({
+      groups: [...state.groups, group],
+    }));
+    recordRevision('group', group.id, null, group);
+  },
   
-  updateGroup: (id, updates) => set((state) => ({
-    groups: state.groups.map(g => g.id === id ? { ...g, ...updates } : g),
-  })),
+  updateGroup: (id, updates) => {
+    const before = get().groups.find(g => g.id === id);
+    set((state) => ({
+      groups: state.groups.map(g => g.id === id ? { ...g, ...updates } : g),
+    }));
+    recordRevision('group', id, before, get().groups.find(g => g.id === id));
+  },
   
-  deleteGroup: (id) => set((state) => {
-    if (state.groups.length <= 1) {
-      // Prevent deleting the last group
-      return {};
-    }
-    const sortedGroups = [...state.groups].sort((a, b) => a.order - b.order);
-    const idx = sortedGroups.findIndex(g => g.id === id);
-    const newGroups = state.groups.filter(g => g.id !== id);
-    let newActiveGroupId = state.activeGroupId;
-    if (state.activeGroupId === id) {
-      // Try to go to the previous group in order, or next if no previous, or null if none remain
-      let fallback = null;
-      if (idx > 0) fallback = sortedGroups[idx - 1].id;
-      else if (idx === 0 && sortedGroups.length > 1) fallback = sortedGroups[1].id;
-      newActiveGroupId = newGroups.find(g => g.id === fallback)?.id || (newGroups[0]?.id ?? null);
+  deleteGroup: (id) => {
+    const { groups } = get();
+    set((state) => {
+      if (state.groups.length <= 1) {
+        // Prevent deleting the last group
+        return {};
+      }
+      const sortedGroups = [...state.groups].sort((a, b) => a.order - b.order);
+      const idx = sortedGroups.findIndex(g => g.id === id);
+      const newGroups = state.groups.filter(g => g.id !== id);
+      let newActiveGroupId = state.activeGroupId;
+      if (state.activeGroupId === id) {
+        // Try to go to the previous group in order, or next if no previous, or null if none remain
+        let fallback = null;
+        if (idx > 0) fallback = sortedGroups[idx - 1].id;
+        else if (idx === 0 && sortedGroups.length > 1) fallback = sortedGroups[1].id;
+        newActiveGroupId = newGroups.find(g => g.id === fallback)?.id || (newGroups[0]?.id ?? null);
+      }
+      return {
+        groups: newGroups,
+        activeGroupId: newActiveGroupId,
+      };
+    });
+    if (get().groups.length < groups.length) {
+      recordRevision('group', id, groups.find(g => g.id === id), null);
     }
-    return {
-      groups: newGroups,
-      activeGroupId: newActiveGroupId,
-    };
-  }),
+  },
   
   ensureAtLeastOneGroup: () => set((state) => {
     if (state.groups.length === 0) {
@@ -389,32 +504,182 @@ export const useGraphStore = create<AppState>()(
   }),
   
   setActiveGroupId: (groupId) => set({ activeGroupId: groupId }),
+
+  setRelationshipTypes: (types) => set({ relationshipTypes: types }),
+
+  addRelationshipType: (type) => set((state) => ({
+    relationshipTypes: [...state.relationshipTypes.filter(t => t.key !== type.key), type],
+  })),
+
+  updateRelationshipType: (id, updates) => set((state) => ({
+    relationshipTypes: state.relationshipTypes.map(t => t.id === id ? { ...t, ...updates } : t),
+  })),
+
+  deleteRelationshipType: (id) => set((state) => ({
+    relationshipTypes: state.relationshipTypes.filter(t => t.id !== id),
+  })),
   
-  undo: () => set((state) => {
-    if (state.undoStack.length === 0) return state;
-    const prevState = state.undoStack[state.undoStack.length - 1];
-    return {
-      redoStack: [...state.redoStack, state.shapes],
-      shapes: prevState,
-      undoStack: state.undoStack.slice(0, -1),
-    };
-  }),
-  
-  redo: () => set((state) => {
-    if (state.redoStack.length === 0) return state;
-    const nextState = state.redoStack[state.redoStack.length - 1];
-    return {
-      undoStack: [...state.undoStack, state.shapes],
-      shapes: nextState,
-      redoStack: state.redoStack.slice(0, -1),
+  undo: () => replayUndoStep('undo'),
+
+  redo: () => replayUndoStep('redo'),
+
+  beginUndoStep: () => {
+    // A gesture that never saw its mouseup still gets its own step
+    if (openStep) commitUndoStep(openStep);
+    openStep = [];
+  },
+
+  endUndoStep: () => {
+    if (!openStep) return;
+    const operations = openStep;
+    openStep = null;
+    commitUndoStep(operations);
+  },
+
+  restoreDeleted: ({ nodes = [], links = [], shapes = [], groups = [] }) => {
+    flushPendingStep();
+    const restored = new Set([
+      ...nodes.map(n => `node:${n.id}`),
+      ...links.map(l => `link:${l.id}`),
+      ...shapes.map(s => `drawing:${s.id}`),
+      ...groups.map(g => `group:${g.id}`),
+    ]);
+    const isRestoredDeletion = (op: UndoOperation) => !op.after && restored.has(`${op.entity}:${op.id}`);
+    const putBack = <T extends { id: number }>(current: T[], items: T[]) =>
+      [...current, ...items.filter(item => !current.some(c => c.id === item.id))];
+
+    set((state) => ({
+      nodes: putBack(state.nodes, nodes),
+      links: putBack(state.links, links),
+      shapes: putBack(state.shapes, shapes),
+      groups: sortGroups(putBack(state.groups, groups)),
+      undoStack: state.undoStack
+        .map(step => ({ operations: step.operations.filter(op => !isRestoredDeletion(op)) }))
+        .filter(step => step.operations.length > 0),
+    }));
+    groups.forEach(g => recordRevision('group', g.id, null, g, false));
+    nodes.forEach(n => recordRevision('node', n.id, null, n, false));
+    links.forEach(l => recordRevision('link', l.id, null, l, false));
+    shapes.forEach(s => recordRevision('drawing', s.id, null, s, false));
+  },
+
+  remapEntityId: (entity, oldId, newId) => {
+    const swap = (id: number) => id === oldId ? newId : id;
+    set((state) => {
+      switch (entity) {
+        case 'node': {
+          const nodes = state.nodes.map(n => n.id === oldId ? { ...n, id: newId } : n);
+          return {
+            nodes,
+            links: state.links.map(l => ({ ...l, sourceId: swap(l.sourceId), targetId: swap(l.targetId) })),
+            activeNode: state.activeNode?.id === oldId ? { ...state.activeNode, id: newId } : state.activeNode,
+          };
+        }
+        case 'link':
+          return { links: state.links.map(l => l.id === oldId ? { ...l, id: newId } : l) };
+        case 'drawing':
+          return { shapes: state.shapes.map(s => s.id === oldId ? { ...s, id: newId } : s) };
+        case 'group':
+          return {
+            groups: state.groups.map(g => g.id === oldId ? { ...g, id: newId } : g),
+            nodes: state.nodes.map(n => n.groupId === oldId ? { ...n, groupId: newId } : n),
+            shapes: state.shapes.map(s => s.groupId === oldId ? { ...s, groupId: newId } : s),
+            activeGroupId: state.activeGroupId === oldId ? newId : state.activeGroupId,
+          };
+      }
+    });
+
+    const projectId = get().currentProject?.id;
+    if (projectId) useHistoryStore.getState().rekey(projectId, entity, oldId, newId);
+    remapUndoIds(entity, oldId, newId);
+
+    // Other tabs never saw it under its temporary id
+    const state = get();
+    const created = entity === 'node' ? state.nodes.find(n => n.id === newId)
+      : entity === 'link' ? state.links.find(l => l.id === newId)
+        : entity === 'drawing' ? state.shapes.find(s => s.id === newId)
+          : state.groups.find(g => g.id === newId);
+    if (created) notifyGraphChange(entity, 'create', newId, toSnapshot(created));
+  },
+
+  keepSavedVersion: ({ id, version }) => {
+    // One more than ours means nobody else saved in between. Otherwise leave it
+    // stale, so our next edit is refused and merged with theirs instead of overwriting it
+    const isNext = (node: Node) => node.id === id && version !== undefined && (node.version ?? 0) + 1 === version;
+    set((state) => ({
+      nodes: state.nodes.map((n) => isNext(n) ? { ...n, version } : n),
+      activeNode: state.activeNode && isNext(state.activeNode) ? { ...state.activeNode, version } : state.activeNode,
+    }));
+  },
+
+  applyRemoteChange: (entity, action, id, snapshot) => {
+    const apply = <T extends { id: number }>(items: T[]): T[] => {
+      if (action === 'delete' || !snapshot) return items.filter(item => item.id !== id);
+      const incoming = snapshot as unknown as T;
+      return items.some(item => item.id === id)
+        ? items.map(item => item.id === id ? { ...item, ...incoming } : item)
+        : [...items, incoming];
     };
-  }),
-  
-  clearShapes: () => set((state) => ({
-    undoStack: [...state.undoStack, state.shapes],
-    redoStack: [],
-    shapes: [],
-  })),
+
+    set((state) => {
+      switch (entity) {
+        case 'node':
+          if (action === 'delete') {
+            return {
+              nodes: apply(state.nodes),
+              links: state.links.filter(l => l.sourceId !== id && l.targetId !== id),
+              activeNode: state.activeNode?.id === id ? null : state.activeNode,
+            };
+          }
+          // The open editor keeps its own copy, so typing isn't overwritten
+          return { nodes: apply(state.nodes) };
+        case 'link':
+          return { links: apply(state.links) };
+        case 'drawing':
+          return { shapes: apply(state.shapes) };
+        case 'group':
+          return { groups: apply(state.groups) };
+      }
+    });
+  },
+
+  applyProjectSnapshot: (snapshot) => {
+    get().setNodes(snapshot.nodes);
+    set({
+      links: snapshot.links,
+      groups: sortGroups(snapshot.groups),
+      shapes: snapshot.drawings.map(toShape),
+      relationshipTypes: snapshot.relationshipTypes,
+      snapshotRevision: snapshot.revision,
+    });
+  },
+
+  refreshProjectSnapshot: async () => {
+    const { currentProject, snapshotRevision } = get();
+    // Queued edits aren't on the server yet, catching up now could undo them on screen
+    if (!currentProject || snapshotRevision === null || getPendingCount() > 0) return;
+
+    const { api } = await import('@/lib/api');
+    const changeSet = await api.projects.getChanges(currentProject.id, snapshotRevision);
+    // The project may have been switched while the request was out
+    if (get().currentProject?.id !== currentProject.id) return;
+
+    if (changeSet.reset) {
+      get().applyProjectSnapshot(await api.projects.getSnapshot(currentProject.id));
+      return;
+    }
+    for (const change of changeSet.changes) {
+      const snapshot = change.entity === 'drawing' && change.snapshot ? toShape(change.snapshot as DrawnShape) : change.snapshot;
+      get().applyRemoteChange(change.entity, change.action, change.entityId, snapshot);
+    }
+    set({ snapshotRevision: changeSet.revision });
+  },
+
+  clearShapes: () => {
+    const previous = get().shapes;
+    set({ shapes: [] });
+    recordShapeChanges(previous, []);
+  },
     }),
     {
       name: 'nexus-graph',
@@ -442,6 +707,242 @@ export const useGraphStore = create<AppState>()(
   )
 );
 
+/**
+ * Record a change made through the store as a revision of the current project,
+ * and as part of an undo step unless it is an undo being replayed.
+ * Loads go through the bulk setters (setNodes, setShapes, ...) and aren't recorded.
+ */
+function recordRevision(entity: RevisionEntity, entityId: number, before: RevisionSnapshot | null | undefined, after: RevisionSnapshot | null | undefined, undoable = true) {
+  const { currentProject, currentUserId, isReplayingUndo } = useGraphStore.getState();
+  if (!currentProject || (!before && !after)) return;
+  if (before && after && changedFields(before, after).length === 0) return;
+
+  const beforeSnapshot = before ? toSnapshot(before) : null;
+  const afterSnapshot = after ? toSnapshot(after) : null;
+  useHistoryStore.getState().record({
+    projectId: currentProject.id,
+    entity,
+    entityId,
+    action: !before ? 'create' : !after ? 'delete' : 'update',
+    before: beforeSnapshot,
+    after: afterSnapshot,
+    userId: useAuthStore.getState().user?.id ?? currentUserId,
+  });
+
+  if (undoable && !isReplayingUndo) {
+    recordUndoOperation({ entity, id: entityId, before: beforeSnapshot, after: afterSnapshot });
+  }
+  notifyGraphChange(entity, !before ? 'create' : !after ? 'delete' : 'update', entityId, afterSnapshot);
+}
+
+type GraphChangeListener = (entity: RevisionEntity, action: RevisionAction, id: number, snapshot: RevisionSnapshot | null) => void;
+
+const graphChangeListeners = new Set<GraphChangeListener>();
+
+/**
+ * Listen for changes made in this tab, for sending to collaborators. Entities
+ * with a local or temporary (negative) id are held back until they have a real one.
+ */
+export function subscribeGraphChanges(listener: GraphChangeListener): () => void {
+  graphChangeListeners.add(listener);
+  return () => graphChangeListeners.delete(listener);
+}
+
+function notifyGraphChange(entity: RevisionEntity, action: RevisionAction, id: number, snapshot: RevisionSnapshot | null) {
+  if (id < 0) return;
+  graphChangeListeners.forEach(listener => listener(entity, action, id, snapshot));
+}
+
+function recordShapeChanges(previous: DrawnShape[], next: DrawnShape[]) {
+  const previousById = new Map(previous.map(s => [s.id, s]));
+  const nextIds = new Set(next.map(s => s.id));
+  next.forEach(s => recordRevision('drawing', s.id, previousById.get(s.id), s));
+  previous.filter(s => !nextIds.has(s.id)).forEach(s => recordRevision('drawing', s.id, s, null));
+}
+
+// Step opened by beginUndoStep, and the implicit one collecting the current tick
+let openStep: UndoOperation[] | null = null;
+let pendingStep: UndoOperation[] | null = null;
+
+function recordUndoOperation(op: UndoOperation) {
+  if (openStep) {
+    openStep.push(op);
+    return;
+  }
+  if (!pendingStep) {
+    pendingStep = [];
+    queueMicrotask(flushPendingStep);
+  }
+  pendingStep.push(op);
+}
+
+function flushPendingStep() {
+  if (!pendingStep) return;
+  const operations = pendingStep;
+  pendingStep = null;
+  commitUndoStep(operations);
+}
+
+function commitUndoStep(operations: UndoOperation[]) {
+  const merged = mergeOperations(operations);
+  if (merged.length === 0) return;
+  useGraphStore.setState((state) => ({
+    undoStack: [...state.undoStack, { operations: merged }].slice(-MAX_UNDO_STEPS),
+    redoStack: [],
+  }));
+}
+
+// Recreated entities get new ids from the API, so every step that refers to them has to follow
+function remapUndoIds(entity: RevisionEntity, oldId: number, newId: number) {
+  const remap = (op: UndoOperation) => remapOperation(op, entity, oldId, newId);
+  if (openStep) openStep = openStep.map(remap);
+  if (pendingStep) pendingStep = pendingStep.map(remap);
+  useGraphStore.setState((state) => ({
+    undoStack: remapSteps(state.undoStack, entity, oldId, newId),
+    redoStack: remapSteps(state.redoStack, entity, oldId, newId),
+  }));
+}
+
+// A replayed save moves the entity on a version, which the steps still to be replayed must send
+function keepUndoVersion(entity: RevisionEntity, id: number, version: number | undefined) {
+  if (version === undefined) return;
+  useGraphStore.setState((state) => ({
+    undoStack: setVersionInSteps(state.undoStack, entity, id, version),
+    redoStack: setVersionInSteps(state.redoStack, entity, id, version),
+  }));
+}
+
+/**
+ * Move the top step of one stack to the other and apply it through the API,
+ * last operation first when undoing. Operations are re-read from the stack
+ * before each one is applied, since recreating an entity remaps the ids the
+ * rest of the step refers to.
+ */
+async function replayUndoStep(direction: 'undo' | 'redo'): Promise<boolean> {
+  flushPendingStep();
+  const state = useGraphStore.getState();
+  const from = direction === 'undo' ? 'undoStack' : 'redoStack';
+  const to = direction === 'undo' ? 'redoStack' : 'undoStack';
+  const step = state[from][state[from].length - 1];
+  if (!step || state.isReplayingUndo) return true;
+
+  useGraphStore.setState({
+    [from]: state[from].slice(0, -1),
+    [to]: [...state[to], step],
+    isReplayingUndo: true,
+  });
+
+  let succeeded = true;
+  const count = step.operations.length;
+  for (let i = 0; i < count; i++) {
+    const stack = useGraphStore.getState()[to];
+    const op = stack[stack.length - 1]?.operations[direction === 'undo' ? count - 1 - i : i];
+    if (!op) break; // Project switched underneath us
+    try {
+      await applyUndoOperation(op, direction === 'undo' ? op.before : op.after, direction === 'undo' ? op.after : op.before);
+    } catch {
+      succeeded = false;
+    }
+  }
+
+  useGraphStore.setState({ isReplayingUndo: false });
+  return succeeded;
+}
+
+/**
+ * Bring one entity from `current` to `target` in the API and then the store.
+ * Negative ids are local drafts the API has never seen, apart from temporary
+ * ids of queued offline creates, which the queue resolves.
+ */
+async function applyUndoOperation(op: UndoOperation, target: RevisionSnapshot | null, current: RevisionSnapshot | null) {
+  const { api } = await import('@/lib/api');
+  const store = useGraphStore.getState();
+  const projectId = store.currentProject?.id;
+  if (!projectId) throw new Error('No project open');
+  const local = op.id < 0 && !isTempId(op.id);
+
+  switch (op.entity) {
+    case 'node': {
+      if (!target) {
+        if (!local) await api.nodes.delete(op.id);
+        store.deleteNode(op.id);
+        return;
+      }
+      const node = target as Node;
+      const payload = nodePayload(node, projectId, node.groupId);
+      if (!current) {
+        const created = await api.nodes.create(payload);
+        remapUndoIds('node', op.id, created.id);
+        store.addNode({ ...node, ...created, tags: [], attachments: [] });
+        store.updateNode(created.id, await restoreNodeExtras(node, created.id));
+      } else {
+        // Against the version the store holds now, so undo can't overwrite someone else's later edit
+        const version = store.nodes.find(n => n.id === op.id)?.version ?? (current as Node).version;
+        const saved = local ? null : await api.nodes.update(op.id, { id: op.id, ...payload, version });
+        store.updateNode(op.id, saved ? { ...payload, version: saved.version } : payload);
+        if (saved) keepUndoVersion('node', op.id, saved.version);
+      }
+      return;
+    }
+    case 'link': {
+      if (!target) {
+        if (!local) await api.links.delete(op.id);
+        store.deleteLink(op.id);
+        return;
+      }
+      const link = target as Link;
+      const payload = linkPayload(link, link.sourceId, link.targetId);
+      if (!current) {
+        const created = await api.links.create(payload);
+        remapUndoIds('link', op.id, created.id);
+        store.addLink({ ...link, ...created });
+      } else {
+        const version = store.links.find(l => l.id === op.id)?.version ?? (current as Link).version;
+        const saved = local ? null : await api.links.update(op.id, { id: op.id, ...payload, version });
+        store.updateLink(op.id, saved ? { ...payload, version: saved.version } : payload);
+        if (saved) keepUndoVersion('link', op.id, saved.version);
+      }
+      return;
+    }
+    case 'drawing': {
+      if (!target) {
+        if (!local) await api.drawings.delete(op.id);
+        store.deleteShape(op.id);
+        return;
+      }
+      const shape = target as DrawnShape;
+      const payload = drawingPayload(shape, projectId, shape.groupId ?? undefined);
+      if (!current) {
+        const created = await api.drawings.create(payload);
+        remapUndoIds('drawing', op.id, created.id);
+        store.addShape({ ...shape, id: created.id, synced: true });
+      } else {
+        if (!local) await api.drawings.update(op.id, payload);
+        store.updateShape(op.id, shape);
+      }
+      return;
+    }
+    case 'group': {
+      if (!target) {
+        await api.groups.delete(op.id);
+        store.deleteGroup(op.id);
+        return;
+      }
+      const group = target as Group;
+      const fields = { name: group.name, color: group.color, order: group.order };
+      if (!current) {
+        const created = await api.groups.create({ ...fields, projectId });
+        remapUndoIds('group', op.id, created.id);
+        store.addGroup({ ...fields, id: created.id });
+      } else {
+        await api.groups.update(op.id, fields);
+        store.updateGroup(op.id, fields);
+      }
+      return;
+    }
+  }
+}
+
 export function filterNodes(nodes: Node[], searchQuery: string): Node[] {
   if (!searchQuery) return nodes;
   
@@ -0,0 +1,220 @@
+import { create } from 'zustand';
+import type { Revision } from '@/types/knowledge';
+import { mergeRevisions, compactRevision, expandRevision } from '@/lib/projectHistory';
+import { HISTORY_STORE, get as getStored, put as putStored, type HistoryCopy } from '@/lib/offlineDb';
+
+// Oldest revisions are dropped once a project's history takes more than this
+// on the device (measured as stored); the API keeps the full history
+const MAX_HISTORY_CHARS = 2_000_000;
+const SAVE_DELAY_MS = 500;
+
+// Where history lived before it moved to IndexedDB
+const LEGACY_STORAGE_KEY = 'nexus-history';
+
+interface HistoryState {
+  // Per project, oldest first
+  revisions: Record<number, Revision[]>;
+  // Per project, revisions the API refused or never got, to send again
+  unsaved: Record<number, string[]>;
+  // Why the last save failed, until one succeeds
+  saveError: string | null;
+
+  record: (revision: Omit<Revision, 'id' | 'createdAt'>) => void;
+  rekey: (projectId: number, entity: Revision['entity'], oldId: number, newId: number) => void;
+  mergeRemote: (projectId: number, revisions: Revision[]) => void;
+  loadProjectHistory: (projectId: number) => Promise<void>;
+  saveUnsaved: (projectId: number) => Promise<void>;
+}
+
+const sizes = new WeakMap<Revision, number>();
+
+function storedSize(revision: Revision): number {
+  let size = sizes.get(revision);
+  if (size === undefined) {
+    size = JSON.stringify(compactRevision(revision)).length;
+    sizes.set(revision, size);
+  }
+  return size;
+}
+
+// Newest revisions that fit the budget, oldest first
+function capped(list: Revision[]): Revision[] {
+  let total = 0;
+  let start = list.length;
+  // The newest is kept whatever its size
+  while (start > 0 && (start === list.length || total + storedSize(list[start - 1]) <= MAX_HISTORY_CHARS)) {
+    total += storedSize(list[--start]);
+  }
+  return start === 0 ? list : list.slice(start);
+}
+
+function mergeById(existing: Revision[], incoming: Revision[]): Revision[] {
+  const byId = new Map(existing.map(r => [r.id, r]));
+  incoming.forEach(r => byId.set(r.id, r));
+  return capped([...byId.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+}
+
+const restored = new Map<number, Promise<void>>();
+const saveTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+export const useHistoryStore = create<HistoryState>()((set, get) => {
+  // What this device kept of a project's history, read once; without IndexedDB it lives as long as the page
+  const restore = (projectId: number) => {
+    let pending = restored.get(projectId);
+    if (!pending) {
+      pending = readStored(projectId)
+        .then(copy => {
+          if (!copy) return;
+          set((state) => ({
+            revisions: {
+              ...state.revisions,
+              [projectId]: mergeById(copy.revisions.map(expandRevision), state.revisions[projectId] ?? []),
+            },
+            unsaved: { ...state.unsaved, [projectId]: [...new Set([...copy.unsaved, ...(state.unsaved[projectId] ?? [])])] },
+          }));
+        })
+        .catch(() => { });
+      restored.set(projectId, pending);
+    }
+    return pending;
+  };
+
+  // Writes are batched, since a drag records on every move
+  const scheduleStore = (projectId: number) => {
+    if (typeof indexedDB === 'undefined') return;
+    clearTimeout(saveTimers.get(projectId));
+    saveTimers.set(projectId, setTimeout(() => {
+      saveTimers.delete(projectId);
+      restore(projectId).then(() => {
+        const { revisions, unsaved } = get();
+        const list = revisions[projectId] ?? [];
+        const ids = new Set(list.map(r => r.id));
+        const copy: HistoryCopy = {
+          projectId,
+          revisions: list.map(compactRevision),
+          unsaved: (unsaved[projectId] ?? []).filter(id => ids.has(id)),
+        };
+        return putStored(HISTORY_STORE, copy);
+      }).catch(() => {
+        // Out of space or no storage: the history stays in memory for this session
+      });
+    }, SAVE_DELAY_MS));
+  };
+
+  const markUnsaved = (projectId: number, ids: string[], saved: boolean) => set((state) => {
+    const current = new Set(state.unsaved[projectId] ?? []);
+    ids.forEach(id => saved ? current.delete(id) : current.add(id));
+    return { unsaved: { ...state.unsaved, [projectId]: [...current] } };
+  });
+
+  // Signed-out edits only live on this device
+  const send = async (revision: Revision) => {
+    if (!revision.userId) return;
+    try {
+      const { api } = await import('@/lib/api');
+      await api.revisions.save(revision);
+      markUnsaved(revision.projectId, [revision.id], true);
+      set({ saveError: null });
+    } catch (err) {
+      markUnsaved(revision.projectId, [revision.id], false);
+      set({ saveError: err instanceof Error ? err.message : 'History could not be saved' });
+    }
+    scheduleStore(revision.projectId);
+  };
+
+  return {
+    revisions: {},
+    unsaved: {},
+    saveError: null,
+
+    record: (input) => {
+      const next: Revision = { ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+      const existing = get().revisions[next.projectId] ?? [];
+      const last = existing[existing.length - 1];
+      const merged = last ? mergeRevisions(last, next) : null;
+      const saved = merged ?? next;
+
+      const list = merged ? [...existing.slice(0, -1), merged] : [...existing, next];
+      set((state) => ({
+        revisions: { ...state.revisions, [next.projectId]: capped(list) },
+      }));
+      scheduleStore(next.projectId);
+      send(saved);
+    },
+
+    // Drawings get their real id only after the API creates them
+    rekey: (projectId, entity, oldId, newId) => {
+      const list = get().revisions[projectId];
+      if (!list) return;
+      set((state) => ({
+        revisions: {
+          ...state.revisions,
+          [projectId]: list.map(r => {
+            if (r.entity !== entity || r.entityId !== oldId) return r;
+            return {
+              ...r,
+              entityId: newId,
+              before: r.before ? { ...r.before, id: newId } : null,
+              after: r.after ? { ...r.after, id: newId } : null,
+            };
+          }),
+        },
+      }));
+      scheduleStore(projectId);
+    },
+
+    mergeRemote: (projectId, incoming) => {
+      set((state) => ({ revisions: { ...state.revisions, [projectId]: mergeById(state.revisions[projectId] ?? [], incoming) } }));
+      markUnsaved(projectId, incoming.map(r => r.id), true);
+      scheduleStore(projectId);
+    },
+
+    loadProjectHistory: async (projectId) => {
+      await restore(projectId);
+      try {
+        const remote = await import('@/lib/api').then(m => m.api.revisions.getByProject(projectId));
+        get().mergeRemote(projectId, remote);
+      } catch {
+        // Fall back to what is kept on this device
+        return;
+      }
+      await get().saveUnsaved(projectId);
+    },
+
+    saveUnsaved: async (projectId) => {
+      const ids = new Set(get().unsaved[projectId] ?? []);
+      const pending = (get().revisions[projectId] ?? []).filter(r => ids.has(r.id));
+      for (const revision of pending) await send(revision);
+    },
+  };
+});
+
+async function readStored(projectId: number): Promise<HistoryCopy | undefined> {
+  if (typeof indexedDB === 'undefined') return undefined;
+  await migrateLegacyHistory();
+  return getStored<HistoryCopy>(HISTORY_STORE, projectId);
+}
+
+let migration: Promise<void> | null = null;
+
+// History used to be kept in localStorage, which it outgrew; move it over once
+function migrateLegacyHistory(): Promise<void> {
+  migration ??= (async () => {
+    const raw = typeof localStorage === 'undefined' ? null : localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return;
+    let legacy: Record<number, Revision[]> = {};
+    try {
+      legacy = (JSON.parse(raw) as { state?: { revisions?: Record<number, Revision[]> } }).state?.revisions ?? {};
+    } catch {
+      // Unreadable: nothing worth keeping
+    }
+    for (const [projectId, list] of Object.entries(legacy)) {
+      const id = Number(projectId);
+      const existing = await getStored<HistoryCopy>(HISTORY_STORE, id);
+      const revisions = mergeById((existing?.revisions ?? []).map(expandRevision), list);
+      await putStored<HistoryCopy>(HISTORY_STORE, { projectId: id, revisions: revisions.map(compactRevision), unsaved: existing?.unsaved ?? [] });
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  })();
+  return migration;
+}
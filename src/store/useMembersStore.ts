@@ -0,0 +1,119 @@
+import { create } from 'zustand';
+import type { Project, ProjectMember, MemberRole } from '@/types/knowledge';
+
+interface MembersState {
+  // Per project, for the share dialog and role checks
+  members: Record<number, ProjectMember[]>;
+  // The signed-in user's own memberships, pending invitations included
+  memberships: ProjectMember[];
+
+  loadMembers: (projectId: number) => Promise<ProjectMember[]>;
+  loadMemberships: (userId: string) => Promise<ProjectMember[]>;
+  // Rejects with a message fit for the user when the email can't be invited
+  invite: (project: Project, email: string, role: MemberRole, invitedBy: string) => Promise<ProjectMember>;
+  updateRole: (member: ProjectMember, role: MemberRole) => Promise<void>;
+  removeMember: (member: ProjectMember) => Promise<void>;
+  respondToInvitation: (invitation: ProjectMember, accept: boolean) => Promise<void>;
+}
+
+const membersApi = () => import('@/lib/api').then(m => m.api);
+
+export const useMembersStore = create<MembersState>()((set, get) => {
+  const replaceMember = (member: ProjectMember) => set((state) => ({
+    members: {
+      ...state.members,
+      [member.projectId]: (state.members[member.projectId] ?? []).map(m => m.id === member.id ? member : m),
+    },
+    memberships: state.memberships.map(m => m.id === member.id ? member : m),
+  }));
+
+  const dropMember = (member: ProjectMember) => set((state) => ({
+    members: {
+      ...state.members,
+      [member.projectId]: (state.members[member.projectId] ?? []).filter(m => m.id !== member.id),
+    },
+    memberships: state.memberships.filter(m => m.id !== member.id),
+  }));
+
+  return {
+    members: {},
+    memberships: [],
+
+    loadMembers: async (projectId) => {
+      try {
+        const members = await (await membersApi()).members.getByProject(projectId);
+        set((state) => ({ members: { ...state.members, [projectId]: members } }));
+        return members;
+      } catch {
+        return get().members[projectId] ?? [];
+      }
+    },
+
+    loadMemberships: async (userId) => {
+      try {
+        const memberships = await (await membersApi()).members.getByUser(userId);
+        set({ memberships });
+        return memberships;
+      } catch {
+        return get().memberships;
+      }
+    },
+
+    invite: async (project, email, role, invitedBy) => {
+      const api = await membersApi();
+      const normalized = email.trim().toLowerCase();
+
+      let profile;
+      try {
+        profile = await api.profiles.getByEmail(normalized, undefined, true);
+      } catch {
+        throw new Error('No account uses that email yet');
+      }
+      if (profile.id === project.userId) throw new Error('That is the owner of this project');
+      if ((get().members[project.id] ?? []).some(m => m.userId === profile.id)) {
+        throw new Error('Already invited to this project');
+      }
+
+      const member = await api.members.create({
+        projectId: project.id,
+        userId: profile.id,
+        email: profile.email || normalized,
+        displayName: profile.displayName,
+        role,
+        status: 'pending',
+        invitedBy,
+      });
+      set((state) => ({
+        members: { ...state.members, [project.id]: [...(state.members[project.id] ?? []), member] },
+      }));
+      return member;
+    },
+
+    updateRole: async (member, role) => {
+      const updated = { ...member, role };
+      replaceMember(updated);
+      try {
+        await (await membersApi()).members.update(member.id, { role });
+      } catch (err) {
+        replaceMember(member);
+        throw err;
+      }
+    },
+
+    removeMember: async (member) => {
+      await (await membersApi()).members.delete(member.id);
+      dropMember(member);
+    },
+
+    respondToInvitation: async (invitation, accept) => {
+      const api = await membersApi();
+      if (accept) {
+        await api.members.update(invitation.id, { status: 'accepted' });
+        replaceMember({ ...invitation, status: 'accepted' });
+      } else {
+        await api.members.delete(invitation.id);
+        dropMember(invitation);
+      }
+    },
+  };
+});
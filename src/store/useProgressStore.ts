@@ -0,0 +1,127 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { NodeProgress, StudyStatus } from '@/types/knowledge';
+
+interface ProgressState {
+  // Keyed by getProgressKey so several accounts on one device don't mix
+  entries: Record<string, NodeProgress>;
+  // Node totals seen per project, used for summaries where nodes aren't loaded (e.g. ProjectCard)
+  nodeCounts: Record<number, number>;
+
+  setStatus: (progress: Omit<NodeProgress, 'updatedAt'>) => void;
+  mergeEntries: (entries: NodeProgress[]) => void;
+  loadProjectProgress: (projectId: number, userId: string | null) => Promise<void>;
+  loadUserProgress: (userId: string) => Promise<void>;
+  setNodeCount: (projectId: number, count: number) => void;
+}
+
+export interface ProgressSummary {
+  total: number;
+  notStarted: number;
+  learning: number;
+  mastered: number;
+}
+
+export const getProgressKey = (userId: string | null, nodeId: number) => `${userId ?? 'guest'}:${nodeId}`;
+
+export const useProgressStore = create<ProgressState>()(
+  persist(
+    (set, get) => ({
+      entries: {},
+      nodeCounts: {},
+
+      setStatus: (progress) => {
+        const entry: NodeProgress = { ...progress, updatedAt: new Date().toISOString() };
+        set((state) => ({
+          entries: { ...state.entries, [getProgressKey(entry.userId, entry.nodeId)]: entry },
+        }));
+
+        // Signed-out progress only lives on this device
+        if (entry.userId) {
+          import('@/lib/api').then(m => m.api.progress.set({
+            nodeId: entry.nodeId,
+            projectId: entry.projectId,
+            userId: entry.userId!,
+            status: entry.status,
+          })).catch(() => { });
+        }
+      },
+
+      mergeEntries: (incoming) => set((state) => {
+        const entries = { ...state.entries };
+        incoming.forEach(p => {
+          const key = getProgressKey(p.userId, p.nodeId);
+          const existing = entries[key];
+          // Keep whichever side changed last
+          if (!existing || new Date(p.updatedAt) >= new Date(existing.updatedAt)) {
+            entries[key] = p;
+          }
+        });
+        return { entries };
+      }),
+
+      loadProjectProgress: async (projectId, userId) => {
+        if (!userId) return;
+        try {
+          const remote = await import('@/lib/api').then(m => m.api.progress.getByProject(projectId, userId));
+          get().mergeEntries(remote);
+        } catch {
+          // Fall back to what is cached on this device
+        }
+      },
+
+      loadUserProgress: async (userId) => {
+        try {
+          const remote = await import('@/lib/api').then(m => m.api.progress.getByUser(userId));
+          get().mergeEntries(remote);
+        } catch {
+          // Fall back to what is cached on this device
+        }
+      },
+
+      setNodeCount: (projectId, count) => set((state) => (
+        state.nodeCounts[projectId] === count ? state : { nodeCounts: { ...state.nodeCounts, [projectId]: count } }
+      )),
+    }),
+    {
+      name: 'nexus-progress',
+      partialize: (state) => ({
+        entries: state.entries,
+        nodeCounts: state.nodeCounts,
+      }),
+    }
+  )
+);
+
+export function getNodeStatus(entries: Record<string, NodeProgress>, userId: string | null, nodeId: number): StudyStatus {
+  return entries[getProgressKey(userId, nodeId)]?.status ?? 'not-started';
+}
+
+export function summarizeProgress(entries: Record<string, NodeProgress>, userId: string | null, nodeIds: number[]): ProgressSummary {
+  const summary: ProgressSummary = { total: nodeIds.length, notStarted: 0, learning: 0, mastered: 0 };
+  nodeIds.forEach(id => {
+    const status = getNodeStatus(entries, userId, id);
+    if (status === 'mastered') summary.mastered++;
+    else if (status === 'learning') summary.learning++;
+    else summary.notStarted++;
+  });
+  return summary;
+}
+
+/**
+ * Summary for a project whose nodes aren't loaded, using the node total last seen for it
+ */
+export function summarizeProjectProgress(state: Pick<ProgressState, 'entries' | 'nodeCounts'>, userId: string | null, projectId: number): ProgressSummary | null {
+  const userKey = userId ?? 'guest';
+  let learning = 0;
+  let mastered = 0;
+  Object.entries(state.entries).forEach(([key, p]) => {
+    if (p.projectId !== projectId || !key.startsWith(`${userKey}:`)) return;
+    if (p.status === 'mastered') mastered++;
+    else if (p.status === 'learning') learning++;
+  });
+
+  const total = Math.max(state.nodeCounts[projectId] ?? 0, learning + mastered);
+  if (total === 0) return null;
+  return { total, notStarted: total - learning - mastered, learning, mastered };
+}
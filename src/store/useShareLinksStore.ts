@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import type { ShareLink } from '@/types/knowledge';
+import { generateShareToken, hashSharePassword } from '@/lib/shareLinks';
+
+interface NewShareLink {
+  projectId: number;
+  createdBy: string;
+  expiresInDays: number | null;
+  password?: string;
+}
+
+interface ShareLinksState {
+  // Per project, newest first
+  links: Record<number, ShareLink[]>;
+
+  loadLinks: (projectId: number) => Promise<void>;
+  createLink: (input: NewShareLink) => Promise<ShareLink>;
+  revokeLink: (link: ShareLink) => Promise<void>;
+}
+
+const linksApi = () => import('@/lib/api').then(m => m.api.shareLinks);
+
+const newestFirst = (a: ShareLink, b: ShareLink) => b.createdAt.localeCompare(a.createdAt);
+
+export const useShareLinksStore = create<ShareLinksState>()((set) => ({
+  links: {},
+
+  loadLinks: async (projectId) => {
+    try {
+      const links = await (await linksApi()).getByProject(projectId);
+      set((state) => ({ links: { ...state.links, [projectId]: [...links].sort(newestFirst) } }));
+    } catch {
+      // Keep whatever was loaded before
+    }
+  },
+
+  createLink: async ({ projectId, createdBy, expiresInDays, password }) => {
+    const token = generateShareToken();
+    const link = await (await linksApi()).create({
+      projectId,
+      token,
+      createdBy,
+      passwordHash: password ? await hashSharePassword(password) : null,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+    });
+    set((state) => ({ links: { ...state.links, [projectId]: [link, ...(state.links[projectId] ?? [])] } }));
+    return link;
+  },
+
+  revokeLink: async (link) => {
+    const revoked = await (await linksApi()).revoke(link.id);
+    set((state) => ({
+      links: {
+        ...state.links,
+        [link.projectId]: (state.links[link.projectId] ?? []).map(l => l.id === link.id ? revoked : l),
+      },
+    }));
+  },
+}));
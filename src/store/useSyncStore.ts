@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import type { RefusedMutation } from '@/lib/offlineQueue';
+
+interface SyncState {
+  // Graph edits waiting in the offline queue
+  pending: number;
+  isOnline: boolean;
+  isSyncing: boolean;
+  // Queued edits the API refused when they were finally sent, until they are retried or discarded
+  refused: RefusedMutation[];
+
+  setPending: (pending: number) => void;
+  setOnline: (online: boolean) => void;
+  setSyncing: (syncing: boolean) => void;
+  setRefused: (refused: RefusedMutation[]) => void;
+}
+
+export const useSyncStore = create<SyncState>()((set) => ({
+  pending: 0,
+  isOnline: true,
+  isSyncing: false,
+  refused: [],
+
+  setPending: (pending) => set({ pending }),
+  setOnline: (online) => set({ isOnline: online }),
+  setSyncing: (syncing) => set({ isSyncing: syncing }),
+  setRefused: (refused) => set({ refused }),
+}));
@@ -5,6 +5,7 @@ export interface Project {
   color?: string;
   wallpaper?: string | null;
   userId: string; // UUID from auth.users.id
+  forkedFromId?: number | null; // The project this one was duplicated from
   createdAt: string;
   updatedAt: string;
   nodes?: Node[];
@@ -30,6 +31,7 @@ export interface Tag {
   nodes?: Node[];
 }
 
+// Not versioned, unlike nodes and links: of two edits to a group, the last one saved wins
 export interface Group {
   id: number;
   name: string;
@@ -48,6 +50,7 @@ export interface Node {
   x?: number | null;
   y?: number | null;
   customColor?: string | null;
+  version?: number; // Goes up with every saved edit except moves; see api.nodes.update
   createdAt: string;
   updatedAt: string;
   
@@ -66,7 +69,10 @@ export interface Link {
   targetId: number;
   color: string;
   description?: string | null;
+  relationshipType?: string | null; // RelationshipType.key, null for an untyped link
+  isBidirectional?: boolean; // Undirected link, drawn without an arrowhead
   userId?: string | null;
+  version?: number; // Goes up with every saved edit; see api.links.update
   createdAt: string;
   source?: Node;
   target?: Node;
@@ -90,7 +96,19 @@ export type DrawingTool =
   | 'eraser';
 
 export type StrokeStyle = 'solid' | 'dashed' | 'dotted';
+// Connections have one more pattern than drawings, so every default relationship type looks different
+export type LinkLineStyle = StrokeStyle | 'dash-dot';
 
+export interface RelationshipType {
+  id: number; // 0 for the built-in defaults that have not been customised
+  projectId: number;
+  key: string; // Stable slug stored on Link.relationshipType
+  label: string;
+  lineStyle: LinkLineStyle;
+  createdAt?: string;
+}
+
+// Not versioned, unlike nodes and links: of two edits to a drawing, the last one saved wins
 export interface DrawnShape {
   id: number; // API uses int. Frontend temp IDs might need management elsewhere.
   projectId: number;
@@ -119,13 +137,164 @@ export interface GraphSettings {
   fontFamily: string;
 }
 
-export interface PresenceState {
-  sessionId: string;
+export type StudyStatus = 'not-started' | 'learning' | 'mastered';
+
+// Kept apart from Node so any viewer can track progress against someone else's map
+export interface NodeProgress {
+  nodeId: number;
+  projectId: number;
+  userId: string | null; // null for signed-out viewers, stored on this device only
+  status: StudyStatus;
+  updatedAt: string;
+}
+
+export interface Flashcard {
+  id: number;
   nodeId: number;
+  projectId: number;
+  question: string;
+  answer: string;
+  createdAt?: string;
+}
+
+// SM-2 quality of recall: below 3 counts as a lapse
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface CardSchedule {
+  cardId: number;
+  userId: string | null; // null for signed-out reviewers, stored on this device only
+  easeFactor: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  dueAt: string;
+  lastReviewedAt?: string | null;
+}
+
+export interface ReviewLogEntry {
+  cardId: number;
+  userId: string | null;
+  grade: ReviewGrade;
+  interval: number; // Interval scheduled by this review, in days
+  reviewedAt: string;
+}
+
+export type RevisionEntity = 'node' | 'link' | 'drawing' | 'group';
+export type RevisionAction = 'create' | 'update' | 'delete';
+export type RevisionSnapshot = Node | Link | DrawnShape | Group;
+
+// One recorded change to a project. Walking revisions back from the current
+// state by their `before` snapshots gives the project at any earlier time.
+export interface Revision {
+  id: string;
+  projectId: number;
+  entity: RevisionEntity;
+  entityId: number;
+  action: RevisionAction;
+  before: RevisionSnapshot | null; // null for a create
+  after: RevisionSnapshot | null; // null for a delete
+  userId: string | null;
+  createdAt: string;
+}
+
+// Everything needed to open a project, in one request. `revision` goes up with every change to the project.
+export interface ProjectSnapshot {
+  project: Project;
+  groups: Group[];
+  nodes: Node[]; // With tags and attachments
+  links: Link[]; // Only those between the project's nodes
+  drawings: DrawnShape[];
+  relationshipTypes: RelationshipType[];
+  revision: number;
+}
+
+export interface ProjectChange {
+  revision: number;
+  entity: RevisionEntity;
+  entityId: number;
+  action: RevisionAction;
+  snapshot: RevisionSnapshot | null; // null for a delete
+}
+
+// What changed in a project after a given revision, oldest first
+export interface ProjectChangeSet {
+  revision: number;
+  changes: ProjectChange[];
+  // The server no longer has every change since the requested revision; load a new snapshot
+  reset?: boolean;
+}
+
+export interface PresenceState {
+  sessionId: string; // One per open tab
+  nodeId: number | null; // Node open in the editor
   userId: string;
+  displayName: string;
+  color: string;
+  cursor: { x: number; y: number } | null; // Graph coordinates
   lastSeen: string;
 }
 
+// Messages on a project's collaboration channel
+export type CollabMessage =
+  | { type: 'welcome'; peers: PresenceState[] } // From the relay on connect
+  | { type: 'presence'; presence: PresenceState }
+  | { type: 'leave'; sessionId: string }
+  | { type: 'change'; sessionId: string; entity: RevisionEntity; action: RevisionAction; id: number; snapshot: RevisionSnapshot | null }
+  | { type: 'move'; sessionId: string; positions: { id: number; x: number; y: number }[] }; // Nodes mid-drag, not saved yet
+
+// The owner is the project's userId; everyone else is a member
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+export type MemberRole = Exclude<ProjectRole, 'owner'>;
+
+export interface ProjectMember {
+  id: number;
+  projectId: number;
+  userId: string;
+  email: string;
+  displayName?: string | null;
+  role: MemberRole;
+  status: 'pending' | 'accepted'; // Pending until the invited user accepts
+  invitedBy: string;
+  createdAt: string;
+}
+
+// An unguessable link to a project's read-only preview
+export interface ShareLink {
+  id: number;
+  projectId: number;
+  token: string;
+  createdBy: string;
+  hasPassword: boolean; // The hash itself stays with the API
+  expiresAt?: string | null;
+  revokedAt?: string | null;
+  viewCount: number;
+  createdAt: string;
+}
+
+// A discussion pinned to a node, a connection or a point on the canvas; exactly one anchor is set
+export interface CommentThread {
+  id: number;
+  projectId: number;
+  nodeId?: number | null;
+  linkId?: number | null;
+  x?: number | null; // Canvas point, in graph coordinates
+  y?: number | null;
+  createdBy: string;
+  resolvedAt?: string | null;
+  resolvedBy?: string | null;
+  createdAt: string;
+}
+
+export interface ProjectComment {
+  id: number;
+  threadId: number;
+  projectId: number;
+  userId: string;
+  authorName: string;
+  body: string;
+  mentions: string[]; // Ids of the members mentioned with @
+  createdAt: string;
+}
+
 export interface Profile {
   id: string; // UUID
   email?: string | null;
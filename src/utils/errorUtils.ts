@@ -1,9 +1,40 @@
-export function getFriendlyErrorMessage(error: any): string {
+import { ApiError } from '@/lib/apiError';
+
+function getApiErrorMessage(error: ApiError): string {
+  if (error.code === 'network') {
+    return 'Unable to connect to the server. Please check your internet connection.';
+  }
+  if (error.code === 'invalid_response') {
+    return 'We received unexpected data from the server.';
+  }
+  // Conflicts and validation failures explain themselves
+  if (error.code === 'conflict' || Object.keys(error.fieldErrors).length > 0) {
+    return error.message;
+  }
+  if (error.status === 404) {
+    return 'We couldn\'t find what you were looking for.';
+  }
+  if (error.status === 401 || error.status === 403) {
+    return 'You don\'t have permission to perform this action.';
+  }
+  if (error.status === 429) {
+    return 'Too many requests. Please wait a moment and try again.';
+  }
+  if (error.status >= 500) {
+    return 'Something went wrong on our end. Please try again later.';
+  }
+  return error.message || 'An unexpected error occurred.';
+}
+
+export function getFriendlyErrorMessage(error: unknown): string {
   if (!error) return 'An unexpected error occurred.';
+  if (error instanceof ApiError) return getApiErrorMessage(error);
+
+  // Errors from elsewhere (next-auth, Google APIs) only have a message to go on
+  const message = typeof error === 'string'
+    ? error
+    : (error as { message?: unknown }).message ? String((error as { message?: unknown }).message) : '';
 
-  // specific string messages
-  const message = typeof error === 'string' ? error : error.message || '';
-  
   // Network / Connection
   if (message.includes('Failed to fetch') || message.includes('Network request failed') || message.includes('Connection refused')) {
     return 'Unable to connect to the server. Please check your internet connection.';